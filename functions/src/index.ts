@@ -1,22 +1,126 @@
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import * as path from "path";
+import { installApiFixtures } from "./shared/apiFixtureFiles";
+import { parseApiFixtureMode, withFixtureKey, FIXTURE_API_KEY, type ApiFixtureMode } from "./shared/apiFixtures";
+import { createCircuitBreaker, type CircuitBreaker, type HttpErrorKind } from "./shared/httpClient";
+import {
+    createInstagramProvider,
+    listRecentProfilePosts,
+    profilePostUrl,
+    resolveInstagramProviderConfig,
+    DEFAULT_PROFILE_BACKFILL_DAYS,
+    DEFAULT_TRACKED_MEDIA_TYPES,
+    INSTAGRAM_PROVIDER_SERVICE_NAMES,
+    type InstagramProvider,
+    type InstagramProviderConfig,
+    type TrackedInstagramProfile,
+} from "./shared/instagram";
+import {
+    extractInstagramShortcode,
+    extractYouTubeVideoId,
+    parseInstagramPostUrl,
+    parseInstagramProfileInput,
+    parseYouTubeChannelInput,
+    parseYouTubeVideoUrl,
+} from "./shared/platformUrls";
+import {
+    getPlatformModule,
+    resolvePlatformProviderConfig,
+    PLATFORM_IDS,
+    PLATFORM_MODULES,
+    type PlatformId,
+    type PlatformItemSnapshot,
+    type PlatformModule,
+    type PlatformProvider,
+    type PlatformProviderConfig,
+    type StoredPlatformItem,
+} from "./shared/platforms";
+import {
+    isDiscoveryDue,
+    isRefreshDue,
+    parseRefreshPolicy,
+    validateRefreshPolicy,
+    DEFAULT_REFRESH_POLICY,
+    REFRESH_POLICY_SERVICE_NAME,
+    type RefreshPolicy,
+} from "./shared/refreshPolicy";
+import { getOrphanStatus, parseRetentionSettings, DEFAULT_RETENTION_SETTINGS, RETENTION_SERVICE_NAME, type AnalyticsRetentionSettings } from "./shared/retention";
+import {
+    DEFAULT_CHANNEL_LOOKBACK_DAYS,
+    listChannelUploads,
+    resolveYouTubeChannel,
+    type TrackedYouTubeChannel,
+} from "./shared/youtubeChannels";
+import {
+    buildAuthorizationUrl,
+    exchangeAuthorizationCode,
+    fetchChannelAnalyticsReport,
+    fetchOwnChannel,
+    getReportPeriod,
+    parseOAuthClientConfig,
+    refreshAccessToken,
+    revokeToken,
+    YOUTUBE_ANALYTICS_OAUTH_SERVICE_NAME,
+    type ChannelAnalyticsReport,
+    type StoredChannelAnalyticsReport,
+    type StoredVideoOwnerAnalytics,
+    type YouTubeAnalyticsConnection,
+    type YouTubeAnalyticsOAuthConfig,
+} from "./shared/youtubeAnalytics";
+import { mapYouTubeVideoDetails, type YouTubeVideoDetails, type YouTubeVideoDetailsApiItem } from "./shared/youtubeVideoDetails";
+import {
+    COMMENT_INGESTION_SERVICE_NAME,
+    DEFAULT_COMMENT_INGESTION_SETTINGS,
+    listCommentReplies,
+    listCommentThreads,
+    parseCommentIngestionSettings,
+    type CommentData,
+    type CommentIngestionJob,
+    type CommentIngestionSettings,
+    type CommentIngestionState,
+} from "./shared/youtubeComments";
+import {
+    MAIL_SERVICE_NAME,
+    createMailTransport,
+    getDevelopmentMailTransportSettings,
+    parseMailTransportSettings,
+    type MailTransport,
+} from "./shared/mailTransport";
+import {
+    FIRESTORE_SERVER_UID,
+    OAUTH_STATE_TTL_SECONDS,
+    isOAuthStateCurrent,
+    isServerAssertionCurrent,
+    isSessionCurrent,
+    resolveSessionSecret,
+    type OAuthState,
+    type ServerAssertion,
+    type Session,
+} from "./shared/sessions";
 
 admin.initializeApp();
 const db = admin.firestore();
+// Replays or records external API responses when API_FIXTURE_MODE is set, e.g. in the emulator.
+installApiFixtures(process.env, path.join(__dirname, '..', '..'));
 
 // --- Type Definitions ---
 // We define types here to ensure data consistency within the function.
+// User documents also hold 'passwordHash', which stays on the server (see User Accounts below).
 interface User {
   id: string;
   email: string;
   role: 'user' | 'admin';
   name: string;
   lastLogin: string;
+  trackedChannels?: { youtube?: string[]; instagram?: string[] };
+  refreshPolicy?: RefreshPolicy; // Overrides the workspace refresh policy for this user's links
 }
 
 // YouTube-specific types
-interface YouTubeVideo {
+interface YouTubeVideo extends YouTubeVideoDetails {
   id: string;
   title: string;
   description?: string;
@@ -25,10 +129,14 @@ interface YouTubeVideo {
   likes: number;
   comments: number;
   publishedAt: string;
+  etag?: string; // Changes whenever the video's snippet or statistics change
 }
 interface StoredYouTubeVideo extends Partial<YouTubeVideo> {
   id: string; // videoId is the document ID
-  lastFetched?: string; // ISO string timestamp
+  lastFetched?: string; // ISO string timestamp, same as lastCheckedAt
+  lastCheckedAt?: string; // ISO string of the last successful fetch
+  lastChangedAt?: string; // ISO string of the last fetch that found different metrics or metadata
+  lastSnapshotDate?: string; // "YYYY-MM-DD" of the latest daily snapshot
 }
 
 // Instagram-specific types
@@ -43,14 +151,141 @@ interface StoredInstagramPost {
   comments: number;
   playCount: number;
   reshareCount?: number;
-  lastFetched: string; // ISO string
+  lastFetched: string; // ISO string, same as lastCheckedAt
+  lastCheckedAt?: string; // ISO string of the last fetch attempt
+  lastChangedAt?: string; // ISO string of the last fetch that found different metrics, metadata or error state
+  lastSnapshotDate?: string; // "YYYY-MM-DD" of the latest daily snapshot
   errorMessage?: string;
+  errorKind?: HttpErrorKind; // Classification of the last fetch failure
+}
+
+// Daily metric snapshots, one document per item per day (UTC), holding that day's cumulative totals.
+interface VideoMetricSnapshot {
+  date: string; // "YYYY-MM-DD", also the document ID
+  videoId: string;
+  views: number;
+  likes: number;
+  comments: number;
+  capturedAt: string; // ISO string
+}
+interface InstagramPostMetricSnapshot {
+  date: string; // "YYYY-MM-DD", also the document ID
+  postId: string; // Reel shortcode
+  likes: number;
+  comments: number;
+  playCount: number;
+  reshareCount: number;
+  capturedAt: string; // ISO string
+}
+
+// Refresh job types, mirrored from src/lib/refreshJobService.ts
+type RefreshPlatform = 'youtube' | 'instagram' | PlatformId;
+type RefreshJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+interface RefreshJobItem {
+  link: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  error?: string;
+  errorKind?: HttpErrorKind | 'invalid-link';
+}
+interface RefreshJob {
+  userId: string;
+  platform: RefreshPlatform;
+  status: RefreshJobStatus;
+  items: RefreshJobItem[];
+  totalItems: number;
+  processedItems: number;
+  succeededItems: number;
+  failedItems: number;
+  createdAt: string;
+  createdBy?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  quotaUnitsUsed?: number;
+}
+
+// Run summaries returned by the per-user refresh
+interface PlatformRefreshSummary {
+  platform: RefreshPlatform;
+  status: 'completed' | 'skipped';
+  skippedReason?: string;
+  totalLinks: number;
+  succeeded: number;
+  failed: number;
+  skipped: number; // Links not refreshed because the platform was skipped
+  notDue?: number; // Links left out of a scheduled refresh because the refresh policy did not make them due yet
+  failures: { link: string; error: string; errorKind?: RefreshJobItem['errorKind'] }[];
+  quotaUnitsUsed: number; // YouTube Data API units; always 0 for other platforms
+}
+interface UserRefreshSummary {
+  userId: string;
+  startedAt: string;
+  finishedAt: string;
+  platforms: PlatformRefreshSummary[];
+  error?: string; // Set when the user's refresh stopped unexpectedly
+}
+
+// Refresh run history, mirrored from src/lib/refreshRunService.ts
+type RefreshRunTrigger = 'scheduled' | 'manual' | 'refresh-job' | 'retry';
+interface RefreshRunCounts {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+interface RefreshRunErrorSample {
+  userId: string;
+  platform: RefreshPlatform;
+  link: string;
+  error: string;
+  errorKind?: RefreshJobItem['errorKind'];
+}
+// Stored in 'refreshRuns'; per-user summaries live in the run's 'users' subcollection.
+interface RefreshRun {
+  trigger: RefreshRunTrigger;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  requestedBy?: string;
+  refreshJobId?: string; // For 'refresh-job' runs
+  retryOf?: string; // For 'retry' runs, the ID of the run whose failed items were retried
+  userCount: number;
+  totals: RefreshRunCounts;
+  platforms: Record<RefreshPlatform, RefreshRunCounts>;
+  quotaUnitsUsed: number;
+  errorSamples: RefreshRunErrorSample[];
+  error?: string;
+}
+
+// Analytics reconciliation, mirrored from src/lib/reconciliationService.ts
+type ReconciliationAction = 'orphaned' | 'restored' | 'archived' | 'deleted';
+interface ReconciliationCounts {
+  scanned: number;
+  orphaned: number; // Orphaned and still within the grace period
+  restored: number; // Previously orphaned, assigned again
+  archived: number;
+  deleted: number;
+}
+// Stored in 'reconciliationRuns'.
+interface ReconciliationRun {
+  trigger: 'scheduled' | 'manual';
+  dryRun: boolean; // When set, nothing was changed and the counts show what would have happened
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt?: string;
+  requestedBy?: string;
+  settings: AnalyticsRetentionSettings;
+  platforms: Record<RefreshPlatform, ReconciliationCounts>;
+  samples: { userId: string; platform: RefreshPlatform; id: string; action: ReconciliationAction }[];
+  failedUsers: string[]; // Owners whose links could not be read; their documents were left alone
+  error?: string;
 }
 
 // Type for YouTube API video item
-interface YouTubeApiItem {
+interface YouTubeApiItem extends YouTubeVideoDetailsApiItem {
   id: string;
-  snippet: {
+  etag: string;
+  snippet: NonNullable<YouTubeVideoDetailsApiItem['snippet']> & {
     title: string;
     description: string;
     publishedAt: string;
@@ -69,28 +304,72 @@ interface YouTubeApiItem {
 
 // --- Firestore & API Helper Functions ---
 
+// Credentials for each platform, as configured in API Management
+interface ApiKeys extends Record<PlatformId, PlatformProviderConfig | null> {
+  youtube: string | null;
+  instagram: InstagramProviderConfig | null;
+}
+
 /**
- * Fetches API keys for required services from the 'apiKeys' collection in Firestore.
- * @returns {Promise<{youtube: string | null; instagram: string | null}>} A promise that resolves to an object containing the API keys.
+ * Resolves the provider of a platform module from its API Management entries.
+ * @param {PlatformModule} platformModule - The platform module.
+ * @param {ApiFixtureMode} fixtureMode - The API fixture mode; in replay mode a missing API key is not an error.
+ * @returns {Promise<PlatformProviderConfig | null>} The provider configuration, or null if it is incomplete.
  */
-async function getApiKeys(): Promise<{ youtube: string | null; instagram: string | null }> {
-  const apiKeys: { youtube: string | null; instagram: string | null } = {
+async function getPlatformProviderConfig(platformModule: PlatformModule, fixtureMode: ApiFixtureMode): Promise<PlatformProviderConfig | null> {
+    const serviceNames = Object.values(platformModule.providerServiceNames);
+    const snapshot = await db.collection('apiKeys').where('serviceName', 'in', serviceNames).get();
+    const keyValues: Record<string, string | undefined> = {};
+    snapshot.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
+        keyValues[doc.data().serviceName] = doc.data().keyValue;
+    });
+    if (fixtureMode === 'replay') {
+        keyValues[platformModule.providerServiceNames.apiKey] ??= FIXTURE_API_KEY;
+    }
+    const { config, error } = resolvePlatformProviderConfig(platformModule, keyValues);
+    if (!config) {
+        console.warn(`${platformModule.name} provider is not configured: ${error}`);
+    }
+    return config;
+}
+
+/**
+ * Fetches API keys for required services from the 'apiKeys' collection in Firestore,
+ * and resolves which Instagram provider and platform module providers to use.
+ * @returns {Promise<ApiKeys>} A promise that resolves to an object containing the credentials.
+ */
+async function getApiKeys(): Promise<ApiKeys> {
+  const apiKeys = {
     youtube: null,
     instagram: null,
-  };
+    ...Object.fromEntries(PLATFORM_IDS.map(id => [id, null])),
+  } as ApiKeys;
+  const fixtureMode = parseApiFixtureMode(process.env.API_FIXTURE_MODE);
   try {
     const youtubeSnapshot = await db.collection('apiKeys').where('serviceName', '==', 'youtube').limit(1).get();
-    if (!youtubeSnapshot.empty) {
-      apiKeys.youtube = youtubeSnapshot.docs[0].data().keyValue;
-    } else {
+    apiKeys.youtube = withFixtureKey(youtubeSnapshot.empty ? null : youtubeSnapshot.docs[0].data().keyValue, fixtureMode);
+    if (!apiKeys.youtube) {
       console.warn("YouTube API key not found in Firestore.");
     }
 
-    const instagramSnapshot = await db.collection('apiKeys').where('serviceName', '==', 'RapidAPI-Instagram-Scraper').limit(1).get();
-    if (!instagramSnapshot.empty) {
-      apiKeys.instagram = instagramSnapshot.docs[0].data().keyValue;
+    const instagramServiceNames = Object.values(INSTAGRAM_PROVIDER_SERVICE_NAMES);
+    const instagramSnapshot = await db.collection('apiKeys').where('serviceName', 'in', instagramServiceNames).get();
+    const instagramKeyValues: Record<string, string | undefined> = {};
+    instagramSnapshot.forEach((doc: admin.firestore.QueryDocumentSnapshot) => {
+        instagramKeyValues[doc.data().serviceName] = doc.data().keyValue;
+    });
+    if (fixtureMode === 'replay') {
+        instagramKeyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.rapidApi] ??= FIXTURE_API_KEY;
+    }
+    const { config, error } = resolveInstagramProviderConfig(instagramKeyValues);
+    if (config) {
+        apiKeys.instagram = config;
     } else {
-        console.warn("RapidAPI-Instagram-Scraper key not found in Firestore.");
+        console.warn(`Instagram provider is not configured: ${error}`);
+    }
+
+    for (const platformModule of PLATFORM_MODULES) {
+        apiKeys[platformModule.id] = await getPlatformProviderConfig(platformModule, fixtureMode);
     }
   } catch (error) {
     console.error("Error fetching API keys:", error);
@@ -98,6 +377,23 @@ async function getApiKeys(): Promise<{ youtube: string | null; instagram: string
   return apiKeys;
 }
 
+/**
+ * Fetches the workspace refresh policy from the 'refresh-policy' entry in the 'apiKeys' collection.
+ * Falls back to the default policy when the entry is missing or invalid.
+ * @returns {Promise<RefreshPolicy>} The workspace refresh policy.
+ */
+async function getWorkspaceRefreshPolicy(): Promise<RefreshPolicy> {
+    try {
+        const snapshot = await db.collection('apiKeys').where('serviceName', '==', REFRESH_POLICY_SERVICE_NAME).limit(1).get();
+        const { policy, error } = parseRefreshPolicy(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+        if (policy) return policy;
+        console.warn(`Ignoring the workspace refresh policy: ${error}`);
+    } catch (error) {
+        console.error("Error fetching the workspace refresh policy:", error);
+    }
+    return DEFAULT_REFRESH_POLICY;
+}
+
 /**
  * Fetches all user profiles from the 'users' collection.
  * @returns {Promise<User[]>} A promise that resolves to an array of User objects.
@@ -115,6 +411,23 @@ async function getAllUsers(): Promise<User[]> {
   return users;
 }
 
+/**
+ * Fetches a single user profile from the 'users' collection.
+ * @param {string} userId - The ID of the user.
+ * @returns {Promise<User | null>} A promise that resolves to the User object, or null if not found.
+ */
+async function getUserById(userId: string): Promise<User | null> {
+    try {
+        const docSnap = await db.collection('users').doc(userId).get();
+        if (docSnap.exists) {
+            return { id: docSnap.id, ...docSnap.data() } as User;
+        }
+    } catch (error) {
+        console.error(`Error fetching user ${userId}:`, error);
+    }
+    return null;
+}
+
 /**
  * Fetches the list of YouTube links assigned to a specific user.
  * @param {string} userId - The ID of the user.
@@ -151,236 +464,2460 @@ async function getInstagramLinks(userId: string): Promise<string[]> {
     return [];
 }
 
-
 /**
- * Extracts a YouTube video ID from various URL formats.
- * @param {string} url - The YouTube URL.
- * @returns {string | null} The extracted video ID or null if not found.
+ * Fetches the list of links assigned to a user on a platform module's platform.
+ * @param {string} userId - The ID of the user.
+ * @param {PlatformModule} platformModule - The platform module.
+ * @returns {Promise<string[]>} A promise that resolves to an array of link strings.
  */
-function extractYouTubeVideoId(url: string): string | null {
-    if (!url) return null;
-    let videoId: string | null = null;
+async function getPlatformLinks(userId: string, platformModule: PlatformModule): Promise<string[]> {
     try {
-        const urlObj = new URL(url);
-        if (urlObj.hostname === 'youtu.be') {
-            videoId = urlObj.pathname.slice(1).split(/[?&]/)[0];
-        } else if (urlObj.hostname.includes('youtube.com')) {
-            if (urlObj.pathname.startsWith('/embed/')) {
-                videoId = urlObj.pathname.split('/embed/')[1].split(/[?&]/)[0];
-            } else if (urlObj.pathname.startsWith('/watch')) {
-                videoId = urlObj.searchParams.get('v');
-            } else if (urlObj.pathname.startsWith('/shorts/')) {
-                videoId = urlObj.pathname.split('/shorts/')[1].split(/[?&]/)[0];
-            }
+        const docSnap = await db.collection(platformModule.collections.links).doc(userId).get();
+        if (docSnap.exists) {
+            return docSnap.data()?.links || [];
         }
-        if (videoId && videoId.includes('&')) videoId = videoId.split('&')[0];
-        if (videoId && videoId.includes('?')) videoId = videoId.split('?')[0];
-    } catch (e) {
-        console.error("Could not parse YouTube URL:", url, e);
-        return null;
+    } catch(error) {
+        console.error(`Error fetching ${platformModule.name} links for user ${userId}:`, error);
     }
-    return videoId;
+    return [];
+}
+
+
+// The videos endpoint accepts at most 50 IDs per request and costs 1 quota unit per request.
+const YOUTUBE_MAX_IDS_PER_REQUEST = 50;
+const YOUTUBE_VIDEOS_LIST_QUOTA_COST = 1;
+
+interface VideoStatisticsResult {
+  videos: Partial<YouTubeVideo>[];
+  missingIds: string[]; // Requested but not returned, e.g. deleted or private videos
+  failedIds: string[]; // In a page whose request failed
+  quotaUnitsUsed: number;
 }
 
 /**
- * Fetches statistics for a batch of YouTube videos.
+ * Fetches statistics and details (duration, tags, category and so on) for YouTube videos, requesting them in pages of 50 IDs.
+ * A failed page does not stop the remaining pages; its IDs are reported as failed.
  * @param {string[]} videoIds - An array of YouTube video IDs.
  * @param {string} apiKey - The YouTube Data API key.
- * @returns {Promise<Partial<YouTubeVideo>[]>} A promise that resolves to an array of video data objects.
+ * @returns {Promise<VideoStatisticsResult>} The merged video data, missing and failed IDs, and quota units used.
  */
-async function getVideoStatistics(videoIds: string[], apiKey: string): Promise<Partial<YouTubeVideo>[]> {
-    if (!videoIds || videoIds.length === 0) return [];
-    const idsString = videoIds.join(',');
-    const url = `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics&id=${idsString}&key=${apiKey}`;
-    try {
-        const response = await fetch(url);
-        if (!response.ok) {
-            const errorData = await response.json();
-            console.error('YouTube API Error:', errorData.error?.message || response.statusText);
-            return []; // Return empty on API error to not halt the entire process
-        }
-        const data = await response.json();
-        return data.items.map((item: YouTubeApiItem) => ({
-            id: item.id,
-            title: item.snippet.title,
-            description: item.snippet.description,
-            thumbnailUrl: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url,
-            views: parseInt(item.statistics.viewCount, 10) || 0,
-            likes: parseInt(item.statistics.likeCount || "0", 10) || 0,
-            comments: parseInt(item.statistics.commentCount || "0", 10) || 0,
-            publishedAt: item.snippet.publishedAt,
-        }));
-    } catch (error) {
-        console.error('Error fetching video statistics:', error);
-        return [];
+async function getVideoStatistics(videoIds: string[], apiKey: string): Promise<VideoStatisticsResult> {
+    const result: VideoStatisticsResult = { videos: [], missingIds: [], failedIds: [], quotaUnitsUsed: 0 };
+    if (!videoIds || videoIds.length === 0) return result;
+
+    const uniqueIds = Array.from(new Set(videoIds));
+    for (let i = 0; i < uniqueIds.length; i += YOUTUBE_MAX_IDS_PER_REQUEST) {
+        const pageIds = uniqueIds.slice(i, i + YOUTUBE_MAX_IDS_PER_REQUEST);
+        const url = `https://www.googleapis.com/youtube/v3/videos?part=snippet,contentDetails,statistics&id=${pageIds.join(',')}&key=${apiKey}`;
+        result.quotaUnitsUsed += YOUTUBE_VIDEOS_LIST_QUOTA_COST;
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                const errorData = await response.json();
+                console.error('YouTube API Error:', errorData.error?.message || response.statusText);
+                result.failedIds.push(...pageIds); // Keep going so one bad page doesn't halt the entire process
+                continue;
+            }
+            const data = await response.json();
+            const items: YouTubeApiItem[] = data.items || [];
+            const returnedIds = new Set(items.map(item => item.id));
+            result.videos.push(...items.map((item: YouTubeApiItem) => ({
+                id: item.id,
+                title: item.snippet.title,
+                description: item.snippet.description,
+                thumbnailUrl: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url,
+                views: parseInt(item.statistics.viewCount, 10) || 0,
+                likes: parseInt(item.statistics.likeCount || "0", 10) || 0,
+                comments: parseInt(item.statistics.commentCount || "0", 10) || 0,
+                publishedAt: item.snippet.publishedAt,
+                ...mapYouTubeVideoDetails(item),
+                etag: item.etag,
+            })));
+            result.missingIds.push(...pageIds.filter(id => !returnedIds.has(id)));
+        } catch (error) {
+            console.error('Error fetching video statistics:', error);
+            result.failedIds.push(...pageIds);
+        }
+    }
+    if (result.missingIds.length > 0) {
+        console.warn(`YouTube API did not return ${result.missingIds.length} video(s), likely deleted or private: ${result.missingIds.join(', ')}`);
     }
+    return result;
 }
 
 /**
- * Saves a single YouTube video's analytics data to Firestore for a specific user.
- * @param {string} userId - The ID of the user.
- * @param {Partial<YouTubeVideo>} videoData - The video data to save.
+ * Returns the snapshot document ID (UTC calendar day) for a timestamp.
+ * @param {string} isoTimestamp - An ISO string timestamp.
+ * @returns {string} The day in "YYYY-MM-DD" format.
  */
-async function saveVideoAnalytics(userId: string, videoData: Partial<YouTubeVideo>): Promise<void> {
-    if (!userId || !videoData || !videoData.id) return;
-    const videoDocRef = db.collection('userVideoAnalytics').doc(userId).collection('videos').doc(videoData.id);
-    const dataToSave: StoredYouTubeVideo = {
-        ...videoData,
-        id: videoData.id,
-        lastFetched: new Date().toISOString(),
-    };
-    await videoDocRef.set(dataToSave, { merge: true });
+function getSnapshotDateKey(isoTimestamp: string): string {
+    return isoTimestamp.slice(0, 10);
 }
 
+// Fields whose change makes a refresh rewrite the stored document and its daily snapshot.
+const YOUTUBE_CHANGE_FIELDS: (keyof YouTubeVideo)[] = [
+    'title', 'description', 'thumbnailUrl', 'views', 'likes', 'comments', 'publishedAt',
+    'duration', 'definition', 'hasCaptions', 'categoryId', 'defaultLanguage', 'liveBroadcastContent',
+];
+// Instagram thumbnail URLs carry a signature that changes on every fetch, so they are refreshed without counting as a change.
+const INSTAGRAM_CHANGE_FIELDS: (keyof StoredInstagramPost)[] = [
+    'reelUrl', 'caption', 'username', 'postedAt', 'likes', 'comments', 'playCount', 'reshareCount', 'errorMessage', 'errorKind',
+];
+// Platform module items; their metrics are compared one by one, and thumbnails are refreshed like Instagram's.
+const PLATFORM_ITEM_CHANGE_FIELDS: (keyof StoredPlatformItem)[] = ['link', 'title', 'author', 'publishedAt', 'errorMessage', 'errorKind'];
+
 /**
- * Extracts an Instagram shortcode from a Reel URL.
- * @param {string} url - The Instagram Reel URL.
- * @returns {string | null} The extracted shortcode or null.
+ * Checks whether fetched data differs from the stored document. Fields missing from the fetched data are ignored.
+ * @param {T | undefined} stored - The stored document, or undefined if there is none.
+ * @param {Partial<T>} fetched - The fetched data.
+ * @param {(keyof T)[]} fields - The fields to compare.
+ * @returns {boolean} True if there is no stored document or a compared field differs.
  */
-function extractInstagramShortcode(url: string): string | null {
-    if (!url) return null;
-    try {
-        const urlObj = new URL(url);
-        const regex = /\/(?:p|reel|reels)\/([a-zA-Z0-9_-]+)/;
-        const match = urlObj.pathname.match(regex);
-        return match && match[1] ? match[1] : null;
-    } catch (e) {
-        console.error("Could not parse Instagram URL:", url, e);
-        return null;
+function hasFieldChanges<T>(stored: T | undefined, fetched: Partial<T>, fields: (keyof T)[]): boolean {
+    if (!stored) return true;
+    return fields.some(field => fetched[field] !== undefined && fetched[field] !== stored[field]);
+}
+
+/**
+ * Saves a single YouTube video's analytics data to Firestore for a specific user. The document is only
+ * rewritten when the video changed (by etag, or by its fields for documents stored without one); otherwise
+ * just lastCheckedAt is updated. The day's snapshot in 'dailySnapshots' is written on change and once a day.
+ * @param {string} userId - The ID of the user.
+ * @param {Partial<YouTubeVideo>} videoData - The video data to save.
+ * @returns {Promise<boolean>} True if the video's data changed.
+ */
+async function saveVideoAnalytics(userId: string, videoData: Partial<YouTubeVideo>): Promise<boolean> {
+    if (!userId || !videoData || !videoData.id) return false;
+    const videoDocRef = db.collection('userVideoAnalytics').doc(userId).collection('videos').doc(videoData.id);
+    const stored = (await videoDocRef.get()).data() as StoredYouTubeVideo | undefined;
+    const checkedAt = new Date().toISOString();
+    const snapshotDate = getSnapshotDateKey(checkedAt);
+    // Videos stored before details were captured are rewritten once to add them, even if their etag is unchanged.
+    const missingDetails = !!stored && stored.duration === undefined && videoData.duration !== undefined;
+    const changed = missingDetails || (stored?.etag && videoData.etag
+        ? stored.etag !== videoData.etag
+        : hasFieldChanges<Partial<YouTubeVideo>>(stored, videoData, YOUTUBE_CHANGE_FIELDS));
+    const writeSnapshot = changed || stored?.lastSnapshotDate !== snapshotDate;
+
+    const batch = db.batch();
+    if (changed) {
+        const dataToSave: StoredYouTubeVideo = {
+            ...videoData,
+            id: videoData.id,
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            lastChangedAt: checkedAt,
+            lastSnapshotDate: snapshotDate,
+        };
+        batch.set(videoDocRef, dataToSave, { merge: true });
+    } else {
+        batch.update(videoDocRef, {
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            ...(writeSnapshot && { lastSnapshotDate: snapshotDate }),
+        });
+    }
+    if (writeSnapshot) {
+        const snapshot: VideoMetricSnapshot = {
+            date: snapshotDate,
+            videoId: videoData.id,
+            views: videoData.views || 0,
+            likes: videoData.likes || 0,
+            comments: videoData.comments || 0,
+            capturedAt: checkedAt,
+        };
+        batch.set(videoDocRef.collection('dailySnapshots').doc(snapshot.date), snapshot);
     }
+    await batch.commit();
+    return changed;
 }
 
 /**
- * Fetches statistics for a single Instagram Reel.
+ * Fetches statistics for a single Instagram Reel from the configured provider.
  * @param {string} shortcode - The shortcode of the Instagram Reel.
- * @param {string} apiKey - The RapidAPI key for the Instagram scraper.
- * @returns {Promise<Partial<StoredInstagramPost> | null>} A promise that resolves to the post data or null.
- */
-async function fetchInstagramReelStats(shortcode: string, apiKey: string): Promise<Partial<StoredInstagramPost>> {
-    const apiUrl = `https://instagram-api-fast-reliable-data-scraper.p.rapidapi.com/post?shortcode=${shortcode}`;
-    const headers = {
-        'X-RapidAPI-Key': apiKey,
-        'X-RapidAPI-Host': 'instagram-api-fast-reliable-data-scraper.p.rapidapi.com',
-    };
-    try {
-        const response = await fetch(apiUrl, { method: 'GET', headers });
-        if (!response.ok) {
-            console.error(`Instagram API Error for ${shortcode}: Status ${response.status}`);
-            return { id: shortcode, errorMessage: `API request failed with status ${response.status}` };
-        }
-        const postData = await response.json();
+ * @param {InstagramProvider} provider - The Instagram data provider.
+ * @returns {Promise<{post: Partial<StoredInstagramPost>; attempts: number; circuitOpen: boolean}>} The post data
+ * (with errorMessage and errorKind on failure), the number of attempts made and whether the circuit was open.
+ */
+async function fetchInstagramReelStats(
+    shortcode: string,
+    provider: InstagramProvider
+): Promise<{ post: Partial<StoredInstagramPost>; attempts: number; circuitOpen: boolean }> {
+    const result = await provider.fetchPostByShortcode(shortcode);
+    if (!result.ok) {
+        console.error(`Instagram ${provider.name} error for ${shortcode} (${result.error.kind}): ${result.error.message}`);
         return {
-            id: shortcode,
-            likes: Number(postData.like_count) || 0,
-            comments: Number(postData.comment_count) || 0,
-            playCount: Number(postData.play_count) || 0,
-            reshareCount: Number(postData.reshare_count) || 0,
-            caption: postData.caption?.text,
-            thumbnailUrl: postData.image_versions2?.candidates?.[0]?.url,
-            username: postData.user?.username,
-            postedAt: postData.taken_at ? new Date(postData.taken_at * 1000).toISOString() : undefined,
+            post: { id: shortcode, errorMessage: result.error.message, errorKind: result.error.kind },
+            attempts: result.attempts,
+            circuitOpen: !!result.error.circuitOpen,
         };
-    } catch (error) {
-        console.error(`Error fetching Instagram stats for ${shortcode}:`, error);
-        return { id: shortcode, errorMessage: 'Fetch failed.' };
     }
+    const postData = result.data;
+    return {
+        post: {
+            id: shortcode,
+            likes: postData.likes,
+            comments: postData.comments,
+            playCount: postData.playCount,
+            reshareCount: postData.reshareCount,
+            caption: postData.caption,
+            thumbnailUrl: postData.thumbnailUrl,
+            username: postData.username,
+            postedAt: postData.postedAt,
+        },
+        attempts: result.attempts,
+        circuitOpen: false,
+    };
 }
 
 /**
- * Saves a single Instagram post's analytics data to Firestore.
+ * Saves a single Instagram post's analytics data to Firestore. The document is only rewritten when the
+ * post's metrics, metadata or error state changed; otherwise just lastCheckedAt and the thumbnail are updated.
+ * The day's snapshot in 'dailySnapshots' is written on change and once a day; failed fetches get no snapshot.
  * @param {string} userId - The ID of the user.
  * @param {Partial<StoredInstagramPost>} postData - The post data to save.
+ * @returns {Promise<boolean>} True if the post's data changed.
  */
-async function saveInstagramPostAnalytics(userId: string, postData: Partial<StoredInstagramPost>): Promise<void> {
-    if (!userId || !postData || !postData.id) return;
+async function saveInstagramPostAnalytics(userId: string, postData: Partial<StoredInstagramPost>): Promise<boolean> {
+    if (!userId || !postData || !postData.id) return false;
     const postDocRef = db.collection('userInstagramPostAnalytics').doc(userId).collection('posts').doc(postData.id);
-    const dataToSave: StoredInstagramPost = {
-        reelUrl: '',
-        likes: 0,
-        comments: 0,
-        playCount: 0,
-        ...postData,
-        id: postData.id,
-        lastFetched: new Date().toISOString(),
-    };
-    await postDocRef.set(dataToSave, { merge: true });
+    const stored = (await postDocRef.get()).data() as StoredInstagramPost | undefined;
+    const checkedAt = new Date().toISOString();
+    const snapshotDate = getSnapshotDateKey(checkedAt);
+    const failed = !!postData.errorMessage;
+    // A successful fetch after a failed one clears the error, which counts as a change.
+    const changed = hasFieldChanges(stored, postData, INSTAGRAM_CHANGE_FIELDS) || (!failed && !!stored?.errorMessage);
+    const writeSnapshot = !failed && (changed || stored?.lastSnapshotDate !== snapshotDate);
+
+    const batch = db.batch();
+    if (changed) {
+        const dataToSave: StoredInstagramPost = {
+            // A failed fetch keeps the metrics of the last successful one
+            reelUrl: stored?.reelUrl ?? '',
+            likes: stored?.likes ?? 0,
+            comments: stored?.comments ?? 0,
+            playCount: stored?.playCount ?? 0,
+            ...postData,
+            id: postData.id,
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            lastChangedAt: checkedAt,
+            ...(writeSnapshot && { lastSnapshotDate: snapshotDate }),
+        };
+        batch.set(postDocRef, failed ? dataToSave : {
+            ...dataToSave,
+            // Clear the error left behind by an earlier failed fetch
+            errorMessage: admin.firestore.FieldValue.delete(),
+            errorKind: admin.firestore.FieldValue.delete(),
+        }, { merge: true });
+    } else {
+        batch.update(postDocRef, {
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            ...(postData.thumbnailUrl && { thumbnailUrl: postData.thumbnailUrl }),
+            ...(writeSnapshot && { lastSnapshotDate: snapshotDate }),
+        });
+    }
+    if (writeSnapshot) {
+        const current = { ...stored, ...postData };
+        const snapshot: InstagramPostMetricSnapshot = {
+            date: snapshotDate,
+            postId: postData.id,
+            likes: current.likes || 0,
+            comments: current.comments || 0,
+            playCount: current.playCount || 0,
+            reshareCount: current.reshareCount || 0,
+            capturedAt: checkedAt,
+        };
+        batch.set(postDocRef.collection('dailySnapshots').doc(snapshot.date), snapshot);
+    }
+    await batch.commit();
+    return changed;
 }
 
+/**
+ * Saves a single item of a platform module to Firestore, the same way as Instagram posts: the document is only
+ * rewritten when the item's metrics, metadata or error state changed, and the day's snapshot is written on
+ * change and once a day. Failed fetches keep the last metrics and get no snapshot.
+ * @param {string} userId - The ID of the user.
+ * @param {PlatformModule} platformModule - The item's platform module.
+ * @param {Partial<StoredPlatformItem>} itemData - The item data to save.
+ * @returns {Promise<boolean>} True if the item's data changed.
+ */
+async function savePlatformItemAnalytics(userId: string, platformModule: PlatformModule, itemData: Partial<StoredPlatformItem>): Promise<boolean> {
+    if (!userId || !itemData || !itemData.id) return false;
+    const { analytics, items } = platformModule.collections;
+    const itemDocRef = db.collection(analytics).doc(userId).collection(items).doc(itemData.id);
+    const stored = (await itemDocRef.get()).data() as StoredPlatformItem | undefined;
+    const checkedAt = new Date().toISOString();
+    const snapshotDate = getSnapshotDateKey(checkedAt);
+    const failed = !!itemData.errorMessage;
+    const metricsChanged = !!itemData.metrics && Object.entries(itemData.metrics).some(([key, value]) => stored?.metrics?.[key] !== value);
+    // A successful fetch after a failed one clears the error, which counts as a change.
+    const changed = hasFieldChanges(stored, itemData, PLATFORM_ITEM_CHANGE_FIELDS) || metricsChanged || (!failed && !!stored?.errorMessage);
+    const writeSnapshot = !failed && (changed || stored?.lastSnapshotDate !== snapshotDate);
 
-// --- Main Scheduled Function ---
+    const batch = db.batch();
+    if (changed) {
+        const dataToSave: StoredPlatformItem = {
+            // A failed fetch keeps the metrics of the last successful one
+            link: stored?.link ?? '',
+            metrics: stored?.metrics ?? {},
+            ...itemData,
+            id: itemData.id,
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            lastChangedAt: checkedAt,
+            ...(writeSnapshot && { lastSnapshotDate: snapshotDate }),
+        };
+        batch.set(itemDocRef, failed ? dataToSave : {
+            ...dataToSave,
+            // Clear the error left behind by an earlier failed fetch
+            errorMessage: admin.firestore.FieldValue.delete(),
+            errorKind: admin.firestore.FieldValue.delete(),
+        }, { merge: true });
+    } else {
+        batch.update(itemDocRef, {
+            lastFetched: checkedAt,
+            lastCheckedAt: checkedAt,
+            ...(itemData.thumbnailUrl && { thumbnailUrl: itemData.thumbnailUrl }),
+            ...(writeSnapshot && { lastSnapshotDate: snapshotDate }),
+        });
+    }
+    if (writeSnapshot) {
+        const currentMetrics = { ...stored?.metrics, ...itemData.metrics };
+        const snapshot: PlatformItemSnapshot = {
+            date: snapshotDate,
+            itemId: itemData.id,
+            metrics: Object.fromEntries(platformModule.metrics.map(({ key }) => [key, currentMetrics[key] || 0])),
+            capturedAt: checkedAt,
+        };
+        batch.set(itemDocRef.collection('dailySnapshots').doc(snapshot.date), snapshot);
+    }
+    await batch.commit();
+    return changed;
+}
+
+
+// --- Channel Tracking ---
+
+// Later syncs re-check the last day before the previous sync, so uploads that became visible late are not missed.
+const CHANNEL_SYNC_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+interface ChannelDiscoveryResult {
+    newLinks: string[];
+    quotaUnitsUsed: number;
+    errors: string[];
+}
 
 /**
- * A scheduled Cloud Function that runs daily to refresh social media analytics data.
+ * Adds uploads of the user's tracked YouTube channels (trackedChannels.youtube) to the user's links.
+ * The first sync of a channel backfills its look-back window; later syncs only pick up uploads since
+ * the previous sync, so links an admin deleted are not added again.
+ * @param {User} user - The user whose channels should be synced.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @returns {Promise<ChannelDiscoveryResult>} The links that were added, the quota used and per-channel errors.
  */
-export const dailyDataRefresh = functions
-    .runWith({timeoutSeconds: 540, memory: "1GB"})
-    .pubsub.schedule("every day 03:00")
-    .timeZone("Asia/Kolkata")
-    .onRun(async (context: functions.EventContext) => {
-        console.log("Daily data refresh job started!");
+async function discoverYouTubeUploads(user: User, apiKey: string): Promise<ChannelDiscoveryResult> {
+    const result: ChannelDiscoveryResult = { newLinks: [], quotaUnitsUsed: 0, errors: [] };
+    const channelEntries = user.trackedChannels?.youtube || [];
+    if (channelEntries.length === 0) return result;
 
-        const apiKeys = await getApiKeys();
-        
-        const users = await getAllUsers();
-        if (users.length === 0) {
-            console.log("No users found to refresh data for.");
-            return null;
+    const linksDocRef = db.collection('youtube').doc(user.id);
+    const linksDoc = (await linksDocRef.get()).data() || {};
+    const channels: Record<string, TrackedYouTubeChannel> = linksDoc.channels || {};
+    const knownVideoIds = new Set(((linksDoc.links || []) as string[]).map(link => {
+        const parsed = parseYouTubeVideoUrl(link);
+        return parsed.ok ? parsed.value.videoId : link;
+    }));
+
+    for (const entry of channelEntries) {
+        let channel = channels[entry];
+        if (!channel?.uploadsPlaylistId) {
+            // Entries added outside the YouTube page have no stored details yet.
+            const reference = parseYouTubeChannelInput(entry);
+            if (!reference.ok) {
+                result.errors.push(`${entry}: ${reference.message}`);
+                continue;
+            }
+            const resolved = await resolveYouTubeChannel(reference.value, apiKey);
+            result.quotaUnitsUsed += resolved.attempts;
+            if (!resolved.ok) {
+                result.errors.push(`${entry}: ${resolved.error.message}`);
+                continue;
+            }
+            channel = { ...resolved.data, lookbackDays: DEFAULT_CHANNEL_LOOKBACK_DAYS, addedAt: new Date().toISOString() };
         }
 
-        console.log(`Found ${users.length} user(s) to process.`);
+        const syncStartedAt = new Date();
+        const lookbackStart = syncStartedAt.getTime() - channel.lookbackDays * 24 * 60 * 60 * 1000;
+        const sinceLastSync = channel.lastSyncedAt ? new Date(channel.lastSyncedAt).getTime() - CHANNEL_SYNC_OVERLAP_MS : lookbackStart;
+        const uploads = await listChannelUploads(channel.uploadsPlaylistId, apiKey, new Date(Math.max(lookbackStart, sinceLastSync)));
+        result.quotaUnitsUsed += uploads.quotaUnitsUsed;
 
-        for (const user of users) {
-            console.log(`--- Processing user: ${user.name} (${user.id}) ---`);
-            
-            // --- Fetch YouTube links and stats ---
-            if (apiKeys.youtube) {
-                const youtubeLinks = await getYouTubeLinks(user.id);
-                if (youtubeLinks.length > 0) {
-                    console.log(`Found ${youtubeLinks.length} YouTube links for ${user.name}.`);
-                    const videoIds = youtubeLinks.map(extractYouTubeVideoId).filter((id): id is string => id !== null);
-                    if (videoIds.length > 0) {
-                        const videoStats = await getVideoStatistics(videoIds, apiKeys.youtube);
-                        for (const video of videoStats) {
-                            await saveVideoAnalytics(user.id, video);
-                        }
-                        console.log(`Updated stats for ${videoStats.length} YouTube videos for ${user.name}.`);
-                    } else {
-                        console.log(`No valid YouTube video IDs extracted for ${user.name}.`);
-                    }
-                } else {
-                    console.log(`No YouTube links for ${user.name}.`);
-                }
+        for (const upload of uploads.uploads) {
+            if (knownVideoIds.has(upload.videoId)) continue;
+            knownVideoIds.add(upload.videoId);
+            result.newLinks.push(`https://www.youtube.com/watch?v=${upload.videoId}`);
+        }
+        if (uploads.error) {
+            result.errors.push(`${channel.title}: ${uploads.error.message}`);
+            channels[entry] = channel;
+        } else {
+            channels[entry] = { ...channel, lastSyncedAt: syncStartedAt.toISOString() };
+        }
+    }
+
+    await linksDocRef.set({
+        channels,
+        ...(result.newLinks.length > 0 && { links: admin.firestore.FieldValue.arrayUnion(...result.newLinks) }),
+    }, { merge: true });
+    if (result.newLinks.length > 0) {
+        console.log(`Added ${result.newLinks.length} new upload(s) from ${channelEntries.length} tracked channel(s) for user ${user.id}.`);
+    }
+    for (const error of result.errors) {
+        console.error(`YouTube channel sync error for user ${user.id}: ${error}`);
+    }
+    return result;
+}
+
+
+/**
+ * Adds recent posts of the user's tracked Instagram profiles (trackedChannels.instagram) to the user's links,
+ * keeping only the media types chosen for each profile. Like channel tracking, the first sync backfills the
+ * profile's window and later syncs only pick up posts since the previous sync.
+ * @param {User} user - The user whose profiles should be synced.
+ * @param {InstagramProvider} provider - The Instagram data provider.
+ * @returns {Promise<ChannelDiscoveryResult>} The links that were added and per-profile errors (quotaUnitsUsed is always 0).
+ */
+async function discoverInstagramPosts(user: User, provider: InstagramProvider): Promise<ChannelDiscoveryResult> {
+    const result: ChannelDiscoveryResult = { newLinks: [], quotaUnitsUsed: 0, errors: [] };
+    const profileEntries = user.trackedChannels?.instagram || [];
+    if (profileEntries.length === 0) return result;
+
+    const linksDocRef = db.collection('instagramReelLinks').doc(user.id);
+    const linksDoc = (await linksDocRef.get()).data() || {};
+    const profiles: Record<string, TrackedInstagramProfile> = linksDoc.profiles || {};
+    const knownShortcodes = new Set(((linksDoc.links || []) as string[]).map(link => {
+        const parsed = parseInstagramPostUrl(link);
+        return parsed.ok ? parsed.value.shortcode : link;
+    }));
+
+    for (const entry of profileEntries) {
+        let profile = profiles[entry];
+        if (!profile) {
+            // Entries added outside the Instagram page have no stored options yet.
+            const parsed = parseInstagramProfileInput(entry);
+            if (!parsed.ok) {
+                result.errors.push(`${entry}: ${parsed.message}`);
+                continue;
+            }
+            profile = {
+                username: parsed.value.username,
+                mediaTypes: DEFAULT_TRACKED_MEDIA_TYPES,
+                backfillDays: DEFAULT_PROFILE_BACKFILL_DAYS,
+                addedAt: new Date().toISOString(),
+            };
+        }
+
+        const syncStartedAt = new Date();
+        const backfillStart = syncStartedAt.getTime() - profile.backfillDays * 24 * 60 * 60 * 1000;
+        const sinceLastSync = profile.lastSyncedAt ? new Date(profile.lastSyncedAt).getTime() - CHANNEL_SYNC_OVERLAP_MS : backfillStart;
+        const listed = await listRecentProfilePosts(provider, profile.username, new Date(Math.max(backfillStart, sinceLastSync)), profile.mediaTypes);
+
+        for (const post of listed.posts) {
+            if (knownShortcodes.has(post.shortcode)) continue;
+            knownShortcodes.add(post.shortcode);
+            result.newLinks.push(profilePostUrl(post));
+        }
+        if (listed.error) {
+            result.errors.push(`@${profile.username}: ${listed.error.message}`);
+            profiles[entry] = profile;
+        } else {
+            profiles[entry] = { ...profile, lastSyncedAt: syncStartedAt.toISOString() };
+        }
+    }
+
+    await linksDocRef.set({
+        profiles,
+        ...(result.newLinks.length > 0 && { links: admin.firestore.FieldValue.arrayUnion(...result.newLinks) }),
+    }, { merge: true });
+    if (result.newLinks.length > 0) {
+        console.log(`Added ${result.newLinks.length} new post(s) from ${profileEntries.length} tracked profile(s) for user ${user.id}.`);
+    }
+    for (const error of result.errors) {
+        console.error(`Instagram profile sync error for user ${user.id}: ${error}`);
+    }
+    return result;
+}
+
+
+// --- Refresh Job Processing ---
+
+const MAX_ITEM_ATTEMPTS = 3;
+
+/**
+ * Pauses execution for the given number of milliseconds.
+ * @param {number} ms - The delay in milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Counts processed, succeeded and failed items of a refresh job.
+ * @param {RefreshJobItem[]} items - The job items.
+ * @returns {Pick<RefreshJob, 'processedItems' | 'succeededItems' | 'failedItems'>} The progress counters.
+ */
+function summarizeJobItems(items: RefreshJobItem[]): Pick<RefreshJob, 'processedItems' | 'succeededItems' | 'failedItems'> {
+    const succeededItems = items.filter(item => item.status === 'succeeded').length;
+    const failedItems = items.filter(item => item.status === 'failed').length;
+    return { processedItems: succeededItems + failedItems, succeededItems, failedItems };
+}
+
+/**
+ * Refreshes the YouTube videos behind a set of job items, retrying videos whose request failed.
+ * Videos the API does not return (deleted or private) fail without a retry.
+ * Items are updated in place; onProgress is called after every attempt round.
+ * @param {string} userId - The ID of the user who owns the links.
+ * @param {RefreshJobItem[]} items - The job items to process.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @param {Function} onProgress - Persists the current state of the items.
+ * @returns {Promise<number>} The YouTube Data API quota units consumed.
+ */
+async function refreshYouTubeItems(
+    userId: string,
+    items: RefreshJobItem[],
+    apiKey: string,
+    onProgress: (items: RefreshJobItem[]) => Promise<void>
+): Promise<number> {
+    let quotaUnitsUsed = 0;
+    let unchangedVideos = 0;
+    for (let attempt = 1; attempt <= MAX_ITEM_ATTEMPTS; attempt++) {
+        const pendingItems = items.filter(item => item.status === 'pending');
+        if (pendingItems.length === 0) break;
+
+        const itemsWithIds: { item: RefreshJobItem; videoId: string }[] = [];
+        for (const item of pendingItems) {
+            item.attempts = attempt;
+            const parsed = parseYouTubeVideoUrl(item.link);
+            if (parsed.ok) {
+                itemsWithIds.push({ item, videoId: parsed.value.videoId });
             } else {
-                console.log("Skipping YouTube refresh due to missing API key.");
+                item.status = 'failed';
+                item.error = parsed.message;
+                item.errorKind = 'invalid-link';
             }
+        }
 
-            // --- Fetch Instagram links and stats ---
-            if (apiKeys.instagram) {
-                const instagramLinks = await getInstagramLinks(user.id);
-                if (instagramLinks.length > 0) {
-                    console.log(`Found ${instagramLinks.length} Instagram links for ${user.name}.`);
-                    let successCount = 0;
-                    for (const link of instagramLinks) {
-                        const shortcode = extractInstagramShortcode(link);
-                        if (shortcode) {
-                            const postStats = await fetchInstagramReelStats(shortcode, apiKeys.instagram);
-                            await saveInstagramPostAnalytics(user.id, { ...postStats, reelUrl: link });
-                            if (!postStats.errorMessage) {
-                                successCount++;
-                            }
-                        }
-                        // Optional: Add a small delay between requests to be polite to the API
-                        await new Promise(resolve => setTimeout(resolve, 1000));
-                    }
-                    console.log(`Updated stats for ${successCount}/${instagramLinks.length} Instagram reels for ${user.name}.`);
-                } else {
-                    console.log(`No Instagram links for ${user.name}.`);
+        const uniqueVideoIds = Array.from(new Set(itemsWithIds.map(({ videoId }) => videoId)));
+        const videoStats = await getVideoStatistics(uniqueVideoIds, apiKey);
+        quotaUnitsUsed += videoStats.quotaUnitsUsed;
+        const statsById = new Map(videoStats.videos.map(video => [video.id, video]));
+        const missingIds = new Set(videoStats.missingIds);
+
+        for (const { item, videoId } of itemsWithIds) {
+            const video = statsById.get(videoId);
+            if (video) {
+                try {
+                    if (!(await saveVideoAnalytics(userId, video))) unchangedVideos++;
+                    item.status = 'succeeded';
+                    delete item.error;
+                    delete item.errorKind;
+                } catch (error) {
+                    console.error(`Error saving YouTube video ${videoId} for user ${userId}:`, error);
+                    item.error = 'Failed to save video data.';
+                    item.errorKind = 'transient';
                 }
+            } else if (missingIds.has(videoId)) {
+                item.status = 'failed';
+                item.error = 'Video was not found. It may have been deleted or made private.';
+                item.errorKind = 'not-found';
             } else {
-                console.log("Skipping Instagram refresh due to missing API key.");
+                item.error = 'The YouTube API request for this video failed.';
+                item.errorKind = 'transient';
+            }
+            if (item.status === 'pending' && attempt === MAX_ITEM_ATTEMPTS) {
+                item.status = 'failed';
             }
         }
 
-        console.log("Daily data refresh job finished.");
-        return null;
-    });
+        await onProgress(items);
+        if (attempt < MAX_ITEM_ATTEMPTS && items.some(item => item.status === 'pending')) {
+            await sleep(2000 * attempt);
+        }
+    }
+    if (unchangedVideos > 0) {
+        console.log(`${unchangedVideos} YouTube video(s) of user ${userId} were unchanged since their last check.`);
+    }
+    return quotaUnitsUsed;
+}
+
+/**
+ * Refreshes the Instagram Reels behind a set of job items one by one. Retries happen inside the
+ * HTTP client; once the run's circuit breaker opens, the remaining items fail without a request.
+ * Items are updated in place; onProgress is called after every item.
+ * @param {string} userId - The ID of the user who owns the links.
+ * @param {RefreshJobItem[]} items - The job items to process.
+ * @param {InstagramProvider} provider - The Instagram data provider, holding the run's circuit breaker.
+ * @param {Function} onProgress - Persists the current state of the items.
+ */
+async function refreshInstagramItems(
+    userId: string,
+    items: RefreshJobItem[],
+    provider: InstagramProvider,
+    onProgress: (items: RefreshJobItem[]) => Promise<void>
+): Promise<void> {
+    let unchangedPosts = 0;
+    for (const item of items) {
+        if (item.status !== 'pending') continue;
+
+        const parsed = parseInstagramPostUrl(item.link);
+        if (!parsed.ok) {
+            item.attempts++;
+            item.status = 'failed';
+            item.error = parsed.message;
+            item.errorKind = 'invalid-link';
+            await onProgress(items);
+            continue;
+        }
+        const { shortcode } = parsed.value;
+
+        const { post, attempts, circuitOpen } = await fetchInstagramReelStats(shortcode, provider);
+        item.attempts += attempts;
+        if (!post.errorMessage) {
+            if (!(await saveInstagramPostAnalytics(userId, { ...post, reelUrl: item.link }))) unchangedPosts++;
+            item.status = 'succeeded';
+            delete item.error;
+            delete item.errorKind;
+        } else {
+            // Record the failure on the post as well, unless the request was never sent.
+            if (!circuitOpen) {
+                await saveInstagramPostAnalytics(userId, { ...post, reelUrl: item.link });
+            }
+            item.status = 'failed';
+            item.error = post.errorMessage;
+            if (post.errorKind) item.errorKind = post.errorKind;
+        }
+
+        await onProgress(items);
+        if (!circuitOpen && provider.name !== 'fixture') {
+            // Be polite to the API between requests
+            await sleep(1000);
+        }
+    }
+    if (unchangedPosts > 0) {
+        console.log(`${unchangedPosts} Instagram post(s) of user ${userId} were unchanged since their last check.`);
+    }
+}
+
+/**
+ * Refreshes the items behind a set of job items on a platform module's platform, one request per item.
+ * Items are updated in place; onProgress is called after every item.
+ * @param {string} userId - The ID of the user who owns the links.
+ * @param {PlatformModule} platformModule - The platform module.
+ * @param {RefreshJobItem[]} items - The job items to process.
+ * @param {PlatformProvider} provider - The platform's data provider.
+ * @param {Function} onProgress - Persists the current state of the items.
+ */
+async function refreshPlatformItems(
+    userId: string,
+    platformModule: PlatformModule,
+    items: RefreshJobItem[],
+    provider: PlatformProvider,
+    onProgress: (items: RefreshJobItem[]) => Promise<void>
+): Promise<void> {
+    let unchangedItems = 0;
+    for (const item of items) {
+        if (item.status !== 'pending') continue;
+
+        const parsed = platformModule.parseLink(item.link);
+        if (!parsed.ok) {
+            item.attempts++;
+            item.status = 'failed';
+            item.error = parsed.message;
+            item.errorKind = 'invalid-link';
+            await onProgress(items);
+            continue;
+        }
+
+        const result = await provider.fetchItem(parsed.value);
+        item.attempts += result.attempts;
+        const circuitOpen = !result.ok && !!result.error.circuitOpen;
+        if (result.ok) {
+            if (!(await savePlatformItemAnalytics(userId, platformModule, { ...result.data, id: parsed.value.id, link: item.link }))) unchangedItems++;
+            item.status = 'succeeded';
+            delete item.error;
+            delete item.errorKind;
+        } else {
+            console.error(`${platformModule.name} ${provider.name} error for ${parsed.value.id} (${result.error.kind}): ${result.error.message}`);
+            // Record the failure on the item as well, unless the request was never sent.
+            if (!circuitOpen) {
+                await savePlatformItemAnalytics(userId, platformModule, {
+                    id: parsed.value.id,
+                    link: item.link,
+                    errorMessage: result.error.message,
+                    errorKind: result.error.kind,
+                });
+            }
+            item.status = 'failed';
+            item.error = result.error.message;
+            item.errorKind = result.error.kind;
+        }
+
+        await onProgress(items);
+        if (!circuitOpen && provider.name !== 'fixture') {
+            // Be polite to the API between requests
+            await sleep(1000);
+        }
+    }
+    if (unchangedItems > 0) {
+        console.log(`${unchangedItems} ${platformModule.name} ${platformModule.itemLabelPlural} of user ${userId} were unchanged since their last check.`);
+    }
+}
+
+const ALL_PLATFORMS: RefreshPlatform[] = ['youtube', 'instagram', ...PLATFORM_IDS];
+
+// The collection holding each user's assigned links, one document per user.
+const LINK_COLLECTIONS = {
+    youtube: 'youtube',
+    instagram: 'instagramReelLinks',
+    ...Object.fromEntries(PLATFORM_MODULES.map(platformModule => [platformModule.id, platformModule.collections.links])),
+} as Record<RefreshPlatform, string>;
+
+/**
+ * Fetches the list of links assigned to a user on any platform.
+ * @param {string} userId - The ID of the user.
+ * @param {RefreshPlatform} platform - The platform.
+ * @returns {Promise<string[]>} The links; empty if they could not be read.
+ */
+function getAssignedLinks(userId: string, platform: RefreshPlatform): Promise<string[]> {
+    if (platform === 'youtube') return getYouTubeLinks(userId);
+    if (platform === 'instagram') return getInstagramLinks(userId);
+    return getPlatformLinks(userId, getPlatformModule(platform));
+}
+
+/**
+ * Extracts the ID an assigned link's analytics are stored under: the video ID, shortcode or platform module item ID.
+ * @param {RefreshPlatform} platform - The platform of the link.
+ * @param {string} link - The link.
+ * @returns {string | null} The ID, or null if the link cannot be parsed.
+ */
+function extractLinkId(platform: RefreshPlatform, link: string): string | null {
+    if (platform === 'youtube') return extractYouTubeVideoId(link);
+    if (platform === 'instagram') return extractInstagramShortcode(link);
+    const parsed = getPlatformModule(platform).parseLink(link);
+    return parsed.ok ? parsed.value.id : null;
+}
+
+/**
+ * Creates pending job items for a list of links.
+ * @param {string[]} links - The links to refresh.
+ * @returns {RefreshJobItem[]} One pending item per link.
+ */
+function createPendingItems(links: string[]): RefreshJobItem[] {
+    return links.map(link => ({ link, status: 'pending', attempts: 0 }));
+}
+
+/**
+ * Appends pending items for newly discovered links and reports the new item count.
+ * @param {RefreshJobItem[]} items - The job items, updated in place.
+ * @param {string[]} newLinks - The discovered links.
+ * @param {Function} onProgress - Persists the current state of the items.
+ */
+async function addDiscoveredItems(
+    items: RefreshJobItem[],
+    newLinks: string[],
+    onProgress: (items: RefreshJobItem[]) => Promise<void>
+): Promise<void> {
+    if (newLinks.length === 0) return;
+    items.push(...createPendingItems(newLinks));
+    await onProgress(items);
+}
+
+/**
+ * Refreshes one platform's links for a user and records the refresh time on the user's link document.
+ * This is the single code path behind scheduled, queued and on-demand refreshes. New posts of the user's
+ * tracked channels and profiles are added to the links (and to items) first, and the time of that lookup is
+ * recorded as 'lastDiscoveredAt'.
+ * @param {string} userId - The ID of the user who owns the links.
+ * @param {RefreshPlatform} platform - The platform to refresh.
+ * @param {RefreshJobItem[]} items - The job items to process, updated in place and extended with discovered links.
+ * @param {ApiKeys} apiKeys - The credentials; the platform's entry must be set.
+ * @param {Function} onProgress - Persists the current state of the items.
+ * @param {CircuitBreaker} instagramCircuitBreaker - The run's circuit breaker for the Instagram provider. Platform
+ * module providers get a breaker per call.
+ * @param {boolean} discoverNewPosts - Whether to add new posts of tracked channels and profiles; off when retrying failed
+ * links, and in scheduled runs until the discovery interval has passed.
+ * @returns {Promise<number>} The YouTube Data API quota units consumed (always 0 for other platforms).
+ */
+async function refreshPlatformForUser(
+    userId: string,
+    platform: RefreshPlatform,
+    items: RefreshJobItem[],
+    apiKeys: ApiKeys,
+    onProgress: (items: RefreshJobItem[]) => Promise<void>,
+    instagramCircuitBreaker: CircuitBreaker,
+    discoverNewPosts = true
+): Promise<number> {
+    let quotaUnitsUsed = 0;
+    const user = discoverNewPosts ? await getUserById(userId) : null;
+    const discoveredAt = user && (platform === 'youtube' || platform === 'instagram') ? new Date().toISOString() : undefined;
+    if (platform === 'youtube') {
+        if (user) {
+            const discovery = await discoverYouTubeUploads(user, apiKeys.youtube!);
+            quotaUnitsUsed += discovery.quotaUnitsUsed;
+            await addDiscoveredItems(items, discovery.newLinks, onProgress);
+        }
+        quotaUnitsUsed += await refreshYouTubeItems(userId, items, apiKeys.youtube!, onProgress);
+    } else if (platform === 'instagram') {
+        const provider = createInstagramProvider(apiKeys.instagram!, { circuitBreaker: instagramCircuitBreaker });
+        if (user) {
+            const discovery = await discoverInstagramPosts(user, provider);
+            await addDiscoveredItems(items, discovery.newLinks, onProgress);
+        }
+        await refreshInstagramItems(userId, items, provider, onProgress);
+    } else {
+        const platformModule = getPlatformModule(platform);
+        const provider = platformModule.createProvider(apiKeys[platform]!, { circuitBreaker: createCircuitBreaker() });
+        await refreshPlatformItems(userId, platformModule, items, provider, onProgress);
+    }
+    await db.collection(LINK_COLLECTIONS[platform]).doc(userId).set({
+        lastRefreshedAt: new Date().toISOString(),
+        ...(discoveredAt && { lastDiscoveredAt: discoveredAt }),
+    }, { merge: true });
+    return quotaUnitsUsed;
+}
+
+const PLATFORM_NAMES = {
+    youtube: 'YouTube',
+    instagram: 'Instagram',
+    ...Object.fromEntries(PLATFORM_MODULES.map(platformModule => [platformModule.id, platformModule.name])),
+} as Record<RefreshPlatform, string>;
+
+/**
+ * Builds the summary of a completed platform refresh from its items.
+ * @param {RefreshPlatform} platform - The refreshed platform.
+ * @param {RefreshJobItem[]} items - The processed items.
+ * @param {number} quotaUnitsUsed - The YouTube Data API quota units consumed.
+ * @returns {PlatformRefreshSummary} The summary.
+ */
+function summarizePlatformRefresh(platform: RefreshPlatform, items: RefreshJobItem[], quotaUnitsUsed: number): PlatformRefreshSummary {
+    const { succeededItems, failedItems } = summarizeJobItems(items);
+    return {
+        platform,
+        status: 'completed',
+        totalLinks: items.length,
+        succeeded: succeededItems,
+        failed: failedItems,
+        skipped: 0,
+        failures: items
+            .filter(item => item.status === 'failed')
+            .map(item => ({ link: item.link, error: item.error || 'Unknown error.', ...(item.errorKind && { errorKind: item.errorKind }) })),
+        quotaUnitsUsed,
+    };
+}
+
+/**
+ * Builds the summary of a platform that was not refreshed.
+ * @param {RefreshPlatform} platform - The skipped platform.
+ * @param {string} skippedReason - Why it was skipped.
+ * @param {number} totalLinks - The number of links that were not refreshed.
+ * @returns {PlatformRefreshSummary} The summary.
+ */
+function skippedPlatformRefresh(platform: RefreshPlatform, skippedReason: string, totalLinks: number): PlatformRefreshSummary {
+    return { platform, status: 'skipped', skippedReason, totalLinks, succeeded: 0, failed: 0, skipped: totalLinks, failures: [], quotaUnitsUsed: 0 };
+}
+
+// --- Adaptive Scheduling ---
+
+/**
+ * Limits a refresh to the links whose refresh policy makes them due. Set for scheduled refreshes;
+ * on-demand refreshes and refresh jobs always refresh every link.
+ */
+interface RefreshSchedule {
+    workspacePolicy: RefreshPolicy;
+    now: Date;
+}
+
+/**
+ * Checks whether a scheduled run should look for new posts of a user's tracked channels or profiles on a platform,
+ * from the 'lastDiscoveredAt' time on the user's link document.
+ * @param {string} userId - The ID of the user.
+ * @param {RefreshPlatform} platform - The platform.
+ * @param {Date} now - The time of the run.
+ * @returns {Promise<boolean>} True if new posts should be looked for in this run.
+ */
+async function isDiscoveryDueForUser(userId: string, platform: RefreshPlatform, now: Date): Promise<boolean> {
+    const linksDoc = await db.collection(LINK_COLLECTIONS[platform]).doc(userId).get();
+    return isDiscoveryDue(linksDoc.data()?.lastDiscoveredAt, now);
+}
+
+/**
+ * Returns the refresh policy for a user: their own policy if set and valid, otherwise the workspace policy.
+ * @param {User | null} user - The user.
+ * @param {RefreshPolicy} workspacePolicy - The workspace refresh policy.
+ * @returns {RefreshPolicy} The policy to apply to the user's links.
+ */
+function getUserRefreshPolicy(user: User | null, workspacePolicy: RefreshPolicy): RefreshPolicy {
+    if (!user?.refreshPolicy) return workspacePolicy;
+    const { policy, error } = validateRefreshPolicy(user.refreshPolicy);
+    if (!policy) console.warn(`Ignoring the refresh policy of user ${user.id}: ${error}`);
+    return policy || workspacePolicy;
+}
+
+/**
+ * Splits a user's links into those due for a refresh and those that are not, based on the age and last
+ * fetch time of the stored posts. Links that cannot be parsed are due, so that they fail visibly.
+ * @param {string} userId - The ID of the user who owns the links.
+ * @param {RefreshPlatform} platform - The platform of the links.
+ * @param {string[]} links - The user's links.
+ * @param {RefreshPolicy} policy - The refresh policy to apply.
+ * @param {Date} now - The time of the scheduled run.
+ * @returns {Promise<{dueLinks: string[]; notDue: number}>} The due links and the number of links left out.
+ */
+async function selectDueLinks(
+    userId: string,
+    platform: RefreshPlatform,
+    links: string[],
+    policy: RefreshPolicy,
+    now: Date
+): Promise<{ dueLinks: string[]; notDue: number }> {
+    const { root, items: itemsCollection } = ANALYTICS_COLLECTIONS[platform];
+    const storedPosts = await db.collection(root).doc(userId).collection(itemsCollection).get();
+    const candidatesById = new Map(storedPosts.docs.map(doc => {
+        const data = doc.data();
+        return [doc.id, {
+            publishedAt: platform === 'instagram' ? data.postedAt : data.publishedAt,
+            lastFetched: data.lastCheckedAt || data.lastFetched,
+            failed: !!data.errorMessage,
+        }];
+    }));
+
+    const dueLinks = links.filter(link => {
+        const id = extractLinkId(platform, link);
+        if (!id) return true;
+        return isRefreshDue(policy, candidatesById.get(id) || {}, now);
+    });
+    return { dueLinks, notDue: links.length - dueLinks.length };
+}
+
+/**
+ * Refreshes all assigned links of one user on the given platforms.
+ * @param {string} userId - The ID of the user.
+ * @param {RefreshPlatform[]} platforms - The platforms to refresh.
+ * @param {ApiKeys} apiKeys - The credentials from Firestore.
+ * @param {CircuitBreaker} instagramCircuitBreaker - The run's circuit breaker for the Instagram provider,
+ * shared across users when one run refreshes several of them.
+ * @param {RefreshSchedule} schedule - When set, only links due under the user's refresh policy are refreshed, and
+ * tracked channels and profiles are only checked for new posts once per discovery interval.
+ * @returns {Promise<UserRefreshSummary>} A summary of the run per platform.
+ */
+async function refreshUserData(
+    userId: string,
+    platforms: RefreshPlatform[],
+    apiKeys: ApiKeys,
+    instagramCircuitBreaker: CircuitBreaker = createCircuitBreaker(),
+    schedule?: RefreshSchedule
+): Promise<UserRefreshSummary> {
+    const startedAt = new Date().toISOString();
+    const summaries: PlatformRefreshSummary[] = [];
+    const user = await getUserById(userId);
+
+    for (const platform of platforms) {
+        const platformName = PLATFORM_NAMES[platform];
+        const links = await getAssignedLinks(userId, platform);
+        const skip = (skippedReason: string) => {
+            console.log(`Skipping ${platformName} refresh for user ${userId}: ${skippedReason}`);
+            summaries.push(skippedPlatformRefresh(platform, skippedReason, links.length));
+        };
+
+        if (!apiKeys[platform]) {
+            skip(`The ${platformName} API credentials are not configured.`);
+            continue;
+        }
+        const hasTrackedChannels = (platform === 'youtube' || platform === 'instagram') && !!user?.trackedChannels?.[platform]?.length;
+        if (links.length === 0 && !hasTrackedChannels) {
+            skip('No links or channels assigned.');
+            continue;
+        }
+
+        console.log(`Found ${links.length} ${platformName} links for user ${userId}.`);
+        let dueLinks = links;
+        let notDue = 0;
+        if (schedule) {
+            const policy = getUserRefreshPolicy(user, schedule.workspacePolicy);
+            ({ dueLinks, notDue } = await selectDueLinks(userId, platform, links, policy, schedule.now));
+            console.log(`${dueLinks.length} of ${links.length} ${platformName} links are due for user ${userId}.`);
+        }
+        const discoverNewPosts = hasTrackedChannels && (!schedule || await isDiscoveryDueForUser(userId, platform, schedule.now));
+        const items = createPendingItems(dueLinks);
+        const quotaUnitsUsed = await refreshPlatformForUser(userId, platform, items, apiKeys, async () => {}, instagramCircuitBreaker, discoverNewPosts);
+
+        const summary = summarizePlatformRefresh(platform, items, quotaUnitsUsed);
+        if (schedule) summary.notDue = notDue;
+        console.log(`Updated ${summary.succeeded}/${items.length} ${platformName} links for user ${userId}` +
+            (platform === 'youtube' ? ` using ${quotaUnitsUsed} quota unit(s).` : '.'));
+        summaries.push(summary);
+    }
+
+    return { userId, startedAt, finishedAt: new Date().toISOString(), platforms: summaries };
+}
+
+
+// --- Refresh Run History ---
+
+const MAX_RUN_ERROR_SAMPLES = 20;
+// Runs are recorded by functions with a 540 second timeout. A run still 'running' well after that was cut off
+// before it could finish, so nothing else will end it.
+const STALE_RUN_AFTER_MS = (540 + 60) * 1000;
+
+/**
+ * Records one refresh run in 'refreshRuns' as it progresses.
+ */
+interface RefreshRunRecorder {
+    readonly id: string;
+    recordUser: (summary: UserRefreshSummary) => Promise<void>;
+    finish: (error?: string) => Promise<void>;
+}
+
+const emptyRunCounts = (): RefreshRunCounts => ({ succeeded: 0, failed: 0, skipped: 0 });
+
+/**
+ * Creates the run document and returns a recorder that adds per-user summaries and totals to it.
+ * Recording failures are logged and never interrupt the refresh itself.
+ * @param {RefreshRunTrigger} trigger - What started the run.
+ * @param {Pick<RefreshRun, 'requestedBy' | 'refreshJobId' | 'retryOf'>} details - Optional context for the run.
+ * @returns {Promise<RefreshRunRecorder>} The recorder.
+ */
+async function startRefreshRun(
+    trigger: RefreshRunTrigger,
+    details: Pick<RefreshRun, 'requestedBy' | 'refreshJobId' | 'retryOf'> = {}
+): Promise<RefreshRunRecorder> {
+    const runRef = db.collection('refreshRuns').doc();
+    const run: RefreshRun = {
+        trigger,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        ...(details.requestedBy && { requestedBy: details.requestedBy }),
+        ...(details.refreshJobId && { refreshJobId: details.refreshJobId }),
+        ...(details.retryOf && { retryOf: details.retryOf }),
+        userCount: 0,
+        totals: emptyRunCounts(),
+        platforms: Object.fromEntries(ALL_PLATFORMS.map(platform => [platform, emptyRunCounts()])) as Record<RefreshPlatform, RefreshRunCounts>,
+        quotaUnitsUsed: 0,
+        errorSamples: [],
+    };
+    try {
+        await runRef.set(run);
+    } catch (error) {
+        console.error(`Error creating refresh run record ${runRef.id}:`, error);
+    }
+
+    return {
+        id: runRef.id,
+
+        async recordUser(summary: UserRefreshSummary): Promise<void> {
+            run.userCount++;
+            for (const platformSummary of summary.platforms) {
+                for (const counts of [run.totals, run.platforms[platformSummary.platform]]) {
+                    counts.succeeded += platformSummary.succeeded;
+                    counts.failed += platformSummary.failed;
+                    counts.skipped += platformSummary.skipped;
+                }
+                run.quotaUnitsUsed += platformSummary.quotaUnitsUsed;
+                for (const failure of platformSummary.failures) {
+                    if (run.errorSamples.length >= MAX_RUN_ERROR_SAMPLES) break;
+                    run.errorSamples.push({ userId: summary.userId, platform: platformSummary.platform, ...failure });
+                }
+            }
+            try {
+                const batch = db.batch();
+                batch.set(runRef.collection('users').doc(summary.userId), summary);
+                batch.update(runRef, {
+                    userCount: run.userCount,
+                    totals: run.totals,
+                    platforms: run.platforms,
+                    quotaUnitsUsed: run.quotaUnitsUsed,
+                    errorSamples: run.errorSamples,
+                });
+                await batch.commit();
+            } catch (error) {
+                console.error(`Error recording user ${summary.userId} in refresh run ${runRef.id}:`, error);
+            }
+        },
+
+        async finish(error?: string): Promise<void> {
+            try {
+                await runRef.update({ status: error ? 'failed' : 'completed', finishedAt: new Date().toISOString(), ...(error && { error }) });
+            } catch (updateError) {
+                console.error(`Error finishing refresh run ${runRef.id}:`, updateError);
+            }
+        },
+    };
+}
+
+
+/**
+ * Marks runs that are still 'running' long after their function's timeout as failed.
+ * Errors are logged and never interrupt the caller.
+ * @param {Date} now - The current time.
+ * @returns {Promise<void>}
+ */
+async function failStaleRefreshRuns(now: Date): Promise<void> {
+    try {
+        const cutoff = new Date(now.getTime() - STALE_RUN_AFTER_MS).toISOString();
+        const snapshot = await db.collection('refreshRuns').where('status', '==', 'running').get();
+        const staleRuns = snapshot.docs.filter(doc => (doc.data() as RefreshRun).startedAt < cutoff);
+        if (staleRuns.length === 0) return;
+
+        const batch = db.batch();
+        for (const doc of staleRuns) {
+            batch.update(doc.ref, {
+                status: 'failed',
+                finishedAt: now.toISOString(),
+                error: 'The run did not finish before its function timed out.',
+            });
+        }
+        await batch.commit();
+        console.warn(`Marked ${staleRuns.length} refresh run(s) that timed out as failed.`);
+    } catch (error) {
+        console.error("Error marking timed-out refresh runs as failed:", error);
+    }
+}
+
+
+/**
+ * Processes refresh jobs queued from the YouTube, Instagram and platform pages. Progress is written back to
+ * the job document after each step, so the pages can follow it and the refresh survives closing the tab.
+ * The browser writes the job, so its items are not trusted: they are rebuilt from the user's assigned links.
+ */
+export const processRefreshJob = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .firestore.document("refreshJobs/{jobId}")
+    .onCreate(async (snapshot: functions.firestore.QueryDocumentSnapshot, context: functions.EventContext) => {
+        const job = snapshot.data() as RefreshJob;
+        const jobRef = snapshot.ref;
+        if (job.status !== 'queued') {
+            console.log(`Refresh job ${context.params.jobId} is ${job.status}, skipping.`);
+            return null;
+        }
+
+        const startedAt = new Date().toISOString();
+        await jobRef.update({ status: 'running', startedAt });
+        if (typeof job.userId !== 'string' || !job.userId || !ALL_PLATFORMS.includes(job.platform)) {
+            const error = 'The refresh job names no valid user or platform.';
+            console.error(`Refresh job ${context.params.jobId} failed: ${error}`);
+            await jobRef.update({ status: 'failed', error, finishedAt: new Date().toISOString() });
+            return null;
+        }
+        const run = await startRefreshRun('refresh-job', {
+            ...(typeof job.createdBy === 'string' && { requestedBy: job.createdBy }),
+            refreshJobId: context.params.jobId,
+        });
+
+        const failJob = async (error: string, platformSummary: PlatformRefreshSummary) => {
+            console.error(`Refresh job ${context.params.jobId} failed: ${error}`);
+            await jobRef.update({ status: 'failed', error, finishedAt: new Date().toISOString() });
+            await run.recordUser({ userId: job.userId, startedAt, finishedAt: new Date().toISOString(), platforms: [platformSummary], error });
+            await run.finish(error);
+            return null;
+        };
+
+        const saveProgress = async (updatedItems: RefreshJobItem[]) => {
+            await jobRef.update({ items: updatedItems, totalItems: updatedItems.length, ...summarizeJobItems(updatedItems) });
+        };
+
+        let items: RefreshJobItem[] = [];
+        let quotaUnitsUsed = 0;
+        try {
+            const links = await getAssignedLinks(job.userId, job.platform);
+            const apiKeys = await getApiKeys();
+            if (!apiKeys[job.platform]) {
+                const error = `The ${PLATFORM_NAMES[job.platform]} API credentials are not configured.`;
+                return failJob(error, skippedPlatformRefresh(job.platform, error, links.length));
+            }
+
+            console.log(`Refresh job ${context.params.jobId} started: ${job.platform} for user ${job.userId} (${links.length} links).`);
+            items = createPendingItems(links);
+            await saveProgress(items);
+            quotaUnitsUsed = await refreshPlatformForUser(job.userId, job.platform, items, apiKeys, saveProgress, createCircuitBreaker());
+        } catch (error) {
+            console.error(`Unexpected error while processing refresh job ${context.params.jobId}:`, error);
+            return failJob('The refresh stopped unexpectedly. Please try again.', summarizePlatformRefresh(job.platform, items, quotaUnitsUsed));
+        }
+
+        const finishedAt = new Date().toISOString();
+        await jobRef.update({ status: 'completed', finishedAt, items, totalItems: items.length, ...summarizeJobItems(items), quotaUnitsUsed });
+        await run.recordUser({ userId: job.userId, startedAt, finishedAt, platforms: [summarizePlatformRefresh(job.platform, items, quotaUnitsUsed)] });
+        await run.finish();
+
+        console.log(`Refresh job ${context.params.jobId} finished: ${summarizeJobItems(items).succeededItems}/${items.length} links updated.`);
+        return null;
+    });
+
+
+/**
+ * Refreshes one user's data on demand, optionally for a single platform, and returns the run summary.
+ * Only admins may trigger it, through the app's server actions. Expects { sessionToken, userId, platform? }.
+ */
+export const refreshUserNow = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .https.onCall(async (data: { sessionToken?: unknown; userId?: unknown; platform?: unknown }) => {
+        const requester = await requireSessionAdmin(data?.sessionToken, 'trigger a refresh for a user');
+        const { userId, platform } = data || {};
+        if (typeof userId !== 'string' || !userId) {
+            throw new functions.https.HttpsError('invalid-argument', 'A userId must be provided.');
+        }
+        if (platform !== undefined && !ALL_PLATFORMS.includes(platform as RefreshPlatform)) {
+            throw new functions.https.HttpsError('invalid-argument', `Unknown platform "${platform}".`);
+        }
+        if (!(await getUserById(userId))) {
+            throw new functions.https.HttpsError('not-found', `User ${userId} does not exist.`);
+        }
+
+        console.log(`On-demand refresh for user ${userId} requested by ${requester.name} (${requester.id}).`);
+        const apiKeys = await getApiKeys();
+        const platforms = platform ? [platform as RefreshPlatform] : ALL_PLATFORMS;
+        const run = await startRefreshRun('manual', { requestedBy: requester.id });
+        try {
+            const summary = await refreshUserData(userId, platforms, apiKeys);
+            await run.recordUser(summary);
+            await run.finish();
+            return { ...summary, runId: run.id };
+        } catch (error) {
+            console.error(`Unexpected error during on-demand refresh for user ${userId}:`, error);
+            await run.finish('The refresh stopped unexpectedly.');
+            throw new functions.https.HttpsError('internal', 'The refresh stopped unexpectedly. Please try again.');
+        }
+    });
+
+
+/**
+ * Retries the failed links of a recorded refresh run as a new 'retry' run, without discovering new posts.
+ * Links that are no longer assigned to their user, e.g. because an admin removed them, are left out.
+ * Only admins may trigger it, through the app's server actions. Expects { sessionToken, runId } and returns
+ * the new run's ID and totals.
+ */
+export const retryRefreshRun = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .https.onCall(async (data: { sessionToken?: unknown; runId?: unknown }) => {
+        const requester = await requireSessionAdmin(data?.sessionToken, 'retry a refresh run');
+        const { runId } = data || {};
+        if (typeof runId !== 'string' || !runId) {
+            throw new functions.https.HttpsError('invalid-argument', 'A runId must be provided.');
+        }
+        const originalRunRef = db.collection('refreshRuns').doc(runId);
+        if (!(await originalRunRef.get()).exists) {
+            throw new functions.https.HttpsError('not-found', `Refresh run ${runId} does not exist.`);
+        }
+
+        const userSummaries = (await originalRunRef.collection('users').get()).docs.map(doc => doc.data() as UserRefreshSummary);
+        const failedLinks = userSummaries.flatMap(summary => summary.platforms
+            .filter(platformSummary => platformSummary.failures.length > 0)
+            .map(platformSummary => ({ userId: summary.userId, platform: platformSummary.platform, links: platformSummary.failures.map(failure => failure.link) })));
+        if (failedLinks.length === 0) {
+            throw new functions.https.HttpsError('failed-precondition', `Refresh run ${runId} has no failed items to retry.`);
+        }
+
+        console.log(`Retrying failed items of refresh run ${runId}, requested by ${requester.name} (${requester.id}).`);
+        const apiKeys = await getApiKeys();
+        const instagramCircuitBreaker = createCircuitBreaker();
+        const run = await startRefreshRun('retry', { requestedBy: requester.id, retryOf: runId });
+
+        for (const userId of Array.from(new Set(failedLinks.map(entry => entry.userId)))) {
+            const startedAt = new Date().toISOString();
+            const platforms: PlatformRefreshSummary[] = [];
+            try {
+                for (const { platform, links } of failedLinks.filter(entry => entry.userId === userId)) {
+                    const assignedLinks = new Set(await getAssignedLinks(userId, platform));
+                    const stillAssignedLinks = links.filter(link => assignedLinks.has(link));
+                    if (stillAssignedLinks.length < links.length) {
+                        console.log(`Skipping ${links.length - stillAssignedLinks.length} ${platform} links of user ${userId} that are no longer assigned.`);
+                    }
+                    if (stillAssignedLinks.length === 0) continue;
+                    if (!apiKeys[platform]) {
+                        platforms.push(skippedPlatformRefresh(platform, `The ${PLATFORM_NAMES[platform]} API credentials are not configured.`, stillAssignedLinks.length));
+                        continue;
+                    }
+                    const items = createPendingItems(stillAssignedLinks);
+                    const quotaUnitsUsed = await refreshPlatformForUser(userId, platform, items, apiKeys, async () => {}, instagramCircuitBreaker, false);
+                    platforms.push(summarizePlatformRefresh(platform, items, quotaUnitsUsed));
+                }
+                if (platforms.length > 0) {
+                    await run.recordUser({ userId, startedAt, finishedAt: new Date().toISOString(), platforms });
+                }
+            } catch (error) {
+                console.error(`Error retrying failed items for user ${userId}:`, error);
+                await run.recordUser({ userId, startedAt, finishedAt: new Date().toISOString(), platforms, error: 'The retry stopped unexpectedly for this user.' });
+            }
+        }
+
+        await run.finish();
+        return { runId: run.id };
+    });
+
+
+// --- Main Scheduled Function ---
+
+/**
+ * A scheduled Cloud Function that runs hourly to refresh social media analytics data.
+ * Each run only refreshes the links that are due under their owner's refresh policy. It first marks
+ * earlier runs that timed out as failed, so they do not stay 'running' in the run history.
+ */
+export const scheduledDataRefresh = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .pubsub.schedule("every 60 minutes")
+    .timeZone("Asia/Kolkata")
+    .onRun(async (context: functions.EventContext) => {
+        console.log("Scheduled data refresh job started!");
+
+        const apiKeys = await getApiKeys();
+        const schedule: RefreshSchedule = { workspacePolicy: await getWorkspaceRefreshPolicy(), now: new Date() };
+        await failStaleRefreshRuns(schedule.now);
+        
+        const users = await getAllUsers();
+        if (users.length === 0) {
+            console.log("No users found to refresh data for.");
+            return null;
+        }
+
+        console.log(`Found ${users.length} user(s) to process.`);
+
+        let youtubeQuotaUnitsUsed = 0;
+        const instagramCircuitBreaker = createCircuitBreaker();
+        const run = await startRefreshRun('scheduled');
+        for (const user of users) {
+            console.log(`--- Processing user: ${user.name} (${user.id}) ---`);
+            const startedAt = new Date().toISOString();
+            try {
+                const summary = await refreshUserData(user.id, ALL_PLATFORMS, apiKeys, instagramCircuitBreaker, schedule);
+                youtubeQuotaUnitsUsed += summary.platforms.reduce((sum, platform) => sum + platform.quotaUnitsUsed, 0);
+                await run.recordUser(summary);
+            } catch (error) {
+                console.error(`Error refreshing data for user ${user.id}:`, error);
+                await run.recordUser({ userId: user.id, startedAt, finishedAt: new Date().toISOString(), platforms: [], error: 'The refresh stopped unexpectedly for this user.' });
+            }
+        }
+
+        await run.finish();
+        console.log(`Scheduled data refresh job finished (run ${run.id}). YouTube Data API quota used: ${youtubeQuotaUnitsUsed} unit(s).`);
+        return null;
+    });
+
+
+// --- Analytics Reconciliation ---
+
+const MAX_RECONCILIATION_SAMPLES = 50;
+
+// Where each platform's analytics live, and where archived documents are moved to.
+const ANALYTICS_COLLECTIONS = {
+    youtube: { root: 'userVideoAnalytics', items: 'videos', archiveRoot: 'archivedVideoAnalytics' },
+    instagram: { root: 'userInstagramPostAnalytics', items: 'posts', archiveRoot: 'archivedInstagramPostAnalytics' },
+    ...Object.fromEntries(PLATFORM_MODULES.map(({ id, collections }) => [id, { root: collections.analytics, items: collections.items, archiveRoot: collections.archive }])),
+} as Record<RefreshPlatform, { root: string; items: string; archiveRoot: string }>;
+
+/**
+ * Fetches the retention setting from the 'analytics-retention' entry in the 'apiKeys' collection.
+ * Falls back to the default setting when the entry is missing or invalid.
+ * @returns {Promise<AnalyticsRetentionSettings>} The retention setting.
+ */
+async function getRetentionSettings(): Promise<AnalyticsRetentionSettings> {
+    try {
+        const snapshot = await db.collection('apiKeys').where('serviceName', '==', RETENTION_SERVICE_NAME).limit(1).get();
+        const { settings, error } = parseRetentionSettings(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+        if (settings) return settings;
+        console.warn(`Ignoring the analytics retention setting: ${error}`);
+    } catch (error) {
+        console.error("Error fetching the analytics retention setting:", error);
+    }
+    return DEFAULT_RETENTION_SETTINGS;
+}
+
+/**
+ * Reads the video IDs, shortcodes or item IDs of a user's assigned links. Unlike getAssignedLinks,
+ * read errors are thrown, so that a failed read never makes every document look orphaned.
+ * @param {string} userId - The ID of the user.
+ * @param {RefreshPlatform} platform - The platform.
+ * @returns {Promise<Set<string>>} The assigned IDs.
+ */
+async function getAssignedAnalyticsIds(userId: string, platform: RefreshPlatform): Promise<Set<string>> {
+    const linksSnap = await db.collection(LINK_COLLECTIONS[platform]).doc(userId).get();
+    const links: string[] = linksSnap.data()?.links || [];
+    const ids = links.map(link => extractLinkId(platform, link));
+    return new Set(ids.filter((id): id is string => id !== null));
+}
+
+/**
+ * Copies an analytics document, its daily snapshots and its stored comments to the archive, then deletes the original.
+ * @param {admin.firestore.DocumentReference} docRef - The analytics document.
+ * @param {admin.firestore.DocumentReference} archiveRef - Where to archive it.
+ * @param {string} archivedAt - ISO string of the archive time.
+ */
+async function archiveAnalyticsDocument(
+    docRef: admin.firestore.DocumentReference,
+    archiveRef: admin.firestore.DocumentReference,
+    archivedAt: string
+): Promise<void> {
+    const [docSnap, snapshots, comments] = await Promise.all([docRef.get(), docRef.collection('dailySnapshots').get(), docRef.collection('comments').get()]);
+    const writer = db.bulkWriter();
+    writer.set(archiveRef, { ...docSnap.data(), archivedAt });
+    snapshots.forEach(snapshot => writer.set(archiveRef.collection('dailySnapshots').doc(snapshot.id), snapshot.data()));
+    comments.forEach(comment => writer.set(archiveRef.collection('comments').doc(comment.id), comment.data()));
+    await writer.close();
+    await db.recursiveDelete(docRef);
+}
+
+/**
+ * Reconciles one platform's analytics with the assigned links. An orphaned document is marked with
+ * 'orphanedAt' when first found; once it has been orphaned for the grace period it is archived or deleted
+ * together with its snapshots. Documents assigned again lose the mark.
+ * @param {RefreshPlatform} platform - The platform to reconcile.
+ * @param {ReconciliationRun} report - The run report, updated in place.
+ * @param {Date} now - The time of the run.
+ */
+async function reconcilePlatformAnalytics(platform: RefreshPlatform, report: ReconciliationRun, now: Date): Promise<void> {
+    const { root, items, archiveRoot } = ANALYTICS_COLLECTIONS[platform];
+    const counts = report.platforms[platform];
+    const nowIso = now.toISOString();
+    const record = (userId: string, id: string, action: ReconciliationAction) => {
+        counts[action]++;
+        if (action !== 'orphaned' && report.samples.length < MAX_RECONCILIATION_SAMPLES) {
+            report.samples.push({ userId, platform, id, action });
+        }
+    };
+
+    // listDocuments also returns owners whose parent document was never written
+    for (const ownerRef of await db.collection(root).listDocuments()) {
+        const userId = ownerRef.id;
+        let assignedIds: Set<string>;
+        try {
+            const userExists = (await db.collection('users').doc(userId).get()).exists;
+            assignedIds = userExists ? await getAssignedAnalyticsIds(userId, platform) : new Set();
+        } catch (error) {
+            console.error(`Skipping ${PLATFORM_NAMES[platform]} reconciliation for user ${userId}:`, error);
+            if (!report.failedUsers.includes(userId)) report.failedUsers.push(userId);
+            continue;
+        }
+
+        const documents = await ownerRef.collection(items).get();
+        for (const docSnap of documents.docs) {
+            counts.scanned++;
+            const status = getOrphanStatus(assignedIds.has(docSnap.id), docSnap.data().orphanedAt, report.settings.graceDays, now);
+            if (status === 'assigned') continue;
+            if (status === 'restored') {
+                if (!report.dryRun) await docSnap.ref.update({ orphanedAt: admin.firestore.FieldValue.delete() });
+                record(userId, docSnap.id, 'restored');
+                continue;
+            }
+            if (status === 'newly-orphaned' || status === 'orphaned') {
+                if (status === 'newly-orphaned' && !report.dryRun) await docSnap.ref.update({ orphanedAt: nowIso });
+                record(userId, docSnap.id, 'orphaned');
+                continue;
+            }
+            if (!report.dryRun) {
+                if (report.settings.action === 'archive') {
+                    await archiveAnalyticsDocument(docSnap.ref, db.collection(archiveRoot).doc(userId).collection(items).doc(docSnap.id), nowIso);
+                } else {
+                    await db.recursiveDelete(docSnap.ref);
+                }
+            }
+            record(userId, docSnap.id, report.settings.action === 'archive' ? 'archived' : 'deleted');
+        }
+    }
+}
+
+/**
+ * Runs a reconciliation of all analytics documents and records it in 'reconciliationRuns'.
+ * @param {ReconciliationRun['trigger']} trigger - What started the run.
+ * @param {{dryRun?: boolean; requestedBy?: string}} options - Whether to only report, and who asked.
+ * @returns {Promise<ReconciliationRun & {id: string}>} The finished report.
+ */
+async function runAnalyticsReconciliation(
+    trigger: ReconciliationRun['trigger'],
+    options: { dryRun?: boolean; requestedBy?: string } = {}
+): Promise<ReconciliationRun & { id: string }> {
+    const emptyCounts = (): ReconciliationCounts => ({ scanned: 0, orphaned: 0, restored: 0, archived: 0, deleted: 0 });
+    const now = new Date();
+    const report: ReconciliationRun = {
+        trigger,
+        dryRun: !!options.dryRun,
+        status: 'running',
+        startedAt: now.toISOString(),
+        ...(options.requestedBy && { requestedBy: options.requestedBy }),
+        settings: await getRetentionSettings(),
+        platforms: Object.fromEntries(ALL_PLATFORMS.map(platform => [platform, emptyCounts()])) as Record<RefreshPlatform, ReconciliationCounts>,
+        samples: [],
+        failedUsers: [],
+    };
+    const runRef = db.collection('reconciliationRuns').doc();
+    await runRef.set(report);
+
+    try {
+        for (const platform of ALL_PLATFORMS) {
+            await reconcilePlatformAnalytics(platform, report, now);
+        }
+        report.status = 'completed';
+    } catch (error) {
+        console.error("Analytics reconciliation stopped unexpectedly:", error);
+        report.status = 'failed';
+        report.error = 'The reconciliation stopped unexpectedly.';
+    }
+    report.finishedAt = new Date().toISOString();
+    await runRef.set(report);
+
+    for (const platform of ALL_PLATFORMS) {
+        const { scanned, orphaned, restored, archived, deleted } = report.platforms[platform];
+        console.log(`${PLATFORM_NAMES[platform]} reconciliation${report.dryRun ? ' (dry run)' : ''}: ${scanned} scanned, ` +
+            `${orphaned} orphaned within the grace period, ${restored} restored, ${archived} archived, ${deleted} deleted.`);
+    }
+    return { id: runRef.id, ...report };
+}
+
+/**
+ * A scheduled Cloud Function that runs daily to archive or delete analytics documents without an assigned link.
+ */
+export const reconcileAnalytics = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .pubsub.schedule("every day 04:00")
+    .timeZone("Asia/Kolkata")
+    .onRun(async () => {
+        console.log("Analytics reconciliation job started!");
+        const report = await runAnalyticsReconciliation('scheduled');
+        console.log(`Analytics reconciliation job finished (run ${report.id}).`);
+        return null;
+    });
+
+/**
+ * Runs the analytics reconciliation right away. Only admins may trigger it, through the app's server actions.
+ * Expects { sessionToken, dryRun? }; a dry run only reports what would be done. Returns the run report.
+ */
+export const reconcileAnalyticsNow = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .https.onCall(async (data: { sessionToken?: unknown; dryRun?: unknown }) => {
+        const requester = await requireSessionAdmin(data?.sessionToken, 'run the analytics reconciliation');
+        const { dryRun } = data || {};
+        console.log(`Analytics reconciliation${dryRun === true ? ' (dry run)' : ''} requested by ${requester.name} (${requester.id}).`);
+        return runAnalyticsReconciliation('manual', { dryRun: dryRun === true, requestedBy: requester.id });
+    });
+
+
+// --- YouTube Analytics (Owned Channels) ---
+
+const YOUTUBE_ANALYTICS_CONNECTIONS = 'youtubeAnalyticsConnections';
+const YOUTUBE_ANALYTICS_TOKENS = 'youtubeAnalyticsTokens'; // Server-only: refresh tokens and pending OAuth states
+const CHANNEL_ANALYTICS_COLLECTION = 'userChannelAnalytics';
+const TOP_VIDEOS_IN_REPORT = 10;
+
+interface YouTubeAnalyticsTokenDoc {
+  refreshToken?: string;
+  scope?: string;
+  updatedAt?: string; // ISO string
+  pendingState?: string; // The signed state of a consent screen the user has not returned from yet
+}
+
+/**
+ * Fetches the OAuth client from the 'youtube-analytics-oauth' entry in the 'apiKeys' collection.
+ * @returns {Promise<YouTubeAnalyticsOAuthConfig>} The OAuth client.
+ * @throws {functions.https.HttpsError} If the entry is missing or invalid.
+ */
+async function getYouTubeAnalyticsOAuthConfig(): Promise<YouTubeAnalyticsOAuthConfig> {
+    const snapshot = await db.collection('apiKeys').where('serviceName', '==', YOUTUBE_ANALYTICS_OAUTH_SERVICE_NAME).limit(1).get();
+    const { config, error } = parseOAuthClientConfig(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+    if (!config) {
+        throw new functions.https.HttpsError('failed-precondition', error || 'The YouTube Analytics OAuth client is not configured.');
+    }
+    return config;
+}
+
+/**
+ * Checks that the session forwarded by the app may manage a user's YouTube Analytics connection: the session
+ * of the user themselves, or of an admin.
+ * @param {unknown} sessionToken - The session forwarded by the app.
+ * @param {unknown} userId - The ID of the user whose connection is managed.
+ * @param {boolean} ownerOnly - When set, admins may not act for other users, e.g. to grant access to a channel.
+ * @returns {Promise<string>} The validated user ID.
+ * @throws {functions.https.HttpsError} If the session or user ID is missing or the requester is not allowed.
+ */
+async function authorizeAnalyticsConnection(sessionToken: unknown, userId: unknown, ownerOnly: boolean = false): Promise<string> {
+    const session = verifySessionToken(sessionToken);
+    if (!session) {
+        throw new functions.https.HttpsError('unauthenticated', 'A valid session is required.');
+    }
+    if (typeof userId !== 'string' || !userId) {
+        throw new functions.https.HttpsError('invalid-argument', 'A userId must be provided.');
+    }
+    const requester = await getUserById(session.user.id);
+    if (!requester) {
+        throw new functions.https.HttpsError('permission-denied', 'The requesting user does not exist.');
+    }
+    if (requester.id !== userId && (ownerOnly || requester.role !== 'admin')) {
+        throw new functions.https.HttpsError('permission-denied', ownerOnly
+            ? 'Only the channel owner can connect their own YouTube channel.'
+            : 'Only the channel owner or an admin can manage this YouTube Analytics connection.');
+    }
+    return userId;
+}
+
+/**
+ * Writes a channel analytics report: the report document, its daily rows, and the owner metrics of
+ * every assigned video found in the report.
+ * @param {string} userId - The ID of the user.
+ * @param {ChannelAnalyticsReport} report - The fetched report.
+ * @param {string} syncedAt - ISO timestamp of the sync.
+ * @returns {Promise<number>} How many assigned videos received owner metrics.
+ */
+async function saveChannelAnalyticsReport(userId: string, report: ChannelAnalyticsReport, syncedAt: string): Promise<number> {
+    const { daily, videos, ...summary } = report;
+    const reportRef = db.collection(CHANNEL_ANALYTICS_COLLECTION).doc(userId);
+    const videoRefs = videos.map(video => db.collection('userVideoAnalytics').doc(userId).collection('videos').doc(video.videoId));
+    const existingVideos = videoRefs.length > 0 ? await db.getAll(...videoRefs) : [];
+
+    const writer = db.bulkWriter();
+    // The report document keeps the top videos; every assigned video also gets its own metrics below.
+    const storedReport: StoredChannelAnalyticsReport = { ...summary, topVideos: videos.slice(0, TOP_VIDEOS_IN_REPORT), syncedAt };
+    writer.set(reportRef, storedReport);
+    daily.forEach(day => writer.set(reportRef.collection('daily').doc(day.date), { ...day, syncedAt }));
+    let updatedVideos = 0;
+    existingVideos.forEach((videoSnap, index) => {
+        if (!videoSnap.exists) return;
+        const ownerAnalytics: StoredVideoOwnerAnalytics = { ...videos[index], startDate: report.startDate, endDate: report.endDate, syncedAt };
+        writer.update(videoSnap.ref, { ownerAnalytics });
+        updatedVideos++;
+    });
+    await writer.close();
+    return updatedVideos;
+}
+
+/**
+ * Syncs the YouTube Analytics report of one user's connected channel. Failures are recorded on the
+ * connection; a revoked refresh token marks it 'reauth-required' so the user is asked to connect again.
+ * @param {string} userId - The ID of the user.
+ * @param {YouTubeAnalyticsOAuthConfig} config - The OAuth client.
+ * @returns {Promise<{success: boolean; error?: string}>} Whether the report was stored.
+ */
+async function syncYouTubeAnalyticsForUser(userId: string, config: YouTubeAnalyticsOAuthConfig): Promise<{ success: boolean; error?: string }> {
+    const connectionRef = db.collection(YOUTUBE_ANALYTICS_CONNECTIONS).doc(userId);
+    const [connectionSnap, tokenSnap] = await Promise.all([connectionRef.get(), db.collection(YOUTUBE_ANALYTICS_TOKENS).doc(userId).get()]);
+    const connection = connectionSnap.data() as YouTubeAnalyticsConnection | undefined;
+    const refreshToken = (tokenSnap.data() as YouTubeAnalyticsTokenDoc | undefined)?.refreshToken;
+    if (!connection || !refreshToken) {
+        return { success: false, error: 'No YouTube channel is connected for this user.' };
+    }
+
+    const fail = async (status: YouTubeAnalyticsConnection['status'], error: string) => {
+        console.warn(`YouTube Analytics sync for user ${userId} failed: ${error}`);
+        await connectionRef.update({ status, error });
+        return { success: false, error };
+    };
+
+    const tokens = await refreshAccessToken(config, refreshToken);
+    if (!tokens.ok) {
+        return tokens.error.kind === 'auth'
+            ? fail('reauth-required', 'Google no longer accepts the connection. Please connect the channel again.')
+            : fail('error', tokens.error.message);
+    }
+    const report = await fetchChannelAnalyticsReport(tokens.data.accessToken, connection.channelId, getReportPeriod());
+    if (!report.ok) {
+        return fail(report.error.kind === 'auth' ? 'reauth-required' : 'error', report.error.message);
+    }
+
+    const syncedAt = new Date().toISOString();
+    const updatedVideos = await saveChannelAnalyticsReport(userId, report.data, syncedAt);
+    await connectionRef.update({ status: 'connected', lastSyncedAt: syncedAt, error: admin.firestore.FieldValue.delete() });
+    console.log(`Synced YouTube Analytics for user ${userId} (channel ${connection.channelId}, ${report.data.startDate} to ${report.data.endDate}, ` +
+        `${updatedVideos} assigned video(s) updated, ${report.attempts} request(s)).`);
+    return { success: true };
+}
+
+/**
+ * Starts connecting the requester's own YouTube channel, through the app's server actions. Expects
+ * { sessionToken, userId } and returns { authorizationUrl } for the Google consent screen. The state in the URL
+ * is signed and names the user, and is checked against their session on return.
+ */
+export const startYouTubeAnalyticsConnection = functions
+    .https.onCall(async (data: { sessionToken?: unknown; userId?: unknown }) => {
+        const userId = await authorizeAnalyticsConnection(data?.sessionToken, data?.userId, true);
+        const config = await getYouTubeAnalyticsOAuthConfig();
+        const oauthState: OAuthState = {
+            purpose: 'youtube-analytics-oauth',
+            userId,
+            nonce: crypto.randomBytes(24).toString('hex'),
+            expiresAt: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS,
+        };
+        const state = signToken(oauthState);
+        // Kept so that each state can be used once
+        await db.collection(YOUTUBE_ANALYTICS_TOKENS).doc(userId).set({ pendingState: state }, { merge: true });
+        return { authorizationUrl: buildAuthorizationUrl(config, state) };
+    });
+
+/**
+ * Finishes connecting a channel after the consent screen: checks the state, exchanges the code for tokens,
+ * stores the refresh token and runs the first sync. Only the session of the user who started the connection
+ * can finish it. Expects { sessionToken, code, state } and returns the connection.
+ */
+export const completeYouTubeAnalyticsConnection = functions
+    .runWith({timeoutSeconds: 120})
+    .https.onCall(async (data: { sessionToken?: unknown; code?: unknown; state?: unknown }) => {
+        const { code, state } = data || {};
+        if (typeof code !== 'string' || !code || typeof state !== 'string' || !state) {
+            throw new functions.https.HttpsError('invalid-argument', 'The authorization code and state must be provided.');
+        }
+        const oauthState = verifySignedToken(state) as OAuthState | null;
+        if (!oauthState || !isOAuthStateCurrent(oauthState, Math.floor(Date.now() / 1000))) {
+            throw new functions.https.HttpsError('failed-precondition', 'This connection attempt expired or is not valid. Please start again.');
+        }
+        const userId = await authorizeAnalyticsConnection(data?.sessionToken, oauthState.userId, true);
+        const tokenRef = db.collection(YOUTUBE_ANALYTICS_TOKENS).doc(userId);
+        const pending = (await tokenRef.get()).data() as YouTubeAnalyticsTokenDoc | undefined;
+        if (pending?.pendingState !== state) {
+            throw new functions.https.HttpsError('failed-precondition', 'This connection attempt expired or is not valid. Please start again.');
+        }
+        await tokenRef.update({ pendingState: admin.firestore.FieldValue.delete() });
+
+        const config = await getYouTubeAnalyticsOAuthConfig();
+        const tokens = await exchangeAuthorizationCode(config, code);
+        if (!tokens.ok) {
+            throw new functions.https.HttpsError('failed-precondition', `Google did not accept the authorization: ${tokens.error.message}`);
+        }
+        if (!tokens.data.refreshToken) {
+            throw new functions.https.HttpsError('failed-precondition', 'Google did not return offline access. Please connect again and allow access.');
+        }
+        const channel = await fetchOwnChannel(tokens.data.accessToken);
+        if (!channel.ok) {
+            throw new functions.https.HttpsError('failed-precondition', channel.error.message);
+        }
+
+        const connectedAt = new Date().toISOString();
+        const connection: YouTubeAnalyticsConnection = {
+            userId,
+            status: 'connected',
+            channelId: channel.data.channelId,
+            channelTitle: channel.data.title,
+            ...(channel.data.thumbnailUrl && { channelThumbnailUrl: channel.data.thumbnailUrl }),
+            connectedAt,
+        };
+        await tokenRef.set({ refreshToken: tokens.data.refreshToken, scope: tokens.data.scope, updatedAt: connectedAt });
+        await db.collection(YOUTUBE_ANALYTICS_CONNECTIONS).doc(userId).set(connection);
+        console.log(`User ${userId} connected YouTube channel ${connection.channelId} for YouTube Analytics.`);
+
+        await syncYouTubeAnalyticsForUser(userId, config);
+        return (await db.collection(YOUTUBE_ANALYTICS_CONNECTIONS).doc(userId).get()).data() as YouTubeAnalyticsConnection;
+    });
+
+/**
+ * Syncs a user's YouTube Analytics report right away. The user themselves or an admin may trigger it, through
+ * the app's server actions. Expects { sessionToken, userId } and returns { success, error? }.
+ */
+export const syncYouTubeAnalyticsNow = functions
+    .runWith({timeoutSeconds: 120})
+    .https.onCall(async (data: { sessionToken?: unknown; userId?: unknown }) => {
+        const userId = await authorizeAnalyticsConnection(data?.sessionToken, data?.userId);
+        return syncYouTubeAnalyticsForUser(userId, await getYouTubeAnalyticsOAuthConfig());
+    });
+
+/**
+ * Disconnects a user's channel: revokes the refresh token at Google and removes the connection. Reports that
+ * were already synced are kept. The user themselves or an admin may trigger it, through the app's server actions.
+ * Expects { sessionToken, userId }.
+ */
+export const disconnectYouTubeAnalytics = functions
+    .https.onCall(async (data: { sessionToken?: unknown; userId?: unknown }) => {
+        const userId = await authorizeAnalyticsConnection(data?.sessionToken, data?.userId);
+        const tokenRef = db.collection(YOUTUBE_ANALYTICS_TOKENS).doc(userId);
+        const refreshToken = ((await tokenRef.get()).data() as YouTubeAnalyticsTokenDoc | undefined)?.refreshToken;
+        if (refreshToken && !(await revokeToken(refreshToken))) {
+            console.warn(`Could not revoke the YouTube Analytics token of user ${userId}; removing it anyway.`);
+        }
+        await Promise.all([tokenRef.delete(), db.collection(YOUTUBE_ANALYTICS_CONNECTIONS).doc(userId).delete()]);
+        console.log(`YouTube Analytics connection of user ${userId} removed.`);
+        return { success: true };
+    });
+
+/**
+ * A scheduled Cloud Function that runs daily to sync the YouTube Analytics reports of all connected channels.
+ */
+export const syncYouTubeAnalytics = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .pubsub.schedule("every day 05:00")
+    .timeZone("Asia/Kolkata")
+    .onRun(async () => {
+        console.log("YouTube Analytics sync job started!");
+        let config: YouTubeAnalyticsOAuthConfig;
+        try {
+            config = await getYouTubeAnalyticsOAuthConfig();
+        } catch (error: any) {
+            console.warn(`Skipping the YouTube Analytics sync: ${error?.message}`);
+            return null;
+        }
+        const connections = await db.collection(YOUTUBE_ANALYTICS_CONNECTIONS).get();
+        let synced = 0;
+        for (const connectionSnap of connections.docs) {
+            if ((connectionSnap.data() as YouTubeAnalyticsConnection).status === 'reauth-required') continue;
+            try {
+                if ((await syncYouTubeAnalyticsForUser(connectionSnap.id, config)).success) synced++;
+            } catch (error) {
+                console.error(`Unexpected error syncing YouTube Analytics for user ${connectionSnap.id}:`, error);
+            }
+        }
+        console.log(`YouTube Analytics sync job finished: ${synced} of ${connections.size} channel(s) synced.`);
+        return null;
+    });
+
+
+// --- YouTube Comment Ingestion ---
+
+// While replies are being completed, progress is saved after every this many reply listings.
+const REPLY_PROGRESS_INTERVAL = 25;
+
+// The fields of a stored comment that decide whether it has to be written again.
+interface StoredCommentVersion {
+  updatedAt: string;
+  totalReplyCount?: number;
+  parentId?: string;
+}
+
+/**
+ * Fetches the comment ingestion setting from the 'youtube-comments' entry in the 'apiKeys' collection.
+ * Falls back to the default setting when the entry is missing or invalid.
+ * @returns {Promise<CommentIngestionSettings>} The comment ingestion setting.
+ */
+async function getCommentIngestionSettings(): Promise<CommentIngestionSettings> {
+    try {
+        const snapshot = await db.collection('apiKeys').where('serviceName', '==', COMMENT_INGESTION_SERVICE_NAME).limit(1).get();
+        const { settings, error } = parseCommentIngestionSettings(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+        if (settings) return settings;
+        console.warn(`Ignoring the YouTube comment setting: ${error}`);
+    } catch (error) {
+        console.error("Error fetching the YouTube comment setting:", error);
+    }
+    return DEFAULT_COMMENT_INGESTION_SETTINGS;
+}
+
+/**
+ * Ingests a video's comments and replies into its 'comments' subcollection. Only new and edited comments
+ * (by updatedAt) are written, and the full reply list is only fetched for threads that are new or whose reply
+ * count changed. Stored comments missing from the listing are deleted, unless the cap or an error cut the
+ * listing short. The outcome is stored as 'commentIngestion' on the video's analytics document.
+ * @param {admin.firestore.DocumentReference} videoRef - The video's analytics document.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @param {CommentIngestionSettings} settings - The comment ingestion setting.
+ * @param {(listedComments: number) => Promise<void>} onProgress - Called with the number of comments listed so far.
+ * @returns {Promise<CommentIngestionState>} The outcome of the ingestion.
+ */
+async function ingestVideoComments(
+    videoRef: admin.firestore.DocumentReference,
+    apiKey: string,
+    settings: CommentIngestionSettings,
+    onProgress: (listedComments: number) => Promise<void>
+): Promise<CommentIngestionState> {
+    const videoId = videoRef.id;
+    const commentsRef = videoRef.collection('comments');
+    const stored = new Map<string, StoredCommentVersion>();
+    (await commentsRef.select('updatedAt', 'totalReplyCount', 'parentId').get()).forEach(docSnap => {
+        stored.set(docSnap.id, docSnap.data() as StoredCommentVersion);
+    });
+
+    const threads = await listCommentThreads(videoId, apiKey, settings.maxCommentsPerVideo);
+    let quotaUnitsUsed = threads.quotaUnitsUsed;
+    let capped = threads.capped;
+    let error = threads.error;
+    await onProgress(threads.items.length);
+
+    // Top-level comments come first; replies fill the rest of the cap, thread by thread
+    const listed: CommentData[] = threads.items.map(thread => thread.topLevelComment);
+    const keptReplyParents = new Set<string>(); // Threads whose stored replies were not listed again
+    let replyListings = 0;
+    const addReplies = (replies: CommentData[]) => {
+        const remaining = settings.maxCommentsPerVideo - listed.length;
+        if (replies.length > remaining) capped = true;
+        listed.push(...replies.slice(0, Math.max(remaining, 0)));
+    };
+
+    for (const { topLevelComment, replies } of threads.items) {
+        const replyCount = topLevelComment.totalReplyCount || 0;
+        if (replies.length >= replyCount) {
+            addReplies(replies);
+        } else if (stored.get(topLevelComment.id)?.totalReplyCount === replyCount) {
+            keptReplyParents.add(topLevelComment.id);
+            addReplies(replies);
+        } else if (listed.length >= settings.maxCommentsPerVideo) {
+            capped = true;
+        } else {
+            const replyList = await listCommentReplies(topLevelComment.id, videoId, apiKey, settings.maxCommentsPerVideo - listed.length);
+            quotaUnitsUsed += replyList.quotaUnitsUsed;
+            if (replyList.error) {
+                error ??= replyList.error;
+                keptReplyParents.add(topLevelComment.id);
+                addReplies(replies);
+            } else {
+                capped ||= replyList.capped;
+                addReplies(replyList.items);
+            }
+            if (++replyListings % REPLY_PROGRESS_INTERVAL === 0) await onProgress(listed.length);
+        }
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const writer = db.bulkWriter();
+    const seen = new Set<string>();
+    let writtenComments = 0;
+    for (const comment of listed) {
+        // New comments shift the pages while listing, so a comment can be listed twice
+        if (seen.has(comment.id)) continue;
+        seen.add(comment.id);
+        const storedVersion = stored.get(comment.id);
+        if (storedVersion && storedVersion.updatedAt === comment.updatedAt && storedVersion.totalReplyCount === comment.totalReplyCount) continue;
+        writer.set(commentsRef.doc(comment.id), { ...comment, fetchedAt });
+        writtenComments++;
+    }
+
+    let deletedComments = 0;
+    if (!capped && !error) {
+        stored.forEach((version, id) => {
+            if (seen.has(id) || (version.parentId && keptReplyParents.has(version.parentId))) return;
+            writer.delete(commentsRef.doc(id));
+            deletedComments++;
+        });
+    }
+    await writer.close();
+
+    const newComments = Array.from(seen).filter(id => !stored.has(id)).length;
+    const unavailable = threads.error?.kind === 'not-found';
+    const state: CommentIngestionState = {
+        lastIngestedAt: fetchedAt,
+        storedComments: stored.size + newComments - deletedComments,
+        writtenComments,
+        capped,
+        ...(unavailable && { unavailable }),
+        ...(error && { error: unavailable ? 'Comments are disabled for this video, or the video is no longer available.' : error.message }),
+        quotaUnitsUsed,
+    };
+    await videoRef.update({ commentIngestion: state });
+    return state;
+}
+
+/**
+ * Processes comment ingestion jobs queued from the YouTube page. Like refresh jobs, progress and the outcome
+ * are written back to the job document, so the page can follow the ingestion while it runs.
+ */
+export const processCommentIngestionJob = functions
+    .runWith({timeoutSeconds: 540, memory: "1GB"})
+    .firestore.document("commentIngestionJobs/{jobId}")
+    .onCreate(async (snapshot: functions.firestore.QueryDocumentSnapshot, context: functions.EventContext) => {
+        const job = snapshot.data() as CommentIngestionJob;
+        const jobRef = snapshot.ref;
+        if (job.status !== 'queued') {
+            console.log(`Comment ingestion job ${context.params.jobId} is ${job.status}, skipping.`);
+            return null;
+        }
+
+        console.log(`Comment ingestion job ${context.params.jobId} started: video ${job.videoId} of user ${job.userId}.`);
+        await jobRef.update({ status: 'running', startedAt: new Date().toISOString(), listedComments: 0 });
+
+        const failJob = async (error: string) => {
+            console.error(`Comment ingestion job ${context.params.jobId} failed: ${error}`);
+            await jobRef.update({ status: 'failed', error, finishedAt: new Date().toISOString() });
+            return null;
+        };
+
+        const apiKeys = await getApiKeys();
+        if (!apiKeys.youtube) {
+            return failJob('The YouTube API credentials are not configured.');
+        }
+        const videoRef = db.collection(ANALYTICS_COLLECTIONS.youtube.root).doc(job.userId).collection(ANALYTICS_COLLECTIONS.youtube.items).doc(job.videoId);
+        if (!(await videoRef.get()).exists) {
+            return failJob(`Video ${job.videoId} has no stored analytics for this user. Refresh the videos first.`);
+        }
+
+        let result: CommentIngestionState;
+        try {
+            const settings = await getCommentIngestionSettings();
+            result = await ingestVideoComments(videoRef, apiKeys.youtube, settings, async (listedComments) => {
+                await jobRef.update({ listedComments });
+            });
+        } catch (error) {
+            console.error(`Unexpected error while processing comment ingestion job ${context.params.jobId}:`, error);
+            return failJob('The comment ingestion stopped unexpectedly. Please try again.');
+        }
+
+        await jobRef.update({ status: 'completed', finishedAt: new Date().toISOString(), result });
+        console.log(`Comment ingestion job ${context.params.jobId} finished: ${result.storedComments} comment(s) stored, ${result.writtenComments} written, ${result.quotaUnitsUsed} quota unit(s) used.`);
+        return null;
+    });
+
+
+// --- User Accounts ---
+
+// Passwords are stored in 'passwordHash' as "scrypt$<N>$<r>$<p>$<salt>$<hash>", with base64 salt and hash.
+const PASSWORD_HASH_PARAMS = { N: 16384, r: 8, p: 1, keyLength: 64, saltLength: 16 };
+const MIN_PASSWORD_LENGTH = 6;
+// Credential fields of a user document. They are never returned to the browser.
+const CREDENTIAL_FIELDS = ['password', 'passwordHash'];
+
+/**
+ * Derives a key from a password with scrypt.
+ * @param {string} password - The password.
+ * @param {Buffer} salt - The salt.
+ * @param {{N: number; r: number; p: number; keyLength: number}} params - The scrypt parameters.
+ * @returns {Promise<Buffer>} The derived key.
+ */
+function deriveScryptKey(password: string, salt: Buffer, params: { N: number; r: number; p: number; keyLength: number }): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, params.keyLength, { N: params.N, r: params.r, p: params.p }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+}
+
+/**
+ * Hashes a password with a random salt.
+ * @param {string} password - The password.
+ * @returns {Promise<string>} The encoded hash, as stored in 'passwordHash'.
+ */
+async function hashPassword(password: string): Promise<string> {
+    const { N, r, p, saltLength } = PASSWORD_HASH_PARAMS;
+    const salt = crypto.randomBytes(saltLength);
+    const key = await deriveScryptKey(password, salt, PASSWORD_HASH_PARAMS);
+    return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ * @param {string} password - The password to check.
+ * @param {string} passwordHash - The encoded hash from hashPassword.
+ * @returns {Promise<boolean>} True if the password matches; false for a wrong password or a malformed hash.
+ */
+async function verifyPasswordHash(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, N, r, p, salt, hash] = passwordHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const key = await deriveScryptKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p), keyLength: expected.length });
+    return crypto.timingSafeEqual(key, expected);
+}
+
+/**
+ * Compares a password with a plaintext one stored before hashing was introduced, in constant time.
+ * @param {string} password - The password to check.
+ * @param {string} storedPassword - The stored plaintext password.
+ * @returns {boolean} True if they match.
+ */
+function matchesLegacyPassword(password: string, storedPassword: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(password), digest(storedPassword));
+}
+
+/**
+ * Builds the user profile returned to the browser, without credential fields.
+ * @param {admin.firestore.DocumentSnapshot} docSnap - The user document.
+ * @returns {User} The user profile.
+ */
+function toPublicUser(docSnap: admin.firestore.DocumentSnapshot): User {
+    const data = { ...docSnap.data() };
+    CREDENTIAL_FIELDS.forEach(field => delete data[field]);
+    return { ...data, id: docSnap.id } as User;
+}
+
+/**
+ * Signs a value with SESSION_SECRET, the way the app's server signs the session cookie.
+ * @param {object} value - The value to sign.
+ * @returns {string} The token, as "<payload>.<signature>".
+ */
+function signToken(value: object): string {
+    const { secret } = resolveSessionSecret(process.env.SESSION_SECRET, process.env.FUNCTIONS_EMULATOR === 'true');
+    const payload = Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+    return `${payload}.${crypto.createHmac('sha256', secret).update(payload).digest('base64url')}`;
+}
+
+/**
+ * Verifies a token signed with SESSION_SECRET, like the session cookie or an OAuth state.
+ * @param {unknown} token - The token, as "<payload>.<signature>".
+ * @returns {unknown} The decoded payload, or null if the token is missing or tampered with.
+ */
+function verifySignedToken(token: unknown): unknown {
+    const [payload, signature, ...rest] = typeof token === 'string' ? token.split('.') : [];
+    if (!payload || !signature || rest.length > 0) return null;
+    try {
+        const { secret } = resolveSessionSecret(process.env.SESSION_SECRET, process.env.FUNCTIONS_EMULATOR === 'true');
+        const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+        const actual = Buffer.from(signature, 'base64url');
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch (error) {
+        console.error("Error verifying a signed token:", error);
+        return null;
+    }
+}
+
+/**
+ * Verifies a session forwarded by the app's server actions.
+ * @param {unknown} sessionToken - The session cookie value.
+ * @returns {Session | null} The session, or null if the token is missing, tampered with or expired.
+ */
+function verifySessionToken(sessionToken: unknown): Session | null {
+    const session = verifySignedToken(sessionToken) as Session | null;
+    return session && isSessionCurrent(session, Math.floor(Date.now() / 1000)) ? session : null;
+}
+
+/**
+ * Checks that a callable request carries the session of an admin. The role is read from the user document,
+ * so an admin whose role was removed is refused before their session ends.
+ * @param {unknown} sessionToken - The session forwarded by the app.
+ * @param {string} action - What the admin is doing, for the error message.
+ * @returns {Promise<User>} The admin.
+ */
+async function requireSessionAdmin(sessionToken: unknown, action: string): Promise<User> {
+    const session = verifySessionToken(sessionToken);
+    if (!session) {
+        throw new functions.https.HttpsError('unauthenticated', 'A valid session is required.');
+    }
+    const requester = await getUserById(session.user.id);
+    if (!requester || requester.role !== 'admin') {
+        throw new functions.https.HttpsError('permission-denied', `Only admins can ${action}.`);
+    }
+    return requester;
+}
+
+/**
+ * Validates a new password sent to a callable function.
+ * @param {unknown} password - The password.
+ * @returns {string} The password.
+ */
+function requireValidPassword(password: unknown): string {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new functions.https.HttpsError('invalid-argument', `The password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    return password;
+}
+
+/**
+ * Refuses to take the admin role from the last admin, who is needed to manage users.
+ * @param {string} userId - The ID of the admin who would lose the role.
+ * @returns {Promise<void>}
+ * @throws {functions.https.HttpsError} If no other admin exists.
+ */
+async function requireAnotherAdmin(userId: string): Promise<void> {
+    const adminsSnapshot = await db.collection('users').where('role', '==', 'admin').limit(2).get();
+    if (adminsSnapshot.docs.every(docSnap => docSnap.id === userId)) {
+        throw new functions.https.HttpsError('failed-precondition', 'The last admin cannot be demoted or deleted.');
+    }
+}
+
+/**
+ * Verifies an email and password and returns the user's profile. Passwords still stored in plaintext
+ * are hashed on the first successful login. Expects { email, password }.
+ */
+export const loginWithPassword = functions.https.onCall(async (data: { email?: unknown; password?: unknown }) => {
+    const { email, password } = data || {};
+    if (typeof email !== 'string' || !email || typeof password !== 'string' || !password) {
+        throw new functions.https.HttpsError('invalid-argument', 'An email and password must be provided.');
+    }
+    const invalidCredentials = new functions.https.HttpsError('unauthenticated', 'Invalid email or password.');
+
+    const snapshot = await db.collection('users').where('email', '==', email.trim().toLowerCase()).limit(1).get();
+    if (snapshot.empty) {
+        await hashPassword(password); // Takes as long as a real check, so unknown emails cannot be told apart by timing
+        throw invalidCredentials;
+    }
+    const userSnap = snapshot.docs[0];
+    const { password: storedPassword, passwordHash } = userSnap.data();
+    const lastLogin = new Date().toISOString();
+
+    if (typeof passwordHash === 'string') {
+        if (!(await verifyPasswordHash(password, passwordHash))) throw invalidCredentials;
+        await userSnap.ref.update({ lastLogin });
+    } else if (typeof storedPassword === 'string' && matchesLegacyPassword(password, storedPassword)) {
+        await userSnap.ref.update({ lastLogin, passwordHash: await hashPassword(password), password: admin.firestore.FieldValue.delete() });
+        console.log(`Hashed the plaintext password of user ${userSnap.id} on login.`);
+    } else {
+        throw invalidCredentials;
+    }
+    return { ...toPublicUser(userSnap), lastLogin };
+});
+
+/**
+ * Creates a user with a hashed password. Only admins may call it, through the app's server actions.
+ * Expects { sessionToken, email, password, name, role, trackedChannels? } and returns the new profile.
+ */
+export const createUserAccount = functions.https.onCall(async (data: {
+    sessionToken?: unknown; email?: unknown; password?: unknown; name?: unknown; role?: unknown; trackedChannels?: User['trackedChannels'];
+}) => {
+    const { sessionToken, email, password, name, role, trackedChannels } = data || {};
+    await requireSessionAdmin(sessionToken, 'create users');
+    if (typeof email !== 'string' || !email.includes('@') || typeof name !== 'string' || !name.trim() || (role !== 'user' && role !== 'admin')) {
+        throw new functions.https.HttpsError('invalid-argument', 'A valid email, name and role must be provided.');
+    }
+    const emailToStore = email.trim().toLowerCase();
+    if (!(await db.collection('users').where('email', '==', emailToStore).limit(1).get()).empty) {
+        throw new functions.https.HttpsError('already-exists', 'Email already exists.');
+    }
+
+    const userRef = db.collection('users').doc();
+    const newUser: Omit<User, 'id'> = {
+        email: emailToStore,
+        name: name.trim(),
+        role,
+        lastLogin: new Date(0).toISOString(),
+        trackedChannels: trackedChannels || { youtube: [], instagram: [] },
+    };
+    await userRef.set({ ...newUser, passwordHash: await hashPassword(requireValidPassword(password)) });
+    return { ...newUser, id: userRef.id };
+});
+
+/**
+ * Updates a user's name, role or password. Only admins may call it, through the app's server actions;
+ * a new password is hashed, and the last admin keeps their role. Expects { sessionToken, userId, name?, role?, password? }.
+ */
+export const updateUserAccount = functions.https.onCall(async (data: {
+    sessionToken?: unknown; userId?: unknown; name?: unknown; role?: unknown; password?: unknown;
+}) => {
+    const { sessionToken, userId, name, role, password } = data || {};
+    await requireSessionAdmin(sessionToken, 'update users');
+    if (typeof userId !== 'string' || !userId) {
+        throw new functions.https.HttpsError('invalid-argument', 'A userId must be provided.');
+    }
+    const userRef = db.collection('users').doc(userId);
+    const userSnap = await userRef.get();
+    if (!userSnap.exists) {
+        throw new functions.https.HttpsError('not-found', `User ${userId} does not exist.`);
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) throw new functions.https.HttpsError('invalid-argument', 'The name cannot be empty.');
+        updates.name = name.trim();
+    }
+    if (role !== undefined) {
+        if (role !== 'user' && role !== 'admin') throw new functions.https.HttpsError('invalid-argument', `Unknown role "${role}".`);
+        if (role === 'user' && userSnap.data()?.role === 'admin') await requireAnotherAdmin(userId);
+        updates.role = role;
+    }
+    if (password !== undefined && password !== '') {
+        updates.passwordHash = await hashPassword(requireValidPassword(password));
+        updates.password = admin.firestore.FieldValue.delete();
+    }
+    if (Object.keys(updates).length > 0) await userRef.update(updates);
+    return { success: true };
+});
+
+/**
+ * Lists every user's profile, without credential fields. Only admins may call it, through the app's
+ * server actions. Expects { sessionToken }.
+ */
+export const listUserAccounts = functions.https.onCall(async (data: { sessionToken?: unknown }) => {
+    await requireSessionAdmin(data?.sessionToken, 'list users');
+    const usersSnapshot = await db.collection('users').get();
+    return usersSnapshot.docs.map(toPublicUser);
+});
+
+/**
+ * Deletes a user's profile and any pending login code. Only admins may call it, through the app's
+ * server actions, and the last admin cannot be deleted. Expects { sessionToken, userId }.
+ */
+export const deleteUserAccount = functions.https.onCall(async (data: { sessionToken?: unknown; userId?: unknown }) => {
+    await requireSessionAdmin(data?.sessionToken, 'delete users');
+    const { userId } = data || {};
+    if (typeof userId !== 'string' || !userId) {
+        throw new functions.https.HttpsError('invalid-argument', 'A userId must be provided.');
+    }
+    if ((await db.collection('users').doc(userId).get()).data()?.role === 'admin') await requireAnotherAdmin(userId);
+    await db.collection('loginCodes').doc(userId).delete();
+    await db.collection('users').doc(userId).delete();
+    return { success: true };
+});
+
+/**
+ * One-time migration that hashes every password still stored in plaintext and removes the plaintext.
+ * Only admins may call it, through the app's server actions, and running it again changes nothing.
+ * Expects { sessionToken }.
+ */
+export const migratePlaintextPasswords = functions
+    .runWith({timeoutSeconds: 540})
+    .https.onCall(async (data: { sessionToken?: unknown }) => {
+        const requester = await requireSessionAdmin(data?.sessionToken, 'migrate passwords');
+        const usersSnapshot = await db.collection('users').get();
+        const result = { migrated: 0, alreadyHashed: 0, withoutPassword: 0 };
+        for (const userSnap of usersSnapshot.docs) {
+            const { password, passwordHash } = userSnap.data();
+            if (typeof password === 'string' && password && typeof passwordHash !== 'string') {
+                await userSnap.ref.update({ passwordHash: await hashPassword(password), password: admin.firestore.FieldValue.delete() });
+                result.migrated++;
+            } else if (typeof passwordHash === 'string') {
+                if (password !== undefined) await userSnap.ref.update({ password: admin.firestore.FieldValue.delete() });
+                result.alreadyHashed++;
+            } else {
+                result.withoutPassword++;
+            }
+        }
+        console.log(`Password migration by ${requester.name} (${requester.id}): ${result.migrated} migrated, ${result.alreadyHashed} already hashed, ${result.withoutPassword} without a password.`);
+        return result;
+    });
+
+/**
+ * Reads the current profile of a session's user, so that the app re-signs a session it extends with the
+ * current role. Refuses deleted users, whose sessions then end. Expects { sessionToken }.
+ */
+export const reloadSessionUser = functions.https.onCall(async (data: { sessionToken?: unknown }) => {
+    const session = verifySessionToken(data?.sessionToken);
+    if (!session) {
+        throw new functions.https.HttpsError('unauthenticated', 'A valid session is required.');
+    }
+    // Read directly rather than through getUserById, so that a failed read is not taken for a deleted user
+    const userSnap = await db.collection('users').doc(session.user.id).get();
+    if (!userSnap.exists) {
+        throw new functions.https.HttpsError('permission-denied', 'The user no longer exists.');
+    }
+    return toPublicUser(userSnap);
+});
+
+// --- Email Login Codes ---
+
+// One-time login codes are stored hashed in 'loginCodes/{userId}', one per user; a new code replaces the old one.
+const LOGIN_CODE_LENGTH = 6;
+const LOGIN_CODE_TTL_MINUTES = 10;
+const MAX_LOGIN_CODE_ATTEMPTS = 5;
+const LOGIN_CODE_RESEND_SECONDS = 60;
+
+interface LoginCode {
+  codeHash: string; // Hashed like a password
+  userId: string;
+  createdAt: string; // ISO string
+  expiresAt: string; // ISO string
+  attempts: number; // Wrong or right codes entered so far
+}
+
+/**
+ * Creates the mail transport configured as 'mail-transport' in API Management. In the emulator,
+ * emails are logged to the console when no transport is configured.
+ * @returns {Promise<MailTransport>} The transport.
+ */
+async function getMailTransport(): Promise<MailTransport> {
+    const snapshot = await db.collection('apiKeys').where('serviceName', '==', MAIL_SERVICE_NAME).limit(1).get();
+    const isEmulator = process.env.FUNCTIONS_EMULATOR === 'true';
+    const { settings, error } = parseMailTransportSettings(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue, isEmulator);
+    if (settings) return createMailTransport(settings, path.join(__dirname, '..', '..'));
+    if (snapshot.empty && isEmulator) {
+        return createMailTransport(getDevelopmentMailTransportSettings(), path.join(__dirname, '..', '..'));
+    }
+    console.error(`Cannot send email: ${error}`);
+    throw new functions.https.HttpsError('failed-precondition', 'Email login is not set up. Log in with your password.');
+}
+
+/**
+ * Emails a one-time login code to a user. The answer is the same whether or not the email belongs to a
+ * user, so that it cannot be used to find accounts. A code is sent at most once a minute per user.
+ * Expects { email }.
+ */
+export const requestLoginCode = functions.https.onCall(async (data: { email?: unknown }) => {
+    const { email } = data || {};
+    if (typeof email !== 'string' || !email.includes('@')) {
+        throw new functions.https.HttpsError('invalid-argument', 'A valid email must be provided.');
+    }
+    const result = { expiresInMinutes: LOGIN_CODE_TTL_MINUTES };
+    const transport = await getMailTransport();
+
+    const snapshot = await db.collection('users').where('email', '==', email.trim().toLowerCase()).limit(1).get();
+    if (snapshot.empty) return result;
+    const userSnap = snapshot.docs[0];
+    const codeRef = db.collection('loginCodes').doc(userSnap.id);
+    const previous = (await codeRef.get()).data() as LoginCode | undefined;
+    const now = new Date();
+    if (previous && now.getTime() - Date.parse(previous.createdAt) < LOGIN_CODE_RESEND_SECONDS * 1000) {
+        return result;
+    }
+
+    const code = crypto.randomInt(0, 10 ** LOGIN_CODE_LENGTH).toString().padStart(LOGIN_CODE_LENGTH, '0');
+    const loginCode: LoginCode = {
+        codeHash: await hashPassword(code),
+        userId: userSnap.id,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + LOGIN_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        attempts: 0,
+    };
+    await codeRef.set(loginCode);
+    try {
+        await transport.send({
+            to: userSnap.data().email,
+            subject: `Your Brand Dikhega login code: ${code}`,
+            text: `Hi ${userSnap.data().name || 'there'},\n\nYour login code is ${code}. It expires in ${LOGIN_CODE_TTL_MINUTES} minutes ` +
+                `and can be used once.\n\nIf you did not try to log in, you can ignore this email.`,
+        });
+    } catch (error) {
+        console.error(`Error sending a login code to user ${userSnap.id} with the ${transport.name} transport:`, error);
+        await codeRef.delete();
+        throw new functions.https.HttpsError('unavailable', 'The login code could not be sent. Try again later.');
+    }
+    return result;
+});
+
+/**
+ * Verifies a one-time login code and returns the user's profile. A code can be used once, expires after
+ * ten minutes and is removed after five attempts. Expects { email, code }.
+ */
+export const verifyLoginCode = functions.https.onCall(async (data: { email?: unknown; code?: unknown }) => {
+    const { email, code } = data || {};
+    if (typeof email !== 'string' || !email || typeof code !== 'string' || !code.trim()) {
+        throw new functions.https.HttpsError('invalid-argument', 'An email and code must be provided.');
+    }
+    const invalidCode = new functions.https.HttpsError('unauthenticated', 'The code is wrong or has expired.');
+
+    const snapshot = await db.collection('users').where('email', '==', email.trim().toLowerCase()).limit(1).get();
+    if (snapshot.empty) throw invalidCode;
+    const userSnap = snapshot.docs[0];
+    const codeRef = db.collection('loginCodes').doc(userSnap.id);
+
+    // The attempt is counted before the code is checked, so that parallel guesses cannot exceed the limit
+    const loginCode = await db.runTransaction(async (transaction) => {
+        const codeSnap = await transaction.get(codeRef);
+        const stored = codeSnap.data() as LoginCode | undefined;
+        if (!stored) return null;
+        if (Date.parse(stored.expiresAt) <= Date.now() || stored.attempts >= MAX_LOGIN_CODE_ATTEMPTS) {
+            transaction.delete(codeRef);
+            return null;
+        }
+        transaction.update(codeRef, { attempts: admin.firestore.FieldValue.increment(1) });
+        return stored;
+    });
+    if (!loginCode || !(await verifyPasswordHash(code.trim(), loginCode.codeHash))) throw invalidCode;
+
+    await codeRef.delete();
+    const lastLogin = new Date().toISOString();
+    await userSnap.ref.update({ lastLogin });
+    return { ...toPublicUser(userSnap), lastLogin };
+});
+
+
+// --- Firestore Access Tokens ---
+
+// Firebase Auth custom tokens for the client SDK, so that firestore.rules can tell callers apart. Browsers sign in
+// as the logged-in user (uid = user ID, claim 'role'); the app's server signs in as FIRESTORE_SERVER_UID with
+// the 'server' claim. Cloud Functions use the Admin SDK, which the rules do not apply to.
+
+/**
+ * Creates the Firestore token of the user whose session the app's server actions forward. The role is read
+ * from the user document, so a role change applies the next time the browser signs in. Expects { sessionToken }.
+ */
+export const createFirestoreToken = functions.https.onCall(async (data: { sessionToken?: unknown }) => {
+    const session = verifySessionToken(data?.sessionToken);
+    if (!session) {
+        throw new functions.https.HttpsError('unauthenticated', 'A valid session is required.');
+    }
+    const user = await getUserById(session.user.id);
+    if (!user) {
+        throw new functions.https.HttpsError('permission-denied', 'The user no longer exists.');
+    }
+    return { token: await admin.auth().createCustomToken(user.id, { role: user.role }) };
+});
+
+/**
+ * Creates the Firestore token of the app's server, which proves itself with an assertion signed with
+ * SESSION_SECRET. Expects { assertion }.
+ */
+export const createServerFirestoreToken = functions.https.onCall(async (data: { assertion?: unknown }) => {
+    const assertion = verifySignedToken(data?.assertion) as ServerAssertion | null;
+    if (!assertion || !isServerAssertionCurrent(assertion, Math.floor(Date.now() / 1000))) {
+        throw new functions.https.HttpsError('unauthenticated', 'A valid server assertion is required.');
+    }
+    return { token: await admin.auth().createCustomToken(FIRESTORE_SERVER_UID, { server: true }) };
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview The file-based fixture store and its setup for Node: the Cloud Functions, the Next.js server and
+ * the Genkit developer UI (imported there as '@shared/apiFixtureFiles'). It uses Node's 'fs' and 'path', so it
+ * must not be imported by code that runs in the browser; the browser reaches fixtures through '/api/fixtures'.
+ *
+ * API_FIXTURE_MODE selects the mode ('off', 'replay' or 'record') and API_FIXTURE_DIR the directory,
+ * which defaults to the repository's 'fixtures/api'.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createFixtureFetch,
+  parseApiFixtureMode,
+  recordOrReplay,
+  type ApiFixtureMode,
+  type ApiFixtureService,
+  type FixtureStore,
+  type RecordedFixture,
+} from './apiFixtures';
+
+const FIXTURE_DIR_NAME = path.join('fixtures', 'api');
+
+type FixtureEnv = Record<string, string | undefined>;
+
+// Set once fetch is wrapped, so that a second install (e.g. after a hot reload) does not wrap it twice.
+const INSTALLED_FLAG = Symbol.for('brand-bikega.apiFixtures.installed');
+
+/**
+ * Creates a store that keeps each fixture as '<dir>/<service>/<name>.json'.
+ * @param {string} dir - The fixture directory.
+ * @returns {FixtureStore} The store.
+ */
+export function createFileFixtureStore(dir: string): FixtureStore {
+    return {
+        read: async (service: ApiFixtureService, name: string): Promise<RecordedFixture | null> => {
+            try {
+                return JSON.parse(await fs.promises.readFile(path.join(dir, service, `${name}.json`), 'utf8')) as RecordedFixture;
+            } catch (error: any) {
+                if (error?.code !== 'ENOENT') console.error(`Could not read fixture ${service}/${name}:`, error);
+                return null;
+            }
+        },
+        write: async (name: string, fixture: RecordedFixture): Promise<void> => {
+            const serviceDir = path.join(dir, fixture.service);
+            await fs.promises.mkdir(serviceDir, { recursive: true });
+            await fs.promises.writeFile(path.join(serviceDir, `${name}.json`), `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+        },
+    };
+}
+
+/**
+ * Reads the fixture settings from the environment.
+ * @param {FixtureEnv} env - The environment, normally process.env.
+ * @param {string} rootDir - The repository root, used when API_FIXTURE_DIR is not set.
+ * @returns {{mode: ApiFixtureMode; dir: string}} The mode and the fixture directory.
+ */
+export function getApiFixtureSettings(env: FixtureEnv = process.env, rootDir: string = process.cwd()): { mode: ApiFixtureMode; dir: string } {
+    return {
+        mode: parseApiFixtureMode(env.API_FIXTURE_MODE),
+        dir: path.resolve(rootDir, env.API_FIXTURE_DIR || FIXTURE_DIR_NAME),
+    };
+}
+
+/**
+ * Wraps the global fetch for the configured fixture mode. Does nothing when the mode is 'off'.
+ * @param {FixtureEnv} env - The environment, normally process.env.
+ * @param {string} rootDir - The repository root, used when API_FIXTURE_DIR is not set.
+ * @returns {ApiFixtureMode} The active mode.
+ */
+export function installApiFixtures(env: FixtureEnv = process.env, rootDir: string = process.cwd()): ApiFixtureMode {
+    const { mode, dir } = getApiFixtureSettings(env, rootDir);
+    const globalScope = globalThis as typeof globalThis & { [INSTALLED_FLAG]?: boolean };
+    if (mode === 'off' || globalScope[INSTALLED_FLAG]) return mode;
+
+    globalScope.fetch = createFixtureFetch(mode, createFileFixtureStore(dir), globalScope.fetch.bind(globalScope));
+    globalScope[INSTALLED_FLAG] = true;
+    console.log(`[apiFixtures] ${mode === 'replay' ? 'Replaying' : 'Recording'} external API responses ${mode === 'replay' ? 'from' : 'into'} ${dir}.`);
+    return mode;
+}
+
+/**
+ * Replays or records a call that does not go through fetch, using the fixture settings from the environment.
+ * @param {ApiFixtureService} service - The service the call belongs to.
+ * @param {string} operation - A short name for the call, e.g. 'runReport'.
+ * @param {unknown} request - The request that names the fixture. Leave credentials out.
+ * @param {() => Promise<T>} live - Makes the real call.
+ * @returns {Promise<T>} The recorded or live result.
+ */
+export async function runWithApiFixture<T>(service: ApiFixtureService, operation: string, request: unknown, live: () => Promise<T>): Promise<T> {
+    const { mode, dir } = getApiFixtureSettings();
+    return recordOrReplay(mode, createFileFixtureStore(dir), service, operation, request, live);
+}
@@ -0,0 +1,266 @@
+/**
+ * @fileOverview Recording and replay of external API responses, shared by the Cloud Functions and the Next.js
+ * app (imported there as '@shared/apiFixtures'). With the API_FIXTURE_MODE environment variable set to
+ * 'replay', requests to YouTube, RapidAPI and the Instagram Graph API are answered from recorded JSON fixtures
+ * instead of the network; 'record' sends them and saves the responses. GA4 goes through its own client library,
+ * so its flow records the report responses with recordOrReplay.
+ *
+ * This module only holds the logic. The file-based store lives in './apiFixtureFiles', which needs Node.
+ */
+
+export type ApiFixtureMode = 'off' | 'replay' | 'record';
+export type ApiFixtureService = 'youtube' | 'rapidapi' | 'instagram-graph' | 'ga4';
+
+// Used in place of missing API keys in replay mode, so the app runs without any configured key.
+export const FIXTURE_API_KEY = 'fixture';
+
+// Query and form parameters that carry credentials. They are left out of fixture names and stored URLs.
+const SECRET_PARAMS = ['key', 'api_key', 'access_token', 'client_secret', 'refresh_token', 'code'];
+
+const SERVICE_HOSTS: { service: ApiFixtureService; matches: (host: string) => boolean }[] = [
+  { service: 'youtube', matches: host => host === 'www.googleapis.com' || host === 'youtubeanalytics.googleapis.com' || host === 'oauth2.googleapis.com' },
+  { service: 'rapidapi', matches: host => host.endsWith('.rapidapi.com') },
+  { service: 'instagram-graph', matches: host => host === 'graph.facebook.com' || host === 'graph.instagram.com' },
+];
+
+/**
+ * A recorded response. Stored as '<service>/<name>.json' in the fixture directory.
+ */
+export interface RecordedFixture {
+  service: ApiFixtureService;
+  request: { method: string; url: string }; // The URL without credentials, for readers of the fixture file
+  status: number;
+  contentType?: string;
+  body: string;
+  recordedAt: string; // ISO string
+}
+
+export interface FixtureStore {
+  read: (service: ApiFixtureService, name: string) => Promise<RecordedFixture | null>;
+  write: (name: string, fixture: RecordedFixture) => Promise<void>;
+}
+
+/**
+ * Parses the API_FIXTURE_MODE value. Anything other than 'replay' or 'record' turns fixtures off.
+ * @param {string | undefined} value - The environment variable.
+ * @returns {ApiFixtureMode} The mode.
+ */
+export function parseApiFixtureMode(value: string | undefined): ApiFixtureMode {
+    const mode = value?.trim().toLowerCase();
+    return mode === 'replay' || mode === 'record' ? mode : 'off';
+}
+
+/**
+ * Falls back to a placeholder for a missing API key in replay mode, where no request reaches the real API.
+ * @param {string | null | undefined} key - The configured key.
+ * @param {ApiFixtureMode} mode - The fixture mode.
+ * @returns {string | null} The key, the placeholder, or null if the key is missing outside replay mode.
+ */
+export function withFixtureKey(key: string | null | undefined, mode: ApiFixtureMode): string | null {
+    return key || (mode === 'replay' ? FIXTURE_API_KEY : null);
+}
+
+/**
+ * Finds the service a request URL belongs to.
+ * @param {string} url - The request URL.
+ * @returns {ApiFixtureService | null} The service, or null for requests that are never recorded (e.g. Firebase).
+ */
+export function getFixtureService(url: string): ApiFixtureService | null {
+    try {
+        const host = new URL(url).hostname;
+        return SERVICE_HOSTS.find(entry => entry.matches(host))?.service ?? null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Derives a stable 32-bit FNV-1a hash, so the same request always maps to the same fixture.
+ * @param {string} value - The input string.
+ * @returns {string} The hash as 8 hex digits.
+ */
+function fnv1a(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Removes credentials from URL-encoded parameters and sorts them, so the order of parameters does not matter.
+ * @param {URLSearchParams} params - The parameters.
+ * @returns {string} The normalized parameters.
+ */
+function normalizeParams(params: URLSearchParams): string {
+    const entries = Array.from(params.entries()).filter(([name]) => !SECRET_PARAMS.includes(name));
+    entries.sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+    return new URLSearchParams(entries).toString();
+}
+
+/**
+ * Names the fixture of a request, e.g. 'GET-youtube-v3-videos-1a2b3c4d'. The name depends on the method, the path,
+ * the parameters and the body, but never on credentials.
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The request URL.
+ * @param {string} body - The request body, if any.
+ * @returns {{name: string; redactedUrl: string}} The fixture name and the URL without credentials.
+ */
+export function describeFixtureRequest(method: string, url: string, body: string = ''): { name: string; redactedUrl: string } {
+    const parsed = new URL(url);
+    const query = normalizeParams(parsed.searchParams);
+    const normalizedBody = body.includes('=') && !body.trim().startsWith('{') ? normalizeParams(new URLSearchParams(body)) : body;
+    const redactedUrl = `${parsed.origin}${parsed.pathname}${query ? `?${query}` : ''}`;
+    const slug = parsed.pathname.split('/').filter(Boolean).join('-').replace(/[^A-Za-z0-9_-]/g, '').slice(-60) || 'root';
+    return { name: `${method.toUpperCase()}-${slug}-${fnv1a(`${method.toUpperCase()} ${redactedUrl}\n${normalizedBody}`)}`, redactedUrl };
+}
+
+/**
+ * Reads the method, URL and text body of a fetch call.
+ * @param {RequestInfo | URL} input - The fetch input.
+ * @param {RequestInit} init - The fetch options.
+ * @returns {{method: string; url: string; body: string}} The request parts.
+ */
+function readFetchRequest(input: RequestInfo | URL, init?: RequestInit): { method: string; url: string; body: string } {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+    const rawBody = init?.body;
+    const body = typeof rawBody === 'string' ? rawBody : rawBody instanceof URLSearchParams ? rawBody.toString() : '';
+    return { method: method.toUpperCase(), url, body };
+}
+
+/**
+ * Turns a recorded fixture back into a fetch Response.
+ * @param {RecordedFixture} fixture - The fixture.
+ * @returns {Response} The response.
+ */
+function toResponse(fixture: RecordedFixture): Response {
+    const hasBody = fixture.status !== 204 && fixture.status !== 304;
+    return new Response(hasBody ? fixture.body : null, {
+        status: fixture.status,
+        headers: fixture.contentType ? { 'Content-Type': fixture.contentType } : {},
+    });
+}
+
+/**
+ * Builds the response for a request that has no fixture in replay mode. It is a 404, so the HTTP client reports
+ * the item as not found instead of retrying.
+ * @param {string} method - The HTTP method.
+ * @param {string} redactedUrl - The URL without credentials.
+ * @param {string} name - The expected fixture name.
+ * @returns {Response} The response.
+ */
+function missingFixtureResponse(method: string, redactedUrl: string, name: string): Response {
+    const message = `No recorded fixture "${name}" for ${method} ${redactedUrl}. Record it with API_FIXTURE_MODE=record.`;
+    return new Response(JSON.stringify({ error: { message } }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Wraps fetch so that requests to the recorded services are replayed from, or recorded into, a fixture store.
+ * Other requests, such as those to Firebase or the local emulators, go to the network unchanged.
+ * @param {ApiFixtureMode} mode - 'replay' or 'record'; 'off' returns baseFetch itself.
+ * @param {FixtureStore} store - Where fixtures are read and written.
+ * @param {typeof fetch} baseFetch - The fetch to use for real requests.
+ * @returns {typeof fetch} The wrapped fetch.
+ */
+export function createFixtureFetch(mode: ApiFixtureMode, store: FixtureStore, baseFetch: typeof fetch): typeof fetch {
+    if (mode === 'off') return baseFetch;
+    return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const { method, url, body } = readFetchRequest(input, init);
+        const service = getFixtureService(url);
+        if (!service) return baseFetch(input, init);
+
+        const { name, redactedUrl } = describeFixtureRequest(method, url, body);
+        if (mode === 'replay') {
+            const fixture = await store.read(service, name);
+            return fixture ? toResponse(fixture) : missingFixtureResponse(method, redactedUrl, name);
+        }
+
+        const response = await baseFetch(input, init);
+        const responseBody = await response.text();
+        const contentType = response.headers.get('Content-Type') || undefined;
+        try {
+            await store.write(name, {
+                service,
+                request: { method, url: redactedUrl },
+                status: response.status,
+                ...(contentType && { contentType }),
+                body: responseBody,
+                recordedAt: new Date().toISOString(),
+            });
+        } catch (error) {
+            console.error(`Could not record fixture "${name}":`, error);
+        }
+        const retryAfter = response.headers.get('Retry-After');
+        return new Response(response.status === 204 || response.status === 304 ? null : responseBody, {
+            status: response.status,
+            headers: { ...(contentType && { 'Content-Type': contentType }), ...(retryAfter && { 'Retry-After': retryAfter }) },
+        });
+    };
+}
+
+/**
+ * Replays or records a call that does not go through fetch, such as a GA4 report through its client library.
+ * The result must survive a JSON round trip.
+ * @param {ApiFixtureMode} mode - The fixture mode; 'off' just runs the call.
+ * @param {FixtureStore} store - Where fixtures are read and written.
+ * @param {ApiFixtureService} service - The service the call belongs to.
+ * @param {string} operation - A short name for the call, e.g. 'runReport'.
+ * @param {unknown} request - The request; together with the operation it names the fixture. Leave credentials out.
+ * @param {() => Promise<T>} live - Makes the real call.
+ * @returns {Promise<T>} The recorded or live result.
+ * @throws {Error} In replay mode, if the call was never recorded.
+ */
+export async function recordOrReplay<T>(
+    mode: ApiFixtureMode,
+    store: FixtureStore,
+    service: ApiFixtureService,
+    operation: string,
+    request: unknown,
+    live: () => Promise<T>
+): Promise<T> {
+    if (mode === 'off') return live();
+    const name = `${operation}-${fnv1a(JSON.stringify(request))}`;
+    if (mode === 'replay') {
+        const fixture = await store.read(service, name);
+        if (!fixture) {
+            throw new Error(`No recorded ${service} fixture "${name}" for ${operation}. Record it with API_FIXTURE_MODE=record.`);
+        }
+        return JSON.parse(fixture.body) as T;
+    }
+    const result = await live();
+    try {
+        await store.write(name, {
+            service,
+            request: { method: operation, url: JSON.stringify(request) },
+            status: 200,
+            contentType: 'application/json',
+            body: JSON.stringify(result),
+            recordedAt: new Date().toISOString(),
+        });
+    } catch (error) {
+        console.error(`Could not record fixture "${name}":`, error);
+    }
+    return result;
+}
+
+/**
+ * Wraps fetch in the browser so that requests to the recorded services go through the app's fixture endpoint,
+ * which replays or records them on the server.
+ * @param {string} endpoint - The fixture endpoint, '/api/fixtures'.
+ * @param {typeof fetch} baseFetch - The browser's fetch.
+ * @returns {typeof fetch} The wrapped fetch.
+ */
+export function createFixtureProxyFetch(endpoint: string, baseFetch: typeof fetch): typeof fetch {
+    return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const { method, url, body } = readFetchRequest(input, init);
+        if (!getFixtureService(url)) return baseFetch(input, init);
+        const headers = Object.fromEntries(new Headers(init?.headers).entries());
+        return baseFetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ method, url, body, headers }),
+        });
+    };
+}
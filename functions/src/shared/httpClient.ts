@@ -0,0 +1,185 @@
+/**
+ * @fileOverview A small HTTP client shared by the Cloud Functions and the Next.js app
+ * (imported there as '@shared/httpClient'). It retries rate-limited and transient failures
+ * with exponential backoff, honors Retry-After, and classifies the final error.
+ * It has no dependencies besides the global fetch, so both runtimes can use it.
+ */
+
+export type HttpErrorKind = 'rate-limited' | 'not-found' | 'auth' | 'transient' | 'invalid-request';
+
+export interface HttpError {
+  kind: HttpErrorKind;
+  message: string;
+  status?: number;
+  circuitOpen?: boolean; // True when the request was not sent because the circuit breaker is open
+}
+
+export type HttpResult<T> =
+  | { ok: true; data: T; status: number; attempts: number }
+  | { ok: false; error: HttpError; attempts: number };
+
+/**
+ * Tracks consecutive failures against one provider during a single run. Once the threshold is
+ * reached the circuit opens and stays open for the rest of the run, so requests fail fast.
+ */
+export interface CircuitBreaker {
+  readonly failureThreshold: number;
+  consecutiveFailures: number;
+  isOpen: () => boolean;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Longer backoffs or Retry-After values end the retries instead of waiting
+  circuitBreaker?: CircuitBreaker;
+  // Refines the classification for providers that signal errors in the body, e.g. a 400 carrying an auth error code.
+  classifyError?: (status: number, body: unknown) => HttpErrorKind | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+
+/**
+ * Creates a circuit breaker for one run.
+ * @param {number} failureThreshold - Consecutive failures after which the circuit opens.
+ * @returns {CircuitBreaker} A new, closed circuit breaker.
+ */
+export function createCircuitBreaker(failureThreshold: number = DEFAULT_CIRCUIT_FAILURE_THRESHOLD): CircuitBreaker {
+    const breaker: CircuitBreaker = {
+        failureThreshold,
+        consecutiveFailures: 0,
+        isOpen: () => breaker.consecutiveFailures >= failureThreshold,
+        recordSuccess: () => {
+            breaker.consecutiveFailures = 0;
+        },
+        recordFailure: () => {
+            breaker.consecutiveFailures++;
+        },
+    };
+    return breaker;
+}
+
+/**
+ * Maps an HTTP status code to an error kind.
+ * @param {number} status - The HTTP status code of a failed response.
+ * @returns {HttpErrorKind} The error kind.
+ */
+export function classifyHttpStatus(status: number): HttpErrorKind {
+    if (status === 429) return 'rate-limited';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404 || status === 410) return 'not-found';
+    if (status === 408 || status >= 500) return 'transient';
+    return 'invalid-request';
+}
+
+const isRetryable = (kind: HttpErrorKind): boolean => kind === 'rate-limited' || kind === 'transient';
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date.
+ * @param {string | null} header - The Retry-After header value.
+ * @returns {number | null} The delay in milliseconds, or null if absent or invalid.
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reads an error response body and builds a readable message, preferring its 'error' or 'message' field.
+ * @param {Response} response - The failed response.
+ * @returns {Promise<{message: string; body: unknown}>} The error message including the status code, and the parsed body.
+ */
+async function readErrorResponse(response: Response): Promise<{ message: string; body: unknown }> {
+    const bodyText = await response.text().catch(() => '');
+    try {
+        const body = JSON.parse(bodyText);
+        const detail = typeof body?.error === 'string' ? body.error : body?.error?.message || body?.message;
+        if (detail) return { message: `${detail} (Status ${response.status})`, body };
+        return { message: `API request failed with status ${response.status}.`, body };
+    } catch (e) {
+        // Not JSON, fall back to the raw body below
+    }
+    return {
+        message: `API request failed with status ${response.status}.${bodyText ? ` Raw: ${bodyText.substring(0, 150)}` : ''}`,
+        body: bodyText,
+    };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Requests a JSON resource, retrying rate-limited and transient failures with exponential backoff
+ * (with jitter) and honoring Retry-After. Never throws; failures are returned as a classified error.
+ * @param {string} url - The URL to request.
+ * @param {RequestInit} init - Options passed to fetch.
+ * @param {RetryOptions} options - Retry and circuit breaker options.
+ * @returns {Promise<HttpResult<T>>} The parsed body, or the final classified error.
+ */
+export async function fetchJsonWithRetry<T>(url: string, init: RequestInit = {}, options: RetryOptions = {}): Promise<HttpResult<T>> {
+    const {
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+        circuitBreaker,
+        classifyError,
+    } = options;
+
+    if (circuitBreaker?.isOpen()) {
+        return {
+            ok: false,
+            attempts: 0,
+            error: {
+                kind: 'transient',
+                circuitOpen: true,
+                message: `Skipped after ${circuitBreaker.failureThreshold} consecutive provider failures in this run.`,
+            },
+        };
+    }
+
+    let lastError: HttpError = { kind: 'transient', message: 'Request was not attempted.' };
+    let attempt = 0;
+    while (attempt < maxAttempts) {
+        attempt++;
+        let retryAfterMs: number | null = null;
+        try {
+            const response = await fetch(url, init);
+            if (response.ok) {
+                const data = (await response.json()) as T;
+                circuitBreaker?.recordSuccess();
+                return { ok: true, data, status: response.status, attempts: attempt };
+            }
+            const { message, body } = await readErrorResponse(response);
+            const kind = classifyError?.(response.status, body) || classifyHttpStatus(response.status);
+            lastError = { kind, status: response.status, message };
+            retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        } catch (error: any) {
+            lastError = { kind: 'transient', message: error?.message || 'Network request failed.' };
+        }
+
+        if (!isRetryable(lastError.kind) || attempt >= maxAttempts) break;
+
+        const backoffMs = baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs;
+        const delayMs = retryAfterMs ?? backoffMs;
+        if (delayMs > maxDelayMs) {
+            console.warn(`Not retrying ${lastError.kind} request: the required wait of ${Math.round(delayMs / 1000)}s exceeds the limit.`);
+            break;
+        }
+        await sleep(delayMs);
+    }
+
+    // Item-specific failures (like a missing post) say nothing about the provider's health.
+    if (lastError.kind === 'not-found' || lastError.kind === 'invalid-request') {
+        circuitBreaker?.recordSuccess();
+    } else {
+        circuitBreaker?.recordFailure();
+    }
+    return { ok: false, error: lastError, attempts: attempt };
+}
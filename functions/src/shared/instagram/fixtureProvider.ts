@@ -0,0 +1,123 @@
+import type { HttpResult } from '../httpClient';
+import type {
+  InstagramComment,
+  InstagramPage,
+  InstagramPageOptions,
+  InstagramPostData,
+  InstagramProvider,
+} from './types';
+
+const FIXTURE_PROFILE_POST_COUNT = 12;
+const FIXTURE_COMMENT_COUNT = 8;
+const DEFAULT_PAGE_SIZE = 6;
+// Shortcodes starting with this prefix behave like deleted posts, to exercise not-found handling locally.
+const MISSING_SHORTCODE_PREFIX = 'missing';
+
+const FIXTURE_COMMENT_TEXTS = [
+    'Love this! 🔥',
+    'Where can I buy this?',
+    'Great edit, what app do you use?',
+    'Not a fan of the music choice tbh',
+    'This made my day 😂',
+    'Can you do a tutorial on this?',
+    'Been following since day one!',
+    'The lighting in this is perfect',
+];
+
+/**
+ * Derives a stable number from a string, so fixture data is the same on every run.
+ * @param {string} value - The input string.
+ * @returns {number} A non-negative integer.
+ */
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Builds a fixture post for a shortcode. Metrics grow slowly with the day, so daily snapshots show gains.
+ * @param {string} shortcode - The post shortcode.
+ * @param {string} username - The author's username.
+ * @returns {InstagramPostData} The fixture post.
+ */
+function buildFixturePost(shortcode: string, username = 'fixture_creator'): InstagramPostData {
+    const seed = hashString(shortcode);
+    const ageInDays = 1 + (seed % 60);
+    const daysSinceEpoch = Math.floor(Date.now() / 86400000);
+    const playCount = 5000 + (seed % 200000) + (daysSinceEpoch % 1000) * 10;
+    return {
+        shortcode,
+        mediaType: 'reel',
+        permalink: `https://www.instagram.com/reel/${shortcode}/`,
+        likes: Math.round(playCount * (0.03 + (seed % 7) / 100)),
+        comments: Math.round(playCount * 0.002) + (seed % 40),
+        playCount,
+        reshareCount: Math.round(playCount * 0.004),
+        caption: `Fixture reel ${shortcode} #local #dev`,
+        thumbnailUrl: `https://placehold.co/640x1136.png?text=${encodeURIComponent(shortcode)}`,
+        username,
+        postedAt: new Date(Date.now() - ageInDays * 86400000).toISOString(),
+    };
+}
+
+/**
+ * Returns one page of a fixture list, using the item offset as the cursor.
+ * @param {T[]} items - All items.
+ * @param {InstagramPageOptions} options - The page options.
+ * @returns {InstagramPage<T>} The requested page.
+ */
+function paginate<T>(items: T[], options: InstagramPageOptions): InstagramPage<T> {
+    const offset = Number(options.cursor) || 0;
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const nextOffset = offset + limit;
+    return {
+        items: items.slice(offset, nextOffset),
+        nextCursor: nextOffset < items.length ? String(nextOffset) : undefined,
+    };
+}
+
+const success = <T>(data: T): HttpResult<T> => ({ ok: true, data, status: 200, attempts: 1 });
+
+const notFound = (shortcode: string): HttpResult<never> => ({
+    ok: false,
+    attempts: 1,
+    error: { kind: 'not-found', status: 404, message: `Fixture post ${shortcode} does not exist.` },
+});
+
+/**
+ * Creates a provider that serves deterministic fixture data without network access, for local development.
+ * @returns {InstagramProvider} The provider.
+ */
+export function createFixtureInstagramProvider(): InstagramProvider {
+    return {
+        name: 'fixture',
+
+        async fetchPostByShortcode(shortcode: string): Promise<HttpResult<InstagramPostData>> {
+            if (shortcode.startsWith(MISSING_SHORTCODE_PREFIX)) return notFound(shortcode);
+            return success(buildFixturePost(shortcode));
+        },
+
+        async listProfilePosts(username: string, options: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramPostData>>> {
+            const posts = Array.from({ length: FIXTURE_PROFILE_POST_COUNT }, (_, index) =>
+                buildFixturePost(`${username.replace(/[^a-zA-Z0-9_]/g, '')}Fx${index}`, username));
+            posts.sort((a, b) => (b.postedAt || '').localeCompare(a.postedAt || ''));
+            return success(paginate(posts, options));
+        },
+
+        async fetchComments(shortcode: string, options: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramComment>>> {
+            if (shortcode.startsWith(MISSING_SHORTCODE_PREFIX)) return notFound(shortcode);
+            const seed = hashString(shortcode);
+            const comments = Array.from({ length: FIXTURE_COMMENT_COUNT }, (_, index): InstagramComment => ({
+                id: `${shortcode}-c${index}`,
+                text: FIXTURE_COMMENT_TEXTS[(seed + index) % FIXTURE_COMMENT_TEXTS.length],
+                username: `fan_${(seed + index * 7) % 1000}`,
+                likeCount: (seed + index * 13) % 50,
+                postedAt: new Date(Date.now() - (index + 1) * 3600000).toISOString(),
+            }));
+            return success(paginate(comments, options));
+        },
+    };
+}
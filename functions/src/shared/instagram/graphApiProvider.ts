@@ -0,0 +1,259 @@
+import { fetchJsonWithRetry, type HttpErrorKind, type HttpResult } from '../httpClient';
+import { extractInstagramShortcode } from '../platformUrls';
+import type {
+  InstagramComment,
+  InstagramGraphApiCredentials,
+  InstagramMediaType,
+  InstagramPage,
+  InstagramPageOptions,
+  InstagramPostData,
+  InstagramProvider,
+  InstagramProviderOptions,
+} from './types';
+
+const GRAPH_API_BASE_URL = 'https://graph.facebook.com/v19.0';
+const MEDIA_FIELDS = 'id,shortcode,permalink,media_type,media_product_type,caption,like_count,comments_count,timestamp,thumbnail_url,media_url,username';
+const DISCOVERY_MEDIA_FIELDS = 'id,permalink,media_type,media_product_type,caption,like_count,comments_count,timestamp,thumbnail_url,media_url';
+// The Graph API cannot look media up by shortcode, so the account's own media is scanned page by page.
+const MEDIA_LOOKUP_PAGE_SIZE = 50;
+const MAX_MEDIA_LOOKUP_PAGES = 10;
+const DEFAULT_PAGE_SIZE = 25;
+
+// The fields read from Graph API responses. Fields are left out when the token lacks a permission or the
+// media type does not have them, so they are all optional.
+interface GraphApiList<T> {
+  data?: T[];
+  paging?: { next?: string; cursors?: { after?: string } };
+}
+
+interface GraphApiMedia {
+  id?: string;
+  shortcode?: string;
+  permalink?: string;
+  media_type?: string; // IMAGE, VIDEO or CAROUSEL_ALBUM
+  media_product_type?: string; // e.g. REELS
+  caption?: string;
+  like_count?: number;
+  comments_count?: number;
+  timestamp?: string;
+  thumbnail_url?: string;
+  media_url?: string;
+  username?: string;
+}
+
+interface GraphApiInsight {
+  name: string;
+  values?: { value?: number }[];
+}
+
+interface GraphApiBusinessDiscovery {
+  business_discovery?: { username?: string; media?: GraphApiList<GraphApiMedia> };
+}
+
+interface GraphApiComment {
+  id: string;
+  text?: string;
+  username?: string;
+  like_count?: number;
+  timestamp?: string;
+  parent_id?: string;
+}
+
+interface GraphApiErrorBody {
+  error?: { code?: number; error_subcode?: number };
+}
+
+/**
+ * Classifies Graph API errors, which often arrive as HTTP 400 with an error code in the body.
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} body - The parsed error body.
+ * @returns {HttpErrorKind | null} The error kind, or null to fall back to the status code.
+ */
+function classifyGraphApiError(status: number, body: unknown): HttpErrorKind | null {
+    const { code, error_subcode: subcode } = (body as GraphApiErrorBody | null)?.error || {};
+    if (typeof code !== 'number') return null;
+    if (code === 190 || code === 10 || (code >= 200 && code < 300)) return 'auth';
+    if (code === 4 || code === 17 || code === 32 || code === 613) return 'rate-limited';
+    if (code === 100 && subcode === 33) return 'not-found';
+    if (code === 1 || code === 2) return 'transient';
+    return null;
+}
+
+/**
+ * Extracts the shortcode from a post permalink.
+ * @param {string | undefined} permalink - The permalink, e.g. https://www.instagram.com/reel/ABC123/.
+ * @returns {string} The shortcode, or an empty string if not found.
+ */
+function shortcodeFromPermalink(permalink: string | undefined): string {
+    return (permalink && extractInstagramShortcode(permalink)) || '';
+}
+
+/**
+ * Maps the Graph API media_type and media_product_type to a media type.
+ * @param {GraphApiMedia} raw - A raw media object.
+ * @returns {InstagramMediaType | undefined} The media type, if known.
+ */
+function mapMediaType(raw: GraphApiMedia): InstagramMediaType | undefined {
+    if (raw.media_product_type === 'REELS') return 'reel';
+    switch (raw.media_type) {
+        case 'IMAGE': return 'image';
+        case 'VIDEO': return 'video';
+        case 'CAROUSEL_ALBUM': return 'carousel';
+        default: return undefined;
+    }
+}
+
+/**
+ * Maps a raw Graph API media object, plus optional insights, to InstagramPostData.
+ * @param {GraphApiMedia} raw - A raw media object.
+ * @param {Record<string, number>} insights - Insight values by metric name.
+ * @returns {InstagramPostData} The normalized post data.
+ */
+function mapMedia(raw: GraphApiMedia, insights: Record<string, number> = {}): InstagramPostData {
+    return {
+        shortcode: raw.shortcode || shortcodeFromPermalink(raw.permalink),
+        mediaType: mapMediaType(raw),
+        permalink: raw.permalink,
+        likes: Number(raw.like_count) || 0,
+        comments: Number(raw.comments_count) || 0,
+        playCount: insights.views ?? insights.plays ?? 0,
+        reshareCount: insights.shares ?? 0,
+        caption: raw.caption,
+        thumbnailUrl: raw.thumbnail_url || raw.media_url,
+        username: raw.username,
+        postedAt: raw.timestamp ? new Date(raw.timestamp).toISOString() : undefined,
+    };
+}
+
+/**
+ * Creates a provider backed by the official Instagram Graph API. Post and comment lookups only work
+ * for media owned by the connected business account; profile listing uses business discovery.
+ * @param {InstagramGraphApiCredentials} credentials - The access token and business account ID.
+ * @param {InstagramProviderOptions} options - Shared request options such as the run's circuit breaker.
+ * @returns {InstagramProvider} The provider.
+ */
+export function createGraphApiInstagramProvider(
+    credentials: InstagramGraphApiCredentials,
+    options: InstagramProviderOptions = {}
+): InstagramProvider {
+    const request = <T>(path: string, params: Record<string, string>): Promise<HttpResult<T>> => {
+        const query = new URLSearchParams({ ...params, access_token: credentials.accessToken });
+        return fetchJsonWithRetry<T>(
+            `${GRAPH_API_BASE_URL}${path}?${query.toString()}`,
+            { method: 'GET' },
+            { circuitBreaker: options.circuitBreaker, classifyError: classifyGraphApiError }
+        );
+    };
+
+    // Media IDs by shortcode, filled in as the account's media is scanned. A provider is created per refresh,
+    // so each page is fetched at most once per refresh however many posts are looked up.
+    const mediaIds = new Map<string, string>();
+    let pagesScanned = 0;
+    let nextPageCursor: string | undefined;
+    let scannedAllMedia = false;
+    let lookupQueue: Promise<unknown> = Promise.resolve();
+
+    const scanForMediaId = async (shortcode: string): Promise<HttpResult<string>> => {
+        let attempts = 0;
+        while (!mediaIds.has(shortcode) && !scannedAllMedia && pagesScanned < MAX_MEDIA_LOOKUP_PAGES) {
+            const result = await request<GraphApiList<GraphApiMedia>>(`/${credentials.businessAccountId}/media`, {
+                fields: 'id,shortcode,permalink',
+                limit: String(MEDIA_LOOKUP_PAGE_SIZE),
+                ...(nextPageCursor && { after: nextPageCursor }),
+            });
+            attempts += result.attempts;
+            if (!result.ok) return { ...result, attempts }; // The next lookup retries the same page
+            for (const media of result.data?.data || []) {
+                const mediaShortcode = media.shortcode || shortcodeFromPermalink(media.permalink);
+                if (mediaShortcode && media.id && !mediaIds.has(mediaShortcode)) mediaIds.set(mediaShortcode, media.id);
+            }
+            pagesScanned++;
+            nextPageCursor = result.data?.paging?.next ? result.data?.paging?.cursors?.after : undefined;
+            scannedAllMedia = !nextPageCursor;
+        }
+        const mediaId = mediaIds.get(shortcode);
+        if (mediaId) return { ok: true, data: mediaId, status: 200, attempts };
+        return {
+            ok: false,
+            attempts,
+            error: { kind: 'not-found', message: `Post ${shortcode} was not found among the connected business account's media.` },
+        };
+    };
+
+    // Lookups run one at a time, so that concurrent lookups do not fetch the same page twice.
+    const findMediaId = (shortcode: string): Promise<HttpResult<string>> => {
+        const lookup = lookupQueue.then(() => scanForMediaId(shortcode));
+        lookupQueue = lookup.catch(() => undefined);
+        return lookup;
+    };
+
+    return {
+        name: 'graph-api',
+
+        async fetchPostByShortcode(shortcode: string): Promise<HttpResult<InstagramPostData>> {
+            const mediaId = await findMediaId(shortcode);
+            if (!mediaId.ok) return mediaId;
+            const media = await request<GraphApiMedia>(`/${mediaId.data}`, { fields: MEDIA_FIELDS });
+            if (!media.ok) return media;
+
+            // Insights are best effort: they need extra permissions and are not available for every media type.
+            const insights: Record<string, number> = {};
+            const insightsResult = await request<GraphApiList<GraphApiInsight>>(`/${mediaId.data}/insights`, { metric: 'views,shares' });
+            if (insightsResult.ok) {
+                for (const metric of insightsResult.data?.data || []) {
+                    insights[metric.name] = Number(metric.values?.[0]?.value) || 0;
+                }
+            }
+            return {
+                ok: true,
+                data: mapMedia({ shortcode, ...media.data }, insights),
+                status: media.status,
+                attempts: mediaId.attempts + media.attempts + insightsResult.attempts,
+            };
+        },
+
+        async listProfilePosts(username: string, pageOptions: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramPostData>>> {
+            const limit = pageOptions.limit || DEFAULT_PAGE_SIZE;
+            const mediaEdge = `media.limit(${limit})${pageOptions.cursor ? `.after(${pageOptions.cursor})` : ''}{${DISCOVERY_MEDIA_FIELDS}}`;
+            const result = await request<GraphApiBusinessDiscovery>(`/${credentials.businessAccountId}`, {
+                fields: `business_discovery.username(${username}){username,${mediaEdge}}`,
+            });
+            if (!result.ok) return result;
+            const discovery = result.data?.business_discovery;
+            const media = discovery?.media;
+            return {
+                ...result,
+                data: {
+                    items: (media?.data || []).map(raw => mapMedia({ username: discovery?.username, ...raw })),
+                    nextCursor: media?.paging?.next ? media?.paging?.cursors?.after : undefined,
+                },
+            };
+        },
+
+        async fetchComments(shortcode: string, pageOptions: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramComment>>> {
+            const mediaId = await findMediaId(shortcode);
+            if (!mediaId.ok) return mediaId;
+            const result = await request<GraphApiList<GraphApiComment>>(`/${mediaId.data}/comments`, {
+                fields: 'id,text,username,like_count,timestamp,parent_id',
+                limit: String(pageOptions.limit || DEFAULT_PAGE_SIZE),
+                ...(pageOptions.cursor && { after: pageOptions.cursor }),
+            });
+            if (!result.ok) return { ...result, attempts: mediaId.attempts + result.attempts };
+            return {
+                ...result,
+                attempts: mediaId.attempts + result.attempts,
+                data: {
+                    items: (result.data?.data || []).map((raw): InstagramComment => ({
+                        id: raw.id,
+                        text: raw.text || '',
+                        username: raw.username,
+                        likeCount: Number(raw.like_count) || 0,
+                        postedAt: raw.timestamp ? new Date(raw.timestamp).toISOString() : undefined,
+                        ...(raw.parent_id && { parentId: raw.parent_id }),
+                    })),
+                    nextCursor: result.data?.paging?.next ? result.data?.paging?.cursors?.after : undefined,
+                },
+            };
+        },
+    };
+}
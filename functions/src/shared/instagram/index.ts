@@ -0,0 +1,95 @@
+/**
+ * @fileOverview Pluggable Instagram data providers, shared by the Cloud Functions and the Next.js app
+ * (imported there as '@shared/instagram'). The provider is chosen in API Management:
+ *
+ * - 'instagram-provider': JSON such as {"provider": "graph-api"}. One of 'rapidapi' (default when absent),
+ *   'graph-api' or 'fixture'.
+ * - 'RapidAPI-Instagram-Scraper': the RapidAPI key, used by 'rapidapi'.
+ * - 'instagram-graph-api': JSON {"accessToken": "...", "businessAccountId": "..."}, used by 'graph-api'.
+ */
+import { createFixtureInstagramProvider } from './fixtureProvider';
+import { createGraphApiInstagramProvider } from './graphApiProvider';
+import { createRapidApiInstagramProvider } from './rapidApiProvider';
+import type { InstagramProvider, InstagramProviderConfig, InstagramProviderName, InstagramProviderOptions } from './types';
+
+export * from './types';
+export * from './profiles';
+
+export const INSTAGRAM_PROVIDER_SERVICE_NAMES = {
+    provider: 'instagram-provider',
+    rapidApi: 'RapidAPI-Instagram-Scraper',
+    graphApi: 'instagram-graph-api',
+} as const;
+
+const PROVIDER_NAMES: InstagramProviderName[] = ['rapidapi', 'graph-api', 'fixture'];
+
+/**
+ * Parses a JSON credential value, returning null if it is not a JSON object.
+ * @param {string | undefined} value - The stored key value.
+ * @returns {Record<string, any> | null} The parsed object.
+ */
+function parseJsonObject(value: string | undefined): Record<string, any> | null {
+    if (!value) return null;
+    try {
+        const parsed = JSON.parse(value);
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Builds the provider configuration from API Management entries.
+ * @param {Record<string, string | undefined>} keyValues - Key values by service name, for the names in INSTAGRAM_PROVIDER_SERVICE_NAMES.
+ * @returns {{config: InstagramProviderConfig | null; error?: string}} The configuration, or an error describing what is missing.
+ */
+export function resolveInstagramProviderConfig(
+    keyValues: Record<string, string | undefined>
+): { config: InstagramProviderConfig | null; error?: string } {
+    const providerValue = keyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.provider]?.trim();
+    const providerName = (parseJsonObject(providerValue)?.provider ?? providerValue ?? 'rapidapi') as InstagramProviderName;
+    if (!PROVIDER_NAMES.includes(providerName)) {
+        return { config: null, error: `Unknown Instagram provider "${providerName}". Use one of: ${PROVIDER_NAMES.join(', ')}.` };
+    }
+
+    if (providerName === 'fixture') {
+        return { config: { provider: 'fixture' } };
+    }
+    if (providerName === 'graph-api') {
+        const credentials = parseJsonObject(keyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.graphApi]);
+        if (!credentials?.accessToken || !credentials?.businessAccountId) {
+            return {
+                config: null,
+                error: `The '${INSTAGRAM_PROVIDER_SERVICE_NAMES.graphApi}' credential must be JSON with accessToken and businessAccountId.`,
+            };
+        }
+        return {
+            config: {
+                provider: 'graph-api',
+                graphApi: { accessToken: credentials.accessToken, businessAccountId: String(credentials.businessAccountId) },
+            },
+        };
+    }
+    const rapidApiKey = keyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.rapidApi];
+    if (!rapidApiKey) {
+        return { config: null, error: `The '${INSTAGRAM_PROVIDER_SERVICE_NAMES.rapidApi}' API key is not configured.` };
+    }
+    return { config: { provider: 'rapidapi', rapidApiKey } };
+}
+
+/**
+ * Creates the configured Instagram provider.
+ * @param {InstagramProviderConfig} config - The provider configuration from resolveInstagramProviderConfig.
+ * @param {InstagramProviderOptions} options - Shared request options such as the run's circuit breaker.
+ * @returns {InstagramProvider} The provider.
+ */
+export function createInstagramProvider(config: InstagramProviderConfig, options: InstagramProviderOptions = {}): InstagramProvider {
+    switch (config.provider) {
+        case 'fixture':
+            return createFixtureInstagramProvider();
+        case 'graph-api':
+            return createGraphApiInstagramProvider(config.graphApi!, options);
+        default:
+            return createRapidApiInstagramProvider(config.rapidApiKey!, options);
+    }
+}
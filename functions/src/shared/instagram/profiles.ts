@@ -0,0 +1,73 @@
+import type { HttpError } from '../httpClient';
+import { buildInstagramPostUrl } from '../platformUrls';
+import type { InstagramMediaType, InstagramPostData, InstagramProvider } from './types';
+
+// Caps a single sync, even with a long backfill window.
+const MAX_PROFILE_PAGES = 10;
+
+export const DEFAULT_PROFILE_BACKFILL_DAYS = 30;
+export const MAX_PROFILE_BACKFILL_DAYS = 365;
+export const DEFAULT_TRACKED_MEDIA_TYPES: InstagramMediaType[] = ['reel'];
+
+/**
+ * A profile tracked for a user. Stored in the 'profiles' map of the user's 'instagramReelLinks'
+ * document, keyed by the username in the user's trackedChannels.instagram list.
+ */
+export interface TrackedInstagramProfile {
+  username: string;
+  mediaTypes: InstagramMediaType[]; // Only posts of these types are added to the user's links
+  backfillDays: number; // The first sync adds posts published within this many days
+  addedAt: string; // ISO string
+  lastSyncedAt?: string; // ISO string of the last successful profile check
+}
+
+export interface ProfilePostsResult {
+  posts: InstagramPostData[]; // Newest first
+  requests: number;
+  error?: HttpError; // Set when a page request failed; posts holds what was listed before it
+}
+
+/**
+ * Lists a profile's posts of the given media types published after a given time. Profiles list
+ * newest posts first apart from pinned posts, so paging stops at the first page without newer posts.
+ * Posts without a publish date cannot be placed in the window and are skipped.
+ * @param {InstagramProvider} provider - The Instagram data provider.
+ * @param {string} username - The profile username.
+ * @param {Date} publishedAfter - Only posts published after this time are returned.
+ * @param {InstagramMediaType[]} mediaTypes - The media types to include.
+ * @returns {Promise<ProfilePostsResult>} The posts and the number of requests made.
+ */
+export async function listRecentProfilePosts(
+    provider: InstagramProvider,
+    username: string,
+    publishedAfter: Date,
+    mediaTypes: InstagramMediaType[]
+): Promise<ProfilePostsResult> {
+    const result: ProfilePostsResult = { posts: [], requests: 0 };
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PROFILE_PAGES; page++) {
+        const response = await provider.listProfilePosts(username, { cursor });
+        result.requests += response.attempts;
+        if (!response.ok) {
+            result.error = response.error;
+            return result;
+        }
+
+        const recentPosts = response.data.items.filter(post => post.postedAt && new Date(post.postedAt) > publishedAfter);
+        result.posts.push(...recentPosts.filter(post => post.mediaType && mediaTypes.includes(post.mediaType)));
+
+        cursor = response.data.nextCursor;
+        if (recentPosts.length === 0 || !cursor) break;
+    }
+    return result;
+}
+
+/**
+ * Builds the canonical link for a listed post, using the /reel/ form for reels.
+ * @param {InstagramPostData} post - The post.
+ * @returns {string} The post link.
+ */
+export function profilePostUrl(post: InstagramPostData): string {
+    return buildInstagramPostUrl(post.shortcode, post.mediaType === 'reel' ? 'reel' : 'post');
+}
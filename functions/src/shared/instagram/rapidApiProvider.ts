@@ -0,0 +1,180 @@
+import { fetchJsonWithRetry, type HttpResult } from '../httpClient';
+import type {
+  InstagramComment,
+  InstagramMediaType,
+  InstagramPage,
+  InstagramPageOptions,
+  InstagramPostData,
+  InstagramProvider,
+  InstagramProviderOptions,
+} from './types';
+
+const RAPIDAPI_HOST = 'instagram-api-fast-reliable-data-scraper.p.rapidapi.com';
+
+// Endpoint paths of the scraper. Keep vendor specifics here and in the mappers below.
+const ENDPOINTS = {
+    post: (shortcode: string) => `/post?shortcode=${encodeURIComponent(shortcode)}`,
+    profilePosts: (username: string, cursor?: string) =>
+        `/user_posts?username=${encodeURIComponent(username)}${cursor ? `&end_cursor=${encodeURIComponent(cursor)}` : ''}`,
+    comments: (shortcode: string, cursor?: string) =>
+        `/comments?shortcode=${encodeURIComponent(shortcode)}${cursor ? `&end_cursor=${encodeURIComponent(cursor)}` : ''}`,
+};
+
+// The fields read from the scraper's responses. The vendor has renamed fields before, so older and newer
+// names are both listed.
+interface RapidApiMedia {
+  code?: string;
+  shortcode?: string;
+  media_type?: number; // 1 image, 2 video, 8 carousel
+  product_type?: string; // 'clips' for reels
+  like_count?: number;
+  likes?: number;
+  comment_count?: number;
+  comments?: number;
+  play_count?: number;
+  ig_play_count?: number;
+  view_count?: number;
+  reshare_count?: number;
+  share_count?: number;
+  caption?: string | { text?: string } | null;
+  image_versions2?: { candidates?: { url?: string }[] };
+  thumbnail_url?: string;
+  display_url?: string;
+  user?: { username?: string };
+  owner?: { username?: string };
+  taken_at?: number; // Seconds since the epoch
+  taken_at_timestamp?: number;
+}
+
+interface RapidApiComment {
+  pk?: string | number;
+  id?: string | number;
+  text?: string;
+  user?: { username?: string };
+  owner?: { username?: string };
+  comment_like_count?: number;
+  like_count?: number;
+  created_at?: number; // Seconds since the epoch
+  created_at_utc?: number;
+  parent_comment_id?: string | number;
+}
+
+// A page of posts or comments, in each of the shapes the vendor has used.
+interface RapidApiPage<T> {
+  items?: T[];
+  data?: { items?: T[] };
+  comments?: T[];
+  edges?: { node: T }[];
+  next_max_id?: string;
+  end_cursor?: string;
+  page_info?: { end_cursor?: string };
+  pagination_token?: string;
+}
+
+const toIsoFromSeconds = (seconds: unknown): string | undefined =>
+    typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+
+/**
+ * Maps the scraper's media_type/product_type codes to a media type.
+ * @param {RapidApiMedia} raw - A raw media object.
+ * @returns {InstagramMediaType | undefined} The media type, if known.
+ */
+function mapMediaType(raw: RapidApiMedia): InstagramMediaType | undefined {
+    if (raw.product_type === 'clips') return 'reel';
+    switch (raw.media_type) {
+        case 1: return 'image';
+        case 2: return 'video';
+        case 8: return 'carousel';
+        default: return undefined;
+    }
+}
+
+/**
+ * Maps a raw media object from the scraper to InstagramPostData. The vendor has renamed fields
+ * before, so older and newer names are both accepted.
+ * @param {RapidApiMedia} raw - A raw media object.
+ * @param {string} fallbackShortcode - Used when the response carries no shortcode.
+ * @returns {InstagramPostData} The normalized post data.
+ */
+function mapMedia(raw: RapidApiMedia, fallbackShortcode = ''): InstagramPostData {
+    return {
+        shortcode: raw.code || raw.shortcode || fallbackShortcode,
+        mediaType: mapMediaType(raw),
+        likes: Number(raw.like_count ?? raw.likes) || 0,
+        comments: Number(raw.comment_count ?? raw.comments) || 0,
+        playCount: Number(raw.play_count ?? raw.ig_play_count ?? raw.view_count) || 0,
+        reshareCount: Number(raw.reshare_count ?? raw.share_count) || 0,
+        caption: typeof raw.caption === 'string' ? raw.caption : raw.caption?.text,
+        thumbnailUrl: raw.image_versions2?.candidates?.[0]?.url || raw.thumbnail_url || raw.display_url,
+        username: raw.user?.username || raw.owner?.username,
+        postedAt: toIsoFromSeconds(raw.taken_at ?? raw.taken_at_timestamp),
+    };
+}
+
+/**
+ * Maps a raw comment object from the scraper to an InstagramComment.
+ * @param {RapidApiComment} raw - A raw comment object.
+ * @returns {InstagramComment} The normalized comment.
+ */
+function mapComment(raw: RapidApiComment): InstagramComment {
+    return {
+        id: String(raw.pk ?? raw.id ?? ''),
+        text: raw.text || '',
+        username: raw.user?.username || raw.owner?.username,
+        likeCount: Number(raw.comment_like_count ?? raw.like_count) || 0,
+        postedAt: toIsoFromSeconds(raw.created_at ?? raw.created_at_utc),
+        ...(raw.parent_comment_id && { parentId: String(raw.parent_comment_id) }),
+    };
+}
+
+const extractList = <T>(data: RapidApiPage<T> | undefined): T[] =>
+    data?.items || data?.data?.items || data?.comments || data?.edges?.map(edge => edge.node) || [];
+const extractCursor = (data: RapidApiPage<unknown> | undefined): string | undefined =>
+    data?.next_max_id || data?.end_cursor || data?.page_info?.end_cursor || data?.pagination_token || undefined;
+
+/**
+ * Creates a provider backed by the RapidAPI Instagram scraper.
+ * @param {string} apiKey - The RapidAPI key.
+ * @param {InstagramProviderOptions} options - Shared request options such as the run's circuit breaker.
+ * @returns {InstagramProvider} The provider.
+ */
+export function createRapidApiInstagramProvider(apiKey: string, options: InstagramProviderOptions = {}): InstagramProvider {
+    const request = <T>(path: string): Promise<HttpResult<T>> => fetchJsonWithRetry<T>(
+        `https://${RAPIDAPI_HOST}${path}`,
+        { method: 'GET', headers: { 'X-RapidAPI-Key': apiKey, 'X-RapidAPI-Host': RAPIDAPI_HOST } },
+        { circuitBreaker: options.circuitBreaker }
+    );
+
+    return {
+        name: 'rapidapi',
+
+        async fetchPostByShortcode(shortcode: string): Promise<HttpResult<InstagramPostData>> {
+            const result = await request<RapidApiMedia | null>(ENDPOINTS.post(shortcode));
+            if (!result.ok) return result;
+            if (!result.data || typeof result.data !== 'object') {
+                return { ok: false, attempts: result.attempts, error: { kind: 'transient', message: 'API response was unexpectedly empty.' } };
+            }
+            return { ...result, data: mapMedia(result.data, shortcode) };
+        },
+
+        async listProfilePosts(username: string, pageOptions: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramPostData>>> {
+            const result = await request<RapidApiPage<RapidApiMedia>>(ENDPOINTS.profilePosts(username, pageOptions.cursor));
+            if (!result.ok) return result;
+            const posts = extractList(result.data).map(raw => mapMedia(raw)).filter(post => post.shortcode);
+            return {
+                ...result,
+                data: { items: pageOptions.limit ? posts.slice(0, pageOptions.limit) : posts, nextCursor: extractCursor(result.data) },
+            };
+        },
+
+        async fetchComments(shortcode: string, pageOptions: InstagramPageOptions = {}): Promise<HttpResult<InstagramPage<InstagramComment>>> {
+            const result = await request<RapidApiPage<RapidApiComment>>(ENDPOINTS.comments(shortcode, pageOptions.cursor));
+            if (!result.ok) return result;
+            const comments = extractList(result.data).map(mapComment).filter(comment => comment.id);
+            return {
+                ...result,
+                data: { items: pageOptions.limit ? comments.slice(0, pageOptions.limit) : comments, nextCursor: extractCursor(result.data) },
+            };
+        },
+    };
+}
@@ -0,0 +1,63 @@
+import type { CircuitBreaker, HttpResult } from '../httpClient';
+
+export type InstagramProviderName = 'rapidapi' | 'graph-api' | 'fixture';
+export type InstagramMediaType = 'reel' | 'video' | 'image' | 'carousel';
+
+// Provider-neutral post data; each provider maps its own response shape onto this.
+export interface InstagramPostData {
+  shortcode: string;
+  mediaType?: InstagramMediaType;
+  permalink?: string;
+  likes: number;
+  comments: number;
+  playCount: number;
+  reshareCount: number;
+  caption?: string;
+  thumbnailUrl?: string;
+  username?: string;
+  postedAt?: string; // ISO string
+}
+
+export interface InstagramComment {
+  id: string;
+  text: string;
+  username?: string;
+  likeCount: number;
+  postedAt?: string; // ISO string
+  parentId?: string; // Set for replies
+}
+
+export interface InstagramPage<T> {
+  items: T[];
+  nextCursor?: string; // Absent on the last page
+}
+
+export interface InstagramPageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * A source of Instagram data. Implementations never throw; failures come back as classified errors.
+ */
+export interface InstagramProvider {
+  readonly name: InstagramProviderName;
+  fetchPostByShortcode: (shortcode: string) => Promise<HttpResult<InstagramPostData>>;
+  listProfilePosts: (username: string, options?: InstagramPageOptions) => Promise<HttpResult<InstagramPage<InstagramPostData>>>;
+  fetchComments: (shortcode: string, options?: InstagramPageOptions) => Promise<HttpResult<InstagramPage<InstagramComment>>>;
+}
+
+export interface InstagramGraphApiCredentials {
+  accessToken: string;
+  businessAccountId: string; // ID of the Instagram business account connected to the access token
+}
+
+export interface InstagramProviderConfig {
+  provider: InstagramProviderName;
+  rapidApiKey?: string;
+  graphApi?: InstagramGraphApiCredentials;
+}
+
+export interface InstagramProviderOptions {
+  circuitBreaker?: CircuitBreaker;
+}
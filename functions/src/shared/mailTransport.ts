@@ -0,0 +1,315 @@
+/**
+ * @fileOverview Mail transports for the emails the Cloud Functions send, such as login codes. It uses Node's
+ * 'net', 'tls' and 'fs', so it must not be imported by code that runs in the browser.
+ *
+ * The transport is the 'mail-transport' entry in API Management, holding JSON such as
+ * {"transport": "smtp", "from": "Brand Dikhega <login@example.com>", "host": "smtp.example.com", "port": 587,
+ * "user": "...", "password": "..."}. In the emulator, {"transport": "file", "dir": "mail-outbox"} writes
+ * each email to a file and {"transport": "console"} logs it.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+
+export const MAIL_SERVICE_NAME = 'mail-transport';
+
+const DEFAULT_FROM = 'Brand Dikhega <no-reply@localhost>';
+const DEFAULT_OUTBOX_DIR = 'mail-outbox';
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export type MailTransportSettings =
+  | {
+      transport: 'smtp';
+      from: string;
+      host: string;
+      port: number;
+      secure: boolean; // TLS from the start (port 465); otherwise STARTTLS is used when the server offers it
+      user?: string;
+      password?: string;
+    }
+  | { transport: 'file'; from: string; dir: string } // dir is relative to the repository root unless absolute
+  | { transport: 'console'; from: string };
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: MailTransportSettings['transport'];
+  send(message: MailMessage): Promise<void>;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Checks mail transport settings, e.g. parsed from JSON. The file and console transports are refused outside
+ * the emulator, because they would put login codes on disk or in the function logs.
+ * @param {unknown} value - The settings.
+ * @param {boolean} isEmulator - True when running in the Firebase emulator.
+ * @returns {{settings: MailTransportSettings | null; error?: string}} The settings or an error.
+ */
+export function validateMailTransportSettings(value: unknown, isEmulator: boolean): { settings: MailTransportSettings | null; error?: string } {
+    const candidate = value as Record<string, unknown> | null;
+    if (!candidate || typeof candidate !== 'object') {
+        return { settings: null, error: 'The mail transport setting must be an object with a "transport".' };
+    }
+    const from = candidate.from === undefined ? DEFAULT_FROM : candidate.from;
+    if (typeof from !== 'string' || !extractAddress(from) || /[\r\n]/.test(from)) {
+        return { settings: null, error: 'The "from" address is not a valid email address.' };
+    }
+    switch (candidate.transport) {
+        case 'smtp': {
+            const { host, port, secure, user, password } = candidate;
+            if (candidate.from === undefined) return { settings: null, error: 'The SMTP transport needs a "from" address.' };
+            if (typeof host !== 'string' || !host.trim()) return { settings: null, error: 'The SMTP transport needs a "host".' };
+            const smtpPort = port === undefined ? 587 : port;
+            if (typeof smtpPort !== 'number' || !Number.isInteger(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+                return { settings: null, error: 'The SMTP "port" must be a port number.' };
+            }
+            if (secure !== undefined && typeof secure !== 'boolean') return { settings: null, error: 'The SMTP "secure" flag must be true or false.' };
+            if ((user !== undefined && typeof user !== 'string') || (password !== undefined && typeof password !== 'string') || !user !== !password) {
+                return { settings: null, error: 'The SMTP "user" and "password" must be given together.' };
+            }
+            return {
+                settings: {
+                    transport: 'smtp',
+                    from,
+                    host: host.trim(),
+                    port: smtpPort,
+                    secure: typeof secure === 'boolean' ? secure : smtpPort === 465,
+                    ...(user && { user, password: password as string }),
+                },
+            };
+        }
+        case 'file': {
+            if (!isEmulator) return { settings: null, error: 'The file transport only works in the emulator. Use "smtp".' };
+            const dir = candidate.dir === undefined ? DEFAULT_OUTBOX_DIR : candidate.dir;
+            if (typeof dir !== 'string' || !dir.trim()) return { settings: null, error: 'The file transport "dir" must be a directory path.' };
+            return { settings: { transport: 'file', from, dir: dir.trim() } };
+        }
+        case 'console':
+            if (!isEmulator) return { settings: null, error: 'The console transport only works in the emulator. Use "smtp".' };
+            return { settings: { transport: 'console', from } };
+        default:
+            return { settings: null, error: 'The mail transport must be "smtp", "file" or "console".' };
+    }
+}
+
+/**
+ * Parses the 'mail-transport' API Management value.
+ * @param {string | undefined} value - The stored key value.
+ * @param {boolean} isEmulator - True when running in the Firebase emulator.
+ * @returns {{settings: MailTransportSettings | null; error?: string}} The settings, or an error if the value is missing or invalid.
+ */
+export function parseMailTransportSettings(value: string | undefined, isEmulator: boolean): { settings: MailTransportSettings | null; error?: string } {
+    if (!value?.trim()) return { settings: null, error: 'No mail transport is configured.' };
+    try {
+        return validateMailTransportSettings(JSON.parse(value), isEmulator);
+    } catch (e) {
+        return { settings: null, error: 'The mail transport setting is not valid JSON.' };
+    }
+}
+
+/**
+ * The settings used when no transport is configured while running in the Firebase emulator.
+ * @returns {MailTransportSettings} Settings for the console transport.
+ */
+export function getDevelopmentMailTransportSettings(): MailTransportSettings {
+    return { transport: 'console', from: DEFAULT_FROM };
+}
+
+/**
+ * Returns the bare address of a mailbox such as "Name <user@example.com>" or "user@example.com".
+ * @param {string} mailbox - The mailbox.
+ * @returns {string | null} The address, or null if there is none.
+ */
+function extractAddress(mailbox: string): string | null {
+    const address = (mailbox.match(/<([^<>]+)>\s*$/)?.[1] ?? mailbox).trim();
+    return /^[^\s@<>]+@[^\s@<>]+$/.test(address) ? address : null;
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not plain ASCII.
+ * @param {string} value - The header value.
+ * @returns {string} The encoded value.
+ */
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Builds an RFC 5322 message with a base64-encoded UTF-8 text body, which needs no dot-stuffing in SMTP.
+ * @param {string} from - The sender mailbox.
+ * @param {MailMessage} message - The message.
+ * @returns {string} The message, with CRLF line endings.
+ */
+export function buildMimeMessage(from: string, message: MailMessage): string {
+    if ([message.to, message.subject].some(value => /[\r\n]/.test(value))) {
+        throw new Error('Mail headers cannot contain line breaks.');
+    }
+    const domain = extractAddress(from)?.split('@')[1] || 'localhost';
+    const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').match(/.{1,76}/g) || [];
+    return [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        ...body,
+    ].join('\r\n');
+}
+
+/**
+ * Collects SMTP replies from a socket. A reply may span several lines ("250-...") and ends with "250 ...".
+ * @param {net.Socket} socket - The connection.
+ * @returns {{read: () => Promise<SmtpReply>; detach: () => void}} Reads the next reply; detach stops listening, e.g. before a TLS upgrade.
+ */
+function createReplyReader(socket: net.Socket): { read: () => Promise<SmtpReply>; detach: () => void } {
+    let buffer = '';
+    const lines: string[] = [];
+    let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    let failure: Error | null = null;
+
+    const settle = () => {
+        if (!waiting) return;
+        const last = lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+        const pending = waiting;
+        if (last >= 0) {
+            waiting = null;
+            const replyLines = lines.splice(0, last + 1);
+            pending.resolve({ code: Number(replyLines[last].slice(0, 3)), text: replyLines.map(line => line.slice(4)).join('\n') });
+        } else if (failure) {
+            waiting = null;
+            pending.reject(failure);
+        }
+    };
+    const onData = (chunk: Buffer) => {
+        const parts = (buffer + chunk.toString('utf8')).split('\r\n');
+        buffer = parts.pop() || '';
+        lines.push(...parts);
+        settle();
+    };
+    const onError = (error: Error) => {
+        failure = failure || error;
+        settle();
+    };
+    const onClose = () => onError(new Error('The SMTP server closed the connection.'));
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+
+    return {
+        read: () => new Promise<SmtpReply>((resolve, reject) => {
+            waiting = { resolve, reject };
+            settle();
+        }),
+        detach: () => {
+            socket.off('data', onData);
+            socket.off('error', onError);
+            socket.off('close', onClose);
+        },
+    };
+}
+
+/**
+ * Sends one message over SMTP, with implicit TLS or STARTTLS and AUTH PLAIN when a user is set.
+ * @param {Extract<MailTransportSettings, {transport: 'smtp'}>} settings - The SMTP settings.
+ * @param {MailMessage} message - The message.
+ * @returns {Promise<void>} Resolves once the server has accepted the message.
+ */
+async function sendWithSmtp(settings: Extract<MailTransportSettings, { transport: 'smtp' }>, message: MailMessage): Promise<void> {
+    const from = extractAddress(settings.from);
+    const to = extractAddress(message.to);
+    if (!from) throw new Error(`Invalid sender address "${settings.from}".`);
+    if (!to) throw new Error(`Invalid recipient address "${message.to}".`);
+    const data = buildMimeMessage(settings.from, message);
+
+    const watch = (connection: net.Socket) => {
+        connection.setTimeout(SMTP_TIMEOUT_MS, () => connection.destroy(new Error('The SMTP server did not answer in time.')));
+        return connection;
+    };
+    let socket: net.Socket = watch(settings.secure ?
+        tls.connect({ host: settings.host, port: settings.port, servername: settings.host }) :
+        net.connect({ host: settings.host, port: settings.port }));
+    let reader = createReplyReader(socket);
+    const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await reader.read();
+        if (!expected.includes(reply.code)) {
+            throw new Error(`SMTP ${line === null ? 'greeting' : line.split(' ')[0]} failed: ${reply.code} ${reply.text}`);
+        }
+        return reply;
+    };
+
+    try {
+        const clientName = os.hostname() || 'localhost';
+        await command(null, [220]);
+        const ehlo = await command(`EHLO ${clientName}`, [250]);
+        if (!settings.secure) {
+            if (/^STARTTLS\b/im.test(ehlo.text)) {
+                await command('STARTTLS', [220]);
+                reader.detach();
+                socket = watch(tls.connect({ socket, servername: settings.host }));
+                reader = createReplyReader(socket);
+                await command(`EHLO ${clientName}`, [250]);
+            } else if (settings.user) {
+                throw new Error('The SMTP server does not offer STARTTLS, so the password would be sent unencrypted.');
+            }
+        }
+        if (settings.user) {
+            const credentials = Buffer.from(`\0${settings.user}\0${settings.password || ''}`, 'utf8').toString('base64');
+            await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await command(`MAIL FROM:<${from}>`, [250]);
+        await command(`RCPT TO:<${to}>`, [250, 251]);
+        await command('DATA', [354]);
+        await command(`${data}\r\n.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined); // The message is already accepted
+    } finally {
+        reader.detach();
+        socket.destroy();
+    }
+}
+
+/**
+ * Creates the transport for the given settings.
+ * @param {MailTransportSettings} settings - The settings, e.g. from parseMailTransportSettings.
+ * @param {string} rootDir - The repository root, against which a relative outbox directory is resolved.
+ * @returns {MailTransport} The transport.
+ */
+export function createMailTransport(settings: MailTransportSettings, rootDir: string): MailTransport {
+    switch (settings.transport) {
+        case 'smtp':
+            return { name: 'smtp', send: message => sendWithSmtp(settings, message) };
+        case 'file':
+            return {
+                name: 'file',
+                send: async message => {
+                    const dir = path.resolve(rootDir, settings.dir);
+                    await fs.promises.mkdir(dir, { recursive: true });
+                    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w@.-]/g, '_')}.eml`;
+                    await fs.promises.writeFile(path.join(dir, fileName), buildMimeMessage(settings.from, message));
+                    console.log(`[mail] Wrote "${message.subject}" for ${message.to} to ${path.join(dir, fileName)}.`);
+                },
+            };
+        case 'console':
+            return {
+                name: 'console',
+                send: async message => {
+                    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+                },
+            };
+    }
+}
@@ -0,0 +1,326 @@
+/**
+ * @fileOverview Parses YouTube, Instagram and TikTok URLs into canonical IDs. Shared by the Cloud Functions and
+ * the Next.js app (imported there as '@shared/platformUrls'). Parsers return typed results with a
+ * rejection reason instead of throwing, so callers can tell users why a link was not accepted.
+ */
+
+export type UrlRejectionReason =
+  | 'empty' // Nothing was given
+  | 'invalid-url' // Not parseable as a URL
+  | 'unsupported-host' // A URL, but not from this platform
+  | 'unsupported-path' // From this platform, but not a link to a single video or post
+  | 'invalid-id'; // The ID in the link is malformed
+
+export type ParsedUrlResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: UrlRejectionReason; message: string };
+
+export type YouTubeUrlKind = 'watch' | 'short-link' | 'shorts' | 'embed' | 'live';
+
+export interface ParsedYouTubeVideoUrl {
+  videoId: string;
+  kind: YouTubeUrlKind;
+  canonicalUrl: string; // https://www.youtube.com/watch?v={videoId}
+}
+
+// How a YouTube channel was identified: by channel ID, @handle or legacy username.
+export type YouTubeChannelReference =
+  | { kind: 'id'; channelId: string }
+  | { kind: 'handle'; handle: string }
+  | { kind: 'username'; username: string };
+
+export type InstagramUrlKind = 'post' | 'reel' | 'tv';
+
+export interface ParsedInstagramPostUrl {
+  shortcode: string;
+  kind: InstagramUrlKind;
+  username?: string; // Present for links like instagram.com/{username}/reel/{shortcode}
+  canonicalUrl: string; // https://www.instagram.com/{p|reel|tv}/{shortcode}/
+}
+
+export interface ParsedTikTokVideoUrl {
+  videoId: string;
+  username?: string; // Present for links like tiktok.com/@{username}/video/{id}
+  canonicalUrl: string; // https://www.tiktok.com/@{username}/video/{videoId}, or the embed link without a username
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const YOUTUBE_SHORT_LINK_HOSTS = ['youtu.be', 'www.youtu.be'];
+const YOUTUBE_VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+// Path prefixes followed by the video ID, e.g. /shorts/{id}
+const YOUTUBE_PATH_KINDS: Record<string, YouTubeUrlKind> = { shorts: 'shorts', embed: 'embed', live: 'live', v: 'embed', e: 'embed' };
+
+const YOUTUBE_CHANNEL_ID_PATTERN = /^UC[a-zA-Z0-9_-]{22}$/;
+const YOUTUBE_HANDLE_PATTERN = /^@?[a-zA-Z0-9._-]{3,30}$/;
+
+const INSTAGRAM_HOSTS = ['instagram.com', 'www.instagram.com', 'm.instagram.com', 'instagr.am', 'www.instagr.am'];
+const INSTAGRAM_SHORTCODE_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const INSTAGRAM_USERNAME_PATTERN = /^[a-zA-Z0-9._]{1,30}$/;
+const INSTAGRAM_PATH_KINDS: Record<string, InstagramUrlKind> = { p: 'post', reel: 'reel', reels: 'reel', tv: 'tv' };
+const INSTAGRAM_CANONICAL_SEGMENTS: Record<InstagramUrlKind, string> = { post: 'p', reel: 'reel', tv: 'tv' };
+// First path segments that are Instagram pages rather than usernames.
+const INSTAGRAM_RESERVED_PATHS = ['p', 'reel', 'reels', 'tv', 'explore', 'stories', 'accounts', 'direct', 'about', 'developer', 'legal'];
+
+const TIKTOK_HOSTS = ['tiktok.com', 'www.tiktok.com', 'm.tiktok.com'];
+// Short links redirect to the video, which can only be resolved by following them.
+const TIKTOK_SHORT_LINK_HOSTS = ['vm.tiktok.com', 'vt.tiktok.com'];
+const TIKTOK_VIDEO_ID_PATTERN = /^\d{15,21}$/;
+const TIKTOK_USERNAME_PATTERN = /^[a-zA-Z0-9._]{1,24}$/;
+
+const reject = <T>(reason: UrlRejectionReason, message: string): ParsedUrlResult<T> => ({ ok: false, reason, message });
+
+/**
+ * Parses user input as a URL, adding https:// when the scheme is missing.
+ * @param {string} input - The raw link.
+ * @returns {URL | null} The parsed URL, or null if the input is not a valid http(s) URL.
+ */
+function toUrl(input: string): URL | null {
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`;
+    try {
+        const url = new URL(withScheme);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+const pathSegments = (url: URL): string[] => url.pathname.split('/').filter(Boolean);
+
+/**
+ * Decodes a percent-encoded path segment, such as a handle with non-ASCII characters.
+ * @param {string} segment - The path segment.
+ * @returns {string | null} The decoded segment, or null if its percent-encoding is malformed.
+ */
+function decodeSegment(segment: string): string | null {
+    try {
+        return decodeURIComponent(segment);
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Parses a link to a single YouTube video: watch, youtu.be, shorts, embed and live links on
+ * www, m., music. and youtube-nocookie.com hosts.
+ * @param {string} input - The link to parse.
+ * @returns {ParsedUrlResult<ParsedYouTubeVideoUrl>} The video ID and canonical URL, or the rejection reason.
+ */
+export function parseYouTubeVideoUrl(input: string): ParsedUrlResult<ParsedYouTubeVideoUrl> {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return reject('empty', 'No link was provided.');
+    const url = toUrl(trimmed);
+    if (!url) return reject('invalid-url', `"${trimmed}" is not a valid URL.`);
+
+    const host = url.hostname.toLowerCase();
+    const segments = pathSegments(url);
+    let videoId: string | null = null;
+    let kind: YouTubeUrlKind;
+
+    if (YOUTUBE_SHORT_LINK_HOSTS.includes(host)) {
+        kind = 'short-link';
+        videoId = segments[0] || null;
+    } else if (YOUTUBE_HOSTS.includes(host)) {
+        if (segments[0] === 'watch') {
+            kind = 'watch';
+            videoId = url.searchParams.get('v');
+        } else if (segments.length >= 2 && YOUTUBE_PATH_KINDS[segments[0]]) {
+            kind = YOUTUBE_PATH_KINDS[segments[0]];
+            videoId = segments[1];
+        } else {
+            return reject('unsupported-path', 'This YouTube link does not point to a single video.');
+        }
+    } else {
+        return reject('unsupported-host', `"${host}" is not a YouTube address.`);
+    }
+
+    if (!videoId) return reject('unsupported-path', 'This YouTube link does not contain a video ID.');
+    if (!YOUTUBE_VIDEO_ID_PATTERN.test(videoId)) return reject('invalid-id', `"${videoId}" is not a valid YouTube video ID.`);
+    return { ok: true, value: { videoId, kind, canonicalUrl: `https://www.youtube.com/watch?v=${videoId}` } };
+}
+
+/**
+ * Parses a YouTube channel given as a channel URL (/channel/{id}, /@handle, /user/{name} or /c/{name}),
+ * a bare channel ID or an @handle. Custom /c/ names are looked up as handles, which matches most channels.
+ * @param {string} input - The channel URL, ID or handle.
+ * @returns {ParsedUrlResult<YouTubeChannelReference>} The channel reference, or the rejection reason.
+ */
+export function parseYouTubeChannelInput(input: string): ParsedUrlResult<YouTubeChannelReference> {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return reject('empty', 'No channel was provided.');
+    if (YOUTUBE_CHANNEL_ID_PATTERN.test(trimmed)) return { ok: true, value: { kind: 'id', channelId: trimmed } };
+    if (trimmed.startsWith('@')) {
+        return YOUTUBE_HANDLE_PATTERN.test(trimmed)
+            ? { ok: true, value: { kind: 'handle', handle: trimmed } }
+            : reject('invalid-id', `"${trimmed}" is not a valid YouTube handle.`);
+    }
+
+    const url = toUrl(trimmed);
+    if (!url) return reject('invalid-url', `"${trimmed}" is not a valid channel URL, ID or @handle.`);
+    const host = url.hostname.toLowerCase();
+    if (!YOUTUBE_HOSTS.includes(host)) return reject('unsupported-host', `"${host}" is not a YouTube address.`);
+
+    const [first, second] = pathSegments(url);
+    if (first?.startsWith('@')) {
+        const handle = decodeSegment(first);
+        if (handle === null) return reject('invalid-id', `"${first}" is not a valid YouTube handle.`);
+        return YOUTUBE_HANDLE_PATTERN.test(handle)
+            ? { ok: true, value: { kind: 'handle', handle } }
+            : reject('invalid-id', `"${handle}" is not a valid YouTube handle.`);
+    }
+    if (first === 'channel' && second) {
+        return YOUTUBE_CHANNEL_ID_PATTERN.test(second)
+            ? { ok: true, value: { kind: 'id', channelId: second } }
+            : reject('invalid-id', `"${second}" is not a valid YouTube channel ID.`);
+    }
+    if (first === 'user' && second) return { ok: true, value: { kind: 'username', username: second } };
+    if (first === 'c' && second) return { ok: true, value: { kind: 'handle', handle: `@${second}` } };
+    return reject('unsupported-path', 'This YouTube link does not point to a channel.');
+}
+
+/**
+ * Parses a link to a single Instagram post: /p/, /reel/, /reels/ and /tv/ links, optionally
+ * prefixed with the author's username, with or without query strings.
+ * @param {string} input - The link to parse.
+ * @returns {ParsedUrlResult<ParsedInstagramPostUrl>} The shortcode and canonical URL, or the rejection reason.
+ */
+export function parseInstagramPostUrl(input: string): ParsedUrlResult<ParsedInstagramPostUrl> {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return reject('empty', 'No link was provided.');
+    const url = toUrl(trimmed);
+    if (!url) return reject('invalid-url', `"${trimmed}" is not a valid URL.`);
+
+    const host = url.hostname.toLowerCase();
+    if (!INSTAGRAM_HOSTS.includes(host)) return reject('unsupported-host', `"${host}" is not an Instagram address.`);
+
+    const segments = pathSegments(url);
+    let username: string | undefined;
+    if (segments.length >= 3 && INSTAGRAM_USERNAME_PATTERN.test(segments[0]) && INSTAGRAM_PATH_KINDS[segments[1]]) {
+        username = segments.shift();
+    }
+    const kind = INSTAGRAM_PATH_KINDS[segments[0]];
+    const shortcode = segments[1];
+    if (!kind || !shortcode) return reject('unsupported-path', 'This Instagram link does not point to a single post or reel.');
+    if (!INSTAGRAM_SHORTCODE_PATTERN.test(shortcode)) return reject('invalid-id', `"${shortcode}" is not a valid Instagram shortcode.`);
+
+    return {
+        ok: true,
+        value: {
+            shortcode,
+            kind,
+            ...(username && { username }),
+            canonicalUrl: buildInstagramPostUrl(shortcode, kind),
+        },
+    };
+}
+
+/**
+ * Parses an Instagram profile given as a profile URL, an @username or a bare username.
+ * @param {string} input - The profile URL or username.
+ * @returns {ParsedUrlResult<{username: string}>} The lowercase username, or the rejection reason.
+ */
+export function parseInstagramProfileInput(input: string): ParsedUrlResult<{ username: string }> {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return reject('empty', 'No profile was provided.');
+
+    let candidate = trimmed.replace(/^@/, '');
+    if (!INSTAGRAM_USERNAME_PATTERN.test(candidate)) {
+        const url = toUrl(trimmed);
+        if (!url) return reject('invalid-url', `"${trimmed}" is not a valid profile URL or username.`);
+        const host = url.hostname.toLowerCase();
+        if (!INSTAGRAM_HOSTS.includes(host)) return reject('unsupported-host', `"${host}" is not an Instagram address.`);
+        const [first] = pathSegments(url);
+        if (!first || INSTAGRAM_RESERVED_PATHS.includes(first.toLowerCase())) {
+            return reject('unsupported-path', 'This Instagram link does not point to a profile.');
+        }
+        candidate = first;
+    }
+    if (!INSTAGRAM_USERNAME_PATTERN.test(candidate)) return reject('invalid-id', `"${candidate}" is not a valid Instagram username.`);
+    return { ok: true, value: { username: candidate.toLowerCase() } };
+}
+
+/**
+ * Parses a link to a single TikTok video: /@{username}/video/{id}, /embed/v2/{id} and /v/{id}.html links,
+ * with or without query strings. Short vm. and vt. links are rejected, because the video ID is not in them.
+ * @param {string} input - The link to parse.
+ * @returns {ParsedUrlResult<ParsedTikTokVideoUrl>} The video ID and canonical URL, or the rejection reason.
+ */
+export function parseTikTokVideoUrl(input: string): ParsedUrlResult<ParsedTikTokVideoUrl> {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return reject('empty', 'No link was provided.');
+    const url = toUrl(trimmed);
+    if (!url) return reject('invalid-url', `"${trimmed}" is not a valid URL.`);
+
+    const host = url.hostname.toLowerCase();
+    if (TIKTOK_SHORT_LINK_HOSTS.includes(host)) {
+        return reject('unsupported-path', 'TikTok short links are not supported. Open the link and copy the full video address instead.');
+    }
+    if (!TIKTOK_HOSTS.includes(host)) return reject('unsupported-host', `"${host}" is not a TikTok address.`);
+
+    const segments = pathSegments(url);
+    let username: string | undefined;
+    let videoId: string | undefined;
+    if (segments.length >= 3 && segments[0].startsWith('@') && segments[1] === 'video') {
+        const decoded = decodeSegment(segments[0].slice(1));
+        if (decoded === null) return reject('invalid-id', `"${segments[0]}" is not a valid TikTok username.`);
+        username = decoded;
+        videoId = segments[2];
+    } else if (segments[0] === 'embed') {
+        videoId = segments[1] === 'v2' ? segments[2] : segments[1];
+    } else if (segments[0] === 'v' && segments[1]) {
+        videoId = segments[1].replace(/\.html$/, '');
+    } else {
+        return reject('unsupported-path', 'This TikTok link does not point to a single video.');
+    }
+
+    if (!videoId) return reject('unsupported-path', 'This TikTok link does not contain a video ID.');
+    if (!TIKTOK_VIDEO_ID_PATTERN.test(videoId)) return reject('invalid-id', `"${videoId}" is not a valid TikTok video ID.`);
+    if (username && !TIKTOK_USERNAME_PATTERN.test(username)) return reject('invalid-id', `"${username}" is not a valid TikTok username.`);
+    return {
+        ok: true,
+        value: {
+            videoId,
+            ...(username && { username }),
+            canonicalUrl: buildTikTokVideoUrl(videoId, username),
+        },
+    };
+}
+
+/**
+ * Builds the canonical link for a TikTok video.
+ * @param {string} videoId - The video ID.
+ * @param {string} username - The author's username, if known.
+ * @returns {string} The link, e.g. https://www.tiktok.com/@{username}/video/{videoId}.
+ */
+export function buildTikTokVideoUrl(videoId: string, username?: string): string {
+    return username ? `https://www.tiktok.com/@${username}/video/${videoId}` : `https://www.tiktok.com/embed/v2/${videoId}`;
+}
+
+/**
+ * Builds the canonical link for an Instagram post.
+ * @param {string} shortcode - The post shortcode.
+ * @param {InstagramUrlKind} kind - The kind of post.
+ * @returns {string} The link, e.g. https://www.instagram.com/reel/{shortcode}/.
+ */
+export function buildInstagramPostUrl(shortcode: string, kind: InstagramUrlKind = 'post'): string {
+    return `https://www.instagram.com/${INSTAGRAM_CANONICAL_SEGMENTS[kind]}/${shortcode}/`;
+}
+
+/**
+ * Extracts a YouTube video ID from a link.
+ * @param {string} url - The YouTube link.
+ * @returns {string | null} The video ID, or null if the link is not a valid video link.
+ */
+export function extractYouTubeVideoId(url: string): string | null {
+    const result = parseYouTubeVideoUrl(url);
+    return result.ok ? result.value.videoId : null;
+}
+
+/**
+ * Extracts an Instagram shortcode from a post or reel link.
+ * @param {string} url - The Instagram link.
+ * @returns {string | null} The shortcode, or null if the link is not a valid post link.
+ */
+export function extractInstagramShortcode(url: string): string | null {
+    const result = parseInstagramPostUrl(url);
+    return result.ok ? result.value.shortcode : null;
+}
@@ -0,0 +1,73 @@
+/**
+ * @fileOverview The registry of platform modules, shared by the Cloud Functions and the Next.js app
+ * (imported there as '@shared/platforms'). A platform module describes how a platform's links are parsed,
+ * where its items are stored, which metrics they have and which providers fetch them. The refresh,
+ * reconciliation, sidebar, '/analytics' summaries and AI context all read PLATFORM_MODULES, so adding a
+ * platform means adding its module here (and its icon in the app's platform display settings).
+ */
+import { tiktokPlatform } from './tiktok';
+import type { PlatformId, PlatformModule, PlatformProviderConfig } from './types';
+
+export * from './types';
+
+export const PLATFORM_MODULES: PlatformModule[] = [tiktokPlatform];
+
+export const PLATFORM_IDS: PlatformId[] = PLATFORM_MODULES.map(platformModule => platformModule.id);
+
+/**
+ * Checks whether a value is the ID of a platform module.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True for a registered platform ID.
+ */
+export function isPlatformId(value: unknown): value is PlatformId {
+    return typeof value === 'string' && (PLATFORM_IDS as string[]).includes(value);
+}
+
+/**
+ * Looks up a platform module.
+ * @param {PlatformId} id - The platform ID.
+ * @returns {PlatformModule} The module.
+ * @throws {Error} If no module is registered under the ID.
+ */
+export function getPlatformModule(id: PlatformId): PlatformModule {
+    const platformModule = PLATFORM_MODULES.find(candidate => candidate.id === id);
+    if (!platformModule) throw new Error(`Unknown platform "${id}".`);
+    return platformModule;
+}
+
+/**
+ * Builds a platform's provider configuration from API Management entries. The provider entry holds a
+ * provider name, either plain or as JSON such as {"provider": "fixture"}; without it the first provider is used.
+ * @param {PlatformModule} platformModule - The platform module.
+ * @param {Record<string, string | undefined>} keyValues - Key values by service name, for the module's providerServiceNames.
+ * @returns {{config: PlatformProviderConfig | null; error?: string}} The configuration, or an error describing what is missing.
+ */
+export function resolvePlatformProviderConfig(
+    platformModule: PlatformModule,
+    keyValues: Record<string, string | undefined>
+): { config: PlatformProviderConfig | null; error?: string } {
+    const { provider: providerServiceName, apiKey: apiKeyServiceName } = platformModule.providerServiceNames;
+    const providerValue = keyValues[providerServiceName]?.trim();
+    let providerName = providerValue || platformModule.providerNames[0];
+    try {
+        const parsed = providerValue ? JSON.parse(providerValue) : null;
+        if (parsed && typeof parsed === 'object' && typeof parsed.provider === 'string') providerName = parsed.provider;
+    } catch (e) {
+        // A plain provider name
+    }
+    if (!platformModule.providerNames.includes(providerName)) {
+        return {
+            config: null,
+            error: `Unknown ${platformModule.name} provider "${providerName}". Use one of: ${platformModule.providerNames.join(', ')}.`,
+        };
+    }
+
+    if (platformModule.keylessProviders.includes(providerName)) {
+        return { config: { provider: providerName } };
+    }
+    const apiKey = keyValues[apiKeyServiceName];
+    if (!apiKey) {
+        return { config: null, error: `The '${apiKeyServiceName}' API key is not configured.` };
+    }
+    return { config: { provider: providerName, apiKey } };
+}
@@ -0,0 +1,61 @@
+import type { HttpResult } from '../../httpClient';
+import type { PlatformItemData, PlatformLink, PlatformProvider } from '../types';
+
+// Video IDs ending in this suffix behave like deleted videos, to exercise not-found handling locally.
+const MISSING_VIDEO_ID_SUFFIX = '000';
+
+/**
+ * Derives a stable number from a string, so fixture data is the same on every run.
+ * @param {string} value - The input string.
+ * @returns {number} A non-negative integer.
+ */
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Builds a fixture video for a link. Metrics grow slowly with the day, so daily snapshots show gains.
+ * @param {PlatformLink} link - The parsed link.
+ * @returns {PlatformItemData} The fixture video.
+ */
+function buildFixtureVideo(link: PlatformLink): PlatformItemData {
+    const seed = hashString(link.id);
+    const ageInDays = 1 + (seed % 45);
+    const daysSinceEpoch = Math.floor(Date.now() / 86400000);
+    const views = 20000 + (seed % 900000) + (daysSinceEpoch % 1000) * 25;
+    return {
+        id: link.id,
+        title: `Fixture TikTok ${link.id.slice(-6)} #fyp #local`,
+        thumbnailUrl: `https://placehold.co/576x1024.png?text=${encodeURIComponent(link.id.slice(-6))}`,
+        author: link.canonicalUrl.match(/@([^/]+)/)?.[1] || 'fixture_creator',
+        publishedAt: new Date(Date.now() - ageInDays * 86400000).toISOString(),
+        metrics: {
+            views,
+            likes: Math.round(views * (0.05 + (seed % 9) / 100)),
+            comments: Math.round(views * 0.003) + (seed % 60),
+            shares: Math.round(views * 0.006),
+            saves: Math.round(views * 0.004),
+        },
+    };
+}
+
+/**
+ * Creates a provider that serves deterministic fixture data without network access, for local development.
+ * @returns {PlatformProvider} The provider.
+ */
+export function createFixtureTikTokProvider(): PlatformProvider {
+    return {
+        name: 'fixture',
+
+        async fetchItem(link: PlatformLink): Promise<HttpResult<PlatformItemData>> {
+            if (link.id.endsWith(MISSING_VIDEO_ID_SUFFIX)) {
+                return { ok: false, attempts: 1, error: { kind: 'not-found', status: 404, message: `Fixture video ${link.id} does not exist.` } };
+            }
+            return { ok: true, data: buildFixtureVideo(link), status: 200, attempts: 1 };
+        },
+    };
+}
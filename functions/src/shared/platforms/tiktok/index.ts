@@ -0,0 +1,46 @@
+import { parseTikTokVideoUrl } from '../../platformUrls';
+import type { ParsedUrlResult } from '../../platformUrls';
+import type { PlatformLink, PlatformModule } from '../types';
+import { createFixtureTikTokProvider } from './fixtureProvider';
+import { createRapidApiTikTokProvider } from './rapidApiProvider';
+
+/**
+ * Parses a TikTok video link into its video ID and canonical link.
+ * @param {string} input - The link to parse.
+ * @returns {ParsedUrlResult<PlatformLink>} The parsed link, or the rejection reason.
+ */
+function parseTikTokLink(input: string): ParsedUrlResult<PlatformLink> {
+    const parsed = parseTikTokVideoUrl(input);
+    return parsed.ok ? { ok: true, value: { id: parsed.value.videoId, canonicalUrl: parsed.value.canonicalUrl } } : parsed;
+}
+
+/**
+ * TikTok videos. Configured in API Management with 'tiktok-provider' ("rapidapi", the default, or "fixture")
+ * and the 'RapidAPI-TikTok-Scraper' key.
+ */
+export const tiktokPlatform: PlatformModule = {
+    id: 'tiktok',
+    name: 'TikTok',
+    itemLabel: 'video',
+    itemLabelPlural: 'videos',
+    linkExample: 'https://www.tiktok.com/@brand/video/7301234567890123456',
+    collections: {
+        links: 'tiktokLinks',
+        analytics: 'userTikTokAnalytics',
+        items: 'videos',
+        archive: 'archivedTikTokAnalytics',
+    },
+    metrics: [
+        { key: 'views', label: 'Views' },
+        { key: 'likes', label: 'Likes' },
+        { key: 'comments', label: 'Comments' },
+        { key: 'shares', label: 'Shares' },
+        { key: 'saves', label: 'Saves' },
+    ],
+    parseLink: parseTikTokLink,
+    providerServiceNames: { provider: 'tiktok-provider', apiKey: 'RapidAPI-TikTok-Scraper' },
+    providerNames: ['rapidapi', 'fixture'],
+    keylessProviders: ['fixture'],
+    createProvider: (config, options = {}) =>
+        config.provider === 'fixture' ? createFixtureTikTokProvider() : createRapidApiTikTokProvider(config.apiKey!, options),
+};
@@ -0,0 +1,96 @@
+import { fetchJsonWithRetry, type HttpErrorKind, type HttpResult } from '../../httpClient';
+import type { PlatformItemData, PlatformLink, PlatformProvider, PlatformProviderOptions } from '../types';
+
+const RAPIDAPI_HOST = 'tiktok-scraper7.p.rapidapi.com';
+
+// The scraper looks videos up by their full link. Keep vendor specifics here and in the mapper below.
+const ENDPOINTS = {
+    video: (url: string) => `/?url=${encodeURIComponent(url)}&hd=0`,
+};
+
+// The fields read from the scraper's response. 'code' is 0 on success; other fields may be missing.
+interface RapidApiTikTokVideo {
+  id?: string;
+  aweme_id?: string;
+  title?: string;
+  cover?: string;
+  origin_cover?: string;
+  author?: { unique_id?: string };
+  create_time?: number; // Unix seconds
+  play_count?: number;
+  digg_count?: number;
+  comment_count?: number;
+  share_count?: number;
+  collect_count?: number;
+}
+
+interface RapidApiTikTokResponse {
+  code?: number;
+  msg?: string;
+  data?: RapidApiTikTokVideo;
+}
+
+const toIsoFromSeconds = (seconds: unknown): string | undefined =>
+    typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+
+/**
+ * Maps a raw video object from the scraper to PlatformItemData.
+ * @param {RapidApiTikTokVideo} raw - The 'data' object of the response.
+ * @param {string} videoId - The requested video ID, used when the response carries none.
+ * @returns {PlatformItemData} The normalized video data.
+ */
+function mapVideo(raw: RapidApiTikTokVideo, videoId: string): PlatformItemData {
+    return {
+        id: String(raw.id || raw.aweme_id || videoId),
+        title: raw.title || undefined,
+        thumbnailUrl: raw.cover || raw.origin_cover || undefined,
+        author: raw.author?.unique_id || undefined,
+        publishedAt: toIsoFromSeconds(raw.create_time),
+        metrics: {
+            views: Number(raw.play_count) || 0,
+            likes: Number(raw.digg_count) || 0,
+            comments: Number(raw.comment_count) || 0,
+            shares: Number(raw.share_count) || 0,
+            saves: Number(raw.collect_count) || 0,
+        },
+    };
+}
+
+/**
+ * The scraper answers 200 with a non-zero 'code' when it cannot resolve the link, e.g. for deleted videos.
+ * @param {RapidApiTikTokResponse | null} data - The response body.
+ * @returns {{kind: HttpErrorKind; message: string} | null} The error, or null for a successful response.
+ */
+function getBodyError(data: RapidApiTikTokResponse | null): { kind: HttpErrorKind; message: string } | null {
+    if (!data || typeof data !== 'object') return { kind: 'transient', message: 'API response was unexpectedly empty.' };
+    if (data.code !== undefined && data.code !== 0) {
+        return { kind: 'not-found', message: data.msg || 'The video could not be found. It may have been deleted or made private.' };
+    }
+    if (!data.data) return { kind: 'transient', message: 'API response did not contain video data.' };
+    return null;
+}
+
+/**
+ * Creates a provider backed by the RapidAPI TikTok scraper.
+ * @param {string} apiKey - The RapidAPI key.
+ * @param {PlatformProviderOptions} options - Shared request options such as the run's circuit breaker.
+ * @returns {PlatformProvider} The provider.
+ */
+export function createRapidApiTikTokProvider(apiKey: string, options: PlatformProviderOptions = {}): PlatformProvider {
+    return {
+        name: 'rapidapi',
+
+        async fetchItem(link: PlatformLink): Promise<HttpResult<PlatformItemData>> {
+            const result = await fetchJsonWithRetry<RapidApiTikTokResponse | null>(
+                `https://${RAPIDAPI_HOST}${ENDPOINTS.video(link.canonicalUrl)}`,
+                { method: 'GET', headers: { 'X-RapidAPI-Key': apiKey, 'X-RapidAPI-Host': RAPIDAPI_HOST } },
+                { circuitBreaker: options.circuitBreaker }
+            );
+            if (!result.ok) return result;
+            const bodyError = getBodyError(result.data);
+            if (bodyError) return { ok: false, attempts: result.attempts, error: bodyError };
+            // getBodyError returned null, so the body has the video
+            return { ...result, data: mapVideo(result.data!.data!, link.id) };
+        },
+    };
+}
@@ -0,0 +1,88 @@
+import type { CircuitBreaker, HttpErrorKind, HttpResult } from '../httpClient';
+import type { ParsedUrlResult } from '../platformUrls';
+
+// Platforms tracked through a platform module. YouTube and Instagram keep their own services.
+export type PlatformId = 'tiktok';
+
+// A metric every item of the platform has, e.g. views. Keys are used in stored metrics and snapshots.
+export interface PlatformMetricDefinition {
+  key: string;
+  label: string; // e.g. 'Views'
+}
+
+// A link parsed by a platform module.
+export interface PlatformLink {
+  id: string; // The item ID, also the Firestore document ID
+  canonicalUrl: string;
+}
+
+// Provider-neutral item data; each provider maps its own response shape onto this.
+export interface PlatformItemData {
+  id: string;
+  title?: string; // Title or caption
+  thumbnailUrl?: string;
+  author?: string; // The author's username
+  publishedAt?: string; // ISO string
+  metrics: Record<string, number>; // By PlatformMetricDefinition.key
+}
+
+// Stored in {collections.analytics}/{userId}/{collections.items}/{itemId}.
+export interface StoredPlatformItem extends PlatformItemData {
+  link: string; // The assigned link
+  lastFetched: string; // ISO string, same as lastCheckedAt
+  lastCheckedAt?: string; // ISO string of the last fetch attempt
+  lastChangedAt?: string; // ISO string of the last fetch that found different metrics, metadata or error state
+  lastSnapshotDate?: string; // "YYYY-MM-DD" of the latest daily snapshot
+  errorMessage?: string;
+  errorKind?: HttpErrorKind; // Classification of the last fetch failure
+}
+
+// One document per item per day (UTC) in the item's 'dailySnapshots', holding that day's cumulative totals.
+export interface PlatformItemSnapshot {
+  date: string; // "YYYY-MM-DD", also the document ID
+  itemId: string;
+  metrics: Record<string, number>;
+  capturedAt: string; // ISO string
+}
+
+/**
+ * A source of item data for one platform. Implementations never throw; failures come back as classified errors.
+ */
+export interface PlatformProvider {
+  readonly name: string;
+  fetchItem: (link: PlatformLink) => Promise<HttpResult<PlatformItemData>>;
+}
+
+export interface PlatformProviderConfig {
+  provider: string; // One of the module's providerNames
+  apiKey?: string;
+}
+
+export interface PlatformProviderOptions {
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Everything the app needs to track one platform: how links are parsed, where items are stored,
+ * which metrics they have and where their data comes from.
+ */
+export interface PlatformModule {
+  id: PlatformId;
+  name: string; // e.g. 'TikTok'
+  itemLabel: string; // e.g. 'video'
+  itemLabelPlural: string; // e.g. 'videos'
+  linkExample: string; // Shown as the placeholder of link inputs
+  collections: {
+    links: string; // {links}/{userId} holds the assigned links
+    analytics: string; // {analytics}/{userId}/{items}/{itemId} holds the stored items
+    items: string;
+    archive: string; // Where the reconciliation archives items of removed links
+  };
+  metrics: PlatformMetricDefinition[]; // The first metric is the platform's headline metric
+  parseLink: (input: string) => ParsedUrlResult<PlatformLink>;
+  // API Management entries: 'provider' selects one of providerNames (the first is the default), 'apiKey' holds the key.
+  providerServiceNames: { provider: string; apiKey: string };
+  providerNames: string[];
+  keylessProviders: string[]; // Providers that work without an API key, e.g. 'fixture'
+  createProvider: (config: PlatformProviderConfig, options?: PlatformProviderOptions) => PlatformProvider;
+}
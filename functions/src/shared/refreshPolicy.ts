@@ -0,0 +1,135 @@
+/**
+ * @fileOverview Age-based refresh scheduling, shared by the Cloud Functions and the Next.js app
+ * (imported there as '@shared/refreshPolicy'). Fresh posts are refreshed often and old posts rarely.
+ *
+ * The workspace policy is the 'refresh-policy' entry in API Management, holding JSON such as
+ * {"tiers": [{"maxAgeHours": 48, "intervalHours": 1}], "defaultIntervalHours": 168}. A user's
+ * 'refreshPolicy' field overrides it for that user's links. Looking for new posts of tracked channels and
+ * profiles has its own, fixed interval.
+ */
+
+export const REFRESH_POLICY_SERVICE_NAME = 'refresh-policy';
+
+// The scheduler runs hourly, so an interval cannot be shorter than an hour.
+export const MIN_REFRESH_INTERVAL_HOURS = 1;
+export const MAX_REFRESH_INTERVAL_HOURS = 24 * 30;
+
+// Scheduled runs look for new posts of a user's tracked channels and profiles at most this often.
+export const DISCOVERY_INTERVAL_HOURS = 24;
+
+// Lets a link fetched a few minutes into one scheduled run be due again at the same point of a later run.
+const DUE_TOLERANCE_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RefreshPolicyTier {
+  maxAgeHours: number; // Applies to posts published at most this many hours ago
+  intervalHours: number; // How often those posts are refreshed
+}
+
+export interface RefreshPolicy {
+  tiers: RefreshPolicyTier[]; // Sorted by maxAgeHours, youngest first
+  defaultIntervalHours: number; // For posts older than every tier, and posts without a publish date
+}
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  tiers: [
+    { maxAgeHours: 48, intervalHours: 1 },
+    { maxAgeHours: 24 * 7, intervalHours: 6 },
+    { maxAgeHours: 24 * 30, intervalHours: 24 },
+  ],
+  defaultIntervalHours: 24 * 7,
+};
+
+/** What the scheduler knows about a stored post. */
+export interface RefreshCandidate {
+  publishedAt?: string; // ISO string
+  lastFetched?: string; // ISO string of the last fetch, successful or not
+  failed?: boolean; // Whether the last fetch failed
+}
+
+/**
+ * Checks a policy and returns it with its tiers sorted, or an error describing the first problem.
+ * @param {unknown} value - The policy, e.g. parsed from JSON.
+ * @returns {{policy: RefreshPolicy | null; error?: string}} The normalized policy or an error.
+ */
+export function validateRefreshPolicy(value: unknown): { policy: RefreshPolicy | null; error?: string } {
+    const candidate = value as Partial<RefreshPolicy> | null;
+    if (!candidate || typeof candidate !== 'object' || !Array.isArray(candidate.tiers)) {
+        return { policy: null, error: 'The refresh policy must be an object with a "tiers" array.' };
+    }
+    const isInterval = (hours: unknown) =>
+        typeof hours === 'number' && Number.isInteger(hours) && hours >= MIN_REFRESH_INTERVAL_HOURS && hours <= MAX_REFRESH_INTERVAL_HOURS;
+
+    if (!isInterval(candidate.defaultIntervalHours)) {
+        return { policy: null, error: `The default interval must be a whole number of hours between ${MIN_REFRESH_INTERVAL_HOURS} and ${MAX_REFRESH_INTERVAL_HOURS}.` };
+    }
+    for (const tier of candidate.tiers) {
+        if (!tier || typeof tier.maxAgeHours !== 'number' || !Number.isInteger(tier.maxAgeHours) || tier.maxAgeHours < 1) {
+            return { policy: null, error: 'Every tier needs a maximum age of at least 1 hour.' };
+        }
+        if (!isInterval(tier.intervalHours)) {
+            return { policy: null, error: `Tier intervals must be whole numbers of hours between ${MIN_REFRESH_INTERVAL_HOURS} and ${MAX_REFRESH_INTERVAL_HOURS}.` };
+        }
+    }
+    const tiers = candidate.tiers
+        .map(({ maxAgeHours, intervalHours }) => ({ maxAgeHours, intervalHours }))
+        .sort((a, b) => a.maxAgeHours - b.maxAgeHours);
+    if (tiers.some((tier, index) => index > 0 && tier.maxAgeHours === tiers[index - 1].maxAgeHours)) {
+        return { policy: null, error: 'Two tiers cannot have the same maximum age.' };
+    }
+    return { policy: { tiers, defaultIntervalHours: candidate.defaultIntervalHours! } };
+}
+
+/**
+ * Parses the 'refresh-policy' API Management value. A missing value selects the default policy.
+ * @param {string | undefined} value - The stored key value.
+ * @returns {{policy: RefreshPolicy | null; error?: string}} The policy, or an error if the value is invalid.
+ */
+export function parseRefreshPolicy(value: string | undefined): { policy: RefreshPolicy | null; error?: string } {
+    if (!value?.trim()) return { policy: DEFAULT_REFRESH_POLICY };
+    try {
+        return validateRefreshPolicy(JSON.parse(value));
+    } catch (e) {
+        return { policy: null, error: 'The refresh policy is not valid JSON.' };
+    }
+}
+
+/**
+ * Returns how often a post should be refreshed under a policy.
+ * @param {RefreshPolicy} policy - The refresh policy.
+ * @param {string | undefined} publishedAt - ISO string of the post's publish time, if known.
+ * @param {Date} now - The current time.
+ * @returns {number} The refresh interval in hours.
+ */
+export function getRefreshIntervalHours(policy: RefreshPolicy, publishedAt: string | undefined, now: Date): number {
+    const publishedTime = publishedAt ? new Date(publishedAt).getTime() : NaN;
+    if (isNaN(publishedTime)) return policy.defaultIntervalHours;
+    const ageHours = (now.getTime() - publishedTime) / HOUR_MS;
+    return policy.tiers.find(tier => ageHours <= tier.maxAgeHours)?.intervalHours ?? policy.defaultIntervalHours;
+}
+
+/**
+ * Checks whether a post is due for a refresh. Posts never fetched, and posts whose last fetch failed, are always due.
+ * @param {RefreshPolicy} policy - The refresh policy.
+ * @param {RefreshCandidate} candidate - The stored post, or an empty object if it was never fetched.
+ * @param {Date} now - The current time.
+ * @returns {boolean} True if the post should be refreshed now.
+ */
+export function isRefreshDue(policy: RefreshPolicy, candidate: RefreshCandidate, now: Date): boolean {
+    const lastFetchedTime = candidate.lastFetched ? new Date(candidate.lastFetched).getTime() : NaN;
+    if (candidate.failed || isNaN(lastFetchedTime)) return true;
+    const intervalMs = getRefreshIntervalHours(policy, candidate.publishedAt, now) * HOUR_MS;
+    return now.getTime() - lastFetchedTime >= intervalMs - DUE_TOLERANCE_MS;
+}
+
+/**
+ * Checks whether a scheduled run should look for new posts of a user's tracked channels or profiles.
+ * @param {string | undefined} lastDiscoveredAt - ISO string of the last time it did, if ever.
+ * @param {Date} now - The current time.
+ * @returns {boolean} True if new posts should be looked for now.
+ */
+export function isDiscoveryDue(lastDiscoveredAt: string | undefined, now: Date): boolean {
+    const lastDiscoveredTime = lastDiscoveredAt ? new Date(lastDiscoveredAt).getTime() : NaN;
+    if (isNaN(lastDiscoveredTime)) return true;
+    return now.getTime() - lastDiscoveredTime >= DISCOVERY_INTERVAL_HOURS * HOUR_MS - DUE_TOLERANCE_MS;
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileOverview Retention of orphaned analytics documents, shared by the Cloud Functions and the Next.js app
+ * (imported there as '@shared/retention'). An analytics document is orphaned when its video or post is no
+ * longer among the owner's assigned links, or the owner no longer exists.
+ *
+ * The setting is the 'analytics-retention' entry in API Management, holding JSON such as
+ * {"action": "archive", "graceDays": 7}.
+ */
+
+export const RETENTION_SERVICE_NAME = 'analytics-retention';
+export const MAX_RETENTION_GRACE_DAYS = 365;
+
+export type OrphanAction = 'archive' | 'delete';
+
+export interface AnalyticsRetentionSettings {
+  action: OrphanAction; // 'archive' moves the document and its snapshots to the archive collections first
+  graceDays: number; // How long a document stays orphaned before the action is taken; 0 acts on the first run
+}
+
+export const DEFAULT_RETENTION_SETTINGS: AnalyticsRetentionSettings = { action: 'archive', graceDays: 7 };
+
+// What a reconciliation run does with an analytics document: nothing for 'assigned', remove the mark for
+// 'restored', mark 'newly-orphaned' documents, wait for 'orphaned' ones, and archive or delete 'expired' ones.
+export type OrphanStatus = 'assigned' | 'restored' | 'newly-orphaned' | 'orphaned' | 'expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks retention settings, e.g. parsed from JSON.
+ * @param {unknown} value - The settings.
+ * @returns {{settings: AnalyticsRetentionSettings | null; error?: string}} The settings or an error.
+ */
+export function validateRetentionSettings(value: unknown): { settings: AnalyticsRetentionSettings | null; error?: string } {
+    const candidate = value as Partial<AnalyticsRetentionSettings> | null;
+    if (!candidate || typeof candidate !== 'object') {
+        return { settings: null, error: 'The retention setting must be an object with "action" and "graceDays".' };
+    }
+    if (candidate.action !== 'archive' && candidate.action !== 'delete') {
+        return { settings: null, error: 'The retention action must be "archive" or "delete".' };
+    }
+    const { graceDays } = candidate;
+    if (typeof graceDays !== 'number' || !Number.isInteger(graceDays) || graceDays < 0 || graceDays > MAX_RETENTION_GRACE_DAYS) {
+        return { settings: null, error: `The grace period must be a whole number of days between 0 and ${MAX_RETENTION_GRACE_DAYS}.` };
+    }
+    return { settings: { action: candidate.action, graceDays } };
+}
+
+/**
+ * Parses the 'analytics-retention' API Management value. A missing value selects the default settings.
+ * @param {string | undefined} value - The stored key value.
+ * @returns {{settings: AnalyticsRetentionSettings | null; error?: string}} The settings, or an error if the value is invalid.
+ */
+export function parseRetentionSettings(value: string | undefined): { settings: AnalyticsRetentionSettings | null; error?: string } {
+    if (!value?.trim()) return { settings: DEFAULT_RETENTION_SETTINGS };
+    try {
+        return validateRetentionSettings(JSON.parse(value));
+    } catch (e) {
+        return { settings: null, error: 'The retention setting is not valid JSON.' };
+    }
+}
+
+/**
+ * Decides the status of an analytics document during reconciliation. A missing or unreadable
+ * 'orphanedAt' mark starts the grace period now.
+ * @param {boolean} isAssigned - Whether the document's video or post is among the owner's assigned links.
+ * @param {string | undefined} orphanedAt - ISO string of the time the document was first found orphaned, if marked.
+ * @param {number} graceDays - How long a document stays orphaned before it expires.
+ * @param {Date} now - The time of the run.
+ * @returns {OrphanStatus} The document's status.
+ */
+export function getOrphanStatus(isAssigned: boolean, orphanedAt: string | undefined, graceDays: number, now: Date): OrphanStatus {
+    if (isAssigned) return orphanedAt ? 'restored' : 'assigned';
+    const orphanedTime = orphanedAt ? new Date(orphanedAt).getTime() : NaN;
+    const orphanedSince = isNaN(orphanedTime) ? now.getTime() : orphanedTime;
+    if (now.getTime() - orphanedSince >= graceDays * DAY_MS) return 'expired';
+    return isNaN(orphanedTime) ? 'newly-orphaned' : 'orphaned';
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileOverview Login sessions, shared by the Next.js app (imported there as '@shared/sessions') and the
+ * Cloud Functions. The app keeps a session in an HTTP-only cookie holding "<payload>.<signature>": the session
+ * as base64url JSON and its base64url HMAC-SHA256 signature with SESSION_SECRET. The app signs and verifies
+ * with Web Crypto, so that its middleware can; the functions verify sessions that the app's server actions
+ * forward to them with Node's crypto. Server assertions, which the app's server uses to get its Firestore
+ * token, and the OAuth states of the YouTube Analytics consent screen are signed the same way.
+ */
+
+export const SESSION_TTL_SECONDS = 8 * 60 * 60; // A session ends after 8 hours without a request
+export const SESSION_REFRESH_AFTER_SECONDS = 60 * 60; // Requests after an hour extend the session
+export const SESSION_MAX_LIFETIME_SECONDS = 7 * 24 * 60 * 60; // Logging in again is required after 7 days
+export const SERVER_ASSERTION_TTL_SECONDS = 60;
+export const OAUTH_STATE_TTL_SECONDS = 15 * 60; // How long the user has to return from a consent screen
+
+// The Firebase Auth user that the app's server signs in to Firestore as. Its custom token has the 'server' claim.
+export const FIRESTORE_SERVER_UID = 'app-server';
+
+const MIN_SECRET_LENGTH = 32;
+// Only used in development and the emulator, so that they work without configuration.
+const DEVELOPMENT_SECRET = 'brand-dikhega-development-session-secret';
+
+// The part of the user's profile kept in the session. It is read again whenever the session is extended, so
+// role changes take effect within SESSION_REFRESH_AFTER_SECONDS.
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: 'user' | 'admin';
+  lastLogin: string; // ISO string
+}
+
+export interface Session {
+  user: SessionUser;
+  authTime: number; // Seconds since the epoch when the user logged in
+  issuedAt: number; // Seconds since the epoch when the cookie was last issued
+  expiresAt: number; // Seconds since the epoch
+}
+
+// Signed like a session, so that only the app's server, which holds SESSION_SECRET, can create one. It asks
+// the Cloud Functions for the server's Firestore token.
+export interface ServerAssertion {
+  purpose: 'firestore-server';
+  expiresAt: number; // Seconds since the epoch
+}
+
+// Signed by the Cloud Functions when a user starts connecting their YouTube channel, and passed through Google's
+// consent screen. Only the session of the user who started the connection can complete it.
+export interface OAuthState {
+  purpose: 'youtube-analytics-oauth';
+  userId: string;
+  nonce: string; // Random, so that each attempt has its own state
+  expiresAt: number; // Seconds since the epoch
+}
+
+/**
+ * Returns the secret that sessions are signed with.
+ * @param {string | undefined} secret - The SESSION_SECRET environment variable.
+ * @param {boolean} isDevelopment - True in development or the emulator, where a fixed secret is used without one.
+ * @returns {{secret: string; isDevelopmentSecret: boolean}} The secret.
+ */
+export function resolveSessionSecret(secret: string | undefined, isDevelopment: boolean): { secret: string; isDevelopmentSecret: boolean } {
+    if (secret && secret.length >= MIN_SECRET_LENGTH) return { secret, isDevelopmentSecret: false };
+    if (!isDevelopment) {
+        throw new Error(`SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters.`);
+    }
+    return { secret: DEVELOPMENT_SECRET, isDevelopmentSecret: true };
+}
+
+/**
+ * Checks that a decoded session has not expired.
+ * @param {Session} session - The session, after its signature was verified.
+ * @param {number} nowSeconds - The current time in seconds since the epoch.
+ * @returns {boolean} True while the session is valid.
+ */
+export function isSessionCurrent(session: Session, nowSeconds: number): boolean {
+    return typeof session?.expiresAt === 'number' && session.expiresAt > nowSeconds &&
+        typeof session.authTime === 'number' && nowSeconds < session.authTime + SESSION_MAX_LIFETIME_SECONDS &&
+        typeof session.user?.id === 'string';
+}
+
+/**
+ * Checks that a decoded server assertion has not expired.
+ * @param {ServerAssertion} assertion - The assertion, after its signature was verified.
+ * @param {number} nowSeconds - The current time in seconds since the epoch.
+ * @returns {boolean} True while the assertion is valid.
+ */
+export function isServerAssertionCurrent(assertion: ServerAssertion, nowSeconds: number): boolean {
+    return assertion?.purpose === 'firestore-server' && typeof assertion.expiresAt === 'number' && assertion.expiresAt > nowSeconds;
+}
+
+/**
+ * Checks that a decoded OAuth state has not expired.
+ * @param {OAuthState} state - The state, after its signature was verified.
+ * @param {number} nowSeconds - The current time in seconds since the epoch.
+ * @returns {boolean} True while the state is valid.
+ */
+export function isOAuthStateCurrent(state: OAuthState, nowSeconds: number): boolean {
+    return state?.purpose === 'youtube-analytics-oauth' && typeof state.userId === 'string' && !!state.userId &&
+        typeof state.nonce === 'string' && typeof state.expiresAt === 'number' && state.expiresAt > nowSeconds;
+}
@@ -0,0 +1,432 @@
+/**
+ * @fileOverview YouTube Analytics API access for channels their owners connected through OAuth, shared by the
+ * Cloud Functions and the Next.js app (imported there as '@shared/youtubeAnalytics'). The OAuth token exchange
+ * needs the client secret, so only the Cloud Functions call the network functions; the app uses the types.
+ *
+ * The OAuth client is the 'youtube-analytics-oauth' entry in API Management, holding JSON such as
+ * {"clientId": "...", "clientSecret": "...", "redirectUri": "https://<app>/youtube/analytics/callback"}.
+ */
+import { fetchJsonWithRetry, type HttpErrorKind, type HttpResult } from './httpClient';
+
+export const YOUTUBE_ANALYTICS_OAUTH_SERVICE_NAME = 'youtube-analytics-oauth';
+export const YOUTUBE_ANALYTICS_SCOPES = [
+  'https://www.googleapis.com/auth/yt-analytics.readonly',
+  'https://www.googleapis.com/auth/youtube.readonly',
+];
+// The reported period. YouTube Analytics data lags by about two days, so the period ends before today.
+export const ANALYTICS_REPORT_DAYS = 28;
+const ANALYTICS_DATA_LAG_DAYS = 2;
+
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const YOUTUBE_ANALYTICS_REPORTS_URL = 'https://youtubeanalytics.googleapis.com/v2/reports';
+const MAX_COUNTRIES = 25;
+const MAX_VIDEOS = 200;
+const MAX_RETENTION_VIDEOS = 10;
+
+export interface YouTubeAnalyticsOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string; // Only returned by the code exchange with access_type=offline
+  expiresIn: number; // Seconds
+  scope: string;
+}
+
+export interface OwnedYouTubeChannel {
+  channelId: string;
+  title: string;
+  thumbnailUrl?: string;
+}
+
+export interface ChannelAnalyticsMetrics {
+  views: number;
+  estimatedMinutesWatched: number; // Watch time
+  averageViewDuration: number; // Seconds
+  averageViewPercentage: number; // Percent of the video watched on average
+  subscribersGained: number;
+  subscribersLost: number;
+}
+
+export interface DailyChannelAnalytics extends ChannelAnalyticsMetrics {
+  date: string; // YYYY-MM-DD
+}
+
+export interface TrafficSourceAnalytics {
+  source: string; // insightTrafficSourceType, e.g. YT_SEARCH or EXT_URL
+  views: number;
+  estimatedMinutesWatched: number;
+}
+
+export interface CountryAnalytics {
+  country: string; // ISO 3166-1 alpha-2 code
+  views: number;
+  estimatedMinutesWatched: number;
+  averageViewDuration: number;
+}
+
+export interface RetentionPoint {
+  elapsedRatio: number; // Position in the video, 0 to 1
+  audienceWatchRatio: number; // Share of viewers still watching at that position; can exceed 1 on rewatches
+}
+
+export interface VideoOwnerAnalytics {
+  videoId: string;
+  views: number;
+  estimatedMinutesWatched: number;
+  averageViewDuration: number;
+  averageViewPercentage: number;
+  subscribersGained: number;
+  retention?: RetentionPoint[]; // Only fetched for the videos with the most watch time
+}
+
+/**
+ * The analytics of one owned channel for a period. Stored in the 'userChannelAnalytics' collection, keyed by
+ * user ID, with the daily rows in its 'daily' subcollection.
+ */
+export interface ChannelAnalyticsReport {
+  channelId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  totals: ChannelAnalyticsMetrics;
+  daily: DailyChannelAnalytics[];
+  trafficSources: TrafficSourceAnalytics[]; // Most views first
+  countries: CountryAnalytics[]; // Most views first
+  videos: VideoOwnerAnalytics[]; // Most watch time first
+}
+
+// The report document in 'userChannelAnalytics'. The daily rows are stored in its 'daily' subcollection.
+export interface StoredChannelAnalyticsReport extends Omit<ChannelAnalyticsReport, 'daily' | 'videos'> {
+  topVideos: VideoOwnerAnalytics[]; // The videos with the most watch time, with their retention curves
+  syncedAt: string; // ISO string
+}
+
+// The 'ownerAnalytics' field of an assigned video's document in 'userVideoAnalytics', for the report period.
+export interface StoredVideoOwnerAnalytics extends VideoOwnerAnalytics {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  syncedAt: string; // ISO string
+}
+
+export type YouTubeAnalyticsConnectionStatus = 'connected' | 'reauth-required' | 'error';
+
+/**
+ * A user's connected channel, stored in the 'youtubeAnalyticsConnections' collection keyed by user ID.
+ * The refresh token lives apart from it, in the server-only 'youtubeAnalyticsTokens' collection.
+ */
+export interface YouTubeAnalyticsConnection {
+  userId: string;
+  status: YouTubeAnalyticsConnectionStatus; // 'reauth-required' when Google no longer accepts the refresh token
+  channelId: string;
+  channelTitle: string;
+  channelThumbnailUrl?: string;
+  connectedAt: string; // ISO string
+  lastSyncedAt?: string; // ISO string of the last successful sync
+  error?: string; // Why the last sync failed
+}
+
+type ReportRow = Record<string, string | number>;
+
+// The fields read from Google's token endpoint and the YouTube APIs.
+interface GoogleTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+interface YouTubeChannelList {
+  items?: { id: string; snippet?: { title?: string; thumbnails?: { default?: { url?: string } } } }[];
+}
+
+interface AnalyticsReport {
+  columnHeaders?: { name: string }[];
+  rows?: (string | number)[][];
+}
+
+/**
+ * Checks the OAuth client settings, e.g. parsed from JSON.
+ * @param {string | undefined} value - The stored key value.
+ * @returns {{config: YouTubeAnalyticsOAuthConfig | null; error?: string}} The settings or an error.
+ */
+export function parseOAuthClientConfig(value: string | undefined): { config: YouTubeAnalyticsOAuthConfig | null; error?: string } {
+    if (!value?.trim()) {
+        return { config: null, error: `The "${YOUTUBE_ANALYTICS_OAUTH_SERVICE_NAME}" entry is not configured in API Management.` };
+    }
+    try {
+        const candidate = JSON.parse(value) as Partial<YouTubeAnalyticsOAuthConfig> | null;
+        const { clientId, clientSecret, redirectUri } = candidate || {};
+        if (typeof clientId !== 'string' || !clientId || typeof clientSecret !== 'string' || !clientSecret) {
+            return { config: null, error: 'The OAuth client needs a "clientId" and a "clientSecret".' };
+        }
+        if (typeof redirectUri !== 'string' || !/^https?:\/\//.test(redirectUri)) {
+            return { config: null, error: 'The OAuth client needs a "redirectUri" starting with http:// or https://.' };
+        }
+        return { config: { clientId, clientSecret, redirectUri } };
+    } catch (e) {
+        return { config: null, error: 'The OAuth client setting is not valid JSON.' };
+    }
+}
+
+/**
+ * Builds the Google consent screen URL. Offline access with a forced consent prompt makes Google return
+ * a refresh token even when the user connected before.
+ * @param {YouTubeAnalyticsOAuthConfig} config - The OAuth client.
+ * @param {string} state - An unguessable value that is checked again when the user returns.
+ * @returns {string} The URL to send the user to.
+ */
+export function buildAuthorizationUrl(config: YouTubeAnalyticsOAuthConfig, state: string): string {
+    const params = new URLSearchParams({
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        response_type: 'code',
+        scope: YOUTUBE_ANALYTICS_SCOPES.join(' '),
+        access_type: 'offline',
+        prompt: 'consent',
+        include_granted_scopes: 'true',
+        state,
+    });
+    return `${GOOGLE_AUTH_URL}?${params.toString()}`;
+}
+
+// Google returns 'invalid_grant' with status 400 when a code or refresh token was revoked or expired.
+const classifyOAuthError = (status: number, body: unknown): HttpErrorKind | null =>
+    (body as { error?: unknown } | null)?.error === 'invalid_grant' ? 'auth' : null;
+
+/**
+ * Requests tokens from Google's token endpoint.
+ * @param {Record<string, string>} form - The grant parameters.
+ * @returns {Promise<HttpResult<OAuthTokens>>} The tokens or the classified error.
+ */
+async function requestTokens(form: Record<string, string>): Promise<HttpResult<OAuthTokens>> {
+    const result = await fetchJsonWithRetry<GoogleTokenResponse>(GOOGLE_TOKEN_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(form).toString(),
+    }, { maxAttempts: 2, classifyError: classifyOAuthError });
+    if (!result.ok) return result;
+    return {
+        ...result,
+        data: {
+            accessToken: result.data.access_token,
+            refreshToken: result.data.refresh_token,
+            expiresIn: Number(result.data.expires_in) || 0,
+            scope: result.data.scope || '',
+        },
+    };
+}
+
+/**
+ * Exchanges the authorization code from the consent screen for an access and a refresh token.
+ * @param {YouTubeAnalyticsOAuthConfig} config - The OAuth client.
+ * @param {string} code - The code Google added to the redirect URI.
+ * @returns {Promise<HttpResult<OAuthTokens>>} The tokens or the classified error.
+ */
+export async function exchangeAuthorizationCode(config: YouTubeAnalyticsOAuthConfig, code: string): Promise<HttpResult<OAuthTokens>> {
+    return requestTokens({
+        code,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        redirect_uri: config.redirectUri,
+        grant_type: 'authorization_code',
+    });
+}
+
+/**
+ * Gets a new access token for a stored refresh token.
+ * @param {YouTubeAnalyticsOAuthConfig} config - The OAuth client.
+ * @param {string} refreshToken - The refresh token from the code exchange.
+ * @returns {Promise<HttpResult<OAuthTokens>>} The tokens, or an 'auth' error if access was revoked.
+ */
+export async function refreshAccessToken(config: YouTubeAnalyticsOAuthConfig, refreshToken: string): Promise<HttpResult<OAuthTokens>> {
+    return requestTokens({
+        refresh_token: refreshToken,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        grant_type: 'refresh_token',
+    });
+}
+
+/**
+ * Revokes a token at Google, which also ends the access granted by the consent.
+ * @param {string} token - A refresh or access token.
+ * @returns {Promise<boolean>} True if Google accepted the revocation.
+ */
+export async function revokeToken(token: string): Promise<boolean> {
+    const result = await fetchJsonWithRetry<unknown>(GOOGLE_REVOKE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token }).toString(),
+    }, { maxAttempts: 2 });
+    return result.ok;
+}
+
+/**
+ * Looks up the channel of the signed-in Google account.
+ * @param {string} accessToken - An access token with the youtube.readonly scope.
+ * @returns {Promise<HttpResult<OwnedYouTubeChannel>>} The channel, or a not-found error if the account has none.
+ */
+export async function fetchOwnChannel(accessToken: string): Promise<HttpResult<OwnedYouTubeChannel>> {
+    const result = await fetchJsonWithRetry<YouTubeChannelList>(`${YOUTUBE_API_BASE_URL}/channels?part=snippet&mine=true`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!result.ok) return result;
+    const channel = result.data?.items?.[0];
+    if (!channel) {
+        return { ok: false, attempts: result.attempts, error: { kind: 'not-found', message: 'The connected Google account has no YouTube channel.' } };
+    }
+    return {
+        ...result,
+        data: { channelId: channel.id, title: channel.snippet?.title || channel.id, thumbnailUrl: channel.snippet?.thumbnails?.default?.url },
+    };
+}
+
+/**
+ * Formats a date as the YYYY-MM-DD day the Analytics API expects, in UTC.
+ * @param {Date} date - The date.
+ * @returns {string} The day.
+ */
+function toReportDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Computes the reported period, ending before the days whose data is still incomplete.
+ * @param {Date} now - The current time.
+ * @returns {{startDate: string; endDate: string}} The first and last day of the period.
+ */
+export function getReportPeriod(now: Date = new Date()): { startDate: string; endDate: string } {
+    const end = new Date(now.getTime() - ANALYTICS_DATA_LAG_DAYS * 24 * 60 * 60 * 1000);
+    const start = new Date(end.getTime() - (ANALYTICS_REPORT_DAYS - 1) * 24 * 60 * 60 * 1000);
+    return { startDate: toReportDate(start), endDate: toReportDate(end) };
+}
+
+/**
+ * Runs one Analytics API query and maps each row to an object keyed by column name.
+ * @param {string} accessToken - An access token with the yt-analytics.readonly scope.
+ * @param {Record<string, string>} query - The report parameters besides ids.
+ * @returns {Promise<HttpResult<ReportRow[]>>} The rows or the classified error.
+ */
+async function queryReport(accessToken: string, query: Record<string, string>): Promise<HttpResult<ReportRow[]>> {
+    const params = new URLSearchParams({ ids: 'channel==MINE', ...query });
+    const result = await fetchJsonWithRetry<AnalyticsReport>(`${YOUTUBE_ANALYTICS_REPORTS_URL}?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!result.ok) return result;
+    const headers = (result.data?.columnHeaders || []).map(header => header.name);
+    const rows = result.data?.rows || [];
+    return {
+        ...result,
+        data: rows.map(row => Object.fromEntries(headers.map((name, index) => [name, row[index]]))),
+    };
+}
+
+const num = (value: string | number | undefined): number => Number(value) || 0;
+
+const CHANNEL_METRICS = 'views,estimatedMinutesWatched,averageViewDuration,averageViewPercentage,subscribersGained,subscribersLost';
+
+const toChannelMetrics = (row: ReportRow | undefined): ChannelAnalyticsMetrics => ({
+    views: num(row?.views),
+    estimatedMinutesWatched: num(row?.estimatedMinutesWatched),
+    averageViewDuration: num(row?.averageViewDuration),
+    averageViewPercentage: num(row?.averageViewPercentage),
+    subscribersGained: num(row?.subscribersGained),
+    subscribersLost: num(row?.subscribersLost),
+});
+
+/**
+ * Fetches the analytics of the connected channel for a period: totals, daily rows, traffic sources,
+ * top countries, per-video metrics and the audience retention curves of the most watched videos.
+ * A failed retention curve is left out; any other failed query fails the whole report.
+ * @param {string} accessToken - An access token with the yt-analytics.readonly scope.
+ * @param {string} channelId - The connected channel's ID.
+ * @param {{startDate: string; endDate: string}} period - The first and last day, from getReportPeriod.
+ * @returns {Promise<HttpResult<ChannelAnalyticsReport>>} The report or the first classified error.
+ */
+export async function fetchChannelAnalyticsReport(
+    accessToken: string,
+    channelId: string,
+    period: { startDate: string; endDate: string }
+): Promise<HttpResult<ChannelAnalyticsReport>> {
+    const { startDate, endDate } = period;
+    let attempts = 0;
+    const run = async (query: Record<string, string>) => {
+        const result = await queryReport(accessToken, { startDate, endDate, ...query });
+        attempts += result.attempts;
+        return result;
+    };
+
+    const totals = await run({ metrics: CHANNEL_METRICS });
+    if (!totals.ok) return { ...totals, attempts };
+    const daily = await run({ metrics: CHANNEL_METRICS, dimensions: 'day', sort: 'day' });
+    if (!daily.ok) return { ...daily, attempts };
+    const traffic = await run({ metrics: 'views,estimatedMinutesWatched', dimensions: 'insightTrafficSourceType', sort: '-views' });
+    if (!traffic.ok) return { ...traffic, attempts };
+    const countries = await run({
+        metrics: 'views,estimatedMinutesWatched,averageViewDuration',
+        dimensions: 'country',
+        sort: '-views',
+        maxResults: String(MAX_COUNTRIES),
+    });
+    if (!countries.ok) return { ...countries, attempts };
+    const videos = await run({
+        metrics: 'views,estimatedMinutesWatched,averageViewDuration,averageViewPercentage,subscribersGained',
+        dimensions: 'video',
+        sort: '-estimatedMinutesWatched',
+        maxResults: String(MAX_VIDEOS),
+    });
+    if (!videos.ok) return { ...videos, attempts };
+
+    const videoAnalytics: VideoOwnerAnalytics[] = videos.data.map(row => ({
+        videoId: String(row.video),
+        views: num(row.views),
+        estimatedMinutesWatched: num(row.estimatedMinutesWatched),
+        averageViewDuration: num(row.averageViewDuration),
+        averageViewPercentage: num(row.averageViewPercentage),
+        subscribersGained: num(row.subscribersGained),
+    }));
+    for (const video of videoAnalytics.slice(0, MAX_RETENTION_VIDEOS)) {
+        const retention = await run({
+            metrics: 'audienceWatchRatio',
+            dimensions: 'elapsedVideoTimeRatio',
+            filters: `video==${video.videoId}`,
+            sort: 'elapsedVideoTimeRatio',
+        });
+        if (retention.ok) {
+            video.retention = retention.data.map(row => ({ elapsedRatio: num(row.elapsedVideoTimeRatio), audienceWatchRatio: num(row.audienceWatchRatio) }));
+        } else {
+            console.warn(`Audience retention for video ${video.videoId} is unavailable: ${retention.error.message}`);
+        }
+    }
+
+    return {
+        ok: true,
+        status: videos.status,
+        attempts,
+        data: {
+            channelId,
+            startDate,
+            endDate,
+            totals: toChannelMetrics(totals.data[0]),
+            daily: daily.data.map(row => ({ date: String(row.day), ...toChannelMetrics(row) })),
+            trafficSources: traffic.data.map(row => ({
+                source: String(row.insightTrafficSourceType),
+                views: num(row.views),
+                estimatedMinutesWatched: num(row.estimatedMinutesWatched),
+            })),
+            countries: countries.data.map(row => ({
+                country: String(row.country),
+                views: num(row.views),
+                estimatedMinutesWatched: num(row.estimatedMinutesWatched),
+                averageViewDuration: num(row.averageViewDuration),
+            })),
+            videos: videoAnalytics,
+        },
+    };
+}
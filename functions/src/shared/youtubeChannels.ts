@@ -0,0 +1,137 @@
+/**
+ * @fileOverview YouTube channel lookups used for channel tracking, shared by the Cloud Functions and the
+ * Next.js app (imported there as '@shared/youtubeChannels'). Every request, including retries, costs
+ * 1 YouTube Data API quota unit, so the quota used by a call equals its attempts.
+ */
+import { fetchJsonWithRetry, type HttpError, type HttpResult } from './httpClient';
+import type { YouTubeChannelReference } from './platformUrls';
+
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const PLAYLIST_PAGE_SIZE = 50;
+// Caps a single sync at 500 uploads (10 quota units), even with a long look-back window.
+const MAX_UPLOAD_PAGES = 10;
+
+export const DEFAULT_CHANNEL_LOOKBACK_DAYS = 30;
+export const MAX_CHANNEL_LOOKBACK_DAYS = 365;
+
+export interface ResolvedYouTubeChannel {
+  channelId: string;
+  title: string;
+  uploadsPlaylistId: string;
+  thumbnailUrl?: string;
+}
+
+/**
+ * A channel tracked for a user. Stored in the 'channels' map of the user's 'youtube' document,
+ * keyed by the matching entry in the user's trackedChannels.youtube list.
+ */
+export interface TrackedYouTubeChannel extends ResolvedYouTubeChannel {
+  lookbackDays: number; // Uploads published within this many days are added to the user's links
+  addedAt: string; // ISO string
+  lastSyncedAt?: string; // ISO string of the last successful uploads check
+}
+
+export interface YouTubeUpload {
+  videoId: string;
+  publishedAt: string; // ISO string
+}
+
+export interface ChannelUploadsResult {
+  uploads: YouTubeUpload[]; // Newest first
+  quotaUnitsUsed: number;
+  error?: HttpError; // Set when a page request failed; uploads holds what was listed before it
+}
+
+// The fields read from the Data API's channels.list and playlistItems.list responses.
+interface YouTubeListResponse<T> {
+  items?: T[];
+  nextPageToken?: string;
+}
+
+interface YouTubeChannelResource {
+  id: string;
+  snippet?: { title?: string; thumbnails?: { default?: { url?: string } } };
+  contentDetails?: { relatedPlaylists?: { uploads?: string } };
+}
+
+interface YouTubePlaylistItemResource {
+  contentDetails?: { videoId?: string; videoPublishedAt?: string };
+}
+
+/**
+ * Looks up a channel and its uploads playlist.
+ * @param {YouTubeChannelReference} reference - The channel ID, handle or username, from parseYouTubeChannelInput.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @returns {Promise<HttpResult<ResolvedYouTubeChannel>>} The channel, or a not-found error if it does not exist.
+ */
+export async function resolveYouTubeChannel(reference: YouTubeChannelReference, apiKey: string): Promise<HttpResult<ResolvedYouTubeChannel>> {
+    const params = new URLSearchParams({ part: 'snippet,contentDetails', key: apiKey });
+    if (reference.kind === 'id') params.set('id', reference.channelId);
+    else if (reference.kind === 'handle') params.set('forHandle', reference.handle);
+    else params.set('forUsername', reference.username);
+
+    const result = await fetchJsonWithRetry<YouTubeListResponse<YouTubeChannelResource>>(`${YOUTUBE_API_BASE_URL}/channels?${params.toString()}`);
+    if (!result.ok) return result;
+
+    const channel = result.data?.items?.[0];
+    const uploadsPlaylistId = channel?.contentDetails?.relatedPlaylists?.uploads;
+    if (!channel || !uploadsPlaylistId) {
+        const label = reference.kind === 'id' ? reference.channelId : reference.kind === 'handle' ? reference.handle : reference.username;
+        return { ok: false, attempts: result.attempts, error: { kind: 'not-found', message: `YouTube channel "${label}" was not found.` } };
+    }
+    return {
+        ...result,
+        data: {
+            channelId: channel.id,
+            title: channel.snippet?.title || channel.id,
+            uploadsPlaylistId,
+            thumbnailUrl: channel.snippet?.thumbnails?.default?.url,
+        },
+    };
+}
+
+/**
+ * Lists a channel's uploads published after a given time. The uploads playlist is ordered newest
+ * first, so paging stops at the first older upload.
+ * @param {string} uploadsPlaylistId - The channel's uploads playlist ID.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @param {Date} publishedAfter - Only uploads published after this time are returned.
+ * @returns {Promise<ChannelUploadsResult>} The uploads and the quota units used.
+ */
+export async function listChannelUploads(uploadsPlaylistId: string, apiKey: string, publishedAfter: Date): Promise<ChannelUploadsResult> {
+    const result: ChannelUploadsResult = { uploads: [], quotaUnitsUsed: 0 };
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < MAX_UPLOAD_PAGES; page++) {
+        const params = new URLSearchParams({
+            part: 'contentDetails',
+            playlistId: uploadsPlaylistId,
+            maxResults: String(PLAYLIST_PAGE_SIZE),
+            key: apiKey,
+            ...(pageToken && { pageToken }),
+        });
+        const response = await fetchJsonWithRetry<YouTubeListResponse<YouTubePlaylistItemResource>>(`${YOUTUBE_API_BASE_URL}/playlistItems?${params.toString()}`);
+        result.quotaUnitsUsed += response.attempts;
+        if (!response.ok) {
+            result.error = response.error;
+            return result;
+        }
+
+        let reachedOlderUploads = false;
+        for (const item of response.data?.items || []) {
+            const videoId = item.contentDetails?.videoId;
+            // Private and deleted videos have no videoPublishedAt.
+            const publishedAt = item.contentDetails?.videoPublishedAt;
+            if (!videoId || !publishedAt) continue;
+            if (new Date(publishedAt) <= publishedAfter) {
+                reachedOlderUploads = true;
+                break;
+            }
+            result.uploads.push({ videoId, publishedAt });
+        }
+
+        pageToken = response.data?.nextPageToken;
+        if (reachedOlderUploads || !pageToken) break;
+    }
+    return result;
+}
@@ -0,0 +1,266 @@
+/**
+ * @fileOverview YouTube comment ingestion, shared by the Cloud Functions and the Next.js app (imported there
+ * as '@shared/youtubeComments'). Comment threads are listed newest first through commentThreads.list, and
+ * threads with more replies than the thread carries inline are completed through comments.list. Each request,
+ * including retries, costs 1 YouTube Data API quota unit.
+ *
+ * The cap on stored comments per video is the 'youtube-comments' entry in API Management, holding JSON such as
+ * {"maxCommentsPerVideo": 1000}.
+ */
+import { fetchJsonWithRetry, type HttpError, type HttpErrorKind } from './httpClient';
+
+export const COMMENT_INGESTION_SERVICE_NAME = 'youtube-comments';
+export const MAX_COMMENTS_PER_VIDEO_LIMIT = 20000;
+
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const COMMENT_PAGE_SIZE = 100;
+
+export interface CommentIngestionSettings {
+  maxCommentsPerVideo: number; // Top-level comments and replies together
+}
+
+export const DEFAULT_COMMENT_INGESTION_SETTINGS: CommentIngestionSettings = { maxCommentsPerVideo: 1000 };
+
+/**
+ * A comment stored in the 'comments' subcollection of a video's analytics document, keyed by comment ID.
+ * Replies are stored next to their top-level comment and carry its ID in parentId.
+ */
+export interface StoredYouTubeComment {
+  id: string;
+  videoId: string;
+  parentId?: string; // Set on replies
+  authorDisplayName: string;
+  authorProfileImageUrl?: string;
+  authorChannelId?: string;
+  textDisplay: string; // HTML as rendered by YouTube
+  textOriginal: string; // Plain text, used for search
+  likeCount: number;
+  totalReplyCount?: number; // Set on top-level comments
+  publishedAt: string; // ISO string
+  updatedAt: string; // ISO string; differs from publishedAt once the comment was edited
+  fetchedAt: string; // ISO string of the ingestion that last wrote the comment
+}
+
+/** The result of the latest ingestion, stored as 'commentIngestion' on the video's analytics document. */
+export interface CommentIngestionState {
+  lastIngestedAt: string; // ISO string
+  storedComments: number; // Comments in the subcollection after the ingestion
+  writtenComments: number; // New or edited comments written by the ingestion
+  capped: boolean; // True when the cap stopped the listing before the last page
+  unavailable?: boolean; // True when comments are disabled or the video is gone
+  error?: string;
+  quotaUnitsUsed: number;
+}
+
+export type CommentIngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * An ingestion request stored in the 'commentIngestionJobs' collection and processed by the
+ * 'processCommentIngestionJob' Cloud Function.
+ */
+export interface CommentIngestionJob {
+  userId: string; // Owner of the video's analytics document
+  videoId: string;
+  status: CommentIngestionJobStatus;
+  createdAt: string; // ISO string
+  createdBy?: string; // ID of the user who requested the ingestion
+  startedAt?: string; // ISO string
+  finishedAt?: string; // ISO string
+  listedComments?: number; // Progress while running
+  result?: CommentIngestionState; // Set when the job completes
+  error?: string; // Set when the whole job fails, e.g. a missing API key
+}
+
+export type CommentData = Omit<StoredYouTubeComment, 'fetchedAt'>;
+
+export interface CommentThread {
+  topLevelComment: CommentData;
+  replies: CommentData[]; // Inline replies (at most 5), unless completed by listCommentReplies
+}
+
+export interface CommentListResult<T> {
+  items: T[];
+  quotaUnitsUsed: number;
+  capped: boolean; // True when maxItems was reached while more pages were left
+  error?: HttpError; // Set when a page request failed; items holds what was listed before it
+}
+
+/**
+ * Checks comment ingestion settings, e.g. parsed from JSON.
+ * @param {unknown} value - The settings.
+ * @returns {{settings: CommentIngestionSettings | null; error?: string}} The settings or an error.
+ */
+export function validateCommentIngestionSettings(value: unknown): { settings: CommentIngestionSettings | null; error?: string } {
+    const candidate = value as Partial<CommentIngestionSettings> | null;
+    if (!candidate || typeof candidate !== 'object') {
+        return { settings: null, error: 'The comment setting must be an object with "maxCommentsPerVideo".' };
+    }
+    const { maxCommentsPerVideo } = candidate;
+    if (typeof maxCommentsPerVideo !== 'number' || !Number.isInteger(maxCommentsPerVideo)
+        || maxCommentsPerVideo < 1 || maxCommentsPerVideo > MAX_COMMENTS_PER_VIDEO_LIMIT) {
+        return { settings: null, error: `The comment cap must be a whole number between 1 and ${MAX_COMMENTS_PER_VIDEO_LIMIT}.` };
+    }
+    return { settings: { maxCommentsPerVideo } };
+}
+
+/**
+ * Parses the 'youtube-comments' API Management value. A missing value selects the default settings.
+ * @param {string | undefined} value - The stored key value.
+ * @returns {{settings: CommentIngestionSettings | null; error?: string}} The settings, or an error if the value is invalid.
+ */
+export function parseCommentIngestionSettings(value: string | undefined): { settings: CommentIngestionSettings | null; error?: string } {
+    if (!value?.trim()) return { settings: DEFAULT_COMMENT_INGESTION_SETTINGS };
+    try {
+        return validateCommentIngestionSettings(JSON.parse(value));
+    } catch (e) {
+        return { settings: null, error: 'The comment setting is not valid JSON.' };
+    }
+}
+
+// The fields read from the Data API's comment resources and list responses. Every request asks for part=snippet.
+interface YouTubeCommentResource {
+  id: string;
+  snippet: {
+    parentId?: string;
+    authorDisplayName?: string;
+    authorProfileImageUrl?: string;
+    authorChannelId?: { value?: string };
+    textDisplay?: string;
+    textOriginal?: string;
+    likeCount?: number;
+    publishedAt: string;
+    updatedAt?: string;
+  };
+}
+
+interface YouTubeCommentThreadResource {
+  snippet: { topLevelComment: YouTubeCommentResource; totalReplyCount?: number };
+  replies?: { comments?: YouTubeCommentResource[] };
+}
+
+interface YouTubeListResponse<T> {
+  items?: T[];
+  nextPageToken?: string;
+}
+
+interface YouTubeErrorBody {
+  error?: { errors?: { reason?: string }[] };
+}
+
+/**
+ * Treats disabled comments (403 "commentsDisabled") like a missing video, so callers can tell them
+ * apart from authentication failures.
+ * @param {number} status - The HTTP status.
+ * @param {unknown} body - The parsed error body.
+ * @returns {HttpErrorKind | null} 'not-found' for disabled comments, otherwise null to keep the default.
+ */
+function classifyCommentError(status: number, body: unknown): HttpErrorKind | null {
+    const reason = (body as YouTubeErrorBody | null)?.error?.errors?.[0]?.reason;
+    return status === 403 && reason === 'commentsDisabled' ? 'not-found' : null;
+}
+
+/**
+ * Maps a comment resource from the Data API.
+ * @param {YouTubeCommentResource} item - The comment resource.
+ * @param {string} videoId - The video the comment belongs to.
+ * @returns {CommentData} The comment.
+ */
+function mapComment(item: YouTubeCommentResource, videoId: string): CommentData {
+    const { snippet } = item;
+    return {
+        id: item.id,
+        videoId,
+        ...(snippet.parentId && { parentId: snippet.parentId }),
+        authorDisplayName: snippet.authorDisplayName || 'Unknown',
+        ...(snippet.authorProfileImageUrl && { authorProfileImageUrl: snippet.authorProfileImageUrl }),
+        ...(snippet.authorChannelId?.value && { authorChannelId: snippet.authorChannelId.value }),
+        textDisplay: snippet.textDisplay || '',
+        textOriginal: snippet.textOriginal || snippet.textDisplay || '',
+        likeCount: snippet.likeCount || 0,
+        publishedAt: snippet.publishedAt,
+        updatedAt: snippet.updatedAt || snippet.publishedAt,
+    };
+}
+
+/**
+ * Lists a video's comment threads, newest first, with their inline replies.
+ * @param {string} videoId - The video ID.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @param {number} maxThreads - Listing stops once this many threads were listed.
+ * @returns {Promise<CommentListResult<CommentThread>>} The threads and the quota units used.
+ */
+export async function listCommentThreads(videoId: string, apiKey: string, maxThreads: number): Promise<CommentListResult<CommentThread>> {
+    const result: CommentListResult<CommentThread> = { items: [], quotaUnitsUsed: 0, capped: false };
+    let pageToken: string | undefined;
+
+    do {
+        const params = new URLSearchParams({
+            part: 'snippet,replies',
+            videoId,
+            order: 'time',
+            maxResults: String(COMMENT_PAGE_SIZE),
+            key: apiKey,
+            ...(pageToken && { pageToken }),
+        });
+        const response = await fetchJsonWithRetry<YouTubeListResponse<YouTubeCommentThreadResource>>(`${YOUTUBE_API_BASE_URL}/commentThreads?${params.toString()}`, {}, { classifyError: classifyCommentError });
+        result.quotaUnitsUsed += response.attempts;
+        if (!response.ok) {
+            result.error = response.error;
+            return result;
+        }
+
+        for (const item of response.data?.items || []) {
+            if (result.items.length >= maxThreads) {
+                result.capped = true;
+                return result;
+            }
+            const topLevelComment = mapComment(item.snippet.topLevelComment, videoId);
+            topLevelComment.totalReplyCount = item.snippet.totalReplyCount || 0;
+            const replies = (item.replies?.comments || []).map(reply => mapComment(reply, videoId));
+            result.items.push({ topLevelComment, replies });
+        }
+        pageToken = response.data?.nextPageToken;
+        if (pageToken && result.items.length >= maxThreads) result.capped = true;
+    } while (pageToken && !result.capped);
+    return result;
+}
+
+/**
+ * Lists all replies to a top-level comment.
+ * @param {string} parentId - The ID of the top-level comment.
+ * @param {string} videoId - The video the comment belongs to.
+ * @param {string} apiKey - The YouTube Data API key.
+ * @param {number} maxReplies - Listing stops once this many replies were listed.
+ * @returns {Promise<CommentListResult<CommentData>>} The replies and the quota units used.
+ */
+export async function listCommentReplies(parentId: string, videoId: string, apiKey: string, maxReplies: number): Promise<CommentListResult<CommentData>> {
+    const result: CommentListResult<CommentData> = { items: [], quotaUnitsUsed: 0, capped: false };
+    let pageToken: string | undefined;
+
+    do {
+        const params = new URLSearchParams({
+            part: 'snippet',
+            parentId,
+            maxResults: String(COMMENT_PAGE_SIZE),
+            key: apiKey,
+            ...(pageToken && { pageToken }),
+        });
+        const response = await fetchJsonWithRetry<YouTubeListResponse<YouTubeCommentResource>>(`${YOUTUBE_API_BASE_URL}/comments?${params.toString()}`);
+        result.quotaUnitsUsed += response.attempts;
+        if (!response.ok) {
+            result.error = response.error;
+            return result;
+        }
+
+        for (const item of response.data?.items || []) {
+            if (result.items.length >= maxReplies) {
+                result.capped = true;
+                return result;
+            }
+            result.items.push(mapComment(item, videoId));
+        }
+        pageToken = response.data?.nextPageToken;
+        if (pageToken && result.items.length >= maxReplies) result.capped = true;
+    } while (pageToken && !result.capped);
+    return result;
+}
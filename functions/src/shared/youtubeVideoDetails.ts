@@ -0,0 +1,91 @@
+/**
+ * @fileOverview YouTube video details from the Data API's snippet and contentDetails parts, and the
+ * Shorts/long-form split built on them. Shared by the Cloud Functions, which store the details on each
+ * video, and the Next.js app (imported there as '@shared/youtubeVideoDetails'), which filters by format.
+ */
+
+// Videos up to 3 minutes long can be Shorts. The Data API has no Shorts flag, so the duration decides.
+export const YOUTUBE_SHORTS_MAX_DURATION_SECONDS = 180;
+
+export type YouTubeLiveBroadcastContent = 'none' | 'live' | 'upcoming';
+
+export type YouTubeVideoFormat = 'short' | 'long-form' | 'unknown';
+
+export interface YouTubeVideoDetails {
+  duration?: string; // ISO 8601, e.g. "PT1M5S"
+  durationSeconds?: number;
+  definition?: 'hd' | 'sd';
+  hasCaptions?: boolean; // True when the video has at least one caption track
+  tags?: string[];
+  categoryId?: string;
+  defaultLanguage?: string; // Language of the title and description, falling back to the audio language
+  liveBroadcastContent?: YouTubeLiveBroadcastContent; // 'none' once a broadcast has ended
+}
+
+// The snippet and contentDetails fields read from a videos.list item.
+export interface YouTubeVideoDetailsApiItem {
+  snippet?: {
+    tags?: string[];
+    categoryId?: string;
+    defaultLanguage?: string;
+    defaultAudioLanguage?: string;
+    liveBroadcastContent?: string;
+  };
+  contentDetails?: {
+    duration?: string;
+    definition?: string;
+    caption?: string; // "true" or "false"
+  };
+}
+
+const ISO_DURATION_PATTERN = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Converts an ISO 8601 duration as returned by the Data API (e.g. "PT1H2M3S" or "P1DT2H") to seconds.
+ * @param {string} duration - The duration.
+ * @returns {number | null} The duration in seconds, or null if it cannot be parsed.
+ */
+export function parseIsoDurationSeconds(duration: string): number | null {
+    const match = ISO_DURATION_PATTERN.exec(duration.trim());
+    if (!match || duration.trim() === 'P' || duration.trim().endsWith('T')) return null;
+    const [days, hours, minutes, seconds] = match.slice(1).map(part => parseInt(part || '0', 10));
+    return ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+}
+
+/**
+ * Reads the stored details from a videos.list item requested with the snippet and contentDetails parts.
+ * Fields the API left out are omitted, so they do not overwrite stored values.
+ * @param {YouTubeVideoDetailsApiItem} item - The API item.
+ * @returns {YouTubeVideoDetails} The details.
+ */
+export function mapYouTubeVideoDetails(item: YouTubeVideoDetailsApiItem): YouTubeVideoDetails {
+    const details: YouTubeVideoDetails = {};
+    const { snippet = {}, contentDetails = {} } = item;
+    if (contentDetails.duration) {
+        details.duration = contentDetails.duration;
+        const durationSeconds = parseIsoDurationSeconds(contentDetails.duration);
+        if (durationSeconds !== null) details.durationSeconds = durationSeconds;
+    }
+    if (contentDetails.definition === 'hd' || contentDetails.definition === 'sd') details.definition = contentDetails.definition;
+    if (contentDetails.caption !== undefined) details.hasCaptions = contentDetails.caption === 'true';
+    details.tags = snippet.tags || [];
+    if (snippet.categoryId) details.categoryId = snippet.categoryId;
+    const defaultLanguage = snippet.defaultLanguage || snippet.defaultAudioLanguage;
+    if (defaultLanguage) details.defaultLanguage = defaultLanguage;
+    if (snippet.liveBroadcastContent === 'none' || snippet.liveBroadcastContent === 'live' || snippet.liveBroadcastContent === 'upcoming') {
+        details.liveBroadcastContent = snippet.liveBroadcastContent;
+    }
+    return details;
+}
+
+/**
+ * Classifies a video as a Short or long-form. Live and upcoming broadcasts are long-form, and videos
+ * stored before durations were captured are unknown until their next refresh.
+ * @param {YouTubeVideoDetails} video - The video's stored details.
+ * @returns {YouTubeVideoFormat} The format.
+ */
+export function getYouTubeVideoFormat(video: YouTubeVideoDetails): YouTubeVideoFormat {
+    if (video.liveBroadcastContent === 'live' || video.liveBroadcastContent === 'upcoming') return 'long-form';
+    if (video.durationSeconds === undefined) return 'unknown';
+    return video.durationSeconds > 0 && video.durationSeconds <= YOUTUBE_SHORTS_MAX_DURATION_SECONDS ? 'short' : 'long-form';
+}
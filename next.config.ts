@@ -2,6 +2,10 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  env: {
+    // Read by src/lib/apiFixtureService.ts in the browser as well as on the server.
+    API_FIXTURE_MODE: process.env.API_FIXTURE_MODE || 'off',
+  },
   typescript: {
     ignoreBuildErrors: true,
   },
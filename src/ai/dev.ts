@@ -2,12 +2,17 @@
 import { config } from 'dotenv';
 config();
 
+import { installApiFixtures } from '@shared/apiFixtureFiles';
+installApiFixtures();
+
 import '@/ai/flows/suggest-content-improvements.ts';
 import '@/ai/flows/fetch-youtube-details-flow.ts';
 import '@/ai/flows/fetch-youtube-comments-flow.ts';
 import '@/ai/flows/analyze-video-text-flow.ts';
 import '@/ai/flows/generate-channel-analytics-report-flow.ts';
 import '@/ai/flows/fetch-instagram-reel-stats-flow.ts'; 
+import '@/ai/flows/fetch-instagram-comments-flow.ts';
+import '@/ai/flows/analyze-reel-text-flow.ts';
 import '@/ai/flows/generate-instagram-analytics-report-flow.ts';
 import '@/ai/flows/general-query-flow.ts';
 import '@/ai/flows/check-chat-usage-flow.ts';
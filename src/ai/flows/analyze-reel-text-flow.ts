@@ -0,0 +1,99 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow to analyze Instagram Reel text (caption, comments) for sentiment, topics,
+ * keywords, and content suggestions. The report has the same shape as the YouTube video analysis,
+ * so both are shown with NLPReportDisplay.
+ *
+ * - analyzeReelText - An exported function to invoke the flow.
+ * - AnalyzeReelTextInput - The Zod schema for the input.
+ * - ReelTextAnalysisOutput - The Zod schema for the output.
+ */
+
+import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
+import { z } from 'zod';
+
+const ReelCommentSchema = z.object({
+  id: z.string(),
+  username: z.string().optional(),
+  text: z.string(),
+  likeCount: z.number(),
+  isReply: z.boolean().optional(),
+});
+
+const AnalyzeReelTextInputSchema = z.object({
+  shortcode: z.string().describe("The shortcode of the Reel being analyzed."),
+  caption: z.string().describe("The caption of the Instagram Reel."),
+  username: z.string().optional().describe("The account that posted the Reel."),
+  comments: z.array(ReelCommentSchema).describe("An array of comments for the Instagram Reel."),
+});
+export type AnalyzeReelTextInput = z.infer<typeof AnalyzeReelTextInputSchema>;
+
+const ReelTextAnalysisOutputSchema = z.object({
+  overallSentiment: z.enum(['positive', 'negative', 'neutral', 'mixed']).describe("The overall sentiment derived from the comments."),
+  sentimentSummary: z.string().describe("A brief summary explaining the overall sentiment and key points from comments."),
+  topPositiveKeywords: z.array(z.string()).max(5).describe("Up to 5 keywords strongly associated with positive sentiment in the comments."),
+  topNegativeKeywords: z.array(z.string()).max(5).describe("Up to 5 keywords strongly associated with negative sentiment in the comments."),
+  identifiedTopics: z.array(z.string()).max(5).describe("Up to 5 key topics or themes derived from the Reel caption and comments."),
+  contentSuggestions: z.array(z.string()).max(3).describe("Up to 3 actionable suggestions to improve content based on the analysis."),
+});
+export type ReelTextAnalysisOutput = z.infer<typeof ReelTextAnalysisOutputSchema>;
+
+export async function analyzeReelText(input: AnalyzeReelTextInput): Promise<ReelTextAnalysisOutput> {
+  await requireCaller();
+  return analyzeReelTextFlow(input);
+}
+
+const analysisPrompt = ai.definePrompt({
+  name: 'analyzeReelTextPrompt',
+  input: { schema: AnalyzeReelTextInputSchema },
+  output: { schema: ReelTextAnalysisOutputSchema },
+  prompt: `You are an expert Instagram content analyst working on brand campaigns. Analyze the provided Reel caption and comments.
+Provide a concise analysis based on the following structure:
+
+Posted by: {{#if username}}@{{username}}{{else}}Unknown{{/if}}
+Reel Caption: {{{caption}}}
+
+Comments:
+{{#if comments.length}}
+  {{#each comments}}
+  - {{#if isReply}}Reply by{{else}}Author:{{/if}} {{username}}, Comment: "{{text}}" (Likes: {{likeCount}})
+  {{/each}}
+{{else}}
+  No comments provided for analysis.
+{{/if}}
+
+Based on the information above, please perform the following:
+1.  Determine the 'overallSentiment' of the comments section (choose one: positive, negative, neutral, mixed).
+2.  Write a 'sentimentSummary' (2-3 sentences) explaining the overall sentiment and highlighting key themes or feelings expressed in the comments. If no comments, state that.
+3.  Identify 'topPositiveKeywords' (up to 5) from the comments that indicate positive reactions. If no positive comments, return an empty array.
+4.  Identify 'topNegativeKeywords' (up to 5) from the comments that indicate negative reactions or criticisms. If no negative comments, return an empty array.
+5.  List 'identifiedTopics' (up to 5 distinct topics or themes) that are prominent in the caption and comments combined, including reactions to any brand or product in the Reel.
+6.  Provide 'contentSuggestions' (up to 3 short, actionable suggestions) for the creator to improve similar future Reels or engagement, based on your analysis of the provided text.
+
+Ensure your output strictly adheres to the JSON schema provided for ReelTextAnalysisOutput.
+Emoji-only comments count toward sentiment. Focus on common patterns and themes. If comments are sparse or uninformative, reflect that in your summaries and suggestions.
+`,
+});
+
+const analyzeReelTextFlow = ai.defineFlow(
+  {
+    name: 'analyzeReelTextFlow',
+    inputSchema: AnalyzeReelTextInputSchema,
+    outputSchema: ReelTextAnalysisOutputSchema,
+  },
+  async (input) => {
+    const { output } = await analysisPrompt(input);
+    if (!output) {
+      throw new Error("The AI model did not return an output. Please try again.");
+    }
+    // Ensure arrays are returned even if empty, as per schema, rather than potentially null/undefined from model
+    return {
+        ...output,
+        topPositiveKeywords: output.topPositiveKeywords || [],
+        topNegativeKeywords: output.topNegativeKeywords || [],
+        identifiedTopics: output.identifiedTopics || [],
+        contentSuggestions: output.contentSuggestions || [],
+    };
+  }
+);
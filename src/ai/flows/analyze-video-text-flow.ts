@@ -10,6 +10,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod';
 // Import the existing YouTubeComment schema
 import { YouTubeCommentSchema } from './fetch-youtube-comments-flow';
@@ -35,6 +36,7 @@ const VideoTextAnalysisOutputSchema = z.object({
 export type VideoTextAnalysisOutput = z.infer<typeof VideoTextAnalysisOutputSchema>;
 
 export async function analyzeVideoText(input: AnalyzeVideoTextInput): Promise<VideoTextAnalysisOutput> {
+  await requireCaller();
   return analyzeVideoTextFlow(input);
 }
 
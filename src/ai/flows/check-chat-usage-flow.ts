@@ -8,6 +8,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireUserAccess } from '@/lib/authorization';
 import { db } from '@/lib/firebase';
 import { z } from 'zod';
 import { doc, getDoc, setDoc, Timestamp, runTransaction } from 'firebase/firestore';
@@ -29,6 +30,7 @@ const CheckChatUsageOutputSchema = z.object({
 export type CheckChatUsageOutput = z.infer<typeof CheckChatUsageOutputSchema>;
 
 export async function checkAndIncrementChatUsage(input: CheckChatUsageInput): Promise<CheckChatUsageOutput> {
+  await requireUserAccess(input.userId);
   return checkAndIncrementChatUsageFlow(input);
 }
 
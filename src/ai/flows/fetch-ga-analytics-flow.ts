@@ -10,10 +10,15 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { AuthorizationError, isCurrentAdmin, requireCaller } from '@/lib/authorization';
+import { DEFAULT_GA_PROPERTY_ID } from '@/lib/googleAnalyticsConfig';
+import type { SessionUser } from '@/lib/session';
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where, limit } from 'firebase/firestore';
 import { BetaAnalyticsDataClient } from '@google-analytics/data';
+import { runWithApiFixture } from '@shared/apiFixtureFiles';
+import { API_FIXTURE_MODE } from '@/lib/apiFixtureService';
 
 // Helper to get Google Analytics JSON credentials from Firestore
 async function getGoogleAnalyticsCredentials(): Promise<any | null> {
@@ -57,8 +62,28 @@ const CampaignAnalyticsOutputSchema = z.object({
 });
 export type CampaignAnalyticsOutput = z.infer<typeof CampaignAnalyticsOutputSchema>;
 
+/**
+ * Lets admins query any campaign, and other users only the campaigns of their own redirect links in the
+ * workspace property.
+ * @param caller The caller.
+ * @param input The flow input.
+ */
+async function requireCampaignAccess(caller: SessionUser, { propertyId, campaignName }: FetchCampaignAnalyticsInput): Promise<void> {
+  if (await isCurrentAdmin(caller)) return;
+  const ownLinks = await getDocs(query(
+    collection(db, 'redirectLinks'),
+    where('userId', '==', caller.id),
+    where('utmCampaign', '==', campaignName),
+    limit(1)
+  ));
+  if (propertyId !== DEFAULT_GA_PROPERTY_ID || ownLinks.empty) {
+    throw new AuthorizationError('forbidden', 'You can only view analytics for the campaigns of your own links.');
+  }
+}
+
 // Main exported function to call the flow
 export async function fetchCampaignAnalytics(input: FetchCampaignAnalyticsInput): Promise<CampaignAnalyticsOutput> {
+  await requireCampaignAccess(await requireCaller(), input);
   return fetchCampaignAnalyticsFlow(input);
 }
 
@@ -89,7 +114,7 @@ const fetchCampaignAnalyticsFlow = ai.defineFlow(
     console.log(`[fetchCampaignAnalyticsFlow] Starting for campaign: ${campaignName}, property: ${propertyId}`);
 
     const credentials = await getGoogleAnalyticsCredentials();
-    if (!credentials) {
+    if (!credentials && API_FIXTURE_MODE !== 'replay') {
       const errorMsg = "Google Analytics credentials are not configured in API Management.";
       console.error(`[fetchGaAnalyticsFlow] ${errorMsg}`);
       return {
@@ -99,7 +124,6 @@ const fetchCampaignAnalyticsFlow = ai.defineFlow(
       };
     }
 
-    const analyticsDataClient = new BetaAnalyticsDataClient({ credentials });
     
     let analyticsData: Omit<CampaignAnalyticsOutput, 'aiSummary' | 'error'> = {
         sessions: 0,
@@ -109,7 +133,7 @@ const fetchCampaignAnalyticsFlow = ai.defineFlow(
     };
 
     try {
-      const [response] = await analyticsDataClient.runReport({
+      const reportRequest = {
         property: `properties/${propertyId}`,
         dateRanges: [{ startDate: '90daysAgo', endDate: 'today' }],
         dimensions: [{ name: 'campaignName' }],
@@ -122,9 +146,15 @@ const fetchCampaignAnalyticsFlow = ai.defineFlow(
         dimensionFilter: {
           filter: {
             fieldName: 'campaignName',
-            stringFilter: { value: campaignName, matchType: 'EXACT' },
+            stringFilter: { value: campaignName, matchType: 'EXACT' as const },
           },
         },
+      };
+      // In fixture mode the report is replayed from, or recorded into, fixtures/api/ga4.
+      const response = await runWithApiFixture('ga4', 'runReport', reportRequest, async () => {
+        const analyticsDataClient = new BetaAnalyticsDataClient({ credentials });
+        const [liveResponse] = await analyticsDataClient.runReport(reportRequest);
+        return liveResponse;
       });
 
       console.log(`[fetchCampaignAnalyticsFlow] GA API Response received for campaign ${campaignName}.`);
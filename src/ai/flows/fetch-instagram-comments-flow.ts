@@ -0,0 +1,83 @@
+'use server';
+/**
+ * @fileOverview A Genkit flow to fetch the comments of an Instagram Reel through the Instagram provider
+ * configured in API Management (RapidAPI scraper, Graph API or local fixtures).
+ *
+ * - fetchInstagramComments - An exported function to invoke the flow.
+ * - FetchInstagramCommentsInput - The Zod schema for the input.
+ * - FetchInstagramCommentsOutput - The Zod schema for the output.
+ */
+
+import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
+import { z } from 'zod';
+import { getInstagramProvider } from '@/lib/instagramProviderService';
+import type { InstagramComment } from '@shared/instagram';
+
+const DEFAULT_MAX_COMMENTS = 500;
+const MAX_COMMENTS_LIMIT = 2000;
+
+const FetchInstagramCommentsInputSchema = z.object({
+  shortcode: z.string().min(1, "Reel shortcode is required."),
+  maxComments: z.number().int().min(1).max(MAX_COMMENTS_LIMIT).optional().describe(`Stop after this many comments (default ${DEFAULT_MAX_COMMENTS}).`),
+});
+export type FetchInstagramCommentsInput = z.infer<typeof FetchInstagramCommentsInputSchema>;
+
+const InstagramCommentSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  username: z.string().optional(),
+  likeCount: z.number(),
+  postedAt: z.string().optional(), // ISO string
+  parentId: z.string().optional(), // Set for replies
+});
+
+const FetchInstagramCommentsOutputSchema = z.object({
+  comments: z.array(InstagramCommentSchema),
+  capped: z.boolean().describe("True when maxComments was reached while more pages were left."),
+  fetchedSuccessfully: z.boolean().describe("False when a page failed; comments then holds the pages fetched before it."),
+  errorMessage: z.string().optional(),
+  errorKind: z.enum(['rate-limited', 'not-found', 'auth', 'transient', 'invalid-request']).optional().describe("Classification of the failure, after retries."),
+});
+export type FetchInstagramCommentsOutput = z.infer<typeof FetchInstagramCommentsOutputSchema>;
+
+export async function fetchInstagramComments(input: FetchInstagramCommentsInput): Promise<FetchInstagramCommentsOutput> {
+  await requireCaller();
+  return fetchInstagramCommentsFlow(input);
+}
+
+const fetchInstagramCommentsFlow = ai.defineFlow(
+  {
+    name: 'fetchInstagramCommentsFlow',
+    inputSchema: FetchInstagramCommentsInputSchema,
+    outputSchema: FetchInstagramCommentsOutputSchema,
+  },
+  async ({ shortcode, maxComments = DEFAULT_MAX_COMMENTS }) => {
+    const { provider, error: providerError } = await getInstagramProvider();
+    if (!provider) {
+      console.error("[fetchInstagramCommentsFlow] Instagram provider is not configured. Aborting.");
+      return { comments: [], capped: false, fetchedSuccessfully: false, errorMessage: providerError || 'Instagram provider is not configured.' };
+    }
+
+    const comments: InstagramComment[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const result = await provider.fetchComments(shortcode, { cursor });
+      pages++;
+      if (!result.ok) {
+        console.error(`[fetchInstagramCommentsFlow] ${provider.name} error for ${shortcode} on page ${pages} (${result.error.kind}): ${result.error.message}`);
+        return { comments, capped: false, fetchedSuccessfully: false, errorMessage: result.error.message, errorKind: result.error.kind };
+      }
+      comments.push(...result.data.items);
+      cursor = result.data.nextCursor;
+    } while (cursor && comments.length < maxComments);
+
+    console.log(`[fetchInstagramCommentsFlow] Fetched ${Math.min(comments.length, maxComments)} comment(s) for ${shortcode} from the '${provider.name}' provider in ${pages} page(s).`);
+    return {
+      comments: comments.slice(0, maxComments),
+      capped: comments.length > maxComments || !!cursor,
+      fetchedSuccessfully: true,
+    };
+  }
+);
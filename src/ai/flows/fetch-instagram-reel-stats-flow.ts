@@ -1,7 +1,8 @@
 
 'use server';
 /**
- * @fileOverview A Genkit flow to fetch statistics for an Instagram Reel using a third-party API.
+ * @fileOverview A Genkit flow to fetch statistics for an Instagram Reel using the Instagram provider
+ * configured in API Management (RapidAPI scraper, Graph API or local fixtures).
  *
  * - fetchInstagramReelStats - An exported function to invoke the flow.
  * - FetchInstagramReelStatsInput - The Zod schema for the input.
@@ -9,33 +10,10 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod';
-import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where, limit } from 'firebase/firestore';
-
-// Helper to get API key from Firestore
-async function getRapidApiInstagramKey(): Promise<string | null> {
-  console.log("[fetchInstagramReelStatsFlow] Attempting to fetch RapidAPI-Instagram-Scraper API key...");
-  try {
-    const keysRef = collection(db, 'apiKeys');
-    const q = query(keysRef, where('serviceName', '==', 'RapidAPI-Instagram-Scraper'), limit(1));
-    const snapshot = await getDocs(q);
-    if (snapshot.empty) {
-      console.warn("[fetchInstagramReelStatsFlow] RapidAPI-Instagram-Scraper API key not found in Firestore.");
-      return null;
-    }
-    const apiKeyData = snapshot.docs[0].data();
-    if (!apiKeyData.keyValue) {
-        console.warn("[fetchInstagramReelStatsFlow] RapidAPI-Instagram-Scraper API key value is missing in Firestore document.");
-        return null;
-    }
-    console.log("[fetchInstagramReelStatsFlow] Successfully fetched RapidAPI-Instagram-Scraper API key.");
-    return apiKeyData.keyValue as string;
-  } catch (error) {
-    console.error("[fetchInstagramReelStatsFlow] Error fetching RapidAPI-Instagram-Scraper API key from Firestore:", error);
-    return null;
-  }
-}
+import { getInstagramProvider } from '@/lib/instagramProviderService';
+import { parseInstagramPostUrl } from '@shared/platformUrls';
 
 // Input Schema
 const FetchInstagramReelStatsInputSchema = z.object({
@@ -57,34 +35,12 @@ const InstagramReelStatsOutputSchema = z.object({
   postedAt: z.string().optional(), // ISO string
   fetchedSuccessfully: z.boolean(),
   errorMessage: z.string().optional(),
+  errorKind: z.enum(['rate-limited', 'not-found', 'auth', 'transient', 'invalid-request']).optional().describe("Classification of the failure, after retries."),
 });
 export type InstagramReelStatsOutput = z.infer<typeof InstagramReelStatsOutputSchema>;
 
-// Helper function to extract shortcode
-function extractShortcodeFromUrl(url: string): string | null {
-  console.log(`[fetchInstagramReelStatsFlow] Attempting to extract shortcode from URL: ${url}`);
-  if (!url) {
-    console.warn("[fetchInstagramReelStatsFlow] extractShortcodeFromUrl: Input URL is empty.");
-    return null;
-  }
-  try {
-    const urlObj = new URL(url);
-    // Regex to find shortcode after /p/, /reel/, or /reels/
-    const regex = /\/(?:p|reel|reels)\/([a-zA-Z0-9_-]+)/;
-    const match = urlObj.pathname.match(regex);
-    if (match && match[1]) {
-      console.log(`[fetchInstagramReelStatsFlow] Extracted shortcode: ${match[1]} from URL: ${url}`);
-      return match[1];
-    }
-    console.warn(`[fetchInstagramReelStatsFlow] Could not extract shortcode from URL: ${url} using regex.`);
-  } catch (e) {
-    console.error(`[fetchInstagramReelStatsFlow] Error parsing URL for shortcode: ${url}`, e);
-    return null;
-  }
-  return null;
-}
-
 export async function fetchInstagramReelStats(input: FetchInstagramReelStatsInput): Promise<InstagramReelStatsOutput> {
+  await requireCaller();
   return fetchInstagramReelStatsFlow(input);
 }
 
@@ -97,130 +53,64 @@ const fetchInstagramReelStatsFlow = ai.defineFlow(
   async ({ reelUrl }) => {
     console.log(`[fetchInstagramReelStatsFlow] Starting flow for URL: ${reelUrl}`);
 
-    const apiKey = await getRapidApiInstagramKey();
-    if (!apiKey) {
-      console.error("[fetchInstagramReelStatsFlow] RapidAPI key is not configured. Aborting.");
+    const { provider, error: providerError } = await getInstagramProvider();
+    if (!provider) {
+      console.error("[fetchInstagramReelStatsFlow] Instagram provider is not configured. Aborting.");
       return {
         shortcode: '',
         originalUrl: reelUrl,
         fetchedSuccessfully: false,
-        errorMessage: 'RapidAPI key for Instagram scraper is not configured.',
+        errorMessage: providerError || 'Instagram provider is not configured.',
       };
     }
 
-    const shortcode = extractShortcodeFromUrl(reelUrl);
-    if (!shortcode) {
-      console.error(`[fetchInstagramReelStatsFlow] Could not extract shortcode from URL: ${reelUrl}. Aborting.`);
+    const parsedUrl = parseInstagramPostUrl(reelUrl);
+    if (!parsedUrl.ok) {
+      console.error(`[fetchInstagramReelStatsFlow] Could not extract shortcode from URL: ${reelUrl} (${parsedUrl.reason}). Aborting.`);
       return {
         shortcode: '',
         originalUrl: reelUrl,
         fetchedSuccessfully: false,
-        errorMessage: `Could not extract shortcode from URL: ${reelUrl}`,
+        errorMessage: parsedUrl.message,
       };
     }
+    const { shortcode } = parsedUrl.value;
 
-    const apiUrl = `https://instagram-api-fast-reliable-data-scraper.p.rapidapi.com/post?shortcode=${shortcode}`;
-    console.log(`[fetchInstagramReelStatsFlow] Constructed API URL for shortcode ${shortcode}: ${apiUrl}`);
-    const headers = {
-      'X-RapidAPI-Key': apiKey,
-      'X-RapidAPI-Host': 'instagram-api-fast-reliable-data-scraper.p.rapidapi.com',
-      'Host': 'instagram-api-fast-reliable-data-scraper.p.rapidapi.com'
-    };
-    console.log("[fetchInstagramReelStatsFlow] Request Headers:", headers);
-
-    try {
-      console.log(`[fetchInstagramReelStatsFlow] Making API request for shortcode ${shortcode}...`);
-      const response = await fetch(apiUrl, { method: 'GET', headers });
-      console.log(`[fetchInstagramReelStatsFlow] API response status for ${shortcode}: ${response.status}`);
+    console.log(`[fetchInstagramReelStatsFlow] Fetching post ${shortcode} from the '${provider.name}' provider...`);
+    const result = await provider.fetchPostByShortcode(shortcode);
+    console.log(`[fetchInstagramReelStatsFlow] Request for ${shortcode} finished after ${result.attempts} attempt(s).`);
 
-      if (!response.ok) {
-        const errorBodyText = await response.text();
-        let detailedErrorMessage = `API request failed with status ${response.status}. Raw: ${errorBodyText.substring(0, 150)}`;
-        try {
-            const errorJson = JSON.parse(errorBodyText);
-            if (errorJson && errorJson.error) {
-                detailedErrorMessage = `${errorJson.error} (Status ${response.status})`;
-            }
-        } catch (e) {
-            // JSON parsing failed, stick with the raw message with status
-            console.warn(`[fetchInstagramReelStatsFlow] Could not parse error body as JSON for ${shortcode}: ${errorBodyText.substring(0,100)}`);
-        }
-        console.error(`[fetchInstagramReelStatsFlow] RapidAPI Error for ${shortcode} (${response.status}): ${errorBodyText.substring(0, 500)}...`);
-        console.log(`[fetchInstagramReelStatsFlow] Returning error object for shortcode ${shortcode} due to API error.`);
-        return {
-          shortcode,
-          originalUrl: reelUrl,
-          fetchedSuccessfully: false,
-          errorMessage: detailedErrorMessage,
-        };
-      }
-
-      const responseData = await response.json();
-      console.log(`[fetchInstagramReelStatsFlow] Parsed API response data for ${shortcode}:`, JSON.stringify(responseData, null, 2).substring(0,1000) + '...');
-      
-      // Use responseData directly based on sample
-      const postData = responseData; 
-
-      if (!postData) {
-         console.error(`[fetchInstagramReelStatsFlow] API response parsed but was unexpectedly empty for ${shortcode}.`);
-         return {
-            shortcode,
-            originalUrl: reelUrl,
-            fetchedSuccessfully: false,
-            errorMessage: 'API response parsed but was unexpectedly empty.',
-         };
-      }
-      
-      const captionText = postData.caption?.text;
-      console.log(`[fetchInstagramReelStatsFlow] Extracted caption for ${shortcode}:`, captionText ? captionText.substring(0,50) + "..." : "undefined");
-
-      let postedAtISO: string | undefined = undefined;
-      if (postData.taken_at) { // Unix timestamp in seconds
-        try {
-          postedAtISO = new Date(postData.taken_at * 1000).toISOString();
-        } catch (e) {
-          console.warn(`[fetchInstagramReelStatsFlow] Could not parse timestamp for ${shortcode}: ${postData.taken_at}`);
-        }
-      }
-      console.log(`[fetchInstagramReelStatsFlow] Extracted postedAt (ISO) for ${shortcode}:`, postedAtISO);
-
-      const commentCount = Number(postData.comment_count) || 0;
-      const likeCount = Number(postData.like_count) || 0;
-      const playCount = Number(postData.play_count) || 0;
-      const reshareCount = Number(postData.reshare_count) || 0; // Extract reshare_count
-      const thumbnailUrl = postData.image_versions2?.candidates?.[0]?.url;
-      const username = postData.user?.username;
-
-      console.log(`[fetchInstagramReelStatsFlow] Final extracted stats for ${shortcode}:
-        - Comment Count: ${commentCount}
-        - Like Count: ${likeCount}
-        - Play Count: ${playCount}
-        - Reshare Count: ${reshareCount}
-        - Thumbnail URL: ${thumbnailUrl ? thumbnailUrl.substring(0,50) + "..." : "undefined"}
-        - Username: ${username}`);
-      
-      return {
-        shortcode,
-        originalUrl: reelUrl,
-        commentCount,
-        likeCount,
-        playCount,
-        reshareCount, // Include reshareCount
-        caption: captionText,
-        thumbnailUrl,
-        username,
-        postedAt: postedAtISO,
-        fetchedSuccessfully: true,
-      };
-
-    } catch (error: any) {
-      console.error(`[fetchInstagramReelStatsFlow] Error fetching stats for shortcode ${shortcode}:`, error);
+    if (!result.ok) {
+      console.error(`[fetchInstagramReelStatsFlow] ${provider.name} error for ${shortcode} (${result.error.kind}): ${result.error.message}`);
       return {
         shortcode,
         originalUrl: reelUrl,
         fetchedSuccessfully: false,
-        errorMessage: error.message || 'An unknown error occurred while fetching reel stats.',
+        errorMessage: result.error.message,
+        errorKind: result.error.kind,
       };
     }
+
+    const postData = result.data;
+    console.log(`[fetchInstagramReelStatsFlow] Final extracted stats for ${shortcode}:
+      - Comment Count: ${postData.comments}
+      - Like Count: ${postData.likes}
+      - Play Count: ${postData.playCount}
+      - Reshare Count: ${postData.reshareCount}
+      - Username: ${postData.username}`);
+
+    return {
+      shortcode,
+      originalUrl: reelUrl,
+      commentCount: postData.comments,
+      likeCount: postData.likes,
+      playCount: postData.playCount,
+      reshareCount: postData.reshareCount,
+      caption: postData.caption,
+      thumbnailUrl: postData.thumbnailUrl,
+      username: postData.username,
+      postedAt: postData.postedAt,
+      fetchedSuccessfully: true,
+    };
   }
 );
@@ -10,9 +10,11 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where, limit } from 'firebase/firestore';
+import { resolveApiKey } from '@/lib/apiFixtureService';
 
 // Define the structure for a single comment
 export interface YouTubeComment {
@@ -73,6 +75,7 @@ async function getYouTubeApiKeyFromFirestore(): Promise<string | null> {
 
 // Main exported function to call the flow
 export async function fetchYouTubeComments(input: FetchYouTubeCommentsInput): Promise<FetchYouTubeCommentsOutput> {
+  await requireCaller();
   return fetchYouTubeCommentsFlow(input);
 }
 
@@ -129,7 +132,7 @@ const fetchYouTubeCommentsFlow = ai.defineFlow(
     outputSchema: FetchYouTubeCommentsOutputSchema,
   },
   async ({ videoId }) => {
-    const apiKey = await getYouTubeApiKeyFromFirestore();
+    const apiKey = resolveApiKey(await getYouTubeApiKeyFromFirestore());
     if (!apiKey) {
       throw new Error('YouTube API key is not configured or could not be retrieved for comment fetching.');
     }
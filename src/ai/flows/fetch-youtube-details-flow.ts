@@ -9,10 +9,12 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod'; 
 import { getVideoStatistics } from '@/lib/youtubeApiService';
 import { db } from '@/lib/firebase';
 import { collection, getDocs, query, where, limit } from 'firebase/firestore';
+import { resolveApiKey } from '@/lib/apiFixtureService';
 
 const YouTubeVideoSchema = z.object({
   id: z.string(),
@@ -32,6 +34,9 @@ export type FetchYouTubeDetailsInput = z.infer<typeof FetchYouTubeDetailsInputSc
 
 const FetchYouTubeDetailsOutputSchema = z.object({
   videos: z.array(YouTubeVideoSchema),
+  missingVideoIds: z.array(z.string()).describe("Requested IDs the API did not return, e.g. deleted or private videos."),
+  failedVideoIds: z.array(z.string()).describe("Requested IDs whose API request failed."),
+  quotaUnitsUsed: z.number().describe("YouTube Data API quota units consumed by this fetch."),
 });
 export type FetchYouTubeDetailsOutput = z.infer<typeof FetchYouTubeDetailsOutputSchema>;
 
@@ -58,6 +63,7 @@ async function getYouTubeApiKeyFromFirestore(): Promise<string | null> {
 }
 
 export async function fetchYouTubeDetails(input: FetchYouTubeDetailsInput): Promise<FetchYouTubeDetailsOutput> {
+  await requireCaller();
   return fetchYouTubeDetailsFlow(input);
 }
 
@@ -68,12 +74,12 @@ const fetchYouTubeDetailsFlow = ai.defineFlow(
     outputSchema: FetchYouTubeDetailsOutputSchema,
   },
   async ({ videoIds }) => {
-    const apiKey = await getYouTubeApiKeyFromFirestore();
+    const apiKey = resolveApiKey(await getYouTubeApiKeyFromFirestore());
     if (!apiKey) {
       throw new Error('YouTube API key is not configured or could not be retrieved.');
     }
 
-    const fetchedVideosData = await getVideoStatistics(videoIds, apiKey);
+    const { videos: fetchedVideosData, missingIds, failedIds, quotaUnitsUsed } = await getVideoStatistics(videoIds, apiKey);
     
     const validatedVideos: z.infer<typeof YouTubeVideoSchema>[] = [];
     for (const videoData of fetchedVideosData) {
@@ -90,7 +96,7 @@ const fetchYouTubeDetailsFlow = ai.defineFlow(
         validatedVideos.push(video);
     }
     
-    return { videos: validatedVideos };
+    return { videos: validatedVideos, missingVideoIds: missingIds, failedVideoIds: failedIds, quotaUnitsUsed };
   }
 );
 
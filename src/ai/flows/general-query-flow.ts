@@ -3,7 +3,7 @@
 
 /**
  * @fileOverview Provides AI-powered responses to general user queries about social media strategy,
- * content, engagement, and reach, using provided YouTube and Instagram data as context.
+ * content, engagement, and reach, using provided YouTube, Instagram and other platform data as context.
  *
  * - generalQuery - A function that returns AI-generated text responses.
  * - GeneralQueryInput - The input type for the generalQuery function.
@@ -11,6 +11,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import {requireCaller} from '@/lib/authorization';
 import {z}from 'genkit';
 
 // Schema for individual YouTube video data (consistent with other flows)
@@ -36,6 +37,19 @@ const InstagramPostDataSchema = z.object({
 export type InstagramPostData = z.infer<typeof InstagramPostDataSchema>;
 
 
+// Schema for the items of a platform module (e.g. TikTok videos), whose metrics vary by platform
+// This type is exported for use in ContentSuggestionForm
+const PlatformContextDataSchema = z.object({
+  platform: z.string().describe("The platform name, e.g. 'TikTok'."),
+  items: z.array(z.object({
+    title: z.string(),
+    publishedAt: z.string().optional().describe("ISO date string of when the item was published."),
+    metrics: z.array(z.object({ label: z.string(), value: z.number() })),
+  })),
+});
+export type PlatformContextData = z.infer<typeof PlatformContextDataSchema>;
+
+
 const GeneralQueryInputSchema = z.object({
   userQuery: z.string().min(1, "User query cannot be empty.").describe('The user\'s question or request related to social media strategy, content, etc.'),
   userRole: z.string().describe('The role of the user (e.g., "content creator", "admin").'),
@@ -45,6 +59,9 @@ const GeneralQueryInputSchema = z.object({
   instagramData: z.array(InstagramPostDataSchema)
     .optional()
     .describe('Optional: Array of Instagram post data including thumbnails/captions, likes, comments, and timestamps.'),
+  platformData: z.array(PlatformContextDataSchema)
+    .optional()
+    .describe('Optional: Items tracked on other platforms, grouped by platform, with their metrics.'),
 });
 export type GeneralQueryInput = z.infer<typeof GeneralQueryInputSchema>;
 
@@ -54,7 +71,9 @@ const GeneralQueryOutputSchema = z.object({
 export type GeneralQueryOutput = z.infer<typeof GeneralQueryOutputSchema>;
 
 export async function generalQuery(input: GeneralQueryInput): Promise<GeneralQueryOutput> {
-  return generalQueryFlow(input);
+  const caller = await requireCaller();
+  // The role comes from the session rather than from the browser
+  return generalQueryFlow({ ...input, userRole: caller.role });
 }
 
 const prompt = ai.definePrompt({
@@ -87,6 +106,16 @@ Here's some context about their recent Instagram performance (if their query see
   (No specific Instagram data was provided for this query, or it might not be relevant.)
 {{/if}}
 
+{{#each platformData}}
+{{#if items.length}}
+Here's some context about their recent {{{platform}}} performance (if their query seems related to it, otherwise you can ignore this data):
+  {{{platform}}} Data:
+  {{#each items}}
+  - Title: "{{{title}}}"{{#if publishedAt}}, Published: {{{publishedAt}}}{{/if}}{{#each metrics}}, {{{label}}}: {{{value}}}{{/each}}
+  {{/each}}
+{{/if}}
+{{/each}}
+
 Please provide a comprehensive, insightful, and actionable response to the user's query.
 If they ask for suggestions, try to analyze any provided data to give specific advice.
 If they ask a general question, answer it to the best of your ability.
@@ -117,6 +146,7 @@ const generalQueryFlow = ai.defineFlow(
         userRole: input.userRole,
         youtubeData: input.youtubeData,
         instagramData: processedInstagramData,
+        platformData: input.platformData,
     };
 
     const {output} = await prompt(promptInputPayload);
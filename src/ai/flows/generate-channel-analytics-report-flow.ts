@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod';
 
 // Schema for a single YouTube video, ensuring all necessary fields are present.
@@ -51,6 +52,7 @@ const ChannelAnalyticsReportOutputSchema = z.object({
 export type ChannelAnalyticsReportOutput = z.infer<typeof ChannelAnalyticsReportOutputSchema>;
 
 export async function generateChannelAnalyticsReport(input: GenerateChannelAnalyticsReportInput): Promise<ChannelAnalyticsReportOutput> {
+  await requireCaller();
   return generateChannelAnalyticsReportFlow(input);
 }
 
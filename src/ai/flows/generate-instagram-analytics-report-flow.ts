@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import { z } from 'zod';
 
 // Schema for a single Instagram Reel, ensuring all necessary fields are present.
@@ -55,6 +56,7 @@ const InstagramAnalyticsReportOutputSchema = z.object({
 export type InstagramAnalyticsReportOutput = z.infer<typeof InstagramAnalyticsReportOutputSchema>;
 
 export async function generateInstagramAnalyticsReport(input: GenerateInstagramAnalyticsReportInput): Promise<InstagramAnalyticsReportOutput> {
+  await requireCaller();
   return generateInstagramAnalyticsReportFlow(input);
 }
 
@@ -7,6 +7,7 @@
  * - GetChatUsageStatusOutput - The Zod schema for the output.
  */
 import { ai } from '@/ai/genkit';
+import { requireUserAccess } from '@/lib/authorization';
 import { db } from '@/lib/firebase';
 import { z } from 'zod';
 import { doc, getDoc, Timestamp } from 'firebase/firestore';
@@ -26,6 +27,7 @@ const GetChatUsageStatusOutputSchema = z.object({
 export type GetChatUsageStatusOutput = z.infer<typeof GetChatUsageStatusOutputSchema>;
 
 export async function getChatUsageStatus(input: GetChatUsageStatusInput): Promise<GetChatUsageStatusOutput> {
+  await requireUserAccess(input.userId);
   return getChatUsageStatusFlow(input);
 }
 
@@ -12,6 +12,7 @@
  */
 
 import {ai} from '@/ai/genkit';
+import { requireCaller } from '@/lib/authorization';
 import {z}from 'genkit';
 
 const SuggestContentImprovementsInputSchema = z.object({
@@ -51,7 +52,9 @@ const SuggestContentImprovementsOutputSchema = z.object({
 export type SuggestContentImprovementsOutput = z.infer<typeof SuggestContentImprovementsOutputSchema>;
 
 export async function suggestContentImprovements(input: SuggestContentImprovementsInput): Promise<SuggestContentImprovementsOutput> {
-  return suggestContentImprovementsFlow(input);
+  const caller = await requireCaller();
+  // The role comes from the session rather than from the browser
+  return suggestContentImprovementsFlow({ ...input, userRole: caller.role });
 }
 
 const prompt = ai.definePrompt({
@@ -0,0 +1,176 @@
+
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import AppLayout from '@/components/layout/AppLayout';
+import RefreshRunDetailsDialog from '@/components/admin/RefreshRunDetailsDialog';
+import RefreshPolicyCard from '@/components/admin/RefreshPolicyCard';
+import AnalyticsReconciliationCard from '@/components/admin/AnalyticsReconciliationCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Activity, RefreshCw } from 'lucide-react';
+import { format, isValid, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { getAllUsers } from '@/lib/authService';
+import {
+  getRecentRefreshRuns,
+  getRefreshRun,
+  type RefreshRun,
+  type RefreshRunTrigger,
+} from '@/lib/refreshRunService';
+import { retryFailedRefreshItems } from '@/lib/refreshAdminService';
+import { toast } from '@/hooks/use-toast';
+
+const TRIGGER_LABELS: Record<RefreshRunTrigger, string> = {
+  scheduled: 'Scheduled refresh',
+  manual: 'Refresh now',
+  'refresh-job': 'Refresh job',
+  retry: 'Retry',
+};
+
+const formatRunTime = (isoString?: string) => {
+  if (!isoString) return '—';
+  const date = parseISO(isoString);
+  return isValid(date) ? format(date, 'MMM d, yyyy HH:mm') : '—';
+};
+
+const formatRunDuration = (run: RefreshRun) => {
+  if (!run.finishedAt) return '—';
+  const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const statusVariant = (run: RefreshRun): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (run.status === 'running') return 'secondary';
+  if (run.status === 'failed') return 'destructive';
+  return run.totals.failed > 0 ? 'outline' : 'default';
+};
+
+export default function OperationsPage() {
+  const { user } = useAuth();
+  const [runs, setRuns] = useState<RefreshRun[]>([]);
+  const [users, setUsers] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<RefreshRun | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const fetchRuns = useCallback(async () => {
+    setIsLoading(true);
+    const [fetchedRuns, fetchedUsers] = await Promise.all([getRecentRefreshRuns(), getAllUsers().catch(() => [])]);
+    setRuns(fetchedRuns);
+    setUsers(fetchedUsers.map(u => ({ id: u.id, name: u.name })));
+    setIsLoading(false);
+  }, []);
+
+  const userNames = useMemo(() => Object.fromEntries(users.map(u => [u.id, u.name])), [users]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRetryFailed = async (run: RefreshRun) => {
+    if (!user?.id) return;
+    setIsRetrying(true);
+    try {
+      const retryRunId = await retryFailedRefreshItems(run.id);
+      const retryRun = await getRefreshRun(retryRunId);
+      toast({
+        title: "Retry Finished",
+        description: retryRun
+          ? `${retryRun.totals.succeeded} item(s) updated, ${retryRun.totals.failed} still failing, ${retryRun.totals.skipped} skipped.`
+          : "The failed items were refreshed again.",
+      });
+      await fetchRuns();
+      setSelectedRun(retryRun);
+    } catch (error: any) {
+      toast({ title: "Retry Failed", description: error.message || "Could not retry the failed items.", variant: "destructive" });
+    }
+    setIsRetrying(false);
+  };
+
+  return (
+    <AppLayout adminOnly={true}>
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="mb-8 shadow-lg">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Activity className="h-8 w-8 text-primary" />
+                <CardTitle className="text-3xl font-bold">Operations</CardTitle>
+              </div>
+              <Button onClick={fetchRuns} variant="outline" size="lg" disabled={isLoading}>
+                <RefreshCw className={`mr-2 h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+              </Button>
+            </div>
+            <CardDescription>
+              Every data refresh run, scheduled or manual, with its updated, failed and skipped items. Open a run to see per-user results and retry its failed items.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        <RefreshPolicyCard users={users} />
+
+        <AnalyticsReconciliationCard />
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading && runs.length === 0 ? (
+              <div className="text-center py-10">
+                <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-2 text-muted-foreground" />
+                <p className="text-muted-foreground">Loading refresh runs...</p>
+              </div>
+            ) : runs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead className="text-right">Users</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                    <TableHead className="text-right">YouTube Quota</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id} className="cursor-pointer" onClick={() => setSelectedRun(run)}>
+                      <TableCell className="font-medium">{formatRunTime(run.startedAt)}</TableCell>
+                      <TableCell>
+                        {TRIGGER_LABELS[run.trigger] || run.trigger}
+                        {run.requestedBy && <span className="block text-xs text-muted-foreground">by {userNames[run.requestedBy] || run.requestedBy}</span>}
+                      </TableCell>
+                      <TableCell><Badge variant={statusVariant(run)}>{run.status}</Badge></TableCell>
+                      <TableCell>{formatRunDuration(run)}</TableCell>
+                      <TableCell className="text-right">{run.userCount}</TableCell>
+                      <TableCell className="text-right">{run.totals.succeeded}</TableCell>
+                      <TableCell className="text-right">{run.totals.failed}</TableCell>
+                      <TableCell className="text-right">{run.totals.skipped}</TableCell>
+                      <TableCell className="text-right">{run.quotaUnitsUsed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-10">
+                <p className="text-muted-foreground">No refresh runs have been recorded yet.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <RefreshRunDetailsDialog
+          run={selectedRun}
+          userNames={userNames}
+          isRetrying={isRetrying}
+          onOpenChange={(open) => !open && setSelectedRun(null)}
+          onRetryFailed={handleRetryFailed}
+        />
+      </div>
+    </AppLayout>
+  );
+}
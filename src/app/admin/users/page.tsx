@@ -7,13 +7,14 @@ import UserTable from '@/components/admin/UserTable';
 import CreateUserForm from '@/components/admin/CreateUserForm';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { PlusCircle, Users, RefreshCw } from 'lucide-react';
-import type { User } from '@/lib/authService';
+import { PlusCircle, Users, RefreshCw, KeyRound } from 'lucide-react';
+import type { User, UserAccountInput } from '@/lib/authService';
 import {
   getAllUsers as apiGetAllUsers,
   adminCreateUser as apiAdminCreateUser,
   adminUpdateUser as apiAdminUpdateUser,
-  adminDeleteUser as apiAdminDeleteUser
+  adminDeleteUser as apiAdminDeleteUser,
+  migratePlaintextPasswords as apiMigratePlaintextPasswords
 } from '@/lib/authService';
 import { toast } from '@/hooks/use-toast';
 
@@ -22,6 +23,7 @@ export default function UserManagementPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
 
   const fetchUsers = useCallback(async () => {
     setIsLoading(true);
@@ -67,7 +69,24 @@ export default function UserManagementPage() {
     setIsLoading(false);
   };
 
-  const handleSubmitUser = async (userData: Omit<User, 'id' | 'lastLogin'>, currentUserId?: string) => {
+  const handleMigratePasswords = async () => {
+    if (!window.confirm("Hash every password that is still stored in plaintext? Users keep logging in with the same passwords.")) {
+      return;
+    }
+    setIsMigrating(true);
+    try {
+      const result = await apiMigratePlaintextPasswords();
+      toast({
+        title: "Passwords Migrated",
+        description: `${result.migrated} plaintext password(s) hashed. ${result.alreadyHashed} user(s) were already hashed, ${result.withoutPassword} have no password.`,
+      });
+    } catch (error: any) {
+      toast({ title: "Migration Failed", description: error.message || "Failed to migrate the passwords.", variant: "destructive" });
+    }
+    setIsMigrating(false);
+  };
+
+  const handleSubmitUser = async (userData: UserAccountInput, currentUserId?: string) => {
     setIsLoading(true);
     if (currentUserId) {
       // Update user profile in Firestore
@@ -94,7 +113,7 @@ export default function UserManagementPage() {
     } else {
       // Create user profile in Firestore (userData includes password)
       try {
-        const newUserProfile = await apiAdminCreateUser(userData as Omit<User, 'id' | 'lastLogin'>);
+        const newUserProfile = await apiAdminCreateUser(userData);
         if (newUserProfile) {
           await fetchUsers();
           toast({ title: "User Profile Created", description: `${newUserProfile.name}'s profile has been added to Firestore.` });
@@ -120,6 +139,9 @@ export default function UserManagementPage() {
                 <CardTitle className="text-3xl font-bold">User Profile Management</CardTitle>
               </div>
               <div className="flex gap-2">
+                <Button onClick={handleMigratePasswords} variant="outline" size="lg" disabled={isLoading || isMigrating} title="One-time migration of plaintext passwords to salted hashes">
+                  <KeyRound className={`mr-2 h-5 w-5 ${isMigrating ? 'animate-pulse' : ''}`} /> Hash Stored Passwords
+                </Button>
                 <Button onClick={fetchUsers} variant="outline" size="lg" disabled={isLoading}>
                   <RefreshCw className={`mr-2 h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
                 </Button>
@@ -129,7 +151,7 @@ export default function UserManagementPage() {
               </div>
             </div>
             <CardDescription>
-              Manage user profiles stored in Firestore. Users are logged in by checking credentials directly against this data.
+              Manage user profiles stored in Firestore. Passwords are stored as salted hashes and checked on the server at login.
             </CardDescription>
           </CardHeader>
         </Card>
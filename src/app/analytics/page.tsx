@@ -5,16 +5,19 @@ import AppLayout from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, BarChart3, Youtube, Instagram as InstagramIcon, AlertTriangle, Package, MessageSquare, ThumbsUp, Eye, PlayCircle, CalendarDays, Filter, Share2 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import type { StoredYouTubeVideo } from '@/lib/youtubeVideoAnalyticsService';
-import { getAllVideoAnalyticsForUser } from '@/lib/youtubeVideoAnalyticsService';
-import type { StoredInstagramPost } from '@/lib/instagramPostAnalyticsService';
-import { getAllInstagramPostAnalyticsForUser } from '@/lib/instagramPostAnalyticsService';
+import type { StoredYouTubeVideo, VideoMetricSnapshot } from '@/lib/youtubeVideoAnalyticsService';
+import { getAllVideoAnalyticsForUser, getVideoMetricHistoryForUser } from '@/lib/youtubeVideoAnalyticsService';
+import type { StoredInstagramPost, InstagramPostMetricSnapshot } from '@/lib/instagramPostAnalyticsService';
+import { getAllInstagramPostAnalyticsForUser, getInstagramPostMetricHistoryForUser } from '@/lib/instagramPostAnalyticsService';
 import { toast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { format, eachDayOfInterval, startOfDay, endOfDay, isValid, parseISO, isWithinInterval } from 'date-fns';
+import { format, startOfDay, endOfDay, subDays } from 'date-fns';
 import DailyPerformanceChart from '@/components/analytics/DailyPerformanceChart';
+import { PLATFORM_DISPLAY } from '@/components/analytics/platformDisplay';
+import { getAllPlatformItemsForUser, getPlatformItemMetricHistoryForUser } from '@/lib/platformAnalyticsService';
+import { PLATFORM_MODULES, type PlatformId, type PlatformItemSnapshot, type StoredPlatformItem } from '@shared/platforms';
 
 interface YouTubeSummaryStats {
   totalVideos: number;
@@ -38,8 +41,116 @@ export interface DailyChartDataPoint {
   comments?: number;
   plays?: number;
   reshares?: number;
+  [metricKey: string]: string | number | undefined; // Metrics of platform modules, by metric key
 }
 
+// Snapshots before the selected range, used as the baseline for the first day's gain and to fill the
+// moving average's window at the start of the range.
+const BASELINE_LOOKBACK_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the day keys ("YYYY-MM-DD") from one picked calendar day to another. Snapshots are keyed by UTC day,
+ * so the picked days are read as UTC days.
+ */
+const utcDayKeysBetween = (from: Date, to: Date): string[] => {
+  const keys: string[] = [];
+  const lastDay = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  for (let day = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate()); day <= lastDay; day += DAY_MS) {
+    keys.push(new Date(day).toISOString().slice(0, 10));
+  }
+  return keys;
+};
+
+// Today's UTC day as a local calendar date, for the date pickers. Snapshots are keyed by UTC day.
+const currentUtcDay = (): Date => {
+  const now = new Date();
+  return new Date(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+};
+
+type SnapshotMetricMapping<TSnapshot> = { from: keyof TSnapshot; to: string }[];
+
+interface DailySeries {
+  daily: DailyChartDataPoint[];
+  cumulative: DailyChartDataPoint[];
+  lookback: { daily: DailyChartDataPoint[]; cumulative: DailyChartDataPoint[] }; // The days before the range
+}
+
+const EMPTY_DAILY_SERIES: DailySeries = { daily: [], cumulative: [], lookback: { daily: [], cumulative: [] } };
+
+/**
+ * Turns per-item daily snapshots (cumulative totals) into chart series.
+ * A day's gain is the item's snapshot on that day minus its previous snapshot, so a gap between
+ * refreshes is credited to the day of the later refresh. Items without an earlier snapshot
+ * contribute no gain on their first day. Cumulative values carry the latest known total forward.
+ * The first lookbackDays of dayKeys come before the selected range and are returned separately.
+ */
+function buildDailySeries<TSnapshot extends { date: string }>(
+  historyByItem: Record<string, TSnapshot[]>,
+  dayKeys: string[],
+  mapping: SnapshotMetricMapping<TSnapshot>,
+  lookbackDays: number
+): DailySeries {
+  const emptyPoint = (date: string): DailyChartDataPoint => {
+    const point: DailyChartDataPoint = { date };
+    mapping.forEach(({ to }) => { point[to] = 0; });
+    return point;
+  };
+  const daily = dayKeys.map(emptyPoint);
+  const cumulative = dayKeys.map(emptyPoint);
+
+  Object.values(historyByItem).forEach(snapshots => {
+    const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+    let cursor = -1; // Index of the latest snapshot on or before the current day
+    dayKeys.forEach((dayKey, dayIndex) => {
+      while (cursor + 1 < sorted.length && sorted[cursor + 1].date <= dayKey) {
+        cursor++;
+      }
+      if (cursor < 0) return;
+      const current = sorted[cursor];
+      const previous = cursor > 0 ? sorted[cursor - 1] : undefined;
+      mapping.forEach(({ from, to }) => {
+        const currentValue = Number(current[from]) || 0;
+        cumulative[dayIndex][to] = (Number(cumulative[dayIndex][to]) || 0) + currentValue;
+        if (current.date === dayKey && previous) {
+          daily[dayIndex][to] = (Number(daily[dayIndex][to]) || 0) + currentValue - (Number(previous[from]) || 0);
+        }
+      });
+    });
+  });
+
+  return {
+    daily: daily.slice(lookbackDays),
+    cumulative: cumulative.slice(lookbackDays),
+    lookback: { daily: daily.slice(0, lookbackDays), cumulative: cumulative.slice(0, lookbackDays) },
+  };
+}
+
+const YOUTUBE_SNAPSHOT_MAPPING: SnapshotMetricMapping<VideoMetricSnapshot> = [
+  { from: 'views', to: 'views' },
+  { from: 'likes', to: 'likes' },
+  { from: 'comments', to: 'comments' },
+];
+
+const INSTAGRAM_SNAPSHOT_MAPPING: SnapshotMetricMapping<InstagramPostMetricSnapshot> = [
+  { from: 'playCount', to: 'plays' },
+  { from: 'likes', to: 'likes' },
+  { from: 'comments', to: 'comments' },
+  { from: 'reshareCount', to: 'reshares' },
+];
+
+// Platform module snapshots keep their metrics in a map; flattened so buildDailySeries can read them by metric key.
+type FlatPlatformSnapshot = { date: string } & Record<string, string | number>;
+
+const flattenPlatformHistory = (history: Record<string, PlatformItemSnapshot[]>): Record<string, FlatPlatformSnapshot[]> =>
+  Object.fromEntries(Object.entries(history).map(([itemId, snapshots]) => [
+    itemId,
+    snapshots.map(snapshot => ({ ...snapshot.metrics, date: snapshot.date })),
+  ]));
+
+// Chart line colors, assigned to a platform module's metrics in order.
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
 interface StatDisplayCardProps {
   title: string;
   value: string | number;
@@ -80,6 +191,7 @@ export default function OverallAnalyticsPage() {
 
   const [youtubeVideos, setYoutubeVideos] = useState<StoredYouTubeVideo[]>([]);
   const [instagramPosts, setInstagramPosts] = useState<StoredInstagramPost[]>([]);
+  const [platformItems, setPlatformItems] = useState<Partial<Record<PlatformId, StoredPlatformItem[]>>>({});
 
   const [youtubeSummary, setYoutubeSummary] = useState<YouTubeSummaryStats | null>(null);
   const [instagramSummary, setInstagramSummary] = useState<InstagramSummaryStats | null>(null);
@@ -91,24 +203,28 @@ export default function OverallAnalyticsPage() {
     from: undefined, 
     to: undefined,  
   });
-  const [dailyYouTubeChartData, setDailyYouTubeChartData] = useState<DailyChartDataPoint[]>([]);
-  const [dailyInstagramChartData, setDailyInstagramChartData] = useState<DailyChartDataPoint[]>([]);
+  const [youtubeChartSeries, setYouTubeChartSeries] = useState<DailySeries>(EMPTY_DAILY_SERIES);
+  const [instagramChartSeries, setInstagramChartSeries] = useState<DailySeries>(EMPTY_DAILY_SERIES);
+  const [platformChartData, setPlatformChartData] = useState<Partial<Record<PlatformId, DailySeries>>>({});
   const [isChartDataLoading, setIsChartDataLoading] = useState(false);
+  const [chartError, setChartError] = useState<string | null>(null);
 
 
   const fetchData = useCallback(async (userId: string) => {
     setIsLoading(true); 
     setError(null);
     try {
-      const [ytData, igData] = await Promise.all([
+      const [ytData, igData, ...platformData] = await Promise.all([
         getAllVideoAnalyticsForUser(userId),
-        getAllInstagramPostAnalyticsForUser(userId)
+        getAllInstagramPostAnalyticsForUser(userId),
+        ...PLATFORM_MODULES.map(platformModule => getAllPlatformItemsForUser(platformModule.id, userId)),
       ]);
       setYoutubeVideos(ytData);
       setInstagramPosts(igData);
+      setPlatformItems(Object.fromEntries(PLATFORM_MODULES.map((platformModule, index) => [platformModule.id, platformData[index]])));
        
-       if (ytData.length > 0 || igData.length > 0) {
-        const today = new Date();
+       if (ytData.length > 0 || igData.length > 0 || platformData.some(items => items.length > 0)) {
+        const today = currentUtcDay();
         const sevenDaysAgo = new Date(today);
         sevenDaysAgo.setDate(today.getDate() - 6); 
         setDateRange({ from: startOfDay(sevenDaysAgo), to: endOfDay(today) });
@@ -163,61 +279,64 @@ export default function OverallAnalyticsPage() {
     }
   }, [youtubeVideos, instagramPosts]);
 
-  // Process data for charts when dateRange, youtubeVideos, or instagramPosts change
+  // Load daily snapshots and build chart series when dateRange, youtubeVideos, or instagramPosts change
   useEffect(() => {
-    if (!dateRange.from || !dateRange.to || (!youtubeVideos.length && !instagramPosts.length)) {
-      setDailyYouTubeChartData([]);
-      setDailyInstagramChartData([]);
+    const resetCharts = () => {
+      setYouTubeChartSeries(EMPTY_DAILY_SERIES);
+      setInstagramChartSeries(EMPTY_DAILY_SERIES);
+      setPlatformChartData({});
+    };
+    const hasPlatformItems = Object.values(platformItems).some(items => items && items.length > 0);
+    if (!user?.id || !dateRange.from || !dateRange.to || (!youtubeVideos.length && !instagramPosts.length && !hasPlatformItems)) {
+      resetCharts();
       setIsChartDataLoading(false);
       return;
     }
-    setIsChartDataLoading(true);
 
-    const rangeArray = eachDayOfInterval({ start: dateRange.from, end: dateRange.to });
-    const dailyYouTubeMap = new Map<string, DailyChartDataPoint>();
-    const dailyInstagramMap = new Map<string, DailyChartDataPoint>();
-
-    rangeArray.forEach(day => {
-        const dayStr = format(day, 'yyyy-MM-dd');
-        dailyYouTubeMap.set(dayStr, { date: dayStr, views: 0, likes: 0, comments: 0 });
-        dailyInstagramMap.set(dayStr, { date: dayStr, plays: 0, likes: 0, comments: 0, reshares: 0 });
-    });
-
-    youtubeVideos.forEach(video => {
-        if (video.lastFetched && isValid(parseISO(video.lastFetched))) {
-            const fetchedDate = startOfDay(parseISO(video.lastFetched));
-            if (isWithinInterval(fetchedDate, { start: dateRange.from!, end: dateRange.to! })) {
-                 const fetchedDateStr = format(fetchedDate, 'yyyy-MM-dd');
-                 const dayData = dailyYouTubeMap.get(fetchedDateStr);
-                 if (dayData) {
-                    dayData.views = (dayData.views || 0) + (video.views || 0);
-                    dayData.likes = (dayData.likes || 0) + (video.likes || 0);
-                    dayData.comments = (dayData.comments || 0) + (video.comments || 0);
-                 }
-            }
-        }
-    });
-    setDailyYouTubeChartData(Array.from(dailyYouTubeMap.values()).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
-
-    instagramPosts.forEach(post => {
-        if (post.lastFetched && isValid(parseISO(post.lastFetched))) {
-            const fetchedDate = startOfDay(parseISO(post.lastFetched));
-            if (isWithinInterval(fetchedDate, { start: dateRange.from!, end: dateRange.to! })) {
-                const fetchedDateStr = format(fetchedDate, 'yyyy-MM-dd');
-                const dayData = dailyInstagramMap.get(fetchedDateStr);
-                if (dayData) {
-                    dayData.plays = (dayData.plays || 0) + (post.playCount || 0);
-                    dayData.likes = (dayData.likes || 0) + (post.likes || 0);
-                    dayData.comments = (dayData.comments || 0) + (post.comments || 0);
-                    dayData.reshares = (dayData.reshares || 0) + (post.reshareCount || 0);
-                }
-            }
-        }
-    });
-    setDailyInstagramChartData(Array.from(dailyInstagramMap.values()).sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
+    let isCancelled = false;
+    const userId = user.id;
+    // The look-back days come first; buildDailySeries returns them apart from the selected range.
+    const dayKeys = utcDayKeysBetween(subDays(dateRange.from, BASELINE_LOOKBACK_DAYS), dateRange.to);
+    const historyStart = dayKeys[0];
+    const historyEnd = dayKeys[dayKeys.length - 1];
+
+    const loadChartData = async () => {
+      setIsChartDataLoading(true);
+      setChartError(null);
+      try {
+        const [ytHistory, igHistory, ...platformHistories] = await Promise.all([
+          getVideoMetricHistoryForUser(userId, youtubeVideos.map(v => v.id), historyStart, historyEnd),
+          getInstagramPostMetricHistoryForUser(userId, instagramPosts.map(p => p.id), historyStart, historyEnd),
+          ...PLATFORM_MODULES.map(platformModule => getPlatformItemMetricHistoryForUser(
+            platformModule.id, userId, (platformItems[platformModule.id] || []).map(item => item.id), historyStart, historyEnd
+          )),
+        ]);
+        if (isCancelled) return;
+
+        setYouTubeChartSeries(buildDailySeries(ytHistory, dayKeys, YOUTUBE_SNAPSHOT_MAPPING, BASELINE_LOOKBACK_DAYS));
+        setInstagramChartSeries(buildDailySeries(igHistory, dayKeys, INSTAGRAM_SNAPSHOT_MAPPING, BASELINE_LOOKBACK_DAYS));
+        setPlatformChartData(Object.fromEntries(PLATFORM_MODULES.map((platformModule, index) => [
+          platformModule.id,
+          buildDailySeries(
+            flattenPlatformHistory(platformHistories[index]),
+            dayKeys,
+            platformModule.metrics.map(metric => ({ from: metric.key, to: metric.key })),
+            BASELINE_LOOKBACK_DAYS
+          ),
+        ])));
+      } catch (err: any) {
+        if (isCancelled) return;
+        console.error("Error loading daily metric history:", err);
+        resetCharts();
+        setChartError("Could not load daily history for the selected range.");
+      } finally {
+        if (!isCancelled) setIsChartDataLoading(false);
+      }
+    };
+    loadChartData();
 
-    setIsChartDataLoading(false);
-  }, [dateRange, youtubeVideos, instagramPosts]);
+    return () => { isCancelled = true; };
+  }, [user?.id, dateRange, youtubeVideos, instagramPosts, platformItems]);
 
 
   if (isLoading) { 
@@ -253,16 +372,16 @@ export default function OverallAnalyticsPage() {
                 <CardTitle className="text-3xl font-bold">Overall Performance Analytics</CardTitle>
             </div>
             <CardDescription className="text-lg text-primary-foreground/80">
-              A combined view of your YouTube and Instagram performance.
+              A combined view of your YouTube, Instagram{PLATFORM_MODULES.map(platformModule => `, ${platformModule.name}`).join('')} performance.
             </CardDescription>
           </CardHeader>
         </Card>
 
-        {!youtubeSummary && !instagramSummary && (
+        {!youtubeSummary && !instagramSummary && !PLATFORM_MODULES.some(platformModule => platformItems[platformModule.id]?.length) && (
              <div className="text-center py-10">
                 <Package className="h-16 w-16 mx-auto mb-4 text-muted-foreground opacity-50" />
                 <p className="text-xl text-muted-foreground">No data found.</p>
-                <p className="text-sm text-muted-foreground">Please ensure you have content tracked on YouTube and/or Instagram pages.</p>
+                <p className="text-sm text-muted-foreground">Please ensure you have content tracked on the YouTube, Instagram or other platform pages.</p>
             </div>
         )}
 
@@ -302,6 +421,36 @@ export default function OverallAnalyticsPage() {
               </CardContent>
             </Card>
           )}
+
+          {PLATFORM_MODULES.map(platformModule => {
+            const items = platformItems[platformModule.id] || [];
+            if (items.length === 0) return null;
+            const display = PLATFORM_DISPLAY[platformModule.id];
+            return (
+              <Card key={platformModule.id} className="shadow-lg">
+                <CardHeader>
+                  <div className="flex items-center gap-3">
+                    <display.icon className={`h-7 w-7 ${display.colorClassName}`} />
+                    <CardTitle className="text-2xl font-semibold">{platformModule.name} Summary (All Time)</CardTitle>
+                  </div>
+                  <CardDescription>{items.length} {platformModule.itemLabel}(s) analyzed.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-3">
+                  <StatDisplayCard title={`Total ${platformModule.itemLabelPlural}`} value={items.length} icon={display.icon} platformColor={display.colorClassName} size="compact" />
+                  {platformModule.metrics.slice(0, 3).map(metric => (
+                    <StatDisplayCard
+                      key={metric.key}
+                      title={`Total ${metric.label}`}
+                      value={items.reduce((sum, item) => sum + (item.metrics?.[metric.key] || 0), 0)}
+                      icon={display.metricIcons[metric.key] || display.icon}
+                      platformColor={display.colorClassName}
+                      size="compact"
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         
@@ -321,7 +470,7 @@ export default function OverallAnalyticsPage() {
                           </Button>
                       </PopoverTrigger>
                       <PopoverContent className="w-auto p-0" align="end">
-                          <Calendar mode="single" selected={dateRange.from} onSelect={(day) => setDateRange(prev => ({...prev, from: day ? startOfDay(day) : undefined}))} disabled={(date) => date > (dateRange.to || new Date()) || date > new Date()} initialFocus />
+                          <Calendar mode="single" selected={dateRange.from} onSelect={(day) => setDateRange(prev => ({...prev, from: day ? startOfDay(day) : undefined}))} disabled={(date) => date > (dateRange.to || currentUtcDay()) || date > currentUtcDay()} initialFocus />
                       </PopoverContent>
                   </Popover>
                   <Popover>
@@ -332,12 +481,12 @@ export default function OverallAnalyticsPage() {
                           </Button>
                       </PopoverTrigger>
                       <PopoverContent className="w-auto p-0" align="end">
-                          <Calendar mode="single" selected={dateRange.to} onSelect={(day) => setDateRange(prev => ({...prev, to: day ? endOfDay(day) : undefined}))} disabled={(date) => date < (dateRange.from || new Date(0)) || date > new Date()} initialFocus />
+                          <Calendar mode="single" selected={dateRange.to} onSelect={(day) => setDateRange(prev => ({...prev, to: day ? endOfDay(day) : undefined}))} disabled={(date) => date < (dateRange.from || new Date(0)) || date > currentUtcDay()} initialFocus />
                       </PopoverContent>
                   </Popover>
               </div>
             </div>
-            <CardDescription>Select a date range to view daily trends for YouTube and Instagram based on when stats were last refreshed.</CardDescription>
+            <CardDescription>Select a date range to view how much your tracked content gained each day, based on daily snapshots taken at every refresh.</CardDescription>
           </CardHeader>
           <CardContent>
             {isChartDataLoading ? (
@@ -348,36 +497,63 @@ export default function OverallAnalyticsPage() {
             ) : (
               <div className="space-y-8">
                 <DailyPerformanceChart
-                  data={dailyYouTubeChartData}
+                  data={youtubeChartSeries.daily}
+                  cumulativeData={youtubeChartSeries.cumulative}
+                  lookback={youtubeChartSeries.lookback}
                   metrics={[
-                    { key: 'views', name: 'Total Views (on refresh date)', color: 'hsl(var(--chart-1))', icon: Eye },
-                    { key: 'likes', name: 'Total Likes (on refresh date)', color: 'hsl(var(--chart-2))', icon: ThumbsUp },
-                    { key: 'comments', name: 'Total Comments (on refresh date)', color: 'hsl(var(--chart-3))', icon: MessageSquare },
+                    { key: 'views', name: 'Views', color: 'hsl(var(--chart-1))', icon: Eye },
+                    { key: 'likes', name: 'Likes', color: 'hsl(var(--chart-2))', icon: ThumbsUp },
+                    { key: 'comments', name: 'Comments', color: 'hsl(var(--chart-3))', icon: MessageSquare },
                   ]}
                   xAxisDataKey="date"
-                  title="YouTube Daily Aggregated Stats"
+                  title="YouTube Daily Performance"
                   platformIcon={Youtube}
                   isLoading={isChartDataLoading}
-                  error={null} 
+                  error={chartError} 
                 />
                 <DailyPerformanceChart
-                  data={dailyInstagramChartData}
+                  data={instagramChartSeries.daily}
+                  cumulativeData={instagramChartSeries.cumulative}
+                  lookback={instagramChartSeries.lookback}
                   metrics={[
-                    { key: 'plays', name: 'Total Plays (on refresh date)', color: 'hsl(var(--chart-1))', icon: PlayCircle },
-                    { key: 'likes', name: 'Total Likes (on refresh date)', color: 'hsl(var(--chart-2))', icon: ThumbsUp },
-                    { key: 'comments', name: 'Total Comments (on refresh date)', color: 'hsl(var(--chart-3))', icon: MessageSquare },
-                    { key: 'reshares', name: 'Total Reshares (on refresh date)', color: 'hsl(var(--chart-4))', icon: Share2 }, 
+                    { key: 'plays', name: 'Plays', color: 'hsl(var(--chart-1))', icon: PlayCircle },
+                    { key: 'likes', name: 'Likes', color: 'hsl(var(--chart-2))', icon: ThumbsUp },
+                    { key: 'comments', name: 'Comments', color: 'hsl(var(--chart-3))', icon: MessageSquare },
+                    { key: 'reshares', name: 'Reshares', color: 'hsl(var(--chart-4))', icon: Share2 }, 
                   ]}
                   xAxisDataKey="date"
-                  title="Instagram Reels Daily Aggregated Stats"
+                  title="Instagram Reels Daily Performance"
                   platformIcon={InstagramIcon}
                   isLoading={isChartDataLoading}
-                  error={null}
+                  error={chartError}
                 />
+                {PLATFORM_MODULES.filter(platformModule => platformItems[platformModule.id]?.length).map(platformModule => {
+                  const display = PLATFORM_DISPLAY[platformModule.id];
+                  const series = platformChartData[platformModule.id];
+                  return (
+                    <DailyPerformanceChart
+                      key={platformModule.id}
+                      data={series?.daily || []}
+                      cumulativeData={series?.cumulative || []}
+                      lookback={series?.lookback}
+                      metrics={platformModule.metrics.map((metric, index) => ({
+                        key: metric.key,
+                        name: metric.label,
+                        color: CHART_COLORS[index % CHART_COLORS.length],
+                        icon: display.metricIcons[metric.key],
+                      }))}
+                      xAxisDataKey="date"
+                      title={`${platformModule.name} Daily Performance`}
+                      platformIcon={display.icon}
+                      isLoading={isChartDataLoading}
+                      error={chartError}
+                    />
+                  );
+                })}
               </div>
             )}
-             {(!isChartDataLoading && dailyYouTubeChartData.length === 0 && dailyInstagramChartData.length === 0 && dateRange.from && dateRange.to) && (
-                <p className="text-center text-muted-foreground py-6">No data available for the selected date range, or no content was refreshed during this period.</p>
+             {(!isChartDataLoading && youtubeChartSeries.daily.length === 0 && instagramChartSeries.daily.length === 0 && dateRange.from && dateRange.to) && (
+                <p className="text-center text-muted-foreground py-6">No data available for the selected date range, or no snapshots were recorded during this period.</p>
             )}
              {(!dateRange.from || !dateRange.to) && (
                 <p className="text-center text-muted-foreground py-6">Please select a date range to view daily trends.</p>
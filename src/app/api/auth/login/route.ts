@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loginWithEmailCode, loginWithEmailPassword } from '@/lib/authService';
+import { SESSION_COOKIE_NAME, createSessionToken, getSessionCookieOptions } from '@/lib/session';
+
+interface LoginRequest {
+  email?: unknown;
+  password?: unknown;
+  code?: unknown; // A one-time code from requestLoginCode, instead of a password
+}
+
+/**
+ * Logs a user in with a password or a one-time code and starts a session. The credentials are checked by
+ * the 'loginWithPassword' or 'verifyLoginCode' Cloud Function; the session cookie is set here, so that the
+ * browser never sees the signed token.
+ */
+export async function POST(request: NextRequest) {
+  let body: LoginRequest;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'The request body must be JSON.' }, { status: 400 });
+  }
+  const { email, password, code } = body;
+  if (typeof email !== 'string' || !email || (typeof password !== 'string' && typeof code !== 'string')) {
+    return NextResponse.json({ error: 'An email and a password or code must be provided.' }, { status: 400 });
+  }
+
+  try {
+    const user = typeof code === 'string' ?
+      await loginWithEmailCode(email, code) :
+      await loginWithEmailPassword(email, password as string);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid credentials.' }, { status: 401 });
+    }
+    const { token, session } = await createSessionToken(user);
+    const response = NextResponse.json({ user: session.user, expiresAt: session.expiresAt });
+    response.cookies.set(SESSION_COOKIE_NAME, token, getSessionCookieOptions(session));
+    return response;
+  } catch (error: any) {
+    console.error("[Auth API] Error during login:", error);
+    return NextResponse.json({ error: error?.message || 'An unexpected error occurred during login.' }, { status: 500 });
+  }
+}
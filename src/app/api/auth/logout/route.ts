@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, getSessionCookieOptions } from '@/lib/session';
+
+/**
+ * Ends the session by clearing its cookie.
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE_NAME, '', getSessionCookieOptions(null));
+  return response;
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reloadSessionUser } from '@/lib/authService';
+import {
+  SESSION_COOKIE_NAME,
+  createSessionToken,
+  getSessionCookieOptions,
+  shouldRefreshSession,
+  verifySessionToken,
+  type SessionUser,
+} from '@/lib/session';
+
+const endSession = (request: NextRequest) => {
+  const response = NextResponse.json({ user: null }, { status: 401 });
+  if (request.cookies.has(SESSION_COOKIE_NAME)) {
+    response.cookies.set(SESSION_COOKIE_NAME, '', getSessionCookieOptions(null));
+  }
+  return response;
+};
+
+/**
+ * Returns the current session's user, extending the session when it is due. The user is read again before
+ * the session is extended, so the new cookie holds their current role; a deleted user's session ends.
+ * Answers 401 without a valid session.
+ */
+export async function GET(request: NextRequest) {
+  const sessionToken = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = await verifySessionToken(sessionToken);
+  if (!session) {
+    return endSession(request);
+  }
+  if (!shouldRefreshSession(session)) {
+    return NextResponse.json({ user: session.user, expiresAt: session.expiresAt });
+  }
+
+  let user: SessionUser | null;
+  try {
+    user = await reloadSessionUser(sessionToken!);
+  } catch (error) {
+    // The session stays valid until it expires; the next request tries again
+    console.error("[Auth API] Error extending the session:", error);
+    return NextResponse.json({ user: session.user, expiresAt: session.expiresAt });
+  }
+  if (!user) {
+    return endSession(request);
+  }
+  const { token, session: refreshed } = await createSessionToken(user, session.authTime);
+  const response = NextResponse.json({ user: refreshed.user, expiresAt: refreshed.expiresAt });
+  response.cookies.set(SESSION_COOKIE_NAME, token, getSessionCookieOptions(refreshed));
+  return response;
+}
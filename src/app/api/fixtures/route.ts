@@ -0,0 +1,48 @@
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFixtureService, parseApiFixtureMode } from '@shared/apiFixtures';
+
+interface FixtureProxyRequest {
+  method?: string;
+  url?: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Replays or records a browser request to an external API in fixture mode. The server's fetch is wrapped in
+ * src/instrumentation.ts, so the request below is answered from fixtures/api in replay mode.
+ * Only requests to the recorded services are accepted, and only while API_FIXTURE_MODE is set.
+ */
+export async function POST(request: NextRequest) {
+  if (parseApiFixtureMode(process.env.API_FIXTURE_MODE) === 'off') {
+    return NextResponse.json({ error: 'API fixtures are disabled.' }, { status: 404 });
+  }
+
+  let proxied: FixtureProxyRequest;
+  try {
+    proxied = await request.json();
+  } catch (error) {
+    return NextResponse.json({ error: 'The request body must be JSON.' }, { status: 400 });
+  }
+  if (!proxied.url || !getFixtureService(proxied.url)) {
+    return NextResponse.json({ error: 'Only requests to recorded APIs can be sent through this endpoint.' }, { status: 400 });
+  }
+
+  try {
+    const method = proxied.method || 'GET';
+    const response = await fetch(proxied.url, {
+      method,
+      headers: proxied.headers,
+      ...(method !== 'GET' && method !== 'HEAD' && proxied.body && { body: proxied.body }),
+      cache: 'no-store',
+    });
+    return new NextResponse(await response.text(), {
+      status: response.status,
+      headers: { 'Content-Type': response.headers.get('Content-Type') || 'application/json' },
+    });
+  } catch (error: any) {
+    console.error("[API Fixtures] Error proxying a fixture request:", error);
+    return NextResponse.json({ error: { message: error?.message || 'The fixture request failed.' } }, { status: 502 });
+  }
+}
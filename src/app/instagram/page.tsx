@@ -4,13 +4,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import AppLayout from '@/components/layout/AppLayout';
 import InstagramCard from '@/components/analytics/InstagramCard';
+import TrackedInstagramProfilesCard from '@/components/admin/TrackedInstagramProfilesCard';
 import type { StoredInstagramPost } from '@/lib/instagramPostAnalyticsService';
 import {
-  saveInstagramPostAnalytics,
   getAllInstagramPostAnalyticsForUser,
-  deleteInstagramPostAnalytics,
 } from '@/lib/instagramPostAnalyticsService';
-import { fetchInstagramReelStats, type FetchInstagramReelStatsInput, type InstagramReelStatsOutput } from '@/ai/flows/fetch-instagram-reel-stats-flow';
+import type { RefreshJob } from '@/lib/refreshJobService';
+import { extractInstagramShortcode } from '@shared/platformUrls';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -18,6 +18,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/hooks/useAuth';
+import { useRefreshJob } from '@/hooks/useRefreshJob';
 import type { User } from '@/lib/authService';
 import { getAllUsers as apiGetAllUsers } from '@/lib/authService';
 import { 
@@ -74,17 +75,6 @@ interface SummaryStats {
 
 type SortablePostKey = 'postedAt' | 'likes' | 'comments' | 'playCount' | 'reshareCount';
 
-const extractShortcodeFromUrlSafe = (url: string): string | null => {
-  try {
-    const urlObj = new URL(url);
-    const regex = /\/(?:p|reel|reels)\/([a-zA-Z0-9_-]+)/;
-    const match = urlObj.pathname.match(regex);
-    return match && match[1] ? match[1] : null;
-  } catch (e) {
-    return null;
-  }
-};
-
 export default function InstagramAnalyticsPage() {
   const { user } = useAuth();
   
@@ -106,8 +96,6 @@ export default function InstagramAnalyticsPage() {
   const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({ from: undefined, to: undefined });
   const [sortConfig, setSortConfig] = useState<{ key: SortablePostKey; order: 'asc' | 'desc' }>({ key: 'postedAt', order: 'desc' });
 
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [refreshProgress, setRefreshProgress] = useState(0);
   const [isGeneratingPptReport, setIsGeneratingPptReport] = useState(false);
   const [lastRefreshTimestamp, setLastRefreshTimestamp] = useState<string | null>(null);
 
@@ -171,27 +159,15 @@ export default function InstagramAnalyticsPage() {
     try {
       // 1. Get assigned links and their shortcodes
       const { links: assignedLinks } = await getInstagramLinksForUser(userIdToFetch);
-      const validShortcodes = new Set(assignedLinks.map(extractShortcodeFromUrlSafe).filter((id): id is string => id !== null));
+      const validShortcodes = new Set(assignedLinks.map(extractInstagramShortcode).filter((id): id is string => id !== null));
 
       // 2. Get all stored analytics data
       const allStoredPosts = await getAllInstagramPostAnalyticsForUser(userIdToFetch);
 
-      // 3. Filter displayed posts and identify stale data
+      // 3. Only display posts that are still assigned. Analytics of unassigned links are archived or
+      // deleted by the 'reconcileAnalytics' Cloud Function.
       const postsToDisplay = allStoredPosts.filter(post => post.id && validShortcodes.has(post.id));
-      const stalePosts = allStoredPosts.filter(post => post.id && !validShortcodes.has(post.id));
-
       setAllFetchedPosts(postsToDisplay);
-      
-      // 4. (Async) Clean up stale posts from Firestore
-      if (stalePosts.length > 0) {
-        console.log(`Found ${stalePosts.length} stale Instagram posts to clean up.`);
-        const cleanupPromises = stalePosts.map(post => post.id ? deleteInstagramPostAnalytics(userIdToFetch, post.id) : Promise.resolve());
-        await Promise.all(cleanupPromises).then(() => {
-          console.log("Stale post cleanup complete.");
-        }).catch(err => {
-          console.error("Error during stale post cleanup:", err);
-        });
-      }
 
     } catch (error: any) {
       console.error("Error loading Instagram posts from Firestore:", error);
@@ -277,92 +253,42 @@ export default function InstagramAnalyticsPage() {
   }, [postsToDisplay]);
 
 
+  const handleRefreshJobFinished = useCallback((job: RefreshJob) => {
+    loadInitialUserPosts(job.userId);
+    if (job.status === 'failed') {
+      const errorMessage = job.error || "The refresh job failed on the server.";
+      setFetchError("Refresh failed: " + errorMessage);
+      toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
+      return;
+    }
+    if (job.finishedAt) {
+      setLastRefreshTimestamp(job.finishedAt);
+    }
+    toast({ title: "Feed Refreshed", description: `Updated ${job.succeededItems} reels. ${job.failedItems > 0 ? `${job.failedItems} failed.` : ''}` });
+  }, [loadInitialUserPosts]);
+
+  const { job: refreshJob, isRefreshing, progress: refreshProgress, startRefresh } = useRefreshJob(currentTargetUserId, 'instagram', handleRefreshJobFinished);
+
   const handleRefreshFeed = async () => {
     if (!currentTargetUserId) {
       toast({ title: "Cannot Refresh", description: "No user context.", variant: "destructive" });
       return;
     }
-    setIsRefreshing(true);
-    setRefreshProgress(0);
     setFetchError(null);
-    let updatedCount = 0;
-    let errorCount = 0;
 
     try {
-      const { links } = await getInstagramLinksForUser(currentTargetUserId);
-      if (links.length === 0) {
+      const job = await startRefresh(user?.id);
+      if (!job) {
         setAllFetchedPosts([]); 
         setPostsToDisplay([]);
-        toast({ title: "No Reel Links", description: "No Instagram Reel links assigned to this user.", variant: "default" });
-        setIsRefreshing(false);
+        toast({ title: "No Reel Links", description: "No Instagram Reel links or profiles assigned to this user.", variant: "default" });
         return;
       }
-      
-      toast({ title: "Refresh Started", description: `Fetching stats for ${links.length} Instagram Reel link(s). This may take a while due to delays between requests.` });
-
-      for (let i = 0; i < links.length; i++) {
-        const reelUrl = links[i];
-        try {
-          const flowInput: FetchInstagramReelStatsInput = { reelUrl };
-          const statsOutput: InstagramReelStatsOutput = await fetchInstagramReelStats(flowInput);
-
-          if (statsOutput.fetchedSuccessfully && statsOutput.shortcode) {
-            const postToStore: StoredInstagramPost = {
-              id: statsOutput.shortcode, 
-              reelUrl: statsOutput.originalUrl,
-              likes: statsOutput.likeCount || 0,
-              comments: statsOutput.commentCount || 0,
-              playCount: statsOutput.playCount || 0,
-              reshareCount: statsOutput.reshareCount || 0,
-              caption: statsOutput.caption,
-              thumbnailUrl: statsOutput.thumbnailUrl,
-              username: statsOutput.username,
-              postedAt: statsOutput.postedAt || new Date(0).toISOString(), 
-              lastFetched: new Date().toISOString(),
-            };
-            await saveInstagramPostAnalytics(currentTargetUserId, postToStore);
-            updatedCount++;
-          } else {
-            console.warn(`Failed to fetch stats for ${reelUrl}: ${statsOutput.errorMessage}`);
-            if (statsOutput.shortcode) { 
-                 await saveInstagramPostAnalytics(currentTargetUserId, {
-                    id: statsOutput.shortcode,
-                    reelUrl: reelUrl,
-                    likes:0, comments:0, playCount:0, reshareCount:0,
-                    postedAt: statsOutput.postedAt || new Date(0).toISOString(), 
-                    lastFetched: new Date().toISOString(),
-                    errorMessage: statsOutput.errorMessage || "Failed to fetch details."
-                 });
-            }
-            errorCount++;
-          }
-        } catch (flowError: any) {
-          console.error(`Error processing link ${reelUrl}:`, flowError);
-          errorCount++;
-        }
-        
-        setRefreshProgress(((i + 1) / links.length) * 100);
-        
-        if (i < links.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-
-      await loadInitialUserPosts(currentTargetUserId);
-      
-      const timestampSuccess = await updateInstagramLastRefreshTimestamp(currentTargetUserId);
-      if (timestampSuccess) {
-        setLastRefreshTimestamp(new Date().toISOString());
-      }
-
-      toast({ title: "Feed Refreshed", description: `Updated ${updatedCount} reels. ${errorCount > 0 ? `${errorCount} failed.` : ''}` });
-
+      toast({ title: "Refresh Started", description: `Fetching stats for ${job.totalItems} Instagram Reel link(s) on the server. You can close this tab while it runs.` });
     } catch (error: any) {
       const errorMessage = error.message || "Unknown error during refresh.";
       setFetchError("Refresh failed: " + errorMessage);
       toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
-    } finally {
-      setIsRefreshing(false);
     }
   };
 
@@ -442,6 +368,9 @@ export default function InstagramAnalyticsPage() {
     if (result.success) {
       const targetUser = usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin);
       toast({ title: "Reel Links Assigned", description: `Assigned ${result.actuallyAddedCount} new Reel link(s) to ${targetUser?.name || 'user'}. Starting to fetch stats...` });
+      if (result.rejectedLinks.length > 0) {
+        toast({ title: "Some Links Skipped", description: `${result.rejectedLinks.length} link(s) were not valid Instagram post or Reel links. ${result.rejectedLinks[0].message}`, variant: "destructive" });
+      }
       setSingleLink(''); setCsvFile(null);
       const fileInput = document.getElementById('instagram-csv-upload') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
@@ -664,7 +593,7 @@ export default function InstagramAnalyticsPage() {
     setDeletingLinkId(linkToDelete);
 
     // Optimistically update the UI first
-    const shortcodeToDelete = extractShortcodeFromUrlSafe(linkToDelete);
+    const shortcodeToDelete = extractInstagramShortcode(linkToDelete);
     if (shortcodeToDelete) {
       setAllFetchedPosts(prev => prev.filter(p => p.id !== shortcodeToDelete));
     }
@@ -673,19 +602,9 @@ export default function InstagramAnalyticsPage() {
     const linkDeletionSuccess = await deleteInstagramLinkForUser(selectedUserIdForAdmin, linkToDelete);
     
     if (linkDeletionSuccess) {
+      // The post's analytics are archived or deleted by the daily reconciliation, per the retention setting.
       toast({ title: "Link Deleted", description: `Link "${linkToDelete.substring(0, 30)}..." removed.` });
       
-      // Asynchronously delete the analytics data from Firestore.
-      if (shortcodeToDelete) {
-        deleteInstagramPostAnalytics(selectedUserIdForAdmin, shortcodeToDelete).then(analyticsDeleted => {
-          if (analyticsDeleted) {
-            toast({ title: "Analytics Data Removed", description: `Associated data for post ${shortcodeToDelete} has been deleted.`});
-          } else {
-            toast({ title: "Deletion Warning", description: `Link was removed, but failed to delete associated analytics data for post ${shortcodeToDelete}. It may reappear on next refresh.`, variant: "destructive"});
-          }
-        });
-      }
-      
       await fetchAssignedLinksForDialog(); 
     } else {
       toast({ title: "Error", description: "Failed to delete link. Reverting UI change.", variant: "destructive" });
@@ -720,7 +639,10 @@ export default function InstagramAnalyticsPage() {
              {isRefreshing && (
               <div className="mt-4">
                 <Progress value={refreshProgress} className="w-full" />
-                <p className="text-sm text-muted-foreground mt-1 text-center">Updating post data: {Math.round(refreshProgress)}%</p>
+                <p className="text-sm text-muted-foreground mt-1 text-center">
+                  Updating post data on the server: {Math.round(refreshProgress)}%
+                  {refreshJob && ` (${refreshJob.processedItems}/${refreshJob.totalItems} links${refreshJob.failedItems > 0 ? `, ${refreshJob.failedItems} failed` : ''})`}
+                </p>
               </div>
             )}
           </CardHeader>
@@ -841,6 +763,15 @@ export default function InstagramAnalyticsPage() {
           </Card>
         )}
 
+        {user?.role === 'admin' && selectedUserIdForAdmin && (
+          <TrackedInstagramProfilesCard
+            userId={selectedUserIdForAdmin}
+            userName={usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin)?.name}
+            disabled={isAssigning || isRefreshing}
+            onProfileTracked={handleRefreshFeed}
+          />
+        )}
+
         <Card className="mb-6 shadow-md">
           <CardHeader><CardTitle className="text-xl font-semibold">Filter & Sort Posts</CardTitle></CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -976,7 +907,7 @@ export default function InstagramAnalyticsPage() {
           </CardHeader>
           <CardContent>
             {(isLoadingPosts && !isRefreshing) ? (<div className="flex justify-center items-center py-10"><Loader2 className="h-12 w-12 animate-spin text-primary" /></div>) 
-            : postsToDisplay.length > 0 ? (<div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">{postsToDisplay.map((post) => (<InstagramCard key={post.id} post={post} />))}</div>) 
+            : postsToDisplay.length > 0 ? (<div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">{postsToDisplay.map((post) => (<InstagramCard key={post.id} post={post} userId={currentTargetUserId || ''} />))}</div>) 
             : (<div className="text-center py-10 text-muted-foreground"><InstagramUIIcon className="h-16 w-16 mx-auto mb-4 opacity-50" />
                 {fetchError && !isLoadingPosts && !isRefreshing && <p className="text-destructive mb-2">{fetchError}</p>}
                 <p>No Instagram Reels to display. Try assigning Reel links (admin) or use the "Refresh Feed" button above.</p>
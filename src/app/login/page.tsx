@@ -8,15 +8,19 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
-import { BotMessageSquare, Mail, KeyRound, Eye, EyeOff } from 'lucide-react';
+import { requestLoginCode } from '@/lib/authService';
+import { BotMessageSquare, Mail, KeyRound, Eye, EyeOff, ShieldCheck } from 'lucide-react';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [code, setCode] = useState('');
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { login, user, isLoading } = useAuth();
+  const { login, loginWithCode, user, isLoading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -50,6 +54,62 @@ export default function LoginPage() {
     setIsSubmitting(false);
   };
 
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const { expiresInMinutes } = await requestLoginCode(email);
+      setCodeSentTo(email);
+      setCode('');
+      toast({
+        title: 'Check Your Email',
+        description: `If ${email} belongs to an account, a login code is on its way. It expires in ${expiresInMinutes} minutes.`,
+      });
+    } catch (error: any) {
+      toast({ title: 'Could Not Send Code', description: error.message, variant: 'destructive' });
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleCodeLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeSentTo) return;
+    setIsSubmitting(true);
+    try {
+      const success = await loginWithCode(codeSentTo, code.trim());
+      if (success) {
+        toast({ title: 'Login Successful', description: 'Welcome back!' });
+      } else {
+        toast({
+          title: 'Login Failed',
+          description: 'The code is wrong or has expired. Check the latest email or request a new code.',
+          variant: 'destructive'
+        });
+      }
+    } catch (error: any) {
+      toast({ title: 'Login Failed', description: `Error: ${error?.message || 'An unexpected error occurred during login.'}`, variant: 'destructive' });
+    }
+    setIsSubmitting(false);
+  };
+
+  const emailField = (
+    <div className="space-y-2">
+      <Label htmlFor="email" className="flex items-center">
+        <Mail className="mr-2 h-4 w-4 text-muted-foreground" /> Email Address
+      </Label>
+      <Input
+        id="email"
+        type="email"
+        placeholder="you@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        required
+        className="text-base"
+        autoComplete="email"
+      />
+    </div>
+  );
+
   if (isLoading || (user && !isLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
@@ -71,53 +131,87 @@ export default function LoginPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleLogin} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="email" className="flex items-center">
-                <Mail className="mr-2 h-4 w-4 text-muted-foreground" /> Email Address
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="text-base"
-                autoComplete="email"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="flex items-center">
-                <KeyRound className="mr-2 h-4 w-4 text-muted-foreground" /> Password
-              </Label>
-              <div className="relative">
-                <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="text-base pr-10"
-                  autoComplete="current-password"
-                />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground"
-                  onClick={() => setShowPassword(!showPassword)}
-                  aria-label={showPassword ? "Hide password" : "Show password"}
-                >
-                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          <Tabs defaultValue="code">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="code">Email Code</TabsTrigger>
+              <TabsTrigger value="password">Password</TabsTrigger>
+            </TabsList>
+            <TabsContent value="code">
+              {codeSentTo ? (
+                <form onSubmit={handleCodeLogin} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="code" className="flex items-center">
+                      <ShieldCheck className="mr-2 h-4 w-4 text-muted-foreground" /> Login Code
+                    </Label>
+                    <Input
+                      id="code"
+                      inputMode="numeric"
+                      placeholder="6-digit code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      required
+                      className="text-base tracking-widest"
+                      autoComplete="one-time-code"
+                    />
+                    <p className="text-xs text-muted-foreground">Sent to {codeSentTo}.</p>
+                  </div>
+                  <Button type="submit" className="w-full text-lg py-6" disabled={isSubmitting || isLoading || code.length < 6}>
+                    {isSubmitting ? 'Logging In...' : 'Login'}
+                  </Button>
+                  <div className="flex justify-between">
+                    <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setCodeSentTo(null)} disabled={isSubmitting}>
+                      Use a different email
+                    </Button>
+                    <Button type="button" variant="link" size="sm" className="px-0" onClick={() => handleRequestCode()} disabled={isSubmitting}>
+                      Send a new code
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <form onSubmit={handleRequestCode} className="space-y-6">
+                  {emailField}
+                  <Button type="submit" className="w-full text-lg py-6" disabled={isSubmitting || isLoading}>
+                    {isSubmitting ? 'Sending Code...' : 'Email Me a Code'}
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+            <TabsContent value="password">
+              <form onSubmit={handleLogin} className="space-y-6">
+                {emailField}
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="flex items-center">
+                    <KeyRound className="mr-2 h-4 w-4 text-muted-foreground" /> Password
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="Enter your password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      className="text-base pr-10"
+                      autoComplete="current-password"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground"
+                      onClick={() => setShowPassword(!showPassword)}
+                      aria-label={showPassword ? "Hide password" : "Show password"}
+                    >
+                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+                <Button type="submit" className="w-full text-lg py-6" disabled={isSubmitting || isLoading}>
+                  {isSubmitting ? 'Logging In...' : 'Login'}
                 </Button>
-              </div>
-            </div>
-            <Button type="submit" className="w-full text-lg py-6" disabled={isSubmitting || isLoading}>
-              {isSubmitting ? 'Logging In...' : 'Login'}
-            </Button>
-          </form>
+              </form>
+            </TabsContent>
+          </Tabs>
         </CardContent>
         <CardFooter className="text-center text-xs text-muted-foreground flex-col">
           <p>&copy; {new Date().getFullYear()} Brand Dikhega. All rights reserved.</p>
@@ -0,0 +1,620 @@
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { notFound, useParams } from 'next/navigation';
+import AppLayout from '@/components/layout/AppLayout';
+import PlatformItemCard from '@/components/analytics/PlatformItemCard';
+import { PLATFORM_DISPLAY } from '@/components/analytics/platformDisplay';
+import { getAllPlatformItemsForUser } from '@/lib/platformAnalyticsService';
+import { assignPlatformLinksToUser, getPlatformLinksForUser, deletePlatformLinkForUser } from '@/lib/platformLinkService';
+import type { RefreshJob } from '@/lib/refreshJobService';
+import { getPlatformModule, isPlatformId, type PlatformId, type StoredPlatformItem } from '@shared/platforms';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useRefreshJob } from '@/hooks/useRefreshJob';
+import type { User } from '@/lib/authService';
+import { getAllUsers as apiGetAllUsers } from '@/lib/authService';
+import { toast } from '@/hooks/use-toast';
+import {
+  UserPlus, LinkIcon, FileText, UploadCloud, Users, DownloadCloud, Loader2, ListFilter,
+  CalendarIcon, ArrowUpDown, FilterX, RefreshCw, ListChecks, Trash2, FileSpreadsheet, Search
+} from 'lucide-react';
+import { Skeleton } from "@/components/ui/skeleton";
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Progress } from '@/components/ui/progress';
+import { format, isValid as isValidDate, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+// 'publishedAt' or one of the platform module's metric keys
+type SortKey = string;
+
+export default function PlatformAnalyticsPage() {
+  const params = useParams<{ platformId: string }>();
+  if (!isPlatformId(params.platformId)) {
+    notFound();
+  }
+  return <PlatformAnalyticsView platformId={params.platformId} />;
+}
+
+function PlatformAnalyticsView({ platformId }: { platformId: PlatformId }) {
+  const platform = getPlatformModule(platformId);
+  const display = PLATFORM_DISPLAY[platformId];
+  const PlatformIcon = display.icon;
+  const { user } = useAuth();
+
+  const [usersForAdminSelect, setUsersForAdminSelect] = useState<User[]>([]);
+  const [selectedUserIdForAdmin, setSelectedUserIdForAdmin] = useState<string>('');
+
+  const [singleLink, setSingleLink] = useState<string>('');
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+
+  const [isLoadingUsers, setIsLoadingUsers] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const [allFetchedItems, setAllFetchedItems] = useState<StoredPlatformItem[]>([]);
+  const [itemsToDisplay, setItemsToDisplay] = useState<StoredPlatformItem[]>([]);
+  const [isLoadingItems, setIsLoadingItems] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({ from: undefined, to: undefined });
+  const [sortConfig, setSortConfig] = useState<{ key: SortKey; order: 'asc' | 'desc' }>({ key: 'publishedAt', order: 'desc' });
+  const [lastRefreshTimestamp, setLastRefreshTimestamp] = useState<string | null>(null);
+
+  const [isViewLinksDialogOpen, setIsViewLinksDialogOpen] = useState(false);
+  const [assignedLinksForDialog, setAssignedLinksForDialog] = useState<string[]>([]);
+  const [isLoadingAssignedLinks, setIsLoadingAssignedLinks] = useState(false);
+  const [deletingLinkId, setDeletingLinkId] = useState<string | null>(null);
+  const [assignedLinkSearchTerm, setAssignedLinkSearchTerm] = useState('');
+
+  const currentTargetUserId = user?.role === 'admin' ? selectedUserIdForAdmin : user?.id;
+  const itemLabelPlural = platform.itemLabelPlural;
+
+  useEffect(() => {
+    const fetchInitialTimestamp = async () => {
+      if (!currentTargetUserId) {
+        setLastRefreshTimestamp(null);
+        return;
+      }
+      const { lastRefreshedAt } = await getPlatformLinksForUser(platformId, currentTargetUserId);
+      setLastRefreshTimestamp(lastRefreshedAt && isValidDate(parseISO(lastRefreshedAt)) ? lastRefreshedAt : null);
+    };
+    fetchInitialTimestamp();
+  }, [platformId, currentTargetUserId]);
+
+  const fetchUsersForAdmin = useCallback(async () => {
+    if (user?.role === 'admin') {
+      setIsLoadingUsers(true);
+      try {
+        const fetchedUsers = await apiGetAllUsers();
+        setUsersForAdminSelect(fetchedUsers.filter(u => u.id !== user.id));
+      } catch (error) {
+        toast({ title: "Error", description: "Could not load users.", variant: "destructive" });
+      }
+      setIsLoadingUsers(false);
+    }
+  }, [user?.id, user?.role]);
+
+  useEffect(() => {
+    fetchUsersForAdmin();
+  }, [fetchUsersForAdmin]);
+
+  const loadUserItems = useCallback(async (userIdToFetch: string) => {
+    if (!userIdToFetch) {
+      setAllFetchedItems([]);
+      setFetchError(null);
+      setIsLoadingItems(false);
+      return;
+    }
+    setIsLoadingItems(true);
+    setFetchError(null);
+    try {
+      const { links: assignedLinks } = await getPlatformLinksForUser(platformId, userIdToFetch);
+      const assignedIds = new Set(assignedLinks.map(link => {
+        const parsed = platform.parseLink(link);
+        return parsed.ok ? parsed.value.id : null;
+      }).filter((id): id is string => id !== null));
+
+      // Only display items that are still assigned. Analytics of unassigned links are archived or
+      // deleted by the 'reconcileAnalytics' Cloud Function.
+      const storedItems = await getAllPlatformItemsForUser(platformId, userIdToFetch);
+      setAllFetchedItems(storedItems.filter(item => assignedIds.has(item.id)));
+    } catch (error: any) {
+      console.error(`Error loading ${platform.name} items from Firestore:`, error);
+      setFetchError(`Could not load ${itemLabelPlural} from storage. Please try refreshing.`);
+      setAllFetchedItems([]);
+      toast({ title: "Storage Error", description: `Failed to load cached ${platform.name} data.`, variant: "destructive" });
+    }
+    setIsLoadingItems(false);
+  }, [platformId, platform, itemLabelPlural]);
+
+  useEffect(() => {
+    if (currentTargetUserId) {
+      loadUserItems(currentTargetUserId);
+    } else {
+      setAllFetchedItems([]);
+      setFetchError(null);
+      setIsLoadingItems(false);
+    }
+  }, [currentTargetUserId, loadUserItems]);
+
+  useEffect(() => {
+    let processedItems = [...allFetchedItems];
+    if (dateRange.from || dateRange.to) {
+      processedItems = processedItems.filter(item => {
+        if (!item.publishedAt) return false;
+        const publishedDate = parseISO(item.publishedAt);
+        if (!isValidDate(publishedDate)) return false;
+        if (dateRange.from && publishedDate < dateRange.from) return false;
+        if (dateRange.to) {
+          const toDate = new Date(dateRange.to);
+          toDate.setHours(23, 59, 59, 999);
+          if (publishedDate > toDate) return false;
+        }
+        return true;
+      });
+    }
+
+    processedItems.sort((a, b) => {
+      const direction = sortConfig.order === 'asc' ? 1 : -1;
+      if (sortConfig.key === 'publishedAt') {
+        return direction * (a.publishedAt || '').localeCompare(b.publishedAt || '');
+      }
+      return direction * ((a.metrics?.[sortConfig.key] || 0) - (b.metrics?.[sortConfig.key] || 0));
+    });
+    setItemsToDisplay(processedItems);
+  }, [allFetchedItems, dateRange, sortConfig]);
+
+  const metricTotals = platform.metrics.map(metric => ({
+    ...metric,
+    total: itemsToDisplay.reduce((sum, item) => sum + (item.metrics?.[metric.key] || 0), 0),
+  }));
+
+  const handleRefreshJobFinished = useCallback((job: RefreshJob) => {
+    loadUserItems(job.userId);
+    if (job.status === 'failed') {
+      const errorMessage = job.error || "The refresh job failed on the server.";
+      setFetchError("Refresh failed: " + errorMessage);
+      toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
+      return;
+    }
+    if (job.finishedAt) {
+      setLastRefreshTimestamp(job.finishedAt);
+    }
+    toast({ title: "Feed Refreshed", description: `Updated ${job.succeededItems} ${itemLabelPlural}. ${job.failedItems > 0 ? `${job.failedItems} failed.` : ''}` });
+  }, [loadUserItems, itemLabelPlural]);
+
+  const { job: refreshJob, isRefreshing, progress: refreshProgress, startRefresh } = useRefreshJob(currentTargetUserId, platformId, handleRefreshJobFinished);
+
+  const handleRefreshFeed = async () => {
+    if (!currentTargetUserId) {
+      toast({ title: "Cannot Refresh", description: "No user context.", variant: "destructive" });
+      return;
+    }
+    setFetchError(null);
+
+    try {
+      const job = await startRefresh(user?.id);
+      if (!job) {
+        setAllFetchedItems([]);
+        toast({ title: "No Links", description: `No ${platform.name} links assigned to this user.`, variant: "default" });
+        return;
+      }
+      toast({ title: "Refresh Started", description: `Fetching stats for ${job.totalItems} ${platform.name} link(s) on the server. You can close this tab while it runs.` });
+    } catch (error: any) {
+      const errorMessage = error.message || "Unknown error during refresh.";
+      setFetchError("Refresh failed: " + errorMessage);
+      toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  const handleDownloadCsvTemplate = () => {
+    const blob = new Blob(["link\n"], { type: 'text/csv;charset=utf-8;' });
+    const linkEl = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    linkEl.setAttribute("href", url);
+    linkEl.setAttribute("download", `${platformId}_links_template.csv`);
+    linkEl.style.visibility = 'hidden';
+    document.body.appendChild(linkEl);
+    linkEl.click();
+    document.body.removeChild(linkEl);
+    URL.revokeObjectURL(url);
+  };
+
+  const parseCsvFile = (file: File): Promise<string[]> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        const text = event.target?.result as string;
+        if (!text) { resolve([]); return; }
+        let lines = text.split(/\r\n|\n|\r/).map(line => line.trim()).filter(Boolean);
+        if (lines.length > 0 && lines[0].toLowerCase() === 'link') lines = lines.slice(1);
+        resolve(lines.map(line => line.split(',')[0].trim()).filter(Boolean));
+      };
+      reader.onerror = (error) => reject(error);
+      reader.readAsText(file);
+    });
+  };
+
+  const handleAssignLinks = async () => {
+    if (!selectedUserIdForAdmin) {
+      toast({ title: "No User Selected", description: "Please select a user.", variant: "destructive" });
+      return;
+    }
+    if (!singleLink && !csvFile) {
+      toast({ title: "No Links Provided", description: `Enter a ${platform.name} link or upload CSV.`, variant: "destructive" });
+      return;
+    }
+    setIsAssigning(true);
+    let linksFromInput: string[] = singleLink.trim() ? [singleLink.trim()] : [];
+    if (csvFile) {
+      try {
+        linksFromInput = linksFromInput.concat(await parseCsvFile(csvFile));
+      } catch (error) {
+        toast({ title: "CSV Error", description: "Could not parse CSV.", variant: "destructive" });
+        setIsAssigning(false); return;
+      }
+    }
+
+    // Links are validated by the platform module; invalid ones come back in rejectedLinks.
+    const result = await assignPlatformLinksToUser(platformId, selectedUserIdForAdmin, Array.from(new Set(linksFromInput)));
+    if (result.success) {
+      const targetUser = usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin);
+      toast({ title: "Links Assigned", description: `Assigned ${result.actuallyAddedCount} new ${platform.name} link(s) to ${targetUser?.name || 'user'}. Starting to fetch stats...` });
+      if (result.rejectedLinks.length > 0) {
+        toast({ title: "Some Links Skipped", description: `${result.rejectedLinks.length} link(s) were not valid ${platform.name} ${platform.itemLabel} links. ${result.rejectedLinks[0].message}`, variant: "destructive" });
+      }
+      setSingleLink(''); setCsvFile(null);
+      const fileInput = document.getElementById('platform-csv-upload') as HTMLInputElement;
+      if (fileInput) fileInput.value = '';
+      setLastRefreshTimestamp(new Date().toISOString());
+      if (result.actuallyAddedCount > 0) {
+        await handleRefreshFeed();
+      }
+    } else {
+      toast({ title: "Assignment Failed", description: `Could not assign ${platform.name} links.`, variant: "destructive" });
+    }
+    setIsAssigning(false);
+  };
+
+  const toggleSortOrder = () => setSortConfig(prev => ({ ...prev, order: prev.order === 'asc' ? 'desc' : 'asc' }));
+  const handleClearFilters = () => {
+    setDateRange({ from: undefined, to: undefined });
+    setSortConfig({ key: 'publishedAt', order: 'desc' });
+  };
+
+  const StatCard: React.FC<{icon: React.ElementType, label: string, value: string | number}> = ({ icon: Icon, label, value }) => (
+    <div className="flex flex-col items-center justify-center p-3 bg-card rounded-lg shadow hover:shadow-md transition-shadow">
+      <Icon className="h-7 w-7 text-primary mb-1.5" />
+      <p className="text-xs text-muted-foreground uppercase tracking-wider">{label}</p>
+      <p className="text-xl font-bold text-foreground">{typeof value === 'number' ? value.toLocaleString() : value}</p>
+    </div>
+  );
+
+  const handleDownloadReportExcel = () => {
+    if (itemsToDisplay.length === 0) {
+      toast({ title: "No Data", description: `No ${itemLabelPlural} to include in the report.`, variant: "default" });
+      return;
+    }
+    const escapeCsvCell = (cellData: any): string => `"${String(cellData === undefined || cellData === null ? '' : cellData).replace(/"/g, '""')}"`;
+
+    const headers = ["Publish Date", "Title", ...platform.metrics.map(metric => metric.label), "Link"];
+    const csvRows = [headers.join(',')];
+    itemsToDisplay.forEach(item => {
+      const publishedDate = item.publishedAt && isValidDate(parseISO(item.publishedAt)) ? format(parseISO(item.publishedAt), 'yyyy-MM-dd HH:mm:ss') : 'N/A';
+      csvRows.push([
+        escapeCsvCell(publishedDate),
+        escapeCsvCell(item.title || `${platform.name} ${platform.itemLabel} ${item.id}`),
+        ...platform.metrics.map(metric => item.metrics?.[metric.key] || 0),
+        escapeCsvCell(item.link),
+      ].join(','));
+    });
+
+    const blob = new Blob([`\uFEFF${csvRows.join('\n')}`], { type: 'text/csv;charset=utf-8;' });
+    const linkEl = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    linkEl.setAttribute("href", url);
+    linkEl.setAttribute("download", `${platformId}_${itemLabelPlural}_report.xls`);
+    linkEl.style.visibility = 'hidden';
+    document.body.appendChild(linkEl);
+    linkEl.click();
+    document.body.removeChild(linkEl);
+    URL.revokeObjectURL(url);
+
+    toast({ title: "Excel File Downloaded", description: `${platform.name} report generated successfully.` });
+  };
+
+  const fetchAssignedLinksForDialog = async () => {
+    if (!selectedUserIdForAdmin) return;
+    setIsLoadingAssignedLinks(true);
+    const { links } = await getPlatformLinksForUser(platformId, selectedUserIdForAdmin);
+    setAssignedLinksForDialog(links);
+    setIsLoadingAssignedLinks(false);
+  };
+
+  const handleDeleteAssignedLink = async (linkToDelete: string) => {
+    if (!selectedUserIdForAdmin) return;
+    setDeletingLinkId(linkToDelete);
+
+    // Optimistically update the UI first
+    const parsed = platform.parseLink(linkToDelete);
+    if (parsed.ok) {
+      setAllFetchedItems(prev => prev.filter(item => item.id !== parsed.value.id));
+    }
+
+    if (await deletePlatformLinkForUser(platformId, selectedUserIdForAdmin, linkToDelete)) {
+      // The item's analytics are archived or deleted by the daily reconciliation, per the retention setting.
+      toast({ title: "Link Deleted", description: `Link "${linkToDelete.substring(0, 30)}..." removed.` });
+      await fetchAssignedLinksForDialog();
+    } else {
+      toast({ title: "Error", description: "Failed to delete link. Reverting UI change.", variant: "destructive" });
+      await loadUserItems(selectedUserIdForAdmin);
+    }
+    setDeletingLinkId(null);
+  };
+
+  const filteredAssignedLinks = assignedLinksForDialog.filter(link =>
+    link.toLowerCase().includes(assignedLinkSearchTerm.toLowerCase())
+  );
+  const selectedUserName = usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin)?.name;
+  const sortLabel = sortConfig.key === 'publishedAt' ? 'date' : platform.metrics.find(metric => metric.key === sortConfig.key)?.label.toLowerCase();
+
+  return (
+    <AppLayout>
+      <div className="container mx-auto py-8 px-4 md:px-6">
+        <Card className="mb-8 shadow-lg">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <PlatformIcon className="h-8 w-8 text-primary" />
+              <CardTitle className="text-3xl font-bold">{platform.name} Analytics</CardTitle>
+            </div>
+            <CardDescription className="mt-2">
+              {user?.role === 'admin'
+                ? `Assign ${platform.name} links, view tracked ${itemLabelPlural}, and manage data.`
+                : `Overview of ${platform.name} ${platform.itemLabel} performance. Refresh to get latest data.`
+              }
+            </CardDescription>
+            {isRefreshing && (
+              <div className="mt-4">
+                <Progress value={refreshProgress} className="w-full" />
+                <p className="text-sm text-muted-foreground mt-1 text-center">
+                  Updating {platform.itemLabel} data on the server: {Math.round(refreshProgress)}%
+                  {refreshJob && ` (${refreshJob.processedItems}/${refreshJob.totalItems} links${refreshJob.failedItems > 0 ? `, ${refreshJob.failedItems} failed` : ''})`}
+                </p>
+              </div>
+            )}
+          </CardHeader>
+        </Card>
+
+        {user?.role === 'admin' && (
+          <Card className="mb-8 shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-3"><UserPlus className="mr-2 h-6 w-6 text-accent" /> <CardTitle className="text-2xl font-semibold">Assign {platform.name} Links</CardTitle></div>
+              <CardDescription>Select a user and provide {platform.name} {platform.itemLabel} links to track. Stats will be fetched automatically.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label htmlFor="user-select-platform" className="flex items-center mb-2"><Users className="mr-2 h-4 w-4" /> Select User</Label>
+                <Select
+                  value={selectedUserIdForAdmin}
+                  onValueChange={(value) => {
+                    setSelectedUserIdForAdmin(value);
+                    setAssignedLinksForDialog([]);
+                    setAssignedLinkSearchTerm('');
+                  }}
+                  disabled={isLoadingUsers || isAssigning || isRefreshing}
+                >
+                  <SelectTrigger id="user-select-platform" className="w-full md:w-1/2"><SelectValue placeholder="Select user..." /></SelectTrigger>
+                  <SelectContent>{isLoadingUsers ? <SelectItem value="loading" disabled>Loading...</SelectItem> : usersForAdminSelect.length > 0 ? usersForAdminSelect.map(u => (<SelectItem key={u.id} value={u.id}>{u.name} ({u.email})</SelectItem>)) : <SelectItem value="no-users" disabled>No other users</SelectItem>}</SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="single-link-platform" className="flex items-center mb-2"><LinkIcon className="mr-2 h-4 w-4" /> Add Single {platform.name} Link</Label>
+                <Input id="single-link-platform" type="url" placeholder={`e.g., ${platform.linkExample}`} value={singleLink} onChange={(e) => setSingleLink(e.target.value)} className="w-full md:w-1/2" disabled={isAssigning || isRefreshing} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="platform-csv-upload" className="flex items-center"><FileText className="mr-2 h-4 w-4" /> Or Upload CSV</Label>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <Input id="platform-csv-upload" type="file" accept=".csv" onChange={(e) => setCsvFile(e.target.files ? e.target.files[0] : null)} className="w-full md:w-1/2 pt-2" disabled={isAssigning || isRefreshing} />
+                  <Button variant="outline" onClick={handleDownloadCsvTemplate} disabled={isAssigning || isRefreshing} className="w-full sm:w-auto"><DownloadCloud className="mr-2 h-4 w-4" /> Template</Button>
+                </div>
+                <p className="text-xs text-muted-foreground">CSV: one {platform.name} link per line, column header "link".</p>
+              </div>
+            </CardContent>
+            <CardFooter className="flex justify-between items-center">
+              <Button onClick={handleAssignLinks} disabled={isAssigning || isRefreshing || !selectedUserIdForAdmin || (!singleLink && !csvFile)}>
+                {isAssigning ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <UploadCloud className="mr-2 h-5 w-5" />}
+                {isAssigning ? 'Assigning & Fetching...' : 'Assign Links & Fetch Stats'}
+              </Button>
+              <Dialog open={isViewLinksDialogOpen} onOpenChange={(open) => {
+                  setIsViewLinksDialogOpen(open);
+                  if (open && selectedUserIdForAdmin) {
+                    fetchAssignedLinksForDialog();
+                  } else if (!open) {
+                    setAssignedLinkSearchTerm('');
+                  }
+              }}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" disabled={!selectedUserIdForAdmin || isLoadingUsers || isRefreshing || isAssigning}>
+                    <ListChecks className="mr-2 h-5 w-5" /> View Assigned Links
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-lg">
+                  <DialogHeader>
+                    <DialogTitle>Assigned {platform.name} Links</DialogTitle>
+                    <DialogDescription>
+                      Manage links for {selectedUserName || 'the selected user'}.
+                      Deleting a link here will remove it from tracking and delete its data.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="my-4">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        type="search"
+                        placeholder="Search links..."
+                        value={assignedLinkSearchTerm}
+                        onChange={(e) => setAssignedLinkSearchTerm(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                  </div>
+                  <ScrollArea className="h-[300px] border rounded-md p-2">
+                    {isLoadingAssignedLinks ? (
+                      <div className="flex items-center justify-center h-full">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                      </div>
+                    ) : filteredAssignedLinks.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-4">
+                        {assignedLinksForDialog.length > 0 ? "No links match your search." : "No links assigned to this user."}
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {filteredAssignedLinks.map((link, index) => (
+                          <li key={index} className="flex items-center justify-between p-2 hover:bg-muted/50 rounded-md text-sm">
+                            <a href={link} target="_blank" rel="noopener noreferrer" className="truncate hover:underline" title={link}>
+                              {link.length > 50 ? `${link.substring(0,47)}...` : link}
+                            </a>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-destructive"
+                              onClick={() => handleDeleteAssignedLink(link)}
+                              disabled={deletingLinkId === link}
+                              aria-label={`Delete link ${link}`}
+                            >
+                              {deletingLinkId === link ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </ScrollArea>
+                  <DialogFooter>
+                    <DialogClose asChild>
+                      <Button type="button" variant="outline">Close</Button>
+                    </DialogClose>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </CardFooter>
+          </Card>
+        )}
+
+        <Card className="mb-6 shadow-md">
+          <CardHeader><CardTitle className="text-xl font-semibold">Filter & Sort {platform.name} {itemLabelPlural}</CardTitle></CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="date-from-platform">Publish Date From</Label>
+              <Popover>
+                <PopoverTrigger asChild><Button id="date-from-platform" variant="outline" className={`w-full justify-start text-left font-normal ${!dateRange.from && "text-muted-foreground"}`} disabled={isRefreshing}><CalendarIcon className="mr-2 h-4 w-4" />{dateRange.from ? format(dateRange.from, "PPP") : <span>Pick start</span>}</Button></PopoverTrigger>
+                <PopoverContent className="w-auto p-0"><Calendar mode="single" selected={dateRange.from} onSelect={(d) => setDateRange(prev => ({ ...prev, from: d }))} disabled={(d)=>(dateRange.to?d>dateRange.to:false)||d>new Date()||isRefreshing} initialFocus /></PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date-to-platform">Publish Date To</Label>
+              <Popover>
+                <PopoverTrigger asChild><Button id="date-to-platform" variant="outline" className={`w-full justify-start text-left font-normal ${!dateRange.to && "text-muted-foreground"}`} disabled={isRefreshing}><CalendarIcon className="mr-2 h-4 w-4" />{dateRange.to ? format(dateRange.to, "PPP") : <span>Pick end</span>}</Button></PopoverTrigger>
+                <PopoverContent className="w-auto p-0"><Calendar mode="single" selected={dateRange.to} onSelect={(d) => setDateRange(prev => ({ ...prev, to: d }))} disabled={(d)=>(dateRange.from?d<dateRange.from:false)||d>new Date()||isRefreshing} initialFocus /></PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sort-by-platform">Sort By</Label>
+              <div className="flex gap-2">
+                <Select value={sortConfig.key} onValueChange={(value) => setSortConfig(prev => ({ ...prev, key: value }))} disabled={isRefreshing}>
+                  <SelectTrigger id="sort-by-platform" className="flex-grow"><SelectValue placeholder="Sort field" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="publishedAt">Date</SelectItem>
+                    {platform.metrics.map(metric => <SelectItem key={metric.key} value={metric.key}>{metric.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={toggleSortOrder} title={`Sort ${sortConfig.order === 'asc'?'Desc':'Asc'}`} disabled={isRefreshing}><ArrowUpDown className="h-4 w-4" /></Button>
+              </div>
+            </div>
+          </CardContent>
+          <CardFooter><Button variant="outline" onClick={handleClearFilters} disabled={isRefreshing}><FilterX className="mr-2 h-4 w-4" /> Clear</Button></CardFooter>
+        </Card>
+
+        {(isLoadingItems && !isRefreshing) && (
+          <Card className="mb-6"><CardHeader><Skeleton className="h-6 w-2/5 mb-2" /><Skeleton className="h-4 w-1/3" /></CardHeader><CardContent className="grid grid-cols-2 md:grid-cols-5 gap-4"><Skeleton className="h-28 w-full" /><Skeleton className="h-28 w-full" /><Skeleton className="h-28 w-full" /><Skeleton className="h-28 w-full" /><Skeleton className="h-28 w-full" /></CardContent></Card>
+        )}
+
+        {(!isLoadingItems || isRefreshing) && currentTargetUserId && (
+          <Card className="mb-6 shadow-md">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-xl font-semibold">Performance Overview</CardTitle>
+                <CardDescription>Summary for {user?.role === 'admin' ? `${selectedUserName || 'selected user'}'s` : "your"} {itemsToDisplay.length} {platform.itemLabel}(s) {(dateRange.from||dateRange.to)?"(filtered)":""}.</CardDescription>
+              </div>
+              <div className="flex flex-col items-end">
+                <Button onClick={handleRefreshFeed} disabled={isRefreshing || isLoadingItems} variant="default" size="sm">
+                  <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin':''}`} />
+                  {isRefreshing ? 'Refreshing Feed...':'Refresh Feed'}
+                </Button>
+                {lastRefreshTimestamp && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Last refreshed: {format(parseISO(lastRefreshTimestamp), "MMM d, yyyy, h:mm a")}
+                  </p>
+                )}
+              </div>
+            </CardHeader>
+            {itemsToDisplay.length > 0 && (
+              <CardContent className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                <StatCard icon={ListFilter} label={`Total ${itemLabelPlural}`} value={itemsToDisplay.length} />
+                {metricTotals.map(metric => (
+                  <StatCard key={metric.key} icon={display.metricIcons[metric.key] || PlatformIcon} label={`Total ${metric.label}`} value={metric.total} />
+                ))}
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-2xl">
+                {user?.role === 'admin' ? (selectedUserIdForAdmin ? `${selectedUserName || 'Selected User'}'s ${platform.name} ${itemLabelPlural}` : `Select User to View ${itemLabelPlural}`) : `Your ${platform.name} ${itemLabelPlural}`}
+              </CardTitle>
+              <CardDescription>
+                {user?.role === 'admin' && !selectedUserIdForAdmin ? `Select a user above to see their tracked ${platform.name} ${itemLabelPlural}.`
+                  : isLoadingItems && !isRefreshing ? `Loading ${platform.itemLabel} information from storage...`
+                  : fetchError ? `Error: ${fetchError}`
+                  : itemsToDisplay.length > 0 ? `Displaying ${itemsToDisplay.length} of ${allFetchedItems.length} ${platform.itemLabel}(s). Sorted by ${sortLabel} (${sortConfig.order}).`
+                  : `No ${platform.name} ${itemLabelPlural} to display. Assign links or try "Refresh Feed".`
+                }
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleDownloadReportExcel} disabled={itemsToDisplay.length === 0 || isRefreshing || isLoadingItems}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" /> Export as Excel
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {(isLoadingItems && !isRefreshing) ? (<div className="flex justify-center items-center py-10"><Loader2 className="h-12 w-12 animate-spin text-primary" /></div>)
+            : itemsToDisplay.length > 0 ? (<div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">{itemsToDisplay.map((item) => (<PlatformItemCard key={item.id} platform={platform} item={item} />))}</div>)
+            : (<div className="text-center py-10 text-muted-foreground"><PlatformIcon className="h-16 w-16 mx-auto mb-4 opacity-50" />
+                {fetchError && !isLoadingItems && !isRefreshing && <p className="text-destructive mb-2">{fetchError}</p>}
+                <p>No {platform.name} {itemLabelPlural} to display. Try assigning links (admin) or use the "Refresh Feed" button above.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,7 +1,8 @@
 
-import { getRedirectLinkByShortId, type RedirectLink } from '@/lib/utmLinkService';
+import type { RedirectLink } from '@/lib/utmLinkService';
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
+import { ensureServerFirestoreAuth } from '@/lib/serverFirestoreAuth';
 import { collection, query, where, limit, getDocs } from 'firebase/firestore';
 
 const GA_MEASUREMENT_ID = "G-TSV3YRCHJD";
@@ -25,6 +26,23 @@ async function getMeasurementProtocolApiSecret(): Promise<string | null> {
   }
 }
 
+// Looks up a link by its short ID. Kept here rather than in utmLinkService, whose server actions require a
+// session, because this route is public.
+async function getRedirectLinkByShortId(shortId: string): Promise<RedirectLink | null> {
+  try {
+    const q = query(collection(db, 'redirectLinks'), where('shortId', '==', shortId), limit(1));
+    const querySnapshot = await getDocs(q);
+    if (querySnapshot.empty) {
+      return null;
+    }
+    const linkDoc = querySnapshot.docs[0];
+    return { id: linkDoc.id, ...linkDoc.data() } as RedirectLink;
+  } catch (error) {
+    console.error("[Redirect Service] Error fetching redirect link by short ID:", error);
+    return null;
+  }
+}
+
 async function sendAnalyticsEvent(linkData: RedirectLink, apiSecret: string) {
   const clientId = crypto.randomUUID();
   const sessionId = `${Math.floor(Date.now() / 1000)}`;
@@ -78,6 +96,7 @@ export async function GET(
   }
 
   try {
+    await ensureServerFirestoreAuth();
     const linkData = await getRedirectLinkByShortId(shortId);
 
     if (linkData && linkData.destinationUrl) {
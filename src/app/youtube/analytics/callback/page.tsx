@@ -0,0 +1,87 @@
+
+"use client";
+
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { completeYouTubeAnalyticsConnection } from '@/lib/youtubeAnalyticsService';
+import { AlertTriangle, Loader2, YoutubeIcon } from 'lucide-react';
+
+// Google redirects here after the consent screen, with either a code and state or an error.
+function YouTubeAnalyticsCallback() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [error, setError] = useState<string | null>(null);
+  const hasSubmitted = useRef(false); // The code can only be exchanged once
+
+  useEffect(() => {
+    if (!user || hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const consentError = searchParams.get('error');
+    if (consentError || !code || !state) {
+      setError(consentError === 'access_denied'
+        ? 'Access was not granted, so the channel was not connected.'
+        : 'Google did not return an authorization code. Please try connecting again.');
+      return;
+    }
+
+    completeYouTubeAnalyticsConnection(code, state)
+      .then(connection => {
+        toast({
+          title: "Channel Connected",
+          description: connection.error
+            ? `${connection.channelTitle} is connected, but the first sync failed: ${connection.error}`
+            : `YouTube Analytics for ${connection.channelTitle} is now synced daily.`,
+        });
+        router.replace('/youtube');
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [user, searchParams, router]);
+
+  return (
+    <Card className="max-w-xl mx-auto mt-8 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <YoutubeIcon className="h-7 w-7 text-red-600" />
+          <CardTitle className="text-2xl font-semibold">Connecting YouTube Channel</CardTitle>
+        </div>
+        <CardDescription>Your channel's YouTube Analytics will appear on the YouTube page.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {error}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Connecting the channel and running the first sync...
+          </div>
+        )}
+      </CardContent>
+      {error && (
+        <CardFooter>
+          <Button asChild variant="outline"><Link href="/youtube">Back to YouTube</Link></Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default function YouTubeAnalyticsCallbackPage() {
+  return (
+    <AppLayout>
+      <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin mx-auto mt-8 text-muted-foreground" />}>
+        <YouTubeAnalyticsCallback />
+      </Suspense>
+    </AppLayout>
+  );
+}
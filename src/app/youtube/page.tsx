@@ -4,6 +4,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import AppLayout from '@/components/layout/AppLayout';
 import YouTubeCard from '@/components/analytics/YouTubeCard';
+import TrackedYouTubeChannelsCard from '@/components/admin/TrackedYouTubeChannelsCard';
+import YouTubeAnalyticsSection from '@/components/analytics/YouTubeAnalyticsSection';
 import { type YouTubeVideo } from '@/lib/mockData';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,6 +13,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/hooks/useAuth';
+import { useRefreshJob } from '@/hooks/useRefreshJob';
 import type { User } from '@/lib/authService';
 import { getAllUsers as apiGetAllUsers } from '@/lib/authService';
 import { 
@@ -19,17 +22,17 @@ import {
   deleteYouTubeLinkForUser,
   updateYouTubeLastRefreshTimestamp
 } from '@/lib/youtubeLinkService';
-import { fetchYouTubeDetails } from '@/ai/flows/fetch-youtube-details-flow';
+import type { RefreshJob } from '@/lib/refreshJobService';
+import { extractYouTubeVideoId } from '@shared/platformUrls';
+import { getYouTubeVideoFormat, YOUTUBE_SHORTS_MAX_DURATION_SECONDS } from '@shared/youtubeVideoDetails';
 import { generateChannelAnalyticsReport, type ChannelAnalyticsReportOutput, type YouTubeVideoForReport } from '@/ai/flows/generate-channel-analytics-report-flow';
 import {
-  saveVideoAnalytics,
   getAllVideoAnalyticsForUser,
-  deleteVideoAnalytics,
   type StoredYouTubeVideo,
 } from '@/lib/youtubeVideoAnalyticsService';
 import { toast } from '@/hooks/use-toast';
 import {
-  BarChart3, UserPlus, LinkIcon, FileText, UploadCloud, Users, DownloadCloud, Loader2, YoutubeIcon, Eye, ThumbsUp, MessageSquare, ListVideo,
+  BarChart3, UserPlus, LinkIcon, FileText, UploadCloud, Users, DownloadCloud, Loader2, YoutubeIcon, Eye, ThumbsUp, MessageSquare, ListVideo, Smartphone, MonitorPlay,
   CalendarIcon, ArrowUpDown, XCircle, FilterX, RefreshCw, FileSpreadsheet, ListChecks, Trash2, Search
 } from 'lucide-react';
 import { Skeleton } from "@/components/ui/skeleton";
@@ -51,36 +54,25 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 
 
+interface FormatSummary {
+  totalVideos: number;
+  totalViews: number;
+  averageViews: number;
+}
+
 interface SummaryStats {
   totalVideos: number;
   totalViews: number;
   totalLikes: number;
   totalComments: number;
+  shorts: FormatSummary;
+  longForm: FormatSummary;
 }
 
-type SortableVideoKey = 'publishedAt' | 'views' | 'likes' | 'comments' | 'title';
+// 'unknown' videos were stored before durations were captured and are only shown under 'all'.
+type FormatFilter = 'all' | 'short' | 'long-form';
 
-const extractYouTubeVideoId = (url: string): string | null => {
-  if (!url) return null;
-  let videoId: string | null = null;
-  try {
-    const urlObj = new URL(url);
-    if (urlObj.hostname === 'youtu.be') {
-      videoId = urlObj.pathname.slice(1).split(/[?&]/)[0];
-    } else if (urlObj.hostname.includes('youtube.com')) {
-      if (urlObj.pathname.startsWith('/embed/')) {
-        videoId = urlObj.pathname.split('/embed/')[1].split(/[?&]/)[0];
-      } else if (urlObj.pathname.startsWith('/watch')) {
-        videoId = urlObj.searchParams.get('v');
-      } else if (urlObj.pathname.startsWith('/shorts/')) {
-        videoId = urlObj.pathname.split('/shorts/')[1].split(/[?&]/)[0];
-      }
-    }
-    if (videoId && videoId.includes('&')) videoId = videoId.split('&')[0];
-    if (videoId && videoId.includes('?')) videoId = videoId.split('?')[0];
-  } catch (e) { return null; }
-  return videoId;
-};
+type SortableVideoKey = 'publishedAt' | 'views' | 'likes' | 'comments' | 'title';
 
 export default function YouTubeManagementPage() {
   const { user } = useAuth();
@@ -94,17 +86,16 @@ export default function YouTubeManagementPage() {
   const [isLoadingUsers, setIsLoadingUsers] = useState(false);
   const [isAssigning, setIsAssigning] = useState(false);
 
-  const [allFetchedVideos, setAllFetchedVideos] = useState<Partial<YouTubeVideo>[]>([]);
-  const [videosToDisplay, setVideosToDisplay] = useState<Partial<YouTubeVideo>[]>([]);
+  const [allFetchedVideos, setAllFetchedVideos] = useState<StoredYouTubeVideo[]>([]);
+  const [videosToDisplay, setVideosToDisplay] = useState<StoredYouTubeVideo[]>([]);
   const [isLoadingVideos, setIsLoadingVideos] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [summaryStats, setSummaryStats] = useState<SummaryStats | null>(null);
 
   const [dateRange, setDateRange] = useState<{ from: Date | undefined; to: Date | undefined }>({ from: undefined, to: undefined });
   const [sortConfig, setSortConfig] = useState<{ key: SortableVideoKey; order: 'asc' | 'desc' }>({ key: 'publishedAt', order: 'desc' });
+  const [formatFilter, setFormatFilter] = useState<FormatFilter>('all');
 
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [refreshProgress, setRefreshProgress] = useState(0);
   const [lastRefreshTimestamp, setLastRefreshTimestamp] = useState<string | null>(null); 
 
   const [isGeneratingChannelReport, setIsGeneratingChannelReport] = useState(false);
@@ -173,23 +164,11 @@ export default function YouTubeManagementPage() {
       // 2. Get all stored analytics data
       const allStoredVideos = await getAllVideoAnalyticsForUser(userIdToFetch);
 
-      // 3. Filter displayed videos and identify stale data
+      // 3. Only display videos that are still assigned. Analytics of unassigned links are archived or
+      // deleted by the 'reconcileAnalytics' Cloud Function.
       const videosToDisplay = allStoredVideos.filter(video => video.id && validVideoIds.has(video.id));
-      const staleVideos = allStoredVideos.filter(video => video.id && !validVideoIds.has(video.id));
-
       setAllFetchedVideos(videosToDisplay);
 
-      // 4. (Async) Clean up stale videos from Firestore
-      if (staleVideos.length > 0) {
-        console.log(`Found ${staleVideos.length} stale YouTube videos to clean up.`);
-        const cleanupPromises = staleVideos.map(video => video.id ? deleteVideoAnalytics(userIdToFetch, video.id) : Promise.resolve());
-        await Promise.all(cleanupPromises).then(() => {
-          console.log("Stale video cleanup complete.");
-        }).catch(err => {
-          console.error("Error during stale video cleanup:", err);
-        });
-      }
-
     } catch (error: any) {
       console.error("Error loading videos from Firestore:", error);
       setFetchError("Could not load video data from storage. Please try refreshing.");
@@ -210,7 +189,9 @@ export default function YouTubeManagementPage() {
   }, [currentTargetUserId, loadInitialUserVideos]);
 
   useEffect(() => {
-    let processedVideos = [...allFetchedVideos];
+    let processedVideos = formatFilter === 'all'
+      ? [...allFetchedVideos]
+      : allFetchedVideos.filter(video => getYouTubeVideoFormat(video) === formatFilter);
     if (dateRange.from || dateRange.to) {
       processedVideos = processedVideos.filter(video => {
         if (!video.publishedAt) return false;
@@ -249,10 +230,16 @@ export default function YouTubeManagementPage() {
       });
     }
     setVideosToDisplay(processedVideos);
-  }, [allFetchedVideos, dateRange, sortConfig]);
+  }, [allFetchedVideos, dateRange, sortConfig, formatFilter]);
 
   useEffect(() => {
     if (videosToDisplay.length > 0) {
+      // Shorts and long-form are summarised separately, as their view counts are not comparable.
+      const summarizeFormat = (format: 'short' | 'long-form'): FormatSummary => {
+        const videos = videosToDisplay.filter(video => getYouTubeVideoFormat(video) === format);
+        const totalViews = videos.reduce((sum, video) => sum + (video.views || 0), 0);
+        return { totalVideos: videos.length, totalViews, averageViews: videos.length > 0 ? Math.round(totalViews / videos.length) : 0 };
+      };
       const newSummaryStats: SummaryStats = videosToDisplay.reduce(
         (acc, video) => {
           acc.totalViews += video.views || 0;
@@ -260,7 +247,10 @@ export default function YouTubeManagementPage() {
           acc.totalComments += video.comments || 0;
           return acc;
         },
-        { totalVideos: videosToDisplay.length, totalViews: 0, totalLikes: 0, totalComments: 0 }
+        {
+          totalVideos: videosToDisplay.length, totalViews: 0, totalLikes: 0, totalComments: 0,
+          shorts: summarizeFormat('short'), longForm: summarizeFormat('long-form'),
+        }
       );
       setSummaryStats(newSummaryStats);
     } else {
@@ -269,75 +259,50 @@ export default function YouTubeManagementPage() {
   }, [videosToDisplay]);
 
 
+  const handleRefreshJobFinished = useCallback((job: RefreshJob) => {
+    loadInitialUserVideos(job.userId);
+    if (job.status === 'failed') {
+      const errorMessage = job.error || "The refresh job failed on the server.";
+      setFetchError("Refresh failed: " + errorMessage);
+      toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
+      return;
+    }
+    if (job.finishedAt) {
+      setLastRefreshTimestamp(job.finishedAt);
+    }
+    toast({
+      title: "Feed Refreshed",
+      description: job.failedItems > 0
+        ? `Updated ${job.succeededItems} of ${job.totalItems} videos. ${job.failedItems} link(s) failed.`
+        : `Successfully updated ${job.succeededItems} videos.`,
+      variant: job.failedItems > 0 && job.succeededItems === 0 ? "destructive" : "default",
+    });
+  }, [loadInitialUserVideos]);
+
+  const { job: refreshJob, isRefreshing, progress: refreshProgress, startRefresh } = useRefreshJob(currentTargetUserId, 'youtube', handleRefreshJobFinished);
+
   const handleRefreshFeed = async () => {
     if (!currentTargetUserId) {
       toast({ title: "Cannot Refresh", description: "No user context to refresh videos for.", variant: "destructive" });
       return;
     }
 
-    setIsRefreshing(true);
-    setRefreshProgress(0);
     setFetchError(null);
 
     try {
-      const { links } = await getYouTubeLinksForUser(currentTargetUserId);
-      if (links.length === 0) {
-        setAllFetchedVideos([]); 
-        toast({ title: "No Links", description: "No YouTube links are assigned to this user.", variant: "default" });
-        setIsRefreshing(false);
-        return;
-      }
-      const videoIds = Array.from(new Set(links.map(extractYouTubeVideoId).filter(id => id !== null) as string[]));
-
-      if (videoIds.length === 0) {
+      const job = await startRefresh(user?.id);
+      if (!job) {
         setAllFetchedVideos([]);
-        toast({ title: "No Valid Video IDs", description: "Could not extract valid video IDs from assigned links.", variant: "default" });
-        setIsRefreshing(false);
+        toast({ title: "No Links", description: "No YouTube links or channels are assigned to this user.", variant: "default" });
         return;
       }
-
-      const apiResult = await fetchYouTubeDetails({ videoIds });
-      const fetchedVideosFromAPI = apiResult.videos;
-
-      if (!fetchedVideosFromAPI || fetchedVideosFromAPI.length === 0) {
-        toast({ title: "API Fetch Failed", description: "Could not fetch video details from YouTube.", variant: "destructive" });
-        setIsRefreshing(false);
-        return;
-      }
-      
-      const updatedVideosForState: Partial<YouTubeVideo>[] = [];
-      for (let i = 0; i < fetchedVideosFromAPI.length; i++) {
-        const videoData = fetchedVideosFromAPI[i];
-        if (videoData && videoData.id) {
-          await saveVideoAnalytics(currentTargetUserId, videoData);
-          updatedVideosForState.push(videoData);
-        }
-        setRefreshProgress(((i + 1) / fetchedVideosFromAPI.length) * 100);
-      }
-
-      setAllFetchedVideos(updatedVideosForState); 
-      
-      try {
-        const updateTimestampSuccess = await updateYouTubeLastRefreshTimestamp(currentTargetUserId);
-        if (updateTimestampSuccess) {
-            setLastRefreshTimestamp(new Date().toISOString());
-        } else {
-            console.warn("Failed to update last refresh timestamp in Firestore.");
-        }
-      } catch (timestampError) {
-          console.error("Error updating last refresh timestamp in Firestore:", timestampError);
-      }
-
-      toast({ title: "Feed Refreshed", description: `Successfully updated ${updatedVideosForState.length} videos.` });
-
+      toast({ title: "Refresh Started", description: `Updating ${job.totalItems} link(s) on the server. You can close this tab while it runs.` });
     } catch (error: any) {
       console.error("Error refreshing feed:", error);
       const errorMessage = error.message || "An unknown error occurred during refresh.";
       const fetchErrorMsg = "Refresh failed: " + errorMessage;
       setFetchError(fetchErrorMsg);
       toast({ title: "Refresh Error", description: errorMessage, variant: "destructive" });
-    } finally {
-      setIsRefreshing(false);
     }
   };
 
@@ -398,6 +363,9 @@ export default function YouTubeManagementPage() {
     if (result.success) {
       const targetUser = usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin);
       toast({ title: "Links Assigned", description: `Successfully assigned ${result.actuallyAddedCount} new unique link(s) to ${targetUser?.name || 'the user'}. Triggering feed refresh.` });
+      if (result.rejectedLinks.length > 0) {
+        toast({ title: "Some Links Skipped", description: `${result.rejectedLinks.length} link(s) were not valid YouTube video links. ${result.rejectedLinks[0].message}`, variant: "destructive" });
+      }
       setSingleLink(''); setCsvFile(null);
       const fileInput = document.getElementById('csv-upload') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
@@ -438,6 +406,7 @@ export default function YouTubeManagementPage() {
   const handleClearFilters = () => {
     setDateRange({ from: undefined, to: undefined });
     setSortConfig({ key: 'publishedAt', order: 'desc' });
+    setFormatFilter('all');
   };
 
   const StatCard: React.FC<{icon: React.ElementType, label: string, value: string | number}> = ({ icon: Icon, label, value }) => (
@@ -474,6 +443,9 @@ export default function YouTubeManagementPage() {
         const toDateStr = dateRange.to ? format(dateRange.to, 'MMM d, yyyy') : 'Any';
         filterContextString += `. Filtered by date: ${fromDateStr} - ${toDateStr}`;
       }
+      if (formatFilter !== 'all') {
+        filterContextString += `. Only ${formatFilter === 'short' ? 'Shorts' : 'long-form videos'}`;
+      }
       filterContextString += `. Sorted by ${sortConfig.key} (${sortConfig.order}).`;
 
       const reportOutput = await generateChannelAnalyticsReport({ videos: videosForReport, filterContext: filterContextString });
@@ -573,19 +545,9 @@ export default function YouTubeManagementPage() {
     const linkDeletionSuccess = await deleteYouTubeLinkForUser(selectedUserIdForAdmin, linkToDelete);
     
     if (linkDeletionSuccess) {
+      // The video's analytics are archived or deleted by the daily reconciliation, per the retention setting.
       toast({ title: "Link Deleted", description: `YouTube link "${linkToDelete.substring(0, 30)}..." removed.` });
       
-      if (videoIdToDelete) {
-        // Asynchronously delete the analytics data from Firestore.
-        deleteVideoAnalytics(selectedUserIdForAdmin, videoIdToDelete).then(analyticsDeleted => {
-          if (analyticsDeleted) {
-            toast({ title: "Analytics Data Removed", description: `Associated data for video ${videoIdToDelete} has been deleted.`});
-          } else {
-            toast({ title: "Cleanup Warning", description: `Failed to delete associated analytics data for video ${videoIdToDelete}. It may reappear on next refresh.`, variant: "destructive"});
-          }
-        });
-      }
-      
       await fetchAssignedLinksForDialog(); 
     } else {
       toast({ title: "Error", description: "Failed to delete YouTube link. Reverting UI change.", variant: "destructive" });
@@ -619,7 +581,10 @@ export default function YouTubeManagementPage() {
              {isRefreshing && (
               <div className="mt-4">
                 <Progress value={refreshProgress} className="w-full" />
-                <p className="text-sm text-muted-foreground mt-1 text-center">Updating video data: {Math.round(refreshProgress)}%</p>
+                <p className="text-sm text-muted-foreground mt-1 text-center">
+                  Updating video data on the server: {Math.round(refreshProgress)}%
+                  {refreshJob && ` (${refreshJob.processedItems}/${refreshJob.totalItems} links${refreshJob.failedItems > 0 ? `, ${refreshJob.failedItems} failed` : ''})`}
+                </p>
               </div>
             )}
           </CardHeader>
@@ -750,10 +715,34 @@ export default function YouTubeManagementPage() {
             </CardFooter>
           </Card>
         )}
+
+        {user?.role === 'admin' && selectedUserIdForAdmin && (
+          <TrackedYouTubeChannelsCard
+            userId={selectedUserIdForAdmin}
+            userName={usersForAdminSelect.find(u => u.id === selectedUserIdForAdmin)?.name}
+            disabled={isAssigning || isRefreshing}
+            onChannelTracked={handleRefreshFeed}
+          />
+        )}
+
+        {user && currentTargetUserId && (
+          <YouTubeAnalyticsSection
+            userId={currentTargetUserId}
+            currentUserId={user.id}
+            userName={usersForAdminSelect.find(u => u.id === currentTargetUserId)?.name}
+          />
+        )}
         
         <Card className="mb-6 shadow-md">
           <CardHeader> <CardTitle className="text-xl font-semibold">Filter & Sort Videos</CardTitle> </CardHeader>
-          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="format-filter">Format</Label>
+              <Select value={formatFilter} onValueChange={(value) => setFormatFilter(value as FormatFilter)} disabled={isRefreshing}>
+                <SelectTrigger id="format-filter"> <SelectValue placeholder="Select format" /> </SelectTrigger>
+                <SelectContent> <SelectItem value="all">All Videos</SelectItem> <SelectItem value="short">Shorts</SelectItem> <SelectItem value="long-form">Long-form</SelectItem> </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="date-from">Published Date From</Label>
               <Popover>
@@ -850,6 +839,16 @@ export default function YouTubeManagementPage() {
                 <StatCard icon={Eye} label="Total Views" value={summaryStats.totalViews} />
                 <StatCard icon={ThumbsUp} label="Total Likes" value={summaryStats.totalLikes} />
                 <StatCard icon={MessageSquare} label="Total Comments" value={summaryStats.totalComments} />
+                <StatCard icon={Smartphone} label="Shorts" value={summaryStats.shorts.totalVideos} />
+                <StatCard icon={Eye} label="Avg Views per Short" value={summaryStats.shorts.averageViews} />
+                <StatCard icon={MonitorPlay} label="Long-form Videos" value={summaryStats.longForm.totalVideos} />
+                <StatCard icon={Eye} label="Avg Views per Long-form" value={summaryStats.longForm.averageViews} />
+                {summaryStats.shorts.totalVideos + summaryStats.longForm.totalVideos < summaryStats.totalVideos && (
+                  <p className="col-span-full text-xs text-muted-foreground">
+                    {summaryStats.totalVideos - summaryStats.shorts.totalVideos - summaryStats.longForm.totalVideos} video(s) have no duration yet and are counted as neither; refresh the feed to fetch it.
+                    Videos up to {YOUTUBE_SHORTS_MAX_DURATION_SECONDS / 60} minutes long count as Shorts.
+                  </p>
+                )}
               </CardContent>
             )}
           </Card>
@@ -882,7 +881,7 @@ export default function YouTubeManagementPage() {
           </CardHeader>
           <CardContent>
             {(isLoadingVideos && !isRefreshing) ? ( <div className="flex justify-center items-center py-10"> <Loader2 className="h-12 w-12 animate-spin text-primary" /> </div> ) 
-            : videosToDisplay.length > 0 ? ( <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"> {videosToDisplay.map((video) => (<YouTubeCard key={video.id} video={video as YouTubeVideo} />))} </div> ) 
+            : videosToDisplay.length > 0 ? ( <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"> {videosToDisplay.map((video) => (<YouTubeCard key={video.id} video={video as YouTubeVideo} userId={currentTargetUserId || ''} />))} </div> ) 
             : ( <div className="text-center py-10 text-muted-foreground"> <YoutubeIcon className="h-16 w-16 mx-auto mb-4 opacity-50" />
                 {fetchError && !isLoadingVideos && !isRefreshing && <p className="text-destructive mb-2">{fetchError}</p>}
                 {user?.role === 'admin' && !selectedUserIdForAdmin ? <p>Select a user above to see their tracked YouTube videos.</p> : <p>No YouTube videos to display with current filters. Try the "Refresh Feed" button.</p> }
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, isValid, parseISO } from 'date-fns';
+import { Archive, Loader2, Play, Save, SearchCheck } from 'lucide-react';
+import {
+  getRecentReconciliationRuns,
+  getRetentionSettings,
+  runReconciliationNow,
+  saveRetentionSettings,
+  type OrphanAction,
+  type ReconciliationCounts,
+  type ReconciliationRun,
+} from '@/lib/reconciliationService';
+import { DEFAULT_RETENTION_SETTINGS, MAX_RETENTION_GRACE_DAYS } from '@shared/retention';
+
+const formatRunTime = (isoString?: string) => {
+  if (!isoString) return '—';
+  const date = parseISO(isoString);
+  return isValid(date) ? format(date, 'MMM d, yyyy HH:mm') : '—';
+};
+
+const sumCounts = (run: ReconciliationRun, key: keyof ReconciliationCounts) =>
+  Object.values(run.platforms).reduce((sum, counts) => sum + (counts?.[key] || 0), 0);
+
+const describeRun = (run: ReconciliationRun) => {
+  const verb = run.dryRun ? 'would be' : 'were';
+  return `${sumCounts(run, 'archived')} ${verb} archived, ${sumCounts(run, 'deleted')} ${verb} deleted, ` +
+    `${sumCounts(run, 'orphaned')} in the grace period, ${sumCounts(run, 'restored')} restored.`;
+};
+
+const AnalyticsReconciliationCard: React.FC = () => {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [action, setAction] = useState<OrphanAction>(DEFAULT_RETENTION_SETTINGS.action);
+  const [graceDays, setGraceDays] = useState(String(DEFAULT_RETENTION_SETTINGS.graceDays));
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [runningMode, setRunningMode] = useState<'dry-run' | 'run' | null>(null);
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    const [fetchedRuns, { settings, error }] = await Promise.all([getRecentReconciliationRuns(), getRetentionSettings()]);
+    setRuns(fetchedRuns);
+    if (error) {
+      toast({ title: "Invalid Retention Setting", description: `${error} The default setting is used until it is fixed.`, variant: "destructive" });
+    }
+    const current = settings || DEFAULT_RETENTION_SETTINGS;
+    setAction(current.action);
+    setGraceDays(String(current.graceDays));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSaveSettings = async () => {
+    setIsSaving(true);
+    const result = await saveRetentionSettings({ action, graceDays: Number(graceDays) });
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: "Retention Setting Saved", description: "The next reconciliation uses the new setting." });
+    } else {
+      toast({ title: "Setting Not Saved", description: result.error || "Could not save the retention setting.", variant: "destructive" });
+    }
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    setRunningMode(dryRun ? 'dry-run' : 'run');
+    try {
+      const run = await runReconciliationNow(dryRun);
+      toast({ title: dryRun ? "Dry Run Finished" : "Reconciliation Finished", description: describeRun(run) });
+      await loadData();
+    } catch (error: any) {
+      toast({ title: "Reconciliation Failed", description: error.message || "Could not run the reconciliation.", variant: "destructive" });
+    }
+    setRunningMode(null);
+  };
+
+  const isBusy = isLoading || isSaving || runningMode !== null;
+
+  return (
+    <Card className="mb-8 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Archive className="h-6 w-6 text-accent" />
+          <CardTitle className="text-2xl font-semibold">Orphaned Analytics</CardTitle>
+        </div>
+        <CardDescription>
+          Every day, analytics whose link is no longer assigned (or whose user was removed) are marked as orphaned.
+          After the grace period they are archived or deleted together with their daily history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="w-full md:w-56">
+            <Label htmlFor="retention-action" className="mb-2 block">After the grace period</Label>
+            <Select value={action} onValueChange={(value) => setAction(value as OrphanAction)} disabled={isBusy}>
+              <SelectTrigger id="retention-action"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="archive">Archive</SelectItem>
+                <SelectItem value="delete">Delete</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-full md:w-40">
+            <Label htmlFor="retention-grace" className="mb-2 block">Grace period (days)</Label>
+            <Input id="retention-grace" type="number" min={0} max={MAX_RETENTION_GRACE_DAYS} value={graceDays} onChange={(e) => setGraceDays(e.target.value)} disabled={isBusy} />
+          </div>
+          <Button onClick={handleSaveSettings} disabled={isBusy}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Setting
+          </Button>
+          <Button variant="outline" onClick={() => handleRun(true)} disabled={isBusy}>
+            {runningMode === 'dry-run' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />}
+            Dry Run
+          </Button>
+          <Button variant="outline" onClick={() => handleRun(false)} disabled={isBusy}>
+            {runningMode === 'run' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Run Now
+          </Button>
+        </div>
+
+        {isLoading && runs.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading reconciliation runs...</div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reconciliation has run yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Run</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Scanned</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="font-medium">{formatRunTime(run.startedAt)}</TableCell>
+                  <TableCell>
+                    {run.trigger === 'scheduled' ? 'Scheduled' : 'Manual'}{run.dryRun ? ' (dry run)' : ''}
+                    <span className="block text-xs text-muted-foreground">
+                      {run.settings.action === 'archive' ? 'Archive' : 'Delete'} after {run.settings.graceDays} day(s)
+                    </span>
+                  </TableCell>
+                  <TableCell><Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'running' ? 'secondary' : 'default'}>{run.status}</Badge></TableCell>
+                  <TableCell className="text-right">{sumCounts(run, 'scanned')}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {describeRun(run)}
+                    {run.failedUsers?.length > 0 && <span className="block text-destructive">Skipped {run.failedUsers.length} user(s) whose links could not be read.</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalyticsReconciliationCard;
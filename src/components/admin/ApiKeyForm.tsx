@@ -13,6 +13,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertTriangle } from 'lucide-react';
+import { PLATFORM_MODULES } from '@shared/platforms';
 
 const apiKeyFormSchema = z.object({
   serviceName: z.string().min(2, "Service name must be at least 2 characters."),
@@ -94,7 +95,8 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ isOpen, onOpenChange, onSubmitA
                     <Input placeholder="e.g., youtube, google-analytics-mp" {...field} />
                   </FormControl>
                   <FormDescription>
-                    Use 'google-analytics-mp' for the Measurement Protocol API Secret.
+                    Use 'google-analytics-mp' for the Measurement Protocol API Secret. For Instagram, use 'instagram-provider' with {`{"provider": "rapidapi" | "graph-api" | "fixture"}`}, and 'instagram-graph-api' with {`{"accessToken": "...", "businessAccountId": "..."}`} for the Graph API. Use 'youtube-comments' with {`{"maxCommentsPerVideo": 1000}`} to cap the stored comments per video. Login codes are emailed through 'mail-transport', e.g. {`{"transport": "smtp", "from": "Brand Dikhega <login@example.com>", "host": "smtp.example.com", "port": 587, "user": "...", "password": "..."}`}, or {`{"transport": "file" | "console"}`} in the emulator.
+                    {PLATFORM_MODULES.map(platformModule => ` For ${platformModule.name}, use '${platformModule.providerServiceNames.provider}' with "${platformModule.providerNames.join('" | "')}" and '${platformModule.providerServiceNames.apiKey}' for the API key.`).join('')}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
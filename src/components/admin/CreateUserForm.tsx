@@ -5,7 +5,7 @@ import React, { useEffect } from 'react';
 import { useForm, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import type { User } from '@/lib/authService';
+import type { User, UserAccountInput } from '@/lib/authService';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -18,7 +18,7 @@ const userFormSchemaBase = z.object({
   role: z.enum(['user', 'admin']),
 });
 
-// Schema for creating a new user, password is required and will be stored in Firestore
+// Schema for creating a new user, password is required and is stored as a salted hash
 const createUserSchema = userFormSchemaBase.extend({
   password: z.string().min(6, "Password must be at least 6 characters."),
 });
@@ -33,7 +33,7 @@ type UserFormValues = z.infer<typeof createUserSchema> | z.infer<typeof editUser
 interface CreateUserFormProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmitUser: (data: Omit<User, 'id' | 'lastLogin'>, currentUserId?: string) => void;
+  onSubmitUser: (data: UserAccountInput, currentUserId?: string) => void;
   initialData?: User | null;
 }
 
@@ -90,7 +90,7 @@ const CreateUserForm: React.FC<CreateUserFormProps> = ({ isOpen, onOpenChange, o
         }
     }
 
-    onSubmitUser(userDataToSubmit as Omit<User, 'id' | 'lastLogin'>, initialData?.id);
+    onSubmitUser(userDataToSubmit as UserAccountInput, initialData?.id);
     onOpenChange(false);
   };
 
@@ -102,7 +102,7 @@ const CreateUserForm: React.FC<CreateUserFormProps> = ({ isOpen, onOpenChange, o
           <DialogDescription>
             {isEditing
               ? "Update the user's profile details below. Email cannot be changed here."
-              : "Fill in the details to create a new user profile. The password will be stored for login."
+              : "Fill in the details to create a new user profile. The password is stored as a salted hash and cannot be viewed later."
             }
           </DialogDescription>
         </DialogHeader>
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2, PlusCircle, RotateCcw, Save, Trash2 } from 'lucide-react';
+import {
+  getUserRefreshPolicy,
+  getWorkspaceRefreshPolicy,
+  saveUserRefreshPolicy,
+  saveWorkspaceRefreshPolicy,
+  type RefreshPolicy,
+} from '@/lib/refreshPolicyService';
+import { DEFAULT_REFRESH_POLICY, MAX_REFRESH_INTERVAL_HOURS, MIN_REFRESH_INTERVAL_HOURS } from '@shared/refreshPolicy';
+
+interface RefreshPolicyCardProps {
+  users: { id: string; name: string }[];
+}
+
+const WORKSPACE_SCOPE = 'workspace';
+
+// Form state keeps the raw input strings so fields can be cleared while typing.
+interface PolicyFormState {
+  tiers: { maxAgeHours: string; intervalHours: string }[];
+  defaultIntervalHours: string;
+}
+
+const toFormState = (policy: RefreshPolicy): PolicyFormState => ({
+  tiers: policy.tiers.map(tier => ({ maxAgeHours: String(tier.maxAgeHours), intervalHours: String(tier.intervalHours) })),
+  defaultIntervalHours: String(policy.defaultIntervalHours),
+});
+
+const toPolicy = (form: PolicyFormState): RefreshPolicy => ({
+  tiers: form.tiers.map(tier => ({ maxAgeHours: Number(tier.maxAgeHours), intervalHours: Number(tier.intervalHours) })),
+  defaultIntervalHours: Number(form.defaultIntervalHours),
+});
+
+const RefreshPolicyCard: React.FC<RefreshPolicyCardProps> = ({ users }) => {
+  const [scope, setScope] = useState(WORKSPACE_SCOPE);
+  const [form, setForm] = useState<PolicyFormState>(toFormState(DEFAULT_REFRESH_POLICY));
+  const [hasUserPolicy, setHasUserPolicy] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPolicy = useCallback(async () => {
+    setIsLoading(true);
+    const workspace = await getWorkspaceRefreshPolicy();
+    if (workspace.error) {
+      toast({ title: "Invalid Workspace Policy", description: `${workspace.error} The default policy is used until it is fixed.`, variant: "destructive" });
+    }
+    const workspacePolicy = workspace.policy || DEFAULT_REFRESH_POLICY;
+    if (scope === WORKSPACE_SCOPE) {
+      setHasUserPolicy(false);
+      setForm(toFormState(workspacePolicy));
+    } else {
+      const userPolicy = await getUserRefreshPolicy(scope);
+      setHasUserPolicy(!!userPolicy);
+      setForm(toFormState(userPolicy || workspacePolicy));
+    }
+    setIsLoading(false);
+  }, [scope]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const updateTier = (index: number, field: 'maxAgeHours' | 'intervalHours', value: string) => {
+    setForm(prev => ({ ...prev, tiers: prev.tiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const policy = toPolicy(form);
+    const result = scope === WORKSPACE_SCOPE
+      ? await saveWorkspaceRefreshPolicy(policy)
+      : await saveUserRefreshPolicy(scope, policy);
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: "Policy Not Saved", description: result.error || "Could not save the refresh policy.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Refresh Policy Saved", description: "The next scheduled refresh uses the new schedule." });
+    await loadPolicy();
+  };
+
+  const handleUseWorkspacePolicy = async () => {
+    setIsSaving(true);
+    const result = await saveUserRefreshPolicy(scope, null);
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: "Error", description: result.error || "Could not remove the user's refresh policy.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Workspace Policy Applied", description: "This user's links now follow the workspace refresh policy." });
+    await loadPolicy();
+  };
+
+  const isBusy = isLoading || isSaving;
+
+  return (
+    <Card className="mb-8 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CalendarClock className="h-6 w-6 text-accent" />
+          <CardTitle className="text-2xl font-semibold">Refresh Schedule</CardTitle>
+        </div>
+        <CardDescription>
+          The scheduled refresh runs every hour and only refreshes posts that are due. Young posts use the first tier they fit in;
+          posts older than every tier, or without a publish date, use the default interval. Failed posts are always retried.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="md:w-1/2">
+          <Label htmlFor="policy-scope" className="mb-2 block">Applies to</Label>
+          <Select value={scope} onValueChange={setScope} disabled={isBusy}>
+            <SelectTrigger id="policy-scope"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WORKSPACE_SCOPE}>Workspace default</SelectItem>
+              {users.map(u => <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {scope !== WORKSPACE_SCOPE && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {hasUserPolicy ? 'This user has their own schedule.' : 'This user follows the workspace schedule. Saving creates their own schedule.'}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading refresh policy...</div>
+        ) : (
+          <div className="space-y-3">
+            {form.tiers.map((tier, index) => (
+              <div key={index} className="flex flex-wrap items-end gap-3">
+                <div className="w-40">
+                  <Label htmlFor={`tier-age-${index}`} className="mb-1 block text-xs">Posts up to (hours old)</Label>
+                  <Input id={`tier-age-${index}`} type="number" min={1} value={tier.maxAgeHours} onChange={(e) => updateTier(index, 'maxAgeHours', e.target.value)} disabled={isBusy} />
+                </div>
+                <div className="w-40">
+                  <Label htmlFor={`tier-interval-${index}`} className="mb-1 block text-xs">Refresh every (hours)</Label>
+                  <Input id={`tier-interval-${index}`} type="number" min={MIN_REFRESH_INTERVAL_HOURS} max={MAX_REFRESH_INTERVAL_HOURS} value={tier.intervalHours} onChange={(e) => updateTier(index, 'intervalHours', e.target.value)} disabled={isBusy} />
+                </div>
+                <Button variant="ghost" size="icon" className="text-destructive" onClick={() => setForm(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))} disabled={isBusy} aria-label="Remove tier">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setForm(prev => ({ ...prev, tiers: [...prev.tiers, { maxAgeHours: '', intervalHours: '' }] }))} disabled={isBusy}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Tier
+            </Button>
+            <div className="w-40">
+              <Label htmlFor="default-interval" className="mb-1 block text-xs">Older posts every (hours)</Label>
+              <Input id="default-interval" type="number" min={MIN_REFRESH_INTERVAL_HOURS} max={MAX_REFRESH_INTERVAL_HOURS} value={form.defaultIntervalHours} onChange={(e) => setForm(prev => ({ ...prev, defaultIntervalHours: e.target.value }))} disabled={isBusy} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} disabled={isBusy}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Schedule
+          </Button>
+          <Button variant="outline" onClick={() => setForm(toFormState(DEFAULT_REFRESH_POLICY))} disabled={isBusy}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Reset to Defaults
+          </Button>
+          {scope !== WORKSPACE_SCOPE && hasUserPolicy && (
+            <Button variant="outline" onClick={handleUseWorkspacePolicy} disabled={isBusy}>
+              Use Workspace Schedule
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RefreshPolicyCard;
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { getRefreshRunUsers, type RefreshRun } from '@/lib/refreshRunService';
+import type { UserRefreshSummary } from '@/lib/refreshJobService';
+import { PLATFORM_MODULES } from '@shared/platforms';
+
+interface RefreshRunDetailsDialogProps {
+  run: RefreshRun | null;
+  userNames: Record<string, string>;
+  isRetrying: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRetryFailed: (run: RefreshRun) => void;
+}
+
+const PLATFORM_LABELS: Record<string, string> = {
+  youtube: 'YouTube',
+  instagram: 'Instagram',
+  ...Object.fromEntries(PLATFORM_MODULES.map(platformModule => [platformModule.id, platformModule.name])),
+};
+
+const RefreshRunDetailsDialog: React.FC<RefreshRunDetailsDialogProps> = ({ run, userNames, isRetrying, onOpenChange, onRetryFailed }) => {
+  const [users, setUsers] = useState<UserRefreshSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!run) {
+      setUsers([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getRefreshRunUsers(run.id).then(summaries => {
+      if (cancelled) return;
+      setUsers(summaries);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [run]);
+
+  const failures = users.flatMap(summary => summary.platforms.flatMap(platform =>
+    platform.failures.map(failure => ({ userId: summary.userId, platform: platform.platform, ...failure }))
+  ));
+
+  return (
+    <Dialog open={!!run} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Refresh Run Details</DialogTitle>
+          <DialogDescription>
+            {run ? `Run ${run.id}${run.retryOf ? ` (retry of ${run.retryOf})` : ''}${run.error ? ` · ${run.error}` : ''}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading user results...</div>
+        ) : users.length === 0 ? (
+          <p className="py-6 text-sm text-muted-foreground">No users were recorded for this run.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Platform</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(summary => summary.platforms.length === 0 ? (
+                  <TableRow key={summary.userId}>
+                    <TableCell className="font-medium">{userNames[summary.userId] || summary.userId}</TableCell>
+                    <TableCell colSpan={4} />
+                    <TableCell className="text-destructive">{summary.error || 'Nothing to refresh.'}</TableCell>
+                  </TableRow>
+                ) : summary.platforms.map(platform => (
+                  <TableRow key={`${summary.userId}-${platform.platform}`}>
+                    <TableCell className="font-medium">{userNames[summary.userId] || summary.userId}</TableCell>
+                    <TableCell>{PLATFORM_LABELS[platform.platform] || platform.platform}</TableCell>
+                    <TableCell className="text-right">{platform.succeeded}</TableCell>
+                    <TableCell className="text-right">{platform.failed}</TableCell>
+                    <TableCell className="text-right">{platform.skipped ?? 0}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {platform.status === 'skipped'
+                        ? <Badge variant="secondary">Skipped: {platform.skippedReason}</Badge>
+                        : summary.error || (platform.notDue ? `${platform.notDue} link(s) not due yet` : null)}
+                    </TableCell>
+                  </TableRow>
+                )))}
+              </TableBody>
+            </Table>
+
+            {failures.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h3 className="text-sm font-semibold">Failed Items ({failures.length})</h3>
+                <ul className="divide-y rounded-md border text-xs">
+                  {failures.map((failure, index) => (
+                    <li key={`${failure.userId}-${failure.link}-${index}`} className="p-2">
+                      <a href={failure.link} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline break-all">{failure.link}</a>
+                      <p className="text-muted-foreground">
+                        {userNames[failure.userId] || failure.userId} · {PLATFORM_LABELS[failure.platform] || failure.platform} · {failure.error}
+                        {failure.errorKind ? ` (${failure.errorKind})` : ''}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => run && onRetryFailed(run)} disabled={!run || isRetrying || isLoading || failures.length === 0 || run.status === 'running'}>
+            {isRetrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            Retry Failed Items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefreshRunDetailsDialog;
@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from '@/hooks/use-toast';
+import { format, isValid, parseISO } from 'date-fns';
+import { AtSign, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import {
+  getTrackedInstagramProfiles,
+  trackInstagramProfileForUser,
+  untrackInstagramProfileForUser,
+  type InstagramMediaType,
+  type TrackedInstagramProfileEntry,
+} from '@/lib/instagramProfileService';
+import { DEFAULT_PROFILE_BACKFILL_DAYS, DEFAULT_TRACKED_MEDIA_TYPES, MAX_PROFILE_BACKFILL_DAYS } from '@shared/instagram';
+
+interface TrackedInstagramProfilesCardProps {
+  userId: string;
+  userName?: string;
+  disabled?: boolean;
+  onProfileTracked: () => void; // Called after a profile is added, e.g. to start a refresh that picks up its posts
+}
+
+const MEDIA_TYPE_LABELS: Record<InstagramMediaType, string> = {
+  reel: 'Reels',
+  video: 'Videos',
+  image: 'Photos',
+  carousel: 'Carousels',
+};
+
+const formatSyncDate = (isoString?: string) => {
+  if (!isoString) return 'Not synced yet';
+  const date = parseISO(isoString);
+  return isValid(date) ? `Synced ${format(date, 'MMM d, yyyy HH:mm')}` : 'Not synced yet';
+};
+
+const TrackedInstagramProfilesCard: React.FC<TrackedInstagramProfilesCardProps> = ({ userId, userName, disabled, onProfileTracked }) => {
+  const [profiles, setProfiles] = useState<TrackedInstagramProfileEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [profileInput, setProfileInput] = useState('');
+  const [mediaTypes, setMediaTypes] = useState<InstagramMediaType[]>(DEFAULT_TRACKED_MEDIA_TYPES);
+  const [backfillDays, setBackfillDays] = useState(String(DEFAULT_PROFILE_BACKFILL_DAYS));
+  const [isTracking, setIsTracking] = useState(false);
+  const [removingKey, setRemovingKey] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    if (!userId) {
+      setProfiles([]);
+      return;
+    }
+    setIsLoading(true);
+    setProfiles(await getTrackedInstagramProfiles(userId));
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const toggleMediaType = (mediaType: InstagramMediaType, checked: boolean) => {
+    setMediaTypes(prev => checked ? [...prev, mediaType] : prev.filter(type => type !== mediaType));
+  };
+
+  const handleTrackProfile = async () => {
+    setIsTracking(true);
+    const result = await trackInstagramProfileForUser(userId, profileInput, { mediaTypes, backfillDays: Number(backfillDays) });
+    setIsTracking(false);
+    if (!result.success || !result.profile) {
+      toast({ title: "Profile Not Added", description: result.error || "Could not track the profile.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Profile Tracked", description: `@${result.profile.username} is now tracked for ${userName || 'the user'}. Posts from the last ${result.profile.backfillDays} day(s) will be added on refresh.` });
+    setProfileInput('');
+    await loadProfiles();
+    onProfileTracked();
+  };
+
+  const handleRemoveProfile = async (key: string) => {
+    setRemovingKey(key);
+    const success = await untrackInstagramProfileForUser(userId, key);
+    setRemovingKey(null);
+    if (success) {
+      toast({ title: "Profile Removed", description: "New posts will no longer be added. Posts already added stay assigned." });
+      await loadProfiles();
+    } else {
+      toast({ title: "Error", description: "Failed to remove the tracked profile.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mb-8 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <AtSign className="h-6 w-6 text-accent" />
+          <CardTitle className="text-2xl font-semibold">Tracked Profiles</CardTitle>
+        </div>
+        <CardDescription>
+          New posts of tracked profiles are added to {userName ? `${userName}'s` : "the user's"} Reel links automatically on every refresh.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1 md:max-w-md">
+            <Label htmlFor="profile-input" className="mb-2 block">Profile URL or @username</Label>
+            <Input id="profile-input" placeholder="@example" value={profileInput} onChange={(e) => setProfileInput(e.target.value)} disabled={disabled || isTracking} />
+          </div>
+          <div className="w-full md:w-40">
+            <Label htmlFor="profile-backfill" className="mb-2 block">Backfill (days)</Label>
+            <Input id="profile-backfill" type="number" min={1} max={MAX_PROFILE_BACKFILL_DAYS} value={backfillDays} onChange={(e) => setBackfillDays(e.target.value)} disabled={disabled || isTracking} />
+          </div>
+          <Button onClick={handleTrackProfile} disabled={disabled || isTracking || !profileInput.trim() || mediaTypes.length === 0}>
+            {isTracking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+            Track Profile
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm font-medium">Track:</span>
+          {(Object.keys(MEDIA_TYPE_LABELS) as InstagramMediaType[]).map(mediaType => (
+            <div key={mediaType} className="flex items-center gap-2">
+              <Checkbox
+                id={`media-type-${mediaType}`}
+                checked={mediaTypes.includes(mediaType)}
+                onCheckedChange={(checked) => toggleMediaType(mediaType, checked === true)}
+                disabled={disabled || isTracking}
+              />
+              <Label htmlFor={`media-type-${mediaType}`} className="text-sm font-normal">{MEDIA_TYPE_LABELS[mediaType]}</Label>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading tracked profiles...</div>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No profiles tracked for this user.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {profiles.map(({ key, profile }) => (
+              <li key={key} className="flex items-center justify-between gap-4 p-3 text-sm">
+                <div className="min-w-0">
+                  <a href={`https://www.instagram.com/${profile?.username || key}/`} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline truncate block">
+                    @{profile?.username || key}
+                  </a>
+                  <p className="text-xs text-muted-foreground">
+                    {profile
+                      ? `${profile.mediaTypes.map(type => MEDIA_TYPE_LABELS[type]).join(', ')} · last ${profile.backfillDays} day(s) · ${formatSyncDate(profile.lastSyncedAt)}`
+                      : `Default options (${DEFAULT_TRACKED_MEDIA_TYPES.map(type => MEDIA_TYPE_LABELS[type]).join(', ')}, last ${DEFAULT_PROFILE_BACKFILL_DAYS} days) are applied on the next refresh.`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleRemoveProfile(key)} disabled={disabled || removingKey === key} aria-label={`Stop tracking ${profile?.username || key}`}>
+                  {removingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrackedInstagramProfilesCard;
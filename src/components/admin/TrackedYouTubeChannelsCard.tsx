@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { format, isValid, parseISO } from 'date-fns';
+import { Loader2, PlusCircle, Trash2, Tv } from 'lucide-react';
+import {
+  getTrackedYouTubeChannels,
+  trackYouTubeChannelForUser,
+  untrackYouTubeChannelForUser,
+  type TrackedYouTubeChannelEntry,
+} from '@/lib/youtubeChannelService';
+import { DEFAULT_CHANNEL_LOOKBACK_DAYS, MAX_CHANNEL_LOOKBACK_DAYS } from '@shared/youtubeChannels';
+
+interface TrackedYouTubeChannelsCardProps {
+  userId: string;
+  userName?: string;
+  disabled?: boolean;
+  onChannelTracked: () => void; // Called after a channel is added, e.g. to start a refresh that picks up its uploads
+}
+
+const formatSyncDate = (isoString?: string) => {
+  if (!isoString) return 'Not synced yet';
+  const date = parseISO(isoString);
+  return isValid(date) ? `Synced ${format(date, 'MMM d, yyyy HH:mm')}` : 'Not synced yet';
+};
+
+const TrackedYouTubeChannelsCard: React.FC<TrackedYouTubeChannelsCardProps> = ({ userId, userName, disabled, onChannelTracked }) => {
+  const [channels, setChannels] = useState<TrackedYouTubeChannelEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [channelInput, setChannelInput] = useState('');
+  const [lookbackDays, setLookbackDays] = useState(String(DEFAULT_CHANNEL_LOOKBACK_DAYS));
+  const [isTracking, setIsTracking] = useState(false);
+  const [removingKey, setRemovingKey] = useState<string | null>(null);
+
+  const loadChannels = useCallback(async () => {
+    if (!userId) {
+      setChannels([]);
+      return;
+    }
+    setIsLoading(true);
+    setChannels(await getTrackedYouTubeChannels(userId));
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadChannels();
+  }, [loadChannels]);
+
+  const handleTrackChannel = async () => {
+    setIsTracking(true);
+    const result = await trackYouTubeChannelForUser(userId, channelInput, Number(lookbackDays));
+    setIsTracking(false);
+    if (!result.success || !result.channel) {
+      toast({ title: "Channel Not Added", description: result.error || "Could not track the channel.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Channel Tracked", description: `${result.channel.title} is now tracked for ${userName || 'the user'}. Uploads from the last ${result.channel.lookbackDays} day(s) will be added on refresh.` });
+    setChannelInput('');
+    await loadChannels();
+    onChannelTracked();
+  };
+
+  const handleRemoveChannel = async (key: string) => {
+    setRemovingKey(key);
+    const success = await untrackYouTubeChannelForUser(userId, key);
+    setRemovingKey(null);
+    if (success) {
+      toast({ title: "Channel Removed", description: "New uploads will no longer be added. Videos already added stay assigned." });
+      await loadChannels();
+    } else {
+      toast({ title: "Error", description: "Failed to remove the tracked channel.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mb-8 shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Tv className="h-6 w-6 text-accent" />
+          <CardTitle className="text-2xl font-semibold">Tracked Channels</CardTitle>
+        </div>
+        <CardDescription>
+          New uploads of tracked channels are added to {userName ? `${userName}'s` : "the user's"} links automatically on every refresh.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1 md:max-w-md">
+            <Label htmlFor="channel-input" className="mb-2 block">Channel URL, ID or @handle</Label>
+            <Input id="channel-input" placeholder="https://www.youtube.com/@example" value={channelInput} onChange={(e) => setChannelInput(e.target.value)} disabled={disabled || isTracking} />
+          </div>
+          <div className="w-full md:w-40">
+            <Label htmlFor="channel-lookback" className="mb-2 block">Look-back (days)</Label>
+            <Input id="channel-lookback" type="number" min={1} max={MAX_CHANNEL_LOOKBACK_DAYS} value={lookbackDays} onChange={(e) => setLookbackDays(e.target.value)} disabled={disabled || isTracking} />
+          </div>
+          <Button onClick={handleTrackChannel} disabled={disabled || isTracking || !channelInput.trim()}>
+            {isTracking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+            Track Channel
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading tracked channels...</div>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No channels tracked for this user.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {channels.map(({ key, channel }) => (
+              <li key={key} className="flex items-center justify-between gap-4 p-3 text-sm">
+                <div className="min-w-0">
+                  <a href={`https://www.youtube.com/channel/${channel?.channelId || key}`} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline truncate block">
+                    {channel?.title || key}
+                  </a>
+                  <p className="text-xs text-muted-foreground">
+                    {channel ? `Last ${channel.lookbackDays} day(s) · ${formatSyncDate(channel.lastSyncedAt)}` : 'Details are resolved on the next refresh.'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleRemoveChannel(key)} disabled={disabled || removingKey === key} aria-label={`Stop tracking ${channel?.title || key}`}>
+                  {removingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrackedYouTubeChannelsCard;
@@ -10,7 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, MessageSquare, Send, UserCircle, Bot, AlertTriangle, Info } from 'lucide-react';
-import { generalQuery, type GeneralQueryInput, type YouTubeVideoData, type InstagramPostData } from '@/ai/flows/general-query-flow.ts';
+import { generalQuery, type GeneralQueryInput, type YouTubeVideoData, type InstagramPostData, type PlatformContextData } from '@/ai/flows/general-query-flow.ts';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { checkAndIncrementChatUsage, type CheckChatUsageInput } from '@/ai/flows/check-chat-usage-flow';
@@ -18,6 +18,8 @@ import { getChatUsageStatus, type GetChatUsageStatusInput } from '@/ai/flows/get
 
 import { getAllVideoAnalyticsForUser, type StoredYouTubeVideo } from '@/lib/youtubeVideoAnalyticsService';
 import { getAllInstagramPostAnalyticsForUser, type StoredInstagramPost } from '@/lib/instagramPostAnalyticsService';
+import { getAllPlatformItemsForUser } from '@/lib/platformAnalyticsService';
+import { PLATFORM_MODULES, type PlatformId, type StoredPlatformItem } from '@shared/platforms';
 
 const formSchema = z.object({
   userQuery: z.string().min(3, "Query must be at least 3 characters long."),
@@ -55,6 +57,7 @@ const ContentSuggestionForm = () => {
 
   const [userYouTubeData, setUserYouTubeData] = useState<StoredYouTubeVideo[]>([]);
   const [userInstagramData, setUserInstagramData] = useState<StoredInstagramPost[]>([]);
+  const [userPlatformData, setUserPlatformData] = useState<Partial<Record<PlatformId, StoredPlatformItem[]>>>({});
   const [isContextLoading, setIsContextLoading] = useState(false);
   const [contextError, setContextError] = useState<string | null>(null);
 
@@ -108,6 +111,7 @@ const ContentSuggestionForm = () => {
       if (!user?.id) {
         setUserYouTubeData([]);
         setUserInstagramData([]);
+        setUserPlatformData({});
         setIsContextLoading(false);
         return;
       }
@@ -134,7 +138,19 @@ const ContentSuggestionForm = () => {
         igFetchFailed = true;
       }
 
-      if (ytFetchFailed || igFetchFailed) {
+      let platformFetchFailed = false;
+      const platformData: Partial<Record<PlatformId, StoredPlatformItem[]>> = {};
+      for (const platformModule of PLATFORM_MODULES) {
+        try {
+          platformData[platformModule.id] = await getAllPlatformItemsForUser(platformModule.id, user.id);
+        } catch (err) {
+          console.error(`Error fetching ${platformModule.name} context data for AI chat:`, err);
+          platformFetchFailed = true;
+        }
+      }
+      setUserPlatformData(platformData);
+
+      if (ytFetchFailed || igFetchFailed || platformFetchFailed) {
         setContextError("Could not load your latest analytics data for AI context. Using general knowledge.");
       }
       
@@ -210,11 +226,21 @@ const ContentSuggestionForm = () => {
       caption: p.caption || 'Instagram Post (no caption)'
     }));
 
+    const platformContextForAI: PlatformContextData[] = PLATFORM_MODULES.map(platformModule => ({
+      platform: platformModule.name,
+      items: (userPlatformData[platformModule.id] || []).map(item => ({
+        title: item.title || `${platformModule.name} ${platformModule.itemLabel} (no title)`,
+        publishedAt: item.publishedAt,
+        metrics: platformModule.metrics.map(metric => ({ label: metric.label, value: item.metrics?.[metric.key] || 0 })),
+      })),
+    }));
+
     const aiInput: GeneralQueryInput = {
       userQuery: data.userQuery,
       userRole: user?.role || 'user',
       youtubeData: youtubeContextForAI,
       instagramData: instagramContextForAI,
+      platformData: platformContextForAI,
     };
 
     try {
@@ -243,6 +269,9 @@ const ContentSuggestionForm = () => {
     }
   };
 
+  const hasContextData = userYouTubeData.length > 0 || userInstagramData.length > 0
+    || Object.values(userPlatformData).some(items => items && items.length > 0);
+
   return (
     <Card className="w-full shadow-xl flex flex-col max-h-[80vh]">
       <CardHeader>
@@ -261,8 +290,8 @@ const ContentSuggestionForm = () => {
           Have questions about your social media strategy or content? Ask our AI assistant!
           {isContextLoading && " Loading your analytics data for context..."}
           {!isContextLoading && contextError && " Could not load analytics data; using general knowledge."}
-          {!isContextLoading && !contextError && (userYouTubeData.length > 0 || userInstagramData.length > 0) && " Your recent YouTube & Instagram data is provided as context."}
-          {!isContextLoading && !contextError && userYouTubeData.length === 0 && userInstagramData.length === 0 && " No specific analytics data found to provide as context."}
+          {!isContextLoading && !contextError && hasContextData && " Your recent YouTube, Instagram and other platform data is provided as context."}
+          {!isContextLoading && !contextError && !hasContextData && " No specific analytics data found to provide as context."}
         </CardDescription>
         {contextError && !isContextLoading && (
           <Alert variant="default" className="mt-2 bg-blue-50 border-blue-200 text-blue-700">
@@ -1,22 +1,150 @@
-
 "use client";
 
-import type { YouTubeComment } from '@/ai/flows/fetch-youtube-comments-flow';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { formatDistanceToNow } from 'date-fns';
-import { Loader2, MessageCircleWarning, RefreshCw } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Loader2, MessageCircleWarning, RefreshCw, Search } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+
+// A comment or reply as shown here; YouTube and Instagram comments are mapped onto it.
+export interface DisplayComment {
+  id: string;
+  parentId?: string; // Set on replies
+  authorDisplayName: string;
+  authorProfileImageUrl?: string;
+  textDisplay?: string; // HTML as rendered by the platform; textOriginal is shown as plain text without it
+  textOriginal: string;
+  likeCount: number;
+  totalReplyCount?: number; // Reply count reported by the platform; the stored replies are counted without it
+  publishedAt: string; // ISO string
+  updatedAt?: string; // ISO string, when the platform reports edits
+}
+
+type CommentSort = 'newest' | 'oldest' | 'likes' | 'replies';
+
+const COMMENTS_PER_PAGE = 20;
+
+const SORT_LABELS: Record<CommentSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  likes: 'Most liked',
+  replies: 'Most replies',
+};
+
+interface CommentThreadView {
+  comment: DisplayComment;
+  replies: DisplayComment[]; // Oldest first, as on YouTube
+  replyCount: number;
+}
+
+const byNewest = (a: DisplayComment, b: DisplayComment) => b.publishedAt.localeCompare(a.publishedAt);
+const byOldest = (a: DisplayComment, b: DisplayComment) => a.publishedAt.localeCompare(b.publishedAt);
+
+const compareThreads: Record<CommentSort, (a: CommentThreadView, b: CommentThreadView) => number> = {
+  newest: (a, b) => byNewest(a.comment, b.comment),
+  oldest: (a, b) => byOldest(a.comment, b.comment),
+  likes: (a, b) => b.comment.likeCount - a.comment.likeCount || byNewest(a.comment, b.comment),
+  replies: (a, b) => b.replyCount - a.replyCount || byNewest(a.comment, b.comment),
+};
 
 interface CommentDisplayProps {
-  comments: YouTubeComment[];
+  comments: DisplayComment[]; // Top-level comments and replies, in any order
   isLoading: boolean;
   error: string | null;
   onRetry?: () => void;
+  emptyMessage?: string;
 }
 
-const CommentDisplay: React.FC<CommentDisplayProps> = ({ comments, isLoading, error, onRetry }) => {
+const getInitials = (name: string) => {
+  if (!name) return '??';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return `${names[0][0]}${names[names.length - 1]?.[0] || names[0][1] || ''}`.toUpperCase();
+  }
+  return name.substring(0, 2).toUpperCase();
+};
+
+const formatCommentTime = (isoString: string) => {
+  const date = new Date(isoString);
+  return isNaN(date.getTime()) ? '' : formatDistanceToNow(date, { addSuffix: true });
+};
+
+const matchesSearch = (comment: DisplayComment, term: string) =>
+  comment.textOriginal.toLowerCase().includes(term) || comment.authorDisplayName.toLowerCase().includes(term);
+
+const CommentItem: React.FC<{ comment: DisplayComment; replyCount?: number }> = ({ comment, replyCount }) => {
+  const isReply = replyCount === undefined;
+  const isEdited = !!comment.updatedAt && comment.updatedAt !== comment.publishedAt;
+  return (
+    <div className="flex items-start space-x-3">
+      <Avatar className={isReply ? "h-6 w-6 shrink-0" : "h-8 w-8 shrink-0"}>
+        <AvatarImage src={comment.authorProfileImageUrl} alt={comment.authorDisplayName} data-ai-hint="profile avatar"/>
+        <AvatarFallback>{getInitials(comment.authorDisplayName)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs font-medium text-foreground truncate">
+            {comment.authorDisplayName}
+          </p>
+          <p className="text-xs text-muted-foreground shrink-0" title={isEdited ? `Edited ${formatCommentTime(comment.updatedAt!)}` : undefined}>
+            {formatCommentTime(comment.publishedAt)}{isEdited && ' (edited)'}
+          </p>
+        </div>
+        {comment.textDisplay ? (
+          // Using dangerouslySetInnerHTML for YouTube's HTML formatted comments. Ensure this is safe if source changes.
+          <p
+            className="text-xs text-muted-foreground mt-0.5 break-words"
+            dangerouslySetInnerHTML={{ __html: comment.textDisplay }}
+          />
+        ) : (
+          <p className="text-xs text-muted-foreground mt-0.5 break-words whitespace-pre-line">{comment.textOriginal}</p>
+        )}
+        <div className="text-xs text-muted-foreground mt-1">
+          Likes: {comment.likeCount}{!isReply && ` | Replies: ${replyCount}`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Pages through a video's or reel's stored comments. Replies are nested under their comment; a search also
+// matches replies and shows the matching ones.
+const CommentDisplay: React.FC<CommentDisplayProps> = ({ comments, isLoading, error, onRetry, emptyMessage }) => {
+  const [sort, setSort] = useState<CommentSort>('newest');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(0);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+
+  const threads = useMemo<CommentThreadView[]>(() => {
+    const repliesByParent = new Map<string, DisplayComment[]>();
+    comments.forEach(comment => {
+      if (comment.parentId) repliesByParent.set(comment.parentId, [...(repliesByParent.get(comment.parentId) || []), comment]);
+    });
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(comment => {
+        const replies = (repliesByParent.get(comment.id) || []).sort(byOldest);
+        return { comment, replies, replyCount: comment.totalReplyCount ?? replies.length };
+      });
+  }, [comments]);
+
+  const term = searchTerm.trim().toLowerCase();
+  const visibleThreads = useMemo<CommentThreadView[]>(() => {
+    const matching = term
+      ? threads
+          .map(thread => ({ ...thread, replies: thread.replies.filter(reply => matchesSearch(reply, term)), matchesComment: matchesSearch(thread.comment, term) }))
+          .filter(thread => thread.matchesComment || thread.replies.length > 0)
+      : threads;
+    return [...matching].sort(compareThreads[sort]);
+  }, [threads, term, sort]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [term, sort, comments]);
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center p-4 h-48">
@@ -45,54 +173,89 @@ const CommentDisplay: React.FC<CommentDisplayProps> = ({ comments, isLoading, er
   if (comments.length === 0) {
     return (
       <div className="p-4 text-center text-sm text-muted-foreground h-48 flex items-center justify-center">
-        No comments yet, or comments are disabled for this video.
+        {emptyMessage || "No comments yet, or comments are disabled for this video."}
       </div>
     );
   }
 
-  const getInitials = (name: string) => {
-    if (!name) return '??';
-    const names = name.split(' ');
-    if (names.length > 1) {
-      return `${names[0][0]}${names[names.length - 1]?.[0] || names[0][1] || ''}`.toUpperCase();
-    }
-    return name.substring(0, 2).toUpperCase();
-  };
+  const pageCount = Math.max(Math.ceil(visibleThreads.length / COMMENTS_PER_PAGE), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageThreads = visibleThreads.slice(currentPage * COMMENTS_PER_PAGE, (currentPage + 1) * COMMENTS_PER_PAGE);
 
+  const toggleThread = (commentId: string) => {
+    setExpandedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) next.delete(commentId);
+      else next.add(commentId);
+      return next;
+    });
+  };
 
   return (
     <div className="p-1">
-      <h4 className="text-md font-semibold mb-3 px-1">Comments</h4>
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h4 className="text-md font-semibold">Comments</h4>
+        <span className="text-xs text-muted-foreground">{threads.length.toLocaleString()} comments, {(comments.length - threads.length).toLocaleString()} replies</span>
+      </div>
+      <div className="flex items-center gap-2 mb-3 px-1">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search comments..."
+            className="h-8 pl-7 text-xs"
+            aria-label="Search comments"
+          />
+        </div>
+        <Select value={sort} onValueChange={(value) => setSort(value as CommentSort)}>
+          <SelectTrigger className="h-8 w-[130px] text-xs" aria-label="Sort comments">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as CommentSort[]).map(option => (
+              <SelectItem key={option} value={option} className="text-xs">{SORT_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <ScrollArea className="h-[280px] pr-3"> {/* Max height for scroll */}
-        <div className="space-y-4">
-          {comments.map((comment) => (
-            <div key={comment.id} className="flex items-start space-x-3">
-              <Avatar className="h-8 w-8 shrink-0">
-                <AvatarImage src={comment.authorProfileImageUrl} alt={comment.authorDisplayName} data-ai-hint="profile avatar"/>
-                <AvatarFallback>{getInitials(comment.authorDisplayName)}</AvatarFallback>
-              </Avatar>
-              <div className="flex-1">
-                <div className="flex items-center justify-between">
-                  <p className="text-xs font-medium text-foreground">
-                    {comment.authorDisplayName}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatDistanceToNow(new Date(comment.publishedAt), { addSuffix: true })}
-                  </p>
-                </div>
-                {/* Using dangerouslySetInnerHTML for YouTube's HTML formatted comments. Ensure this is safe if source changes. */}
-                <p
-                  className="text-xs text-muted-foreground mt-0.5"
-                  dangerouslySetInnerHTML={{ __html: comment.textDisplay }}
-                />
-                <div className="text-xs text-muted-foreground mt-1">
-                  Likes: {comment.likeCount} | Replies: {comment.totalReplyCount}
+        {pageThreads.length === 0 ? (
+          <p className="p-4 text-center text-xs text-muted-foreground">No comments match "{searchTerm.trim()}".</p>
+        ) : (
+          <div className="space-y-4">
+            {pageThreads.map(({ comment, replies, replyCount }) => {
+              const showReplies = term ? replies.length > 0 : expandedThreads.has(comment.id);
+              return (
+                <div key={comment.id}>
+                  <CommentItem comment={comment} replyCount={replyCount} />
+                  {!term && replies.length > 0 && (
+                    <Button variant="link" size="sm" className="h-auto p-0 ml-11 text-xs" onClick={() => toggleThread(comment.id)}>
+                      {showReplies ? 'Hide replies' : `View ${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`}
+                    </Button>
+                  )}
+                  {showReplies && (
+                    <div className="ml-11 mt-2 space-y-3 border-l pl-3">
+                      {replies.map(reply => <CommentItem key={reply.id} comment={reply} />)}
+                    </div>
+                  )}
                 </div>
-              </div>
-            </div>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        )}
       </ScrollArea>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-2 px-1">
+          <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} aria-label="Previous comments">
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <span className="text-xs text-muted-foreground">Page {currentPage + 1} of {pageCount}</span>
+          <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} aria-label="Next comments">
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,8 +1,11 @@
 
 "use client";
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Loader2, AlertTriangle } from 'lucide-react';
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, TooltipProps } from 'recharts';
 import { format, parseISO } from 'date-fns';
@@ -16,8 +19,14 @@ interface MetricConfig {
   icon?: React.ElementType;
 }
 
+type ChartMode = 'daily' | 'cumulative';
+
+const MOVING_AVERAGE_WINDOW = 7; // Days
+
 interface DailyPerformanceChartProps {
-  data: DailyChartDataPoint[];
+  data: DailyChartDataPoint[]; // Per-day gains
+  cumulativeData?: DailyChartDataPoint[]; // Running totals; enables the "Cumulative" toggle when provided
+  lookback?: { daily: DailyChartDataPoint[]; cumulative: DailyChartDataPoint[] }; // Days before data; not plotted
   metrics: MetricConfig[];
   xAxisDataKey?: string; 
   title: string;
@@ -26,6 +35,29 @@ interface DailyPerformanceChartProps {
   error: string | null;
 }
 
+const movingAverageKey = (key: keyof DailyChartDataPoint) => `${String(key)}MovingAvg`;
+
+// Adds a trailing moving average for each metric. The leading points, from the days before the series, fill the
+// window at its start; where there are too few, fewer points are averaged.
+const withMovingAverages = (
+  data: DailyChartDataPoint[],
+  metrics: MetricConfig[],
+  leadingData: DailyChartDataPoint[] = []
+): Record<string, string | number | undefined>[] => {
+  const series = [...leadingData, ...data];
+  return data.map((point, index) => {
+    const seriesIndex = leadingData.length + index;
+    const windowStart = Math.max(0, seriesIndex - MOVING_AVERAGE_WINDOW + 1);
+    const windowPoints = series.slice(windowStart, seriesIndex + 1);
+    const averages: Record<string, number> = {};
+    metrics.forEach(metric => {
+      const sum = windowPoints.reduce((acc, p) => acc + (Number(p[metric.key]) || 0), 0);
+      averages[movingAverageKey(metric.key)] = Math.round(sum / windowPoints.length);
+    });
+    return { ...point, ...averages };
+  });
+};
+
 const CustomTooltip: React.FC<TooltipProps<ValueType, NameType>> = ({ active, payload, label }) => {
   if (active && payload && payload.length) {
     const dateLabel = label ? format(parseISO(label), 'MMM d, yyyy') : '';
@@ -47,6 +79,8 @@ const CustomTooltip: React.FC<TooltipProps<ValueType, NameType>> = ({ active, pa
 
 const DailyPerformanceChart: React.FC<DailyPerformanceChartProps> = ({
   data,
+  cumulativeData,
+  lookback,
   metrics,
   xAxisDataKey = "date",
   title,
@@ -54,6 +88,17 @@ const DailyPerformanceChart: React.FC<DailyPerformanceChartProps> = ({
   isLoading,
   error,
 }) => {
+  const [mode, setMode] = useState<ChartMode>('daily');
+  const [showMovingAverage, setShowMovingAverage] = useState(false);
+
+  const isCumulative = mode === 'cumulative' && !!cumulativeData;
+  const activeData = isCumulative ? cumulativeData : data;
+  const activeLookback = isCumulative ? lookback?.cumulative : lookback?.daily;
+  const chartData = useMemo(
+    () => (showMovingAverage ? withMovingAverages(activeData, metrics, activeLookback) : activeData),
+    [activeData, activeLookback, metrics, showMovingAverage]
+  );
+
   if (isLoading) {
     return (
       <Card className="shadow-md">
@@ -112,11 +157,27 @@ const DailyPerformanceChart: React.FC<DailyPerformanceChartProps> = ({
           {PlatformIcon && <PlatformIcon className="h-7 w-7 text-primary" />}
           <CardTitle className="text-xl font-semibold">{title}</CardTitle>
         </div>
-        <CardDescription>Daily trends for key metrics.</CardDescription>
+        <CardDescription>
+          {mode === 'cumulative' ? 'Running totals across all tracked content.' : 'Gained per day, from daily snapshots.'}
+        </CardDescription>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-2">
+          {cumulativeData && (
+            <Tabs value={mode} onValueChange={(value) => setMode(value as ChartMode)}>
+              <TabsList>
+                <TabsTrigger value="daily">Daily Gain</TabsTrigger>
+                <TabsTrigger value="cumulative">Cumulative</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id={`moving-average-${title}`} checked={showMovingAverage} onCheckedChange={setShowMovingAverage} />
+            <Label htmlFor={`moving-average-${title}`} className="text-sm">{MOVING_AVERAGE_WINDOW}-day average</Label>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={350}>
-          <LineChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+          <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
             <XAxis
               dataKey={xAxisDataKey}
@@ -132,19 +193,21 @@ const DailyPerformanceChart: React.FC<DailyPerformanceChartProps> = ({
               fontSize={12}
               tickLine={false}
               axisLine={false}
-              domain={[0, (dataMax: number) => Math.max(500, dataMax || 0)]}
+              domain={[(dataMin: number) => Math.min(0, dataMin || 0), (dataMax: number) => Math.max(500, dataMax || 0)]}
               allowDataOverflow={false}
               tickCount={8} 
               tickFormatter={(value) => {
                 if (typeof value !== 'number') return String(value);
                 if (value === 0) return '0';
-                if (value < 1000) return value.toLocaleString(); 
-                if (value >= 1000000) {
-                  const num = value / 1000000;
-                  return `${num % 1 === 0 ? num.toFixed(0) : num.toFixed(1)}M`;
+                const sign = value < 0 ? '-' : '';
+                const abs = Math.abs(value);
+                if (abs < 1000) return value.toLocaleString(); 
+                if (abs >= 1000000) {
+                  const num = abs / 1000000;
+                  return `${sign}${num % 1 === 0 ? num.toFixed(0) : num.toFixed(1)}M`;
                 }
-                const num = value / 1000;
-                return `${num % 1 === 0 ? num.toFixed(0) : num.toFixed(1)}K`;
+                const num = abs / 1000;
+                return `${sign}${num % 1 === 0 ? num.toFixed(0) : num.toFixed(1)}K`;
               }}
             />
             <Tooltip content={<CustomTooltip />} cursor={{ fill: 'hsl(var(--accent))', opacity: 0.1 }} />
@@ -173,6 +236,20 @@ const DailyPerformanceChart: React.FC<DailyPerformanceChartProps> = ({
                 connectNulls={true} 
               />
             ))}
+            {showMovingAverage && metrics.map((metric) => (
+              <Line
+                key={movingAverageKey(metric.key)}
+                type="monotone"
+                dataKey={movingAverageKey(metric.key)}
+                name={`${metric.name} (${MOVING_AVERAGE_WINDOW}-day avg)`}
+                stroke={metric.color}
+                strokeWidth={1.5}
+                strokeDasharray="5 5"
+                dot={false}
+                legendType="none"
+                connectNulls={true}
+              />
+            ))}
           </LineChart>
         </ResponsiveContainer>
       </CardContent>
@@ -1,17 +1,136 @@
 
+"use client";
+
 import type { StoredInstagramPost } from '@/lib/instagramPostAnalyticsService';
+import { fetchAndSaveInstagramComments, getStoredInstagramComments, type InstagramCommentFetchState, type StoredInstagramComment } from '@/lib/instagramCommentService';
+import { analyzeReelText, type ReelTextAnalysisOutput } from '@/ai/flows/analyze-reel-text-flow';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import Image from 'next/image';
-import { Heart, MessageCircle, CalendarDays, PlayCircle, Share2 } from 'lucide-react'; // Added Share2
+import { Heart, MessageCircle, CalendarDays, History, PlayCircle, Share2, Wand2, DownloadCloud, Loader2 } from 'lucide-react'; // Added Share2
 import { formatDistanceToNow, parseISO, isValid as isValidDate } from 'date-fns';
 import Link from 'next/link';
+import React, { useEffect, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import CommentDisplay, { type DisplayComment } from './CommentDisplay';
+import NLPReportDisplay from './NLPReportDisplay';
 
 interface InstagramCardProps {
   post: StoredInstagramPost;
+  userId: string; // Owner of the reel's analytics, whose stored comments are shown
 }
 
-const InstagramCard: React.FC<InstagramCardProps> = ({ post }) => {
-  
+// The NLP analysis reads the most liked stored comments, up to this many.
+const ANALYSIS_COMMENT_LIMIT = 200;
+
+const toDisplayComment = (comment: StoredInstagramComment): DisplayComment => ({
+  id: comment.id,
+  ...(comment.parentId && { parentId: comment.parentId }),
+  authorDisplayName: comment.username || 'Unknown',
+  textOriginal: comment.text,
+  likeCount: comment.likeCount,
+  publishedAt: comment.postedAt || '',
+});
+
+const InstagramCard: React.FC<InstagramCardProps> = ({ post, userId }) => {
+  const [isCommentsPopoverOpen, setIsCommentsPopoverOpen] = useState(false);
+  const [storedComments, setStoredComments] = useState<StoredInstagramComment[] | null>(null); // null until loaded
+  const [isCommentsLoading, setIsCommentsLoading] = useState(false);
+  const [commentsError, setCommentsError] = useState<string | null>(null);
+  const [isFetchingComments, setIsFetchingComments] = useState(false);
+  const [commentFetchState, setCommentFetchState] = useState<InstagramCommentFetchState | undefined>(post.commentFetch);
+
+  const [isAnalysisDialogOpen, setIsAnalysisDialogOpen] = useState(false);
+  const [nlpAnalysisResult, setNlpAnalysisResult] = useState<ReelTextAnalysisOutput | null>(null);
+  const [isNlpLoading, setIsNlpLoading] = useState(false);
+  const [nlpError, setNlpError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setCommentFetchState(post.commentFetch);
+  }, [post.commentFetch]);
+
+  const loadStoredComments = async (): Promise<StoredInstagramComment[]> => {
+    setIsCommentsLoading(true);
+    setCommentsError(null);
+    try {
+      const comments = await getStoredInstagramComments(userId, post.id);
+      setStoredComments(comments);
+      return comments;
+    } catch (error: any) {
+      const newError = error.message || "Failed to load comments.";
+      setCommentsError(newError);
+      setStoredComments(null);
+      throw new Error(newError); // Re-throw for NLP flow to catch
+    } finally {
+      setIsCommentsLoading(false);
+    }
+  };
+
+  const handleLoadCommentsForPopover = async () => {
+    if (!isCommentsLoading && (storedComments === null || commentsError)) {
+      await loadStoredComments().catch(() => { /* Error handled by loadStoredComments */ });
+    }
+  };
+
+  // Fetches the reel's comments through the configured Instagram provider and stores them with the reel.
+  const fetchAndStoreComments = async (): Promise<StoredInstagramComment[]> => {
+    setIsFetchingComments(true);
+    try {
+      const state = await fetchAndSaveInstagramComments(userId, post.id);
+      setCommentFetchState(state);
+      if (state.error) {
+        toast({ title: "Comments Partly Fetched", description: state.error, variant: "destructive" });
+      }
+      return await loadStoredComments();
+    } finally {
+      setIsFetchingComments(false);
+    }
+  };
+
+  const handleFetchComments = async () => {
+    try {
+      const comments = await fetchAndStoreComments();
+      toast({ title: "Comments Updated", description: `${comments.length.toLocaleString()} comments stored for this reel.` });
+    } catch (error: any) {
+      console.error("Error fetching Instagram comments:", error);
+      toast({ title: "Comment Fetch Failed", description: error.message || "Could not fetch the comments.", variant: "destructive" });
+    }
+  };
+
+  const handleAnalyzeText = async () => {
+    setIsNlpLoading(true);
+    setNlpError(null);
+    setNlpAnalysisResult(null);
+    try {
+      // Use the stored comments, fetching them first if there are none yet
+      let comments = storedComments && !commentsError ? storedComments : await loadStoredComments();
+      if (comments.length === 0 && !commentFetchState) {
+        comments = await fetchAndStoreComments();
+      }
+      const result = await analyzeReelText({
+        shortcode: post.id,
+        caption: post.caption || "",
+        ...(post.username && { username: post.username }),
+        comments: [...comments]
+          .sort((a, b) => b.likeCount - a.likeCount)
+          .slice(0, ANALYSIS_COMMENT_LIMIT)
+          .map(comment => ({ id: comment.id, username: comment.username, text: comment.text, likeCount: comment.likeCount, isReply: !!comment.parentId })),
+      });
+      setNlpAnalysisResult(result);
+    } catch (error: any) {
+      console.error("Error analyzing reel text:", error);
+      const analysisError = error.message || "Failed to analyze reel content.";
+      setNlpError(analysisError);
+      toast({ title: "NLP Analysis Failed", description: analysisError, variant: "destructive" });
+    } finally {
+      setIsNlpLoading(false);
+    }
+  };
+
+
   let timeAgo = 'Date N/A';
   if (post.postedAt) {
     const parsedDate = parseISO(post.postedAt);
@@ -25,6 +144,14 @@ const InstagramCard: React.FC<InstagramCardProps> = ({ post }) => {
     }
   }
   
+  const formatRefreshTime = (isoString?: string) => {
+    if (!isoString) return null;
+    const parsedDate = parseISO(isoString);
+    return isValidDate(parsedDate) ? formatDistanceToNow(parsedDate, { addSuffix: true }) : null;
+  };
+  const checkedAgo = formatRefreshTime(post.lastCheckedAt);
+  const changedAgo = formatRefreshTime(post.lastChangedAt);
+
   const placeholderImage = `https://placehold.co/300x300.png?text=Reel+${post.id.substring(0,5)}`;
 
   return (
@@ -52,10 +179,41 @@ const InstagramCard: React.FC<InstagramCardProps> = ({ post }) => {
             <Heart className="h-3.5 w-3.5 mr-1 text-red-500" />
             {(post.likes || 0).toLocaleString()}
           </div>
-          <div className="flex items-center" title="Comments">
-            <MessageCircle className="h-3.5 w-3.5 mr-1 text-blue-500" />
-            {(post.comments || 0).toLocaleString()}
-          </div>
+          <Popover open={isCommentsPopoverOpen} onOpenChange={(open) => {
+            setIsCommentsPopoverOpen(open);
+            if (open) {
+              handleLoadCommentsForPopover();
+            }
+          }}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" title="Comments" className="flex items-center p-0 h-auto justify-start text-xs font-normal hover:bg-transparent text-muted-foreground hover:text-blue-600 focus-visible:ring-offset-0 focus-visible:ring-0">
+                <MessageCircle className="h-3.5 w-3.5 mr-1 text-blue-500" />
+                {(post.comments || 0).toLocaleString()}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[26rem]" side="bottom" align="start">
+              <CommentDisplay
+                comments={(storedComments || []).map(toDisplayComment)}
+                isLoading={isCommentsLoading}
+                error={commentsError}
+                onRetry={handleLoadCommentsForPopover}
+                emptyMessage={commentFetchState ? "This reel has no comments yet." : "Comments have not been fetched for this reel yet."}
+              />
+              <div className="flex items-center justify-between gap-2 border-t mt-2 pt-2 px-1">
+                <span className="text-xs text-muted-foreground">
+                  {isFetchingComments
+                    ? 'Fetching comments...'
+                    : commentFetchState
+                      ? `Fetched ${formatRefreshTime(commentFetchState.lastFetchedAt)}${commentFetchState.capped ? ' · capped' : ''}`
+                      : 'Not fetched yet'}
+                </span>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleFetchComments} disabled={isFetchingComments}>
+                  {isFetchingComments ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <DownloadCloud className="mr-1.5 h-3.5 w-3.5" />}
+                  {commentFetchState ? 'Update comments' : 'Fetch comments'}
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
           <div className="flex items-center" title="Plays">
             <PlayCircle className="h-3.5 w-3.5 mr-1 text-green-500" />
             {(post.playCount || 0).toLocaleString()}
@@ -66,11 +224,44 @@ const InstagramCard: React.FC<InstagramCardProps> = ({ post }) => {
           </div>
         </div>
       </CardContent>
-      <CardFooter className="p-3 border-t bg-muted/30">
+      <CardFooter className="p-3 border-t bg-muted/30 flex flex-col items-start gap-1">
         <div className="flex items-center text-xs text-muted-foreground">
           <CalendarDays className="h-3 w-3 mr-1.5 text-accent" />
           {timeAgo}
         </div>
+        {checkedAgo && (
+          <div className="flex items-center text-xs text-muted-foreground" title="Checked: last refresh. Changed: last refresh that found new numbers, details or errors.">
+            <History className="h-3 w-3 mr-1.5 text-accent" />
+            Checked {checkedAgo}{changedAgo && ` · Changed ${changedAgo}`}
+          </div>
+        )}
+        <Dialog open={isAnalysisDialogOpen} onOpenChange={(open) => {
+          setIsAnalysisDialogOpen(open);
+          if (open && !nlpAnalysisResult && !isNlpLoading && !nlpError) { // Auto-fetch on open if not already loaded/loading
+            handleAnalyzeText();
+          }
+        }}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="text-xs h-7 mt-1">
+              <Wand2 className="mr-1.5 h-3.5 w-3.5" />
+              Analyze Text
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>NLP Analysis Report</DialogTitle>
+              <DialogDescription>
+                Insights for reel: "{post.caption ? (post.caption.length > 60 ? post.caption.substring(0, 57) + '...' : post.caption) : post.id}"
+              </DialogDescription>
+            </DialogHeader>
+            <NLPReportDisplay
+              analysisResult={nlpAnalysisResult}
+              isLoading={isNlpLoading}
+              error={nlpError}
+              contentLabel="reel"
+            />
+          </DialogContent>
+        </Dialog>
       </CardFooter>
        {post.errorMessage && (
         <CardFooter className="p-2 border-t bg-destructive/10 text-destructive text-xs">
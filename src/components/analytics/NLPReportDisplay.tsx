@@ -10,14 +10,16 @@ interface NLPReportDisplayProps {
   analysisResult: VideoTextAnalysisOutput | null;
   isLoading: boolean;
   error: string | null;
+  contentLabel?: string; // What was analyzed, e.g. 'reel'; defaults to 'video'
 }
 
-const NLPReportDisplay: React.FC<NLPReportDisplayProps> = ({ analysisResult, isLoading, error }) => {
+// Reel analyses (ReelTextAnalysisOutput) have the same shape and are shown here as well.
+const NLPReportDisplay: React.FC<NLPReportDisplayProps> = ({ analysisResult, isLoading, error, contentLabel = 'video' }) => {
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center p-6 min-h-[300px]">
         <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
-        <p className="text-lg text-muted-foreground">Analyzing video content...</p>
+        <p className="text-lg text-muted-foreground">Analyzing {contentLabel} content...</p>
         <p className="text-sm text-muted-foreground">This may take a moment.</p>
       </div>
     );
@@ -0,0 +1,84 @@
+import type { PlatformModule, StoredPlatformItem } from '@shared/platforms';
+import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
+import Image from 'next/image';
+import { CalendarDays, History } from 'lucide-react';
+import { formatDistanceToNow, parseISO, isValid as isValidDate } from 'date-fns';
+import Link from 'next/link';
+import { PLATFORM_DISPLAY } from './platformDisplay';
+
+interface PlatformItemCardProps {
+  platform: PlatformModule;
+  item: StoredPlatformItem;
+}
+
+// Renders one item of a platform module, with a tile per metric in the module's order.
+const PlatformItemCard: React.FC<PlatformItemCardProps> = ({ platform, item }) => {
+  const display = PLATFORM_DISPLAY[platform.id];
+
+  const formatTimeAgo = (isoString?: string) => {
+    if (!isoString) return null;
+    const parsedDate = parseISO(isoString);
+    return isValidDate(parsedDate) ? formatDistanceToNow(parsedDate, { addSuffix: true }) : null;
+  };
+  const publishedAgo = formatTimeAgo(item.publishedAt);
+  const fetchedAgo = formatTimeAgo(item.lastFetched);
+  const timeAgo = publishedAgo || (fetchedAgo ? `Fetched ${fetchedAgo}` : 'Date N/A');
+  const checkedAgo = formatTimeAgo(item.lastCheckedAt);
+  const changedAgo = formatTimeAgo(item.lastChangedAt);
+
+  const placeholderImage = `https://placehold.co/300x300.png?text=${encodeURIComponent(`${platform.name} ${item.id.slice(-5)}`)}`;
+
+  return (
+    <Card className="overflow-hidden shadow-lg hover:shadow-xl hover:scale-105 transition-shadow transition-transform duration-300 flex flex-col">
+      <CardHeader className="p-0">
+        <Link href={item.link || '#'} target="_blank" rel="noopener noreferrer" className="block aspect-square relative focus:outline-none focus:ring-2 focus:ring-ring rounded-t-lg">
+          <Image
+            src={item.thumbnailUrl || placeholderImage}
+            alt={item.title || `${platform.name} ${platform.itemLabel} ${item.id}`}
+            layout="fill"
+            data-ai-hint="social media video"
+            className="rounded-t-lg object-cover"
+            unoptimized={!!item.thumbnailUrl}
+          />
+        </Link>
+      </CardHeader>
+      <CardContent className="p-3 flex-grow">
+        <p className="text-xs text-muted-foreground mb-1.5 h-10 overflow-hidden line-clamp-2" title={item.title || "No title available"}>
+          {item.title || <span className="italic">No title available</span>}
+        </p>
+        {item.author && <p className="text-xs font-medium text-primary truncate mb-1.5">@{item.author}</p>}
+
+        <div className="grid grid-cols-2 gap-1 text-xs text-muted-foreground">
+          {platform.metrics.map(metric => {
+            const MetricIcon = display.metricIcons[metric.key] || display.icon;
+            return (
+              <div key={metric.key} className="flex items-center" title={metric.label}>
+                <MetricIcon className={`h-3.5 w-3.5 mr-1 ${display.colorClassName}`} />
+                {(item.metrics?.[metric.key] || 0).toLocaleString()}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+      <CardFooter className="p-3 border-t bg-muted/30 flex flex-col items-start gap-1">
+        <div className="flex items-center text-xs text-muted-foreground">
+          <CalendarDays className="h-3 w-3 mr-1.5 text-accent" />
+          {timeAgo}
+        </div>
+        {checkedAgo && (
+          <div className="flex items-center text-xs text-muted-foreground" title="Checked: last refresh. Changed: last refresh that found new numbers, details or errors.">
+            <History className="h-3 w-3 mr-1.5 text-accent" />
+            Checked {checkedAgo}{changedAgo && ` · Changed ${changedAgo}`}
+          </div>
+        )}
+      </CardFooter>
+      {item.errorMessage && (
+        <CardFooter className="p-2 border-t bg-destructive/10 text-destructive text-xs">
+          Error: {item.errorMessage.length > 50 ? item.errorMessage.substring(0, 47) + '...' : item.errorMessage}
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default PlatformItemCard;
@@ -21,6 +21,7 @@ import { format, parseISO, isValid } from 'date-fns';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { fetchCampaignAnalytics, type CampaignAnalyticsOutput } from '@/ai/flows/fetch-ga-analytics-flow';
+import { DEFAULT_GA_PROPERTY_ID } from '@/lib/googleAnalyticsConfig';
 import GaAnalyticsDisplay from './GaAnalyticsDisplay';
 
 const utmFormSchema = z.object({
@@ -172,7 +173,7 @@ export default function UtmTrackerClient() {
   };
   
   const handleFetchAnalytics = async (campaignName: string) => {
-    const propertyId = '475901241';
+    const propertyId = DEFAULT_GA_PROPERTY_ID;
 
     setIsAnalyticsLoading(true);
     setCurrentAnalytics(null);
@@ -0,0 +1,318 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { format, isValid, parseISO } from 'date-fns';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { AlertTriangle, BarChart3, Clock, Eye, Globe, Link2, Loader2, Percent, RefreshCw, Unlink, UserPlus } from 'lucide-react';
+import {
+  disconnectYouTubeAnalytics,
+  getChannelAnalyticsReport,
+  getYouTubeAnalyticsConnection,
+  startYouTubeAnalyticsConnection,
+  syncYouTubeAnalyticsNow,
+  type DailyChannelAnalytics,
+  type RetentionPoint,
+  type StoredChannelAnalyticsReport,
+  type YouTubeAnalyticsConnection,
+} from '@/lib/youtubeAnalyticsService';
+
+interface YouTubeAnalyticsSectionProps {
+  userId: string; // The user whose channel is shown
+  currentUserId: string; // The logged-in user; only they can connect their own channel
+  userName?: string;
+}
+
+// Labels for the YouTube Analytics insightTrafficSourceType values.
+const TRAFFIC_SOURCE_LABELS: Record<string, string> = {
+  ADVERTISING: 'Ads',
+  ANNOTATION: 'Annotations',
+  CAMPAIGN_CARD: 'Campaign cards',
+  END_SCREEN: 'End screens',
+  EXT_URL: 'External websites',
+  HASHTAGS: 'Hashtags',
+  NO_LINK_EMBEDDED: 'Embedded players',
+  NO_LINK_OTHER: 'Direct or unknown',
+  NOTIFICATION: 'Notifications',
+  PLAYLIST: 'Playlists',
+  PROMOTED: 'Promoted',
+  RELATED_VIDEO: 'Suggested videos',
+  SHORTS: 'Shorts feed',
+  SUBSCRIBER: 'Browse features',
+  YT_CHANNEL: 'Channel pages',
+  YT_OTHER_PAGE: 'Other YouTube pages',
+  YT_PLAYLIST_PAGE: 'Playlist pages',
+  YT_SEARCH: 'YouTube search',
+};
+
+const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+const formatWatchHours = (minutes: number) => `${(minutes / 60).toLocaleString(undefined, { maximumFractionDigits: 1 })} h`;
+
+const formatSyncTime = (isoString?: string) => {
+  if (!isoString) return 'Not synced yet';
+  const date = parseISO(isoString);
+  return isValid(date) ? `Synced ${format(date, 'MMM d, yyyy HH:mm')}` : 'Not synced yet';
+};
+
+const formatCountry = (code: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'region' }).of(code) || code;
+  } catch (e) {
+    return code;
+  }
+};
+
+// Share of viewers still watching at 25%, 50% and 75% of the video.
+const describeRetention = (retention?: RetentionPoint[]) => {
+  if (!retention || retention.length === 0) return '—';
+  const at = (ratio: number) => retention.reduce((closest, point) =>
+    Math.abs(point.elapsedRatio - ratio) < Math.abs(closest.elapsedRatio - ratio) ? point : closest);
+  return [0.25, 0.5, 0.75].map(ratio => `${Math.round(at(ratio).audienceWatchRatio * 100)}%`).join(' / ');
+};
+
+const YouTubeAnalyticsSection: React.FC<YouTubeAnalyticsSectionProps> = ({ userId, currentUserId, userName }) => {
+  const [connection, setConnection] = useState<YouTubeAnalyticsConnection | null>(null);
+  const [report, setReport] = useState<StoredChannelAnalyticsReport | null>(null);
+  const [daily, setDaily] = useState<DailyChannelAnalytics[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<'connect' | 'sync' | 'disconnect' | null>(null);
+
+  const isOwner = userId === currentUserId;
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    const [fetchedConnection, fetchedReport] = await Promise.all([getYouTubeAnalyticsConnection(userId), getChannelAnalyticsReport(userId)]);
+    setConnection(fetchedConnection);
+    setReport(fetchedReport?.report || null);
+    setDaily(fetchedReport?.daily || []);
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleConnect = async () => {
+    setPendingAction('connect');
+    try {
+      window.location.assign(await startYouTubeAnalyticsConnection());
+    } catch (error: any) {
+      toast({ title: "Could Not Connect", description: error.message, variant: "destructive" });
+      setPendingAction(null);
+    }
+  };
+
+  const handleSync = async () => {
+    setPendingAction('sync');
+    try {
+      const result = await syncYouTubeAnalyticsNow(userId);
+      if (result.success) {
+        toast({ title: "YouTube Analytics Synced", description: "The report now covers the latest available days." });
+      } else {
+        toast({ title: "Sync Failed", description: result.error || "Could not sync the report.", variant: "destructive" });
+      }
+      await loadData();
+    } catch (error: any) {
+      toast({ title: "Sync Failed", description: error.message, variant: "destructive" });
+    }
+    setPendingAction(null);
+  };
+
+  const handleDisconnect = async () => {
+    setPendingAction('disconnect');
+    try {
+      await disconnectYouTubeAnalytics(userId);
+      toast({ title: "Channel Disconnected", description: "Access was revoked. Reports synced so far are kept." });
+      await loadData();
+    } catch (error: any) {
+      toast({ title: "Could Not Disconnect", description: error.message, variant: "destructive" });
+    }
+    setPendingAction(null);
+  };
+
+  const isBusy = isLoading || pendingAction !== null;
+  const totalTrafficViews = report?.trafficSources.reduce((sum, source) => sum + source.views, 0) || 0;
+
+  return (
+    <Card className="mb-8 shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <BarChart3 className="h-6 w-6 text-accent" />
+              <CardTitle className="text-2xl font-semibold">Channel Analytics</CardTitle>
+              {connection?.status === 'reauth-required' && <Badge variant="destructive">Reconnect required</Badge>}
+            </div>
+            <CardDescription className="mt-1">
+              {connection
+                ? <>Owner metrics for <span className="font-medium">{connection.channelTitle}</span> from YouTube Analytics. {formatSyncTime(connection.lastSyncedAt)}.</>
+                : isOwner
+                  ? 'Connect your own YouTube channel to add watch time, retention, traffic sources and geography. It is synced daily.'
+                  : `${userName || 'This user'} has not connected a YouTube channel. Only the channel owner can connect it.`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isOwner && (!connection || connection.status === 'reauth-required') && (
+              <Button onClick={handleConnect} disabled={isBusy}>
+                {pendingAction === 'connect' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+                {connection ? 'Reconnect Channel' : 'Connect Channel'}
+              </Button>
+            )}
+            {connection && (
+              <>
+                <Button variant="outline" onClick={handleSync} disabled={isBusy || connection.status === 'reauth-required'}>
+                  {pendingAction === 'sync' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Sync Now
+                </Button>
+                <Button variant="outline" onClick={handleDisconnect} disabled={isBusy}>
+                  {pendingAction === 'disconnect' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Unlink className="mr-2 h-4 w-4" />}
+                  Disconnect
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {connection?.error && (
+          <div className="flex items-start gap-2 text-sm text-destructive mt-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {connection.error}
+          </div>
+        )}
+      </CardHeader>
+
+      {(isLoading || report) && (
+        <CardContent className="space-y-8">
+          {isLoading && !report ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading channel analytics...</div>
+          ) : report && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {format(parseISO(report.startDate), 'MMM d')} – {format(parseISO(report.endDate), 'MMM d, yyyy')}
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  { label: 'Watch Time', value: formatWatchHours(report.totals.estimatedMinutesWatched), icon: Clock },
+                  { label: 'Avg. View Duration', value: formatDuration(report.totals.averageViewDuration), icon: Clock },
+                  { label: 'Avg. Percentage Viewed', value: `${report.totals.averageViewPercentage.toFixed(1)}%`, icon: Percent },
+                  { label: 'Subscribers Gained', value: `+${report.totals.subscribersGained.toLocaleString()} / -${report.totals.subscribersLost.toLocaleString()}`, icon: UserPlus },
+                  { label: 'Views', value: report.totals.views.toLocaleString(), icon: Eye },
+                ].map(stat => (
+                  <div key={stat.label} className="rounded-lg border p-4">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground"><stat.icon className="h-4 w-4" /> {stat.label}</div>
+                    <p className="text-xl font-bold mt-1">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {daily.length > 0 && (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={daily} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tickFormatter={(date: string) => format(parseISO(date), 'MMM d')} fontSize={12} />
+                      <YAxis yAxisId="minutes" fontSize={12} />
+                      <YAxis yAxisId="subscribers" orientation="right" fontSize={12} />
+                      <Tooltip labelFormatter={(date: string) => format(parseISO(date), 'MMM d, yyyy')} />
+                      <Legend />
+                      <Line yAxisId="minutes" type="monotone" dataKey="estimatedMinutesWatched" name="Watch time (min)" stroke="hsl(var(--chart-1))" dot={false} />
+                      <Line yAxisId="subscribers" type="monotone" dataKey="subscribersGained" name="Subscribers gained" stroke="hsl(var(--chart-2))" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="space-y-3">
+                  <h3 className="font-semibold">Traffic Sources</h3>
+                  {report.trafficSources.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No traffic in this period.</p>
+                  ) : report.trafficSources.map(source => {
+                    const share = totalTrafficViews > 0 ? (source.views / totalTrafficViews) * 100 : 0;
+                    return (
+                      <div key={source.source} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span>{TRAFFIC_SOURCE_LABELS[source.source] || source.source}</span>
+                          <span className="text-muted-foreground">{source.views.toLocaleString()} views · {share.toFixed(1)}%</span>
+                        </div>
+                        <Progress value={share} className="h-2" />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="space-y-3">
+                  <h3 className="font-semibold flex items-center gap-2"><Globe className="h-4 w-4" /> Top Countries</h3>
+                  {report.countries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No geography data in this period.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Country</TableHead>
+                          <TableHead className="text-right">Views</TableHead>
+                          <TableHead className="text-right">Watch Time</TableHead>
+                          <TableHead className="text-right">Avg. Duration</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.countries.slice(0, 10).map(country => (
+                          <TableRow key={country.country}>
+                            <TableCell>{formatCountry(country.country)}</TableCell>
+                            <TableCell className="text-right">{country.views.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">{formatWatchHours(country.estimatedMinutesWatched)}</TableCell>
+                            <TableCell className="text-right">{formatDuration(country.averageViewDuration)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </div>
+
+              {report.topVideos.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold">Top Videos by Watch Time</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Video</TableHead>
+                        <TableHead className="text-right">Views</TableHead>
+                        <TableHead className="text-right">Watch Time</TableHead>
+                        <TableHead className="text-right">Avg. Duration</TableHead>
+                        <TableHead className="text-right">Avg. Viewed</TableHead>
+                        <TableHead className="text-right">Retention at 25/50/75%</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.topVideos.map(video => (
+                        <TableRow key={video.videoId}>
+                          <TableCell>
+                            <a href={`https://www.youtube.com/watch?v=${video.videoId}`} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">{video.videoId}</a>
+                          </TableCell>
+                          <TableCell className="text-right">{video.views.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{formatWatchHours(video.estimatedMinutesWatched)}</TableCell>
+                          <TableCell className="text-right">{formatDuration(video.averageViewDuration)}</TableCell>
+                          <TableCell className="text-right">{video.averageViewPercentage.toFixed(1)}%</TableCell>
+                          <TableCell className="text-right">{describeRetention(video.retention)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default YouTubeAnalyticsSection;
@@ -2,40 +2,86 @@
 "use client";
 
 import type { YouTubeVideo } from '@/lib/mockData';
+import type { StoredYouTubeVideo } from '@/lib/youtubeVideoAnalyticsService';
+import { getYouTubeVideoFormat } from '@shared/youtubeVideoDetails';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import Image from 'next/image';
-import { ThumbsUp, MessageSquare, Eye, CalendarDays, Link as LinkIcon, FileText, Wand2, Loader2 as SpinnerIcon } from 'lucide-react'; // Added FileText/Wand2, SpinnerIcon
+import { ThumbsUp, MessageSquare, Eye, CalendarDays, History, Link as LinkIcon, FileText, Wand2, Loader2 as SpinnerIcon, DownloadCloud } from 'lucide-react'; // Added FileText/Wand2, SpinnerIcon
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog'; // Added Dialog components
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { fetchYouTubeComments, type YouTubeComment } from '@/ai/flows/fetch-youtube-comments-flow';
+import {
+  enqueueCommentIngestionJob,
+  getStoredYouTubeComments,
+  isCommentIngestionJobFinished,
+  subscribeToCommentIngestionJob,
+  type CommentIngestionJobWithId,
+  type CommentIngestionState,
+  type StoredYouTubeComment,
+} from '@/lib/youtubeCommentService';
 import { analyzeVideoText, type VideoTextAnalysisOutput } from '@/ai/flows/analyze-video-text-flow'; // Added NLP flow
 import CommentDisplay from './CommentDisplay';
 import NLPReportDisplay from './NLPReportDisplay'; // Added NLP Report Display
 import { Button } from '@/components/ui/button';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast'; // For error notifications
+import { useAuth } from '@/hooks/useAuth';
 
 interface YouTubeCardProps {
-  video: YouTubeVideo;
+  video: YouTubeVideo & Pick<StoredYouTubeVideo, 'lastCheckedAt' | 'lastChangedAt' | 'durationSeconds' | 'liveBroadcastContent' | 'commentIngestion'>;
+  userId: string; // Owner of the video's analytics, whose stored comments are shown
 }
 
-const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
+// The NLP analysis reads the most liked stored comments, up to this many.
+const ANALYSIS_COMMENT_LIMIT = 200;
+const PLACEHOLDER_AVATAR_URL = 'https://placehold.co/40x40.png';
+
+// Maps a stored comment to the shape the NLP analysis flow expects, using the plain text.
+const toAnalysisComment = (comment: StoredYouTubeComment): YouTubeComment => ({
+  id: comment.id,
+  authorDisplayName: comment.authorDisplayName,
+  authorProfileImageUrl: comment.authorProfileImageUrl || PLACEHOLDER_AVATAR_URL,
+  textDisplay: comment.textOriginal,
+  publishedAt: comment.publishedAt,
+  likeCount: comment.likeCount,
+  totalReplyCount: comment.totalReplyCount || 0,
+});
+
+// Formats a duration as "m:ss", or "h:mm:ss" from an hour.
+const formatDuration = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const formatRefreshTime = (isoString?: string) => {
+  if (!isoString) return null;
+  const date = new Date(isoString);
+  return isNaN(date.getTime()) ? null : formatDistanceToNow(date, { addSuffix: true });
+};
+
+const YouTubeCard: React.FC<YouTubeCardProps> = ({ video, userId }) => {
   const [isCommentsPopoverOpen, setIsCommentsPopoverOpen] = useState(false);
-  const [commentsData, setCommentsData] = useState<YouTubeComment[]>([]);
+  const [storedComments, setStoredComments] = useState<StoredYouTubeComment[] | null>(null); // null until loaded
   const [isCommentsLoading, setIsCommentsLoading] = useState(false);
   const [commentsError, setCommentsError] = useState<string | null>(null);
+  const [ingestionJob, setIngestionJob] = useState<CommentIngestionJobWithId | null>(null);
+  const [ingestionState, setIngestionState] = useState<CommentIngestionState | undefined>(video.commentIngestion);
 
   const [isAnalysisDialogOpen, setIsAnalysisDialogOpen] = useState(false);
   const [nlpAnalysisResult, setNlpAnalysisResult] = useState<VideoTextAnalysisOutput | null>(null);
   const [isNlpLoading, setIsNlpLoading] = useState(false);
   const [nlpError, setNlpError] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  const ensureCommentsFetched = async (): Promise<YouTubeComment[]> => {
-    if (commentsData.length > 0 && !commentsError) {
-      return commentsData;
-    }
+  useEffect(() => {
+    setIngestionState(video.commentIngestion);
+  }, [video.commentIngestion]);
+
+  const loadStoredComments = async (): Promise<StoredYouTubeComment[]> => {
     if (!video.id) {
       setCommentsError("Video ID is missing for fetching comments.");
       throw new Error("Video ID is missing for fetching comments.");
@@ -43,17 +89,35 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
     setIsCommentsLoading(true);
     setCommentsError(null);
     try {
-      const result = await fetchYouTubeComments({ videoId: video.id });
-      setCommentsData(result.comments);
-      setIsCommentsLoading(false);
-      return result.comments;
+      const comments = await getStoredYouTubeComments(userId, video.id);
+      setStoredComments(comments);
+      return comments;
     } catch (error: any) {
-      console.error("Error fetching comments:", error);
       const newError = error.message || "Failed to load comments.";
       setCommentsError(newError);
-      setCommentsData([]);
-      setIsCommentsLoading(false);
+      setStoredComments(null);
       throw new Error(newError); // Re-throw for NLP flow to catch
+    } finally {
+      setIsCommentsLoading(false);
+    }
+  };
+
+  // Prefers the stored comments; videos without stored comments fall back to a live sample of 10.
+  const ensureCommentsFetched = async (): Promise<YouTubeComment[]> => {
+    const comments = storedComments && !commentsError ? storedComments : await loadStoredComments();
+    if (comments.length > 0) {
+      return comments
+        .filter(comment => !comment.parentId)
+        .sort((a, b) => b.likeCount - a.likeCount)
+        .slice(0, ANALYSIS_COMMENT_LIMIT)
+        .map(toAnalysisComment);
+    }
+    try {
+      const result = await fetchYouTubeComments({ videoId: video.id });
+      return result.comments;
+    } catch (error: any) {
+      console.error("Error fetching comments:", error);
+      throw new Error(error.message || "Failed to load comments.");
     }
   };
 
@@ -64,10 +128,42 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
       return;
     }
     // Only fetch if not already loading and no data/error yet
-    if (!isCommentsLoading && (commentsData.length === 0 || commentsError)) {
-      await ensureCommentsFetched().catch(() => { /* Error handled by ensureCommentsFetched */ });
+    if (!isCommentsLoading && (storedComments === null || commentsError)) {
+      await loadStoredComments().catch(() => { /* Error handled by loadStoredComments */ });
     }
   };
+
+  // Follows a queued ingestion until it finishes, then reloads the stored comments.
+  useEffect(() => {
+    if (!ingestionJob || isCommentIngestionJobFinished(ingestionJob)) return;
+    const unsubscribe = subscribeToCommentIngestionJob(ingestionJob.id, (job) => {
+      if (!job) return;
+      setIngestionJob(job);
+      if (job.status === 'completed' && job.result) {
+        setIngestionState(job.result);
+        loadStoredComments().catch(() => { /* Error handled by loadStoredComments */ });
+        toast({
+          title: "Comments Updated",
+          description: job.result.error || `${job.result.storedComments.toLocaleString()} comments stored${job.result.capped ? ' (capped)' : ''}.`,
+          variant: job.result.error ? "destructive" : "default",
+        });
+      } else if (job.status === 'failed') {
+        toast({ title: "Comment Fetch Failed", description: job.error || "The comment ingestion failed.", variant: "destructive" });
+      }
+      if (isCommentIngestionJobFinished(job)) unsubscribe();
+    });
+    return unsubscribe;
+  }, [ingestionJob?.id]);
+
+  const handleIngestComments = async () => {
+    try {
+      setIngestionJob(await enqueueCommentIngestionJob(userId, video.id, user?.id));
+    } catch (error: any) {
+      toast({ title: "Comment Fetch Failed", description: error.message || "Could not queue the comment ingestion.", variant: "destructive" });
+    }
+  };
+
+  const isIngesting = !!ingestionJob && !isCommentIngestionJobFinished(ingestionJob);
   
   const handleAnalyzeText = async () => {
     if (!video.id || !video.title) {
@@ -103,6 +199,8 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
 
 
   const videoUrl = `https://www.youtube.com/watch?v=${video.id}`;
+  const videoFormat = getYouTubeVideoFormat(video);
+  const isLive = video.liveBroadcastContent === 'live' || video.liveBroadcastContent === 'upcoming';
 
   return (
     <Card className="overflow-hidden shadow-lg hover:shadow-xl hover:scale-105 transition-shadow transition-transform duration-300 flex flex-col">
@@ -116,6 +214,12 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
             data-ai-hint="video thumbnail"
             unoptimized={!!video.thumbnailUrl?.includes('i.ytimg.com')}
           />
+          {(isLive || videoFormat !== 'unknown') && (
+            <span className="absolute bottom-1.5 right-1.5 rounded bg-black/75 px-1.5 py-0.5 text-xs font-medium text-white">
+              {isLive ? (video.liveBroadcastContent === 'live' ? 'LIVE' : 'Upcoming')
+                : `${videoFormat === 'short' ? 'Short · ' : ''}${formatDuration(video.durationSeconds || 0)}`}
+            </span>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-4 flex-grow">
@@ -138,6 +242,15 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
               : 'Date N/A'}
           </span>
         </div>
+        {formatRefreshTime(video.lastCheckedAt) && (
+          <div className="flex items-center text-xs text-muted-foreground mb-2" title="Checked: last refresh. Changed: last refresh that found new numbers or details.">
+            <History className="h-3.5 w-3.5 mr-1.5 text-accent" />
+            <span>
+              Checked {formatRefreshTime(video.lastCheckedAt)}
+              {formatRefreshTime(video.lastChangedAt) && ` · Changed ${formatRefreshTime(video.lastChangedAt)}`}
+            </span>
+          </div>
+        )}
         <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground mt-2">
           <div className="flex items-center">
             <Eye className="h-4 w-4 mr-1.5 text-primary" />
@@ -160,13 +273,29 @@ const YouTubeCard: React.FC<YouTubeCardProps> = ({ video }) => {
                 {video.comments?.toLocaleString() || '0'}
               </Button>
             </PopoverTrigger>
-            <PopoverContent className="w-80 max-h-96" side="bottom" align="start">
+            <PopoverContent className="w-[26rem]" side="bottom" align="start">
               <CommentDisplay
-                comments={commentsData}
+                comments={storedComments || []}
                 isLoading={isCommentsLoading}
                 error={commentsError}
                 onRetry={handleFetchCommentsForPopover}
+                emptyMessage={ingestionState?.unavailable
+                  ? "Comments are disabled for this video, or the video is no longer available."
+                  : ingestionState ? "This video has no comments yet." : "Comments have not been fetched for this video yet."}
               />
+              <div className="flex items-center justify-between gap-2 border-t mt-2 pt-2 px-1">
+                <span className="text-xs text-muted-foreground">
+                  {isIngesting
+                    ? `Fetching comments... ${(ingestionJob?.listedComments || 0).toLocaleString()} listed`
+                    : ingestionState
+                      ? `Fetched ${formatRefreshTime(ingestionState.lastIngestedAt)}${ingestionState.capped ? ' · capped' : ''}`
+                      : 'Not fetched yet'}
+                </span>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleIngestComments} disabled={isIngesting || !video.id}>
+                  {isIngesting ? <SpinnerIcon className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <DownloadCloud className="mr-1.5 h-3.5 w-3.5" />}
+                  {ingestionState ? 'Update comments' : 'Fetch all comments'}
+                </Button>
+              </div>
             </PopoverContent>
           </Popover>
         </div>
@@ -0,0 +1,24 @@
+import { Bookmark, Eye, Heart, MessageCircle, Music2, Share2, type LucideIcon } from 'lucide-react';
+import type { PlatformId } from '@shared/platforms';
+
+// How a platform module is shown in the app. Every platform in PLATFORM_MODULES needs an entry.
+export interface PlatformDisplay {
+  icon: LucideIcon;
+  colorClassName: string; // Text color of the platform's icons
+  metricIcons: Record<string, LucideIcon>; // By metric key; metrics without an icon use the platform icon
+}
+
+export const PLATFORM_DISPLAY: Record<PlatformId, PlatformDisplay> = {
+  tiktok: {
+    icon: Music2,
+    colorClassName: 'text-cyan-500',
+    metricIcons: { views: Eye, likes: Heart, comments: MessageCircle, shares: Share2, saves: Bookmark },
+  },
+};
+
+/**
+ * Returns the page of a platform module's platform.
+ * @param platformId The platform.
+ * @returns The path, e.g. '/platforms/tiktok'.
+ */
+export const getPlatformPagePath = (platformId: PlatformId): string => `/platforms/${platformId}`;
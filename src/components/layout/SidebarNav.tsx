@@ -23,8 +23,11 @@ import {
   KeyRound,
   BarChart3,
   Link2, // For UTM tracker
+  Activity,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { PLATFORM_MODULES } from '@shared/platforms';
+import { PLATFORM_DISPLAY, getPlatformPagePath } from '@/components/analytics/platformDisplay';
 
 const SidebarNav = () => {
   const pathname = usePathname();
@@ -35,6 +38,11 @@ const SidebarNav = () => {
     { href: '/analytics', label: 'Overall Analytics', icon: BarChart3 },
     { href: '/youtube', label: 'YouTube Management', icon: Youtube },
     { href: '/instagram', label: 'Instagram Analytics', icon: Instagram },
+    ...PLATFORM_MODULES.map(platformModule => ({
+      href: getPlatformPagePath(platformModule.id),
+      label: `${platformModule.name} Analytics`,
+      icon: PLATFORM_DISPLAY[platformModule.id].icon,
+    })),
     { href: '/suggestions', label: 'AI Suggestions', icon: Lightbulb },
     { href: '/utm-tracker', label: 'UTM Tracker', icon: Link2 },
   ];
@@ -42,6 +50,7 @@ const SidebarNav = () => {
   const adminNavItems = [
     { href: '/admin/users', label: 'User Management', icon: Users },
     { href: '/admin/api-management', label: 'API Management', icon: KeyRound },
+    { href: '/admin/operations', label: 'Operations', icon: Activity },
   ];
 
   return (
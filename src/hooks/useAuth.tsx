@@ -1,61 +1,81 @@
 
 "use client";
 
-import type { User } from '@/lib/authService';
+import type { SessionUser } from '@/lib/session';
+import { SESSION_REFRESH_AFTER_SECONDS } from '@shared/sessions';
 import {
-  loginWithEmailPassword as apiLogin,
+  getSessionUser,
   logoutService as apiLogout,
-} from '@/lib/authService';
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+  signInToFirestore,
+  signOutOfFirestore,
+  startSession as apiStartSession,
+} from '@/lib/sessionService';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 
 interface AuthContextType {
-  user: User | null;
+  user: SessionUser | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<boolean>;
+  loginWithCode: (email: string, code: string) => Promise<boolean>;
   logout: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
   const pathname = usePathname();
 
-  useEffect(() => {
-    setIsLoading(true);
-    const storedUser = localStorage.getItem('currentUser');
-    if (storedUser) {
-      try {
-        const parsedUser: User = JSON.parse(storedUser);
-        setUser(parsedUser);
-      } catch (e) {
-        localStorage.removeItem('currentUser');
-        setUser(null);
-      }
-    }
-    setIsLoading(false);
+  // The session lives in an HTTP-only cookie, so the user is read from the server, which also extends the session.
+  // Firestore is signed in to as the same user, or signed out of when the session has ended.
+  const loadSession = useCallback(async () => {
+    const sessionUser = await getSessionUser();
+    await (sessionUser ? signInToFirestore(sessionUser) : signOutOfFirestore());
+    setUser(sessionUser);
   }, []);
 
+  useEffect(() => {
+    // Profiles were cached here before sessions moved to a cookie
+    localStorage.removeItem('currentUser');
+    loadSession().finally(() => setIsLoading(false));
+  }, [loadSession]);
+
+  useEffect(() => {
+    // Notices sessions that expired or ended in another tab while this one was in the background
+    const onFocus = () => {
+      loadSession();
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [loadSession]);
+
+  useEffect(() => {
+    // Extends the session of a tab in use, and picks up role changes, without waiting for a reload or focus
+    const interval = window.setInterval(loadSession, SESSION_REFRESH_AFTER_SECONDS * 1000);
+    return () => window.clearInterval(interval);
+  }, [loadSession]);
+
   useEffect(() => {
     if (!isLoading) {
       if (!user && pathname !== '/login') {
-        // Redirection to /login is handled by HomePage or ProtectedRoute components
+        // Redirection to /login is handled by the middleware and ProtectedRoute components
       } else if (user && pathname === '/login') {
         router.replace('/dashboard');
       }
     }
   }, [user, isLoading, pathname, router]);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  // Starts a session with the given credentials; false means they were rejected.
+  const startSession = async (credentials: Parameters<typeof apiStartSession>[0]): Promise<boolean> => {
     setIsLoading(true);
     try {
-      const loggedInUser = await apiLogin(email, password);
+      const loggedInUser = await apiStartSession(credentials);
       if (loggedInUser) {
+        await signInToFirestore(loggedInUser);
         setUser(loggedInUser);
-        localStorage.setItem('currentUser', JSON.stringify(loggedInUser));
         setIsLoading(false);
         router.push('/dashboard');
         return true;
@@ -68,16 +88,23 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const login = (email: string, password: string): Promise<boolean> =>
+    startSession({ email, password });
+
+  const loginWithCode = (email: string, code: string): Promise<boolean> =>
+    startSession({ email, code });
+
   const logout = async () => {
     setIsLoading(true);
     await apiLogout();
+    await signOutOfFirestore();
     setUser(null);
     router.push('/login');
     setIsLoading(false);
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, login, loginWithCode, logout }}>
       {children}
     </AuthContext.Provider>
   );
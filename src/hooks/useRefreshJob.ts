@@ -0,0 +1,67 @@
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  enqueueRefreshJob,
+  isRefreshJobFinished,
+  subscribeToActiveRefreshJob,
+  subscribeToRefreshJob,
+  type RefreshJob,
+  type RefreshPlatform,
+} from '@/lib/refreshJobService';
+
+/**
+ * Tracks the server-side refresh job for a user's feed on one platform. Picks up jobs
+ * that are already running (started earlier or by another admin) and follows them to completion.
+ * @param userId The ID of the user whose feed is shown.
+ * @param platform The platform of the feed.
+ * @param onFinished Called once when a tracked job completes or fails.
+ */
+export function useRefreshJob(
+  userId: string | undefined,
+  platform: RefreshPlatform,
+  onFinished: (job: RefreshJob) => void
+) {
+  const [trackedJobId, setTrackedJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<RefreshJob | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setTrackedJobId(null);
+    setJob(null);
+    if (!userId) return;
+    return subscribeToActiveRefreshJob(userId, platform, (activeJob) => {
+      if (activeJob) setTrackedJobId(activeJob.id);
+    });
+  }, [userId, platform]);
+
+  useEffect(() => {
+    if (!trackedJobId) return;
+    return subscribeToRefreshJob(trackedJobId, (updatedJob) => {
+      setJob(updatedJob);
+      if (!updatedJob) {
+        setTrackedJobId(null);
+      } else if (isRefreshJobFinished(updatedJob)) {
+        setTrackedJobId(null);
+        onFinishedRef.current(updatedJob);
+      }
+    });
+  }, [trackedJobId]);
+
+  const startRefresh = useCallback(async (requestedBy?: string): Promise<RefreshJob | null> => {
+    if (!userId) return null;
+    const queuedJob = await enqueueRefreshJob(userId, platform, requestedBy);
+    if (queuedJob) {
+      setJob(queuedJob);
+      setTrackedJobId(queuedJob.id);
+    }
+    return queuedJob;
+  }, [userId, platform]);
+
+  const isRefreshing = trackedJobId !== null;
+  const progress = job && job.totalItems > 0 ? (job.processedItems / job.totalItems) * 100 : 0;
+
+  return { job, isRefreshing, progress, startRefresh };
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts. In fixture mode (API_FIXTURE_MODE=replay or record), the server's
+ * fetch is wrapped so that YouTube and RapidAPI responses are replayed from, or recorded into, fixtures/api.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { installApiFixtures } = await import('@shared/apiFixtureFiles');
+    installApiFixtures();
+  }
+}
@@ -0,0 +1,31 @@
+
+import { createFixtureProxyFetch, parseApiFixtureMode, withFixtureKey } from '@shared/apiFixtures';
+
+// Inlined into the browser bundle through the 'env' setting in next.config.ts.
+export const API_FIXTURE_MODE = parseApiFixtureMode(process.env.API_FIXTURE_MODE);
+
+export const API_FIXTURE_ENDPOINT = '/api/fixtures';
+
+/**
+ * Returns the configured API key, or a placeholder in fixture replay mode so the app runs without keys.
+ * @param key The key read from the 'apiKeys' collection, if any.
+ * @returns The key to use, or null if it is missing and fixtures are not replayed.
+ */
+export const resolveApiKey = (key: string | null | undefined): string | null => withFixtureKey(key, API_FIXTURE_MODE);
+
+/**
+ * Sends the browser's requests to recorded APIs (e.g. YouTube channel lookups) through the fixture endpoint,
+ * which replays or records them on the server. Does nothing on the server or when fixtures are off;
+ * the server wraps its own fetch in src/instrumentation.ts.
+ */
+export const installBrowserApiFixtures = (): void => {
+  if (typeof window === 'undefined' || API_FIXTURE_MODE === 'off') {
+    return;
+  }
+  const browserWindow = window as typeof window & { __apiFixturesInstalled?: boolean };
+  if (browserWindow.__apiFixturesInstalled) {
+    return;
+  }
+  browserWindow.fetch = createFixtureProxyFetch(API_FIXTURE_ENDPOINT, browserWindow.fetch.bind(browserWindow));
+  browserWindow.__apiFixturesInstalled = true;
+};
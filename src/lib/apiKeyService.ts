@@ -1,9 +1,14 @@
 
+'use server';
+
 import { db } from './firebase';
+import { requireAdmin } from './authorization';
 import {
   doc, getDoc, setDoc, collection, getDocs, deleteDoc, updateDoc, Timestamp, query, orderBy
 } from 'firebase/firestore';
 
+// Server actions for API Management. Only the server may read 'apiKeys' (see firestore.rules), and only admins may call these.
+
 export interface ApiKey {
   id: string;
   serviceName: string;
@@ -14,6 +19,7 @@ export interface ApiKey {
 }
 
 export const addApiKey = async (apiKeyData: Omit<ApiKey, 'id' | 'createdAt'>): Promise<ApiKey | null> => {
+  await requireAdmin();
   try {
     const newApiKeyId = doc(collection(db, 'apiKeys')).id;
     const newApiKey: ApiKey = {
@@ -30,6 +36,7 @@ export const addApiKey = async (apiKeyData: Omit<ApiKey, 'id' | 'createdAt'>): P
 };
 
 export const getAllApiKeys = async (): Promise<ApiKey[]> => {
+  await requireAdmin();
   try {
     const apiKeysCollectionRef = collection(db, 'apiKeys');
     const q = query(apiKeysCollectionRef, orderBy('createdAt', 'desc'));
@@ -46,6 +53,7 @@ export const getAllApiKeys = async (): Promise<ApiKey[]> => {
 };
 
 export const updateApiKey = async (apiKeyId: string, apiKeyData: Partial<Omit<ApiKey, 'id' | 'createdAt'>>): Promise<boolean> => {
+  await requireAdmin();
   try {
     const apiKeyRef = doc(db, 'apiKeys', apiKeyId);
     await updateDoc(apiKeyRef, apiKeyData);
@@ -57,6 +65,7 @@ export const updateApiKey = async (apiKeyId: string, apiKeyData: Partial<Omit<Ap
 };
 
 export const deleteApiKey = async (apiKeyId: string): Promise<boolean> => {
+  await requireAdmin();
   try {
     const apiKeyRef = doc(db, 'apiKeys', apiKeyId);
     await deleteDoc(apiKeyRef);
@@ -1,14 +1,13 @@
+'use server';
 
-import { db } from './firebase';
-import {
-  doc, getDoc, setDoc, collection, getDocs, deleteDoc, updateDoc, query, where, limit
-} from 'firebase/firestore';
+import { functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { requireAdmin, requireSessionToken } from './authorization';
 
-// User type for the application
+// User type for the application. Passwords are hashed and verified by Cloud Functions and never reach the browser.
 export interface User {
   id: string; // Firestore document ID
   email: string;
-  password: string; // Storing plaintext passwords
   role: 'user' | 'admin';
   name: string;
   lastLogin: string; // ISO string
@@ -16,108 +15,177 @@ export interface User {
   gaPropertyId?: string; // Google Analytics Property ID
 }
 
-// Fetch user profile from Firestore by email (for direct login)
-const fetchUserProfileByEmail = async (email: string): Promise<User | null> => {
-  const usersRef = collection(db, 'users');
-  const q = query(usersRef, where("email", "==", email.toLowerCase()), limit(1));
-  const querySnapshot = await getDocs(q);
+// Profile fields and password sent when an admin creates or edits a user.
+export type UserAccountInput = Omit<User, 'id' | 'lastLogin'> & { password?: string };
 
-  if (querySnapshot.empty) {
-    return null;
-  }
-  const userDoc = querySnapshot.docs[0];
-  return { id: userDoc.id, ...userDoc.data() } as User;
+export interface PasswordMigrationResult {
+  migrated: number; // Plaintext passwords that were hashed
+  alreadyHashed: number;
+  withoutPassword: number;
+}
+
+// Credential fields that may still be on user documents; they are dropped from every profile the app keeps.
+const CREDENTIAL_FIELDS = ['password', 'passwordHash'];
+
+/**
+ * Removes credential fields from a user profile, in case a Cloud Function returns one with them.
+ * @param profile The profile data.
+ * @returns The profile without credential fields.
+ */
+const toPublicUser = (profile: Record<string, any>): User => {
+  const publicProfile = { ...profile };
+  CREDENTIAL_FIELDS.forEach(field => delete publicProfile[field]);
+  return publicProfile as User;
 };
 
 
-// LOGIN METHOD: Checks credentials directly against Firestore
+// LOGIN METHOD: Credentials are verified by the 'loginWithPassword' Cloud Function. Called by '/api/auth/login', which starts the session.
 export const loginWithEmailPassword = async (email: string, passwordInput: string): Promise<User | null> => {
   try {
-    const userProfile = await fetchUserProfileByEmail(email);
-
-    if (userProfile) {
-      if (userProfile.password === passwordInput) {
-        const userRef = doc(db, 'users', userProfile.id);
-        const lastLoginTime = new Date().toISOString();
-        await updateDoc(userRef, { lastLogin: lastLoginTime });
-        return { ...userProfile, lastLogin: lastLoginTime };
-      } else {
-        // Passwords do not match
-        return null;
-      }
-    } else {
-      // No user profile found
+    const callable = httpsCallable<{ email: string; password: string }, User>(functions, 'loginWithPassword');
+    const result = await callable({ email: email.toLowerCase(), password: passwordInput });
+    return toPublicUser(result.data);
+  } catch (error: any) {
+    if (error?.code === 'functions/unauthenticated') {
+      // Unknown email or wrong password
       return null;
     }
-  } catch (error) {
-    console.error("[AuthService] Error during direct Firestore login attempt:", error);
+    console.error("[AuthService] Error during login attempt:", error);
+    throw error;
+  }
+};
+
+/**
+ * Asks the 'requestLoginCode' Cloud Function to email a one-time login code. It answers the same way
+ * whether or not the email belongs to a user.
+ * @param email The email address to send the code to.
+ * @returns How many minutes the code stays valid.
+ */
+export const requestLoginCode = async (email: string): Promise<{ expiresInMinutes: number }> => {
+  try {
+    const callable = httpsCallable<{ email: string }, { expiresInMinutes: number }>(functions, 'requestLoginCode');
+    const result = await callable({ email: email.toLowerCase() });
+    return result.data;
+  } catch (error: any) {
+    console.error("[AuthService] Error requesting a login code:", error);
+    throw new Error(error?.message || "The login code could not be sent.");
+  }
+};
+
+/**
+ * Checks a one-time code with the 'verifyLoginCode' Cloud Function. Called by '/api/auth/login', which starts the session.
+ * @param email The email address the code was sent to.
+ * @param code The code from the email.
+ * @returns The user's profile, or null if the code is wrong or has expired.
+ */
+export const loginWithEmailCode = async (email: string, code: string): Promise<User | null> => {
+  try {
+    const callable = httpsCallable<{ email: string; code: string }, User>(functions, 'verifyLoginCode');
+    const result = await callable({ email: email.toLowerCase(), code });
+    return toPublicUser(result.data);
+  } catch (error: any) {
+    if (error?.code === 'functions/unauthenticated') {
+      return null;
+    }
+    console.error("[AuthService] Error during login code verification:", error);
+    throw error;
+  }
+};
+
+/**
+ * Reads the current profile of a session's user with the 'reloadSessionUser' Cloud Function. Called by
+ * '/api/auth/session' before it extends the session, so that the new cookie holds the current role.
+ * @param sessionToken The session cookie value.
+ * @returns The user's profile, or null if the session is invalid or the user no longer exists.
+ */
+export const reloadSessionUser = async (sessionToken: string): Promise<User | null> => {
+  try {
+    const callable = httpsCallable<{ sessionToken: string }, User>(functions, 'reloadSessionUser');
+    const result = await callable({ sessionToken });
+    return toPublicUser(result.data);
+  } catch (error: any) {
+    if (error?.code === 'functions/unauthenticated' || error?.code === 'functions/permission-denied') {
+      return null;
+    }
+    console.error("[AuthService] Error reloading the session's user:", error);
     throw error;
   }
 };
 
-export const logoutService = async (): Promise<void> => {
-  localStorage.removeItem('currentUser');
+/**
+ * Gets the caller's Firestore token from the 'createFirestoreToken' Cloud Function, which the browser signs in to
+ * Firebase Auth with so that firestore.rules know the user and their role.
+ * @returns The custom token.
+ */
+export const getFirestoreToken = async (): Promise<string> => {
+  const sessionToken = await requireSessionToken();
+  try {
+    const callable = httpsCallable<{ sessionToken: string }, { token: string }>(functions, 'createFirestoreToken');
+    const result = await callable({ sessionToken });
+    return result.data.token;
+  } catch (error: any) {
+    console.error("[AuthService] Error creating a Firestore token:", error);
+    throw new Error(error?.message || "Could not connect to the database.");
+  }
 };
 
+// Admin functions. They run on the server, check that the caller is an admin and forward the session to
+// the Cloud Functions, which check it again.
 
-// Admin functions
+/**
+ * Lists every user through the 'listUserAccounts' Cloud Function. Admin only.
+ * @returns The profiles, or an empty array if they could not be loaded.
+ */
 export const getAllUsers = async (): Promise<User[]> => {
+  await requireAdmin();
   try {
-    const usersCollectionRef = collection(db, 'users');
-    const querySnapshot = await getDocs(usersCollectionRef);
-    const users: User[] = [];
-    querySnapshot.forEach((docSnap) => {
-      users.push({ id: docSnap.id, ...docSnap.data() } as User);
-    });
-    return users;
+    const callable = httpsCallable<{ sessionToken: string }, User[]>(functions, 'listUserAccounts');
+    const result = await callable({ sessionToken: await requireSessionToken() });
+    return result.data.map(toPublicUser);
   } catch (error) {
     console.error("Error fetching all users:", error);
     return [];
   }
 };
 
-export const adminCreateUser = async (userData: Omit<User, 'id' | 'lastLogin'>): Promise<User | null> => {
+/**
+ * Creates a user through the 'createUserAccount' Cloud Function, which hashes the password. Admin only.
+ * @param userData The profile and password of the new user.
+ * @returns The new profile, or null if it could not be created.
+ */
+export const adminCreateUser = async (userData: UserAccountInput): Promise<User | null> => {
+  await requireAdmin();
   try {
-    const emailToStore = userData.email.toLowerCase();
-    const existingUser = await fetchUserProfileByEmail(emailToStore);
-    if (existingUser) {
-      throw new Error('Email already exists.');
-    }
-
-    const newUserId = doc(collection(db, 'users')).id;
-    const newUserProfile: User = {
-      id: newUserId,
-      email: emailToStore,
-      password: userData.password, // Storing password from form
-      name: userData.name,
-      role: userData.role,
-      lastLogin: new Date(0).toISOString(),
-      trackedChannels: userData.trackedChannels || { youtube: [], instagram: [] },
-    };
-
-    await setDoc(doc(db, 'users', newUserId), newUserProfile);
-    return newUserProfile;
-  } catch (error) {
-    console.error('[AuthService] Error creating user profile in Firestore (admin):', error);
-    if (error instanceof Error && error.message === 'Email already exists.') {
-        throw error;
+    const callable = httpsCallable<UserAccountInput & { sessionToken: string }, User>(functions, 'createUserAccount');
+    const result = await callable({ ...userData, email: userData.email.toLowerCase(), sessionToken: await requireSessionToken() });
+    return result.data;
+  } catch (error: any) {
+    console.error('[AuthService] Error creating user profile (admin):', error);
+    if (error?.code === 'functions/already-exists') {
+        throw new Error('Email already exists.');
     }
     return null;
   }
 };
 
-export const adminUpdateUser = async (userId: string, userData: Partial<Omit<User, 'id' | 'email'>>): Promise<boolean> => {
+/**
+ * Updates a user's name, role or password through the 'updateUserAccount' Cloud Function. Admin only.
+ * @param userId The ID of the user to update.
+ * @param userData The fields to change; an empty password keeps the current one.
+ * @returns True if the update succeeded.
+ */
+export const adminUpdateUser = async (
+  userId: string,
+  userData: Partial<Pick<UserAccountInput, 'name' | 'role' | 'password'>>
+): Promise<boolean> => {
+  await requireAdmin();
   try {
-    const userRef = doc(db, 'users', userId);
-    const updateData = { ...userData };
-
-    if ('password' in updateData && updateData.password && updateData.password.length > 0) {
-      // Password is being updated
-    } else {
-      delete updateData.password;
-    }
-    
-    await updateDoc(userRef, updateData);
+    const { name, role, password } = userData;
+    const callable = httpsCallable<{ sessionToken: string; userId: string; name?: string; role?: User['role']; password?: string }, { success: boolean }>(
+      functions,
+      'updateUserAccount'
+    );
+    await callable({ sessionToken: await requireSessionToken(), userId, ...(name && { name }), ...(role && { role }), ...(password && { password }) });
     return true;
   } catch (error) {
     console.error("Error updating user profile (admin):", error);
@@ -125,13 +193,40 @@ export const adminUpdateUser = async (userId: string, userData: Partial<Omit<Use
   }
 };
 
+/**
+ * Deletes a user's profile through the 'deleteUserAccount' Cloud Function. Admin only.
+ * @param userId The ID of the user to delete.
+ * @returns True if the user was deleted.
+ */
 export const adminDeleteUser = async (userId: string): Promise<boolean> => {
+  await requireAdmin();
   try {
-    const userRef = doc(db, 'users', userId);
-    await deleteDoc(userRef);
+    const callable = httpsCallable<{ sessionToken: string; userId: string }, { success: boolean }>(functions, 'deleteUserAccount');
+    await callable({ sessionToken: await requireSessionToken(), userId });
     return true;
   } catch (error) {
     console.error("Error deleting user profile (admin):", error);
     return false;
   }
 };
+
+/**
+ * Runs the one-time migration that hashes passwords still stored in plaintext, through the
+ * 'migratePlaintextPasswords' Cloud Function. Admin only; running it again changes nothing.
+ * @returns How many users were migrated.
+ */
+export const migratePlaintextPasswords = async (): Promise<PasswordMigrationResult> => {
+  await requireAdmin();
+  try {
+    const callable = httpsCallable<{ sessionToken: string }, PasswordMigrationResult>(
+      functions,
+      'migratePlaintextPasswords',
+      { timeout: 540 * 1000 }
+    );
+    const result = await callable({ sessionToken: await requireSessionToken() });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error migrating plaintext passwords:", error);
+    throw new Error(error?.message || "Failed to migrate the passwords.");
+  }
+};
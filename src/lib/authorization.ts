@@ -0,0 +1,97 @@
+import { cookies } from 'next/headers';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { SESSION_COOKIE_NAME, verifySessionToken, type SessionUser } from './session';
+import { ensureServerFirestoreAuth } from './serverFirestoreAuth';
+
+// Authorization for server actions and Genkit flows. The caller is taken from the session cookie, never from
+// arguments sent by the browser. Admin rights are checked against the user document, like the Cloud Functions
+// do, because the cookie's role can be up to an hour old. Only import this from server code.
+
+export type AuthorizationErrorCode = 'unauthenticated' | 'forbidden';
+
+// Thrown when the caller has no valid session ('unauthenticated') or may not access the data ('forbidden').
+export class AuthorizationError extends Error {
+  readonly code: AuthorizationErrorCode;
+
+  constructor(code: AuthorizationErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.code = code;
+  }
+}
+
+export const isAuthorizationError = (error: unknown): error is AuthorizationError =>
+  error instanceof AuthorizationError;
+
+const getSessionCookie = async (): Promise<string | undefined> =>
+  (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+
+/**
+ * Resolves the caller of the current server action or flow.
+ * @returns The session's user, or null without a valid session.
+ */
+export const getCaller = async (): Promise<SessionUser | null> =>
+  (await verifySessionToken(await getSessionCookie()))?.user ?? null;
+
+/**
+ * Requires a logged-in caller. Also signs the server in to Firestore, which the authorized code then uses.
+ * @returns The caller.
+ */
+export const requireCaller = async (): Promise<SessionUser> => {
+  const caller = await getCaller();
+  if (!caller) {
+    throw new AuthorizationError('unauthenticated', 'You must be logged in.');
+  }
+  await ensureServerFirestoreAuth();
+  return caller;
+};
+
+/**
+ * Tells whether a caller whose session says they are an admin still is. Call after requireCaller.
+ * @param caller The caller.
+ * @returns True if the user document still has the admin role.
+ */
+export const isCurrentAdmin = async (caller: SessionUser): Promise<boolean> => {
+  if (caller.role !== 'admin') return false;
+  const userSnap = await getDoc(doc(db, 'users', caller.id));
+  return userSnap.data()?.role === 'admin';
+};
+
+/**
+ * Requires an admin caller.
+ * @returns The caller.
+ */
+export const requireAdmin = async (): Promise<SessionUser> => {
+  const caller = await requireCaller();
+  if (!(await isCurrentAdmin(caller))) {
+    throw new AuthorizationError('forbidden', 'Only admins can do this.');
+  }
+  return caller;
+};
+
+/**
+ * Requires the caller to be the given user or an admin, for reading or changing that user's data.
+ * @param userId The ID of the user whose data is accessed.
+ * @returns The caller.
+ */
+export const requireUserAccess = async (userId: string): Promise<SessionUser> => {
+  const caller = await requireCaller();
+  if (caller.id !== userId && !(await isCurrentAdmin(caller))) {
+    console.warn(`[Authorization] User ${caller.id} was refused access to the data of user ${userId}.`);
+    throw new AuthorizationError('forbidden', "You can only access your own data.");
+  }
+  return caller;
+};
+
+/**
+ * Returns the caller's session token, for Cloud Functions that verify the session themselves.
+ * @returns The session cookie value.
+ */
+export const requireSessionToken = async (): Promise<string> => {
+  const token = await getSessionCookie();
+  if (!token || !(await verifySessionToken(token))) {
+    throw new AuthorizationError('unauthenticated', 'You must be logged in.');
+  }
+  return token;
+};
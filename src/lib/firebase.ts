@@ -1,7 +1,9 @@
 
 import { initializeApp, getApps, getApp } from 'firebase/app';
-// import { getAuth } from 'firebase/auth'; // Firebase Auth is no longer used directly for login
-import { getFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { connectFunctionsEmulator, getFunctions } from 'firebase/functions';
+import { installBrowserApiFixtures } from './apiFixtureService';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -16,9 +18,19 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase
-const app = !getApps().length ? initializeApp(firebaseConfig) : getApp();
-// const auth = getAuth(app); // Firebase Auth instance is no longer central to this insecure login mechanism
+const isNewApp = !getApps().length;
+const app = isNewApp ? initializeApp(firebaseConfig) : getApp();
+// Not used for logging in: browsers and the app's server sign in with custom tokens so firestore.rules can check them
+const auth = getAuth(app);
 const db = getFirestore(app);
+const functions = getFunctions(app);
 
-// Export only 'app' and 'db' as 'auth' is not used in the new direct login mechanism
-export { app, db };
+// Local development against the Firebase emulators (ports from firebase.json), optionally with recorded API fixtures.
+if (isNewApp && process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+  connectFirestoreEmulator(db, '127.0.0.1', 8080);
+  connectFunctionsEmulator(functions, '127.0.0.1', 5001);
+}
+installBrowserApiFixtures();
+
+export { app, auth, db, functions };
@@ -0,0 +1,2 @@
+// The workspace's Google Analytics 4 property. Campaigns of the UTM links are looked up in it.
+export const DEFAULT_GA_PROPERTY_ID = '475901241';
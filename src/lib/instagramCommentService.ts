@@ -0,0 +1,151 @@
+'use server';
+
+import { db } from './firebase';
+import { requireUserAccess } from './authorization';
+import { collection, doc, getDocs, writeBatch, type WriteBatch } from 'firebase/firestore';
+import type { InstagramComment } from '@shared/instagram';
+import { fetchInstagramComments } from '@/ai/flows/fetch-instagram-comments-flow';
+
+// Firestore batches hold at most 500 writes; one is kept free for the post document.
+const MAX_BATCH_WRITES = 499;
+
+// A comment stored in the 'comments' subcollection of a reel's analytics document, keyed by comment ID.
+export interface StoredInstagramComment extends InstagramComment {
+  shortcode: string;
+  fetchedAt: string; // ISO string of the fetch that last wrote the comment
+}
+
+// The outcome of the latest comment fetch, stored as 'commentFetch' on the reel's analytics document.
+export interface InstagramCommentFetchState {
+  lastFetchedAt: string; // ISO string
+  storedComments: number;
+  capped: boolean; // True when the fetch stopped at its cap before the last page
+  error?: string;
+}
+
+export interface InstagramCommentFetchResult {
+  comments: InstagramComment[];
+  capped: boolean;
+  fetchedSuccessfully: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * Retrieves the stored comments of a reel.
+ * Path: userInstagramPostAnalytics/{userId}/posts/{shortcode}/comments/{commentId}
+ * @param userId The ID of the user.
+ * @param shortcode The reel shortcode.
+ * @returns The stored comments in no particular order.
+ */
+export const getStoredInstagramComments = async (userId: string, shortcode: string): Promise<StoredInstagramComment[]> => {
+  if (!userId || !shortcode) {
+    console.warn("[InstagramService] User ID and shortcode are required to fetch stored comments.");
+    return [];
+  }
+  await requireUserAccess(userId);
+  try {
+    const commentsSnap = await getDocs(collection(db, 'userInstagramPostAnalytics', userId, 'posts', shortcode, 'comments'));
+    return commentsSnap.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as StoredInstagramComment));
+  } catch (error) {
+    console.error(`[InstagramService] Error fetching stored comments for post ${shortcode} of user ${userId}:`, error);
+    throw new Error("Failed to load the stored comments.");
+  }
+};
+
+/**
+ * Fetches a reel's comments through the configured Instagram provider and stores them with the reel.
+ * The comments are fetched on the server, so that what is stored is what Instagram returned.
+ * @param userId The ID of the user.
+ * @param shortcode The reel shortcode.
+ * @returns The outcome of the fetch.
+ * @throws If no comments could be fetched.
+ */
+export const fetchAndSaveInstagramComments = async (userId: string, shortcode: string): Promise<InstagramCommentFetchState> => {
+  if (!userId || !shortcode) {
+    console.error("[InstagramService] User ID and shortcode are required to fetch comments.");
+    throw new Error("User ID and shortcode are required.");
+  }
+  await requireUserAccess(userId);
+  const result = await fetchInstagramComments({ shortcode });
+  if (!result.fetchedSuccessfully && result.comments.length === 0) {
+    throw new Error(result.errorMessage || "Failed to fetch comments.");
+  }
+  return saveInstagramComments(userId, shortcode, result);
+};
+
+/**
+ * Stores the comments fetched for a reel. Only new comments and comments with a changed text or like count
+ * are written. Stored comments missing from a complete fetch were deleted on Instagram and are removed;
+ * after a capped or failed fetch they are kept. The outcome is stored as 'commentFetch' on the reel.
+ * @param userId The ID of the user.
+ * @param shortcode The reel shortcode.
+ * @param result The fetched comments, as returned by the fetchInstagramComments flow.
+ * @returns The outcome of the fetch.
+ */
+const saveInstagramComments = async (
+  userId: string,
+  shortcode: string,
+  result: InstagramCommentFetchResult
+): Promise<InstagramCommentFetchState> => {
+  try {
+    const postDocRef = doc(db, 'userInstagramPostAnalytics', userId, 'posts', shortcode);
+    const stored = new Map((await getStoredInstagramComments(userId, shortcode)).map(comment => [comment.id, comment]));
+    const fetchedAt = new Date().toISOString();
+
+    const batches: WriteBatch[] = [writeBatch(db)];
+    let writesInBatch = 0;
+    const nextBatch = (): WriteBatch => {
+      if (writesInBatch === MAX_BATCH_WRITES) {
+        batches.push(writeBatch(db));
+        writesInBatch = 0;
+      }
+      writesInBatch++;
+      return batches[batches.length - 1];
+    };
+
+    const seen = new Set<string>();
+    for (const comment of result.comments) {
+      if (seen.has(comment.id)) continue;
+      seen.add(comment.id);
+      const storedComment = stored.get(comment.id);
+      if (storedComment && storedComment.text === comment.text && storedComment.likeCount === comment.likeCount) continue;
+      // Optional fields are left out rather than stored as undefined, which Firestore rejects
+      const commentToSave: StoredInstagramComment = {
+        id: comment.id,
+        text: comment.text,
+        likeCount: comment.likeCount,
+        ...(comment.username && { username: comment.username }),
+        ...(comment.postedAt && { postedAt: comment.postedAt }),
+        ...(comment.parentId && { parentId: comment.parentId }),
+        shortcode,
+        fetchedAt,
+      };
+      nextBatch().set(doc(postDocRef, 'comments', comment.id), commentToSave);
+    }
+
+    let deletedComments = 0;
+    if (result.fetchedSuccessfully && !result.capped) {
+      stored.forEach((_, id) => {
+        if (seen.has(id)) return;
+        nextBatch().delete(doc(postDocRef, 'comments', id));
+        deletedComments++;
+      });
+    }
+
+    const state: InstagramCommentFetchState = {
+      lastFetchedAt: fetchedAt,
+      storedComments: stored.size + Array.from(seen).filter(id => !stored.has(id)).length - deletedComments,
+      capped: result.capped,
+      ...(!result.fetchedSuccessfully && { error: result.errorMessage || 'The comments could not be fetched completely.' }),
+    };
+    batches[batches.length - 1].update(postDocRef, { commentFetch: state });
+    for (const batch of batches) {
+      await batch.commit();
+    }
+    console.log(`[InstagramService] Stored ${state.storedComments} comment(s) for post ${shortcode} of user ${userId}.`);
+    return state;
+  } catch (error) {
+    console.error(`[InstagramService] Error saving comments for post ${shortcode} of user ${userId}:`, error);
+    throw error;
+  }
+};
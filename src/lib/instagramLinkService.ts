@@ -1,10 +1,18 @@
 
 import { db } from './firebase';
 import { doc, getDoc, setDoc, updateDoc, arrayRemove } from 'firebase/firestore';
+import { parseInstagramPostUrl, type UrlRejectionReason } from '@shared/platformUrls';
+
+export interface RejectedLink {
+  link: string;
+  reason: UrlRejectionReason;
+  message: string;
+}
 
 interface AssignLinksResult {
   success: boolean;
   actuallyAddedCount: number;
+  rejectedLinks: RejectedLink[]; // Links that are not valid Instagram Reel links, with the reason
 }
 
 export interface UserInstagramData {
@@ -16,14 +24,15 @@ export interface UserInstagramData {
  * Assigns or updates Instagram Reel links for a specific user.
  * Links are stored in an array field named 'links' within a document identified by the userId in the 'instagramReelLinks' collection.
  * Also sets the lastRefreshedAt timestamp.
+ * Links that are not valid Instagram Reel links are skipped and reported in rejectedLinks.
  * @param userId The ID of the user.
  * @param linksToAdd An array of new Instagram Reel links to add.
- * @returns An object indicating success and the count of links actually added.
+ * @returns An object indicating success, the count of links actually added and the rejected links.
  */
 export const assignInstagramLinksToUser = async (userId: string, linksToAdd: string[]): Promise<AssignLinksResult> => {
   if (!userId || !linksToAdd) {
     console.error("User ID and links to add must be provided.");
-    return { success: false, actuallyAddedCount: 0 };
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
   }
 
   try {
@@ -35,18 +44,34 @@ export const assignInstagramLinksToUser = async (userId: string, linksToAdd: str
       existingLinks = docSnap.data().links as string[];
     }
 
-    const initialExistingLinksCount = existingLinks.length;
-    const updatedLinks = Array.from(new Set([...existingLinks, ...linksToAdd.map(link => link.trim()).filter(Boolean)]));
-    const actuallyAddedCount = updatedLinks.length - initialExistingLinksCount;
+    // New links are stored in canonical form and de-duplicated by shortcode, so other URL styles for the same Reel are not added twice.
+    const knownIds = new Set(existingLinks.map(link => {
+      const parsed = parseInstagramPostUrl(link);
+      return parsed.ok ? parsed.value.shortcode : link;
+    }));
+    const rejectedLinks: RejectedLink[] = [];
+    const newLinks: string[] = [];
+    for (const link of linksToAdd) {
+      if (!link.trim()) continue;
+      const parsed = parseInstagramPostUrl(link);
+      if (!parsed.ok) {
+        rejectedLinks.push({ link, reason: parsed.reason, message: parsed.message });
+      } else if (!knownIds.has(parsed.value.shortcode)) {
+        knownIds.add(parsed.value.shortcode);
+        newLinks.push(parsed.value.canonicalUrl);
+      }
+    }
+    const updatedLinks = [...existingLinks, ...newLinks];
+    const actuallyAddedCount = newLinks.length;
 
     await setDoc(userLinksRef, { 
       links: updatedLinks,
       lastRefreshedAt: new Date().toISOString() 
     }, { merge: true });
-    return { success: true, actuallyAddedCount };
+    return { success: true, actuallyAddedCount, rejectedLinks };
   } catch (error) {
     console.error("Error assigning Instagram Reel links to user:", error);
-    return { success: false, actuallyAddedCount: 0 };
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
   }
 };
 
@@ -2,17 +2,20 @@
 'use server';
 
 import { db } from './firebase';
+import { requireAdmin, requireUserAccess } from './authorization';
 import {
   doc,
   getDoc,
-  setDoc,
   collection,
   getDocs,
   writeBatch,
   query,
   orderBy,
+  where,
   deleteDoc,
 } from 'firebase/firestore';
+import type { HttpErrorKind } from '@shared/httpClient';
+import type { InstagramCommentFetchState } from './instagramCommentService';
 
 // Interface for stored Instagram post analytics
 export interface StoredInstagramPost {
@@ -27,12 +30,44 @@ export interface StoredInstagramPost {
   playCount: number;
   reshareCount?: number; // Added reshareCount
   lastFetched: string; // ISO string, timestamp of when data was last fetched from API
+  lastCheckedAt?: string; // ISO string of the last refresh that fetched the post
+  lastChangedAt?: string; // ISO string of the last refresh that found different metrics, metadata or error state
   errorMessage?: string; // If fetching stats for this reel failed
+  errorKind?: HttpErrorKind; // Classification of that failure
+  commentFetch?: InstagramCommentFetchState; // Outcome of the last comment fetch; comments are in the 'comments' subcollection
 }
 
+// One document per reel per day, holding the cumulative totals seen on that day.
+export interface InstagramPostMetricSnapshot {
+  date: string; // "YYYY-MM-DD" (UTC), also the document ID
+  postId: string; // Reel shortcode
+  likes: number;
+  comments: number;
+  playCount: number;
+  reshareCount: number;
+  capturedAt: string; // ISO string of the refresh that wrote this snapshot
+}
+
+// Snapshot document IDs are the UTC calendar day of the refresh.
+const getSnapshotDateKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+const buildPostSnapshot = (postData: StoredInstagramPost, capturedAt: string): InstagramPostMetricSnapshot => ({
+  date: getSnapshotDateKey(new Date(capturedAt)),
+  postId: postData.id,
+  likes: postData.likes || 0,
+  comments: postData.comments || 0,
+  playCount: postData.playCount || 0,
+  reshareCount: postData.reshareCount || 0,
+  capturedAt,
+});
+
 /**
- * Saves or updates a single Instagram post's analytics data in Firestore for a specific user.
+ * Saves or updates a single Instagram post's analytics data in Firestore for a specific user,
+ * and records the day's totals in its daily snapshot history. Failed fetches (with an
+ * errorMessage) carry no real metrics, so no snapshot is written for them.
  * Path: userInstagramPostAnalytics/{userId}/posts/{postId (shortcode)}
+ * Snapshot path: userInstagramPostAnalytics/{userId}/posts/{postId}/dailySnapshots/{YYYY-MM-DD}
+ * Admin only: metrics are written by the Cloud Functions' refreshes, not by their owners.
  * @param userId The ID of the user.
  * @param postData The post data to save. Must include 'id' (shortcode).
  */
@@ -41,13 +76,21 @@ export const saveInstagramPostAnalytics = async (userId: string, postData: Store
     console.error("[InstagramService] User ID and post data with post ID (shortcode) are required to save analytics.");
     throw new Error("User ID and post data with post ID (shortcode) are required.");
   }
+  await requireAdmin();
   try {
     const postDocRef = doc(db, 'userInstagramPostAnalytics', userId, 'posts', postData.id);
+    const fetchedAt = new Date().toISOString();
     const dataToSave: StoredInstagramPost = {
       ...postData,
-      lastFetched: new Date().toISOString(), 
+      lastFetched: fetchedAt,
     };
-    await setDoc(postDocRef, dataToSave, { merge: true });
+    const batch = writeBatch(db);
+    batch.set(postDocRef, dataToSave, { merge: true });
+    if (!dataToSave.errorMessage) {
+      const snapshot = buildPostSnapshot(dataToSave, fetchedAt);
+      batch.set(doc(postDocRef, 'dailySnapshots', snapshot.date), snapshot); // Later refreshes on the same day overwrite
+    }
+    await batch.commit();
     console.log(`[InstagramService] Successfully saved/updated post ${postData.id} for user ${userId} in Firestore. Data:`, JSON.stringify(dataToSave, null, 2).substring(0,500) + "...");
   } catch (error) {
     console.error(`[InstagramService] Error saving Instagram post analytics for post ${postData.id} of user ${userId}:`, error);
@@ -66,6 +109,7 @@ export const getAllInstagramPostAnalyticsForUser = async (userId: string): Promi
     console.warn("[InstagramService] User ID is required to fetch Instagram post analytics.");
     return [];
   }
+  await requireUserAccess(userId);
   let posts: StoredInstagramPost[] = [];
   try {
     const postsCollectionRef = collection(db, 'userInstagramPostAnalytics', userId, 'posts');
@@ -107,6 +151,7 @@ export const getInstagramPostAnalytics = async (userId: string, postId: string):
     console.warn("[InstagramService] User ID and Post ID (shortcode) are required.");
     return null;
   }
+  await requireUserAccess(userId);
   try {
     const postDocRef = doc(db, 'userInstagramPostAnalytics', userId, 'posts', postId);
     const docSnap = await getDoc(postDocRef);
@@ -134,6 +179,7 @@ export const deleteInstagramPostAnalytics = async (userId: string, postId: strin
     console.error("[InstagramService] User ID and Post ID (shortcode) are required for deletion.");
     return false;
   }
+  await requireUserAccess(userId);
   try {
     const postDocRef = doc(db, 'userInstagramPostAnalytics', userId, 'posts', postId);
     await deleteDoc(postDocRef);
@@ -148,6 +194,8 @@ export const deleteInstagramPostAnalytics = async (userId: string, postId: strin
 
 /**
  * Batch saves multiple Instagram post analytics data to Firestore for a specific user.
+ * Each successfully fetched post's daily snapshot is written in the same batch.
+ * Admin only, like saveInstagramPostAnalytics.
  * @param userId The ID of the user.
  * @param postsData An array of post data to save. Each must include 'id' (shortcode).
  */
@@ -156,6 +204,7 @@ export const batchSaveInstagramPostAnalytics = async (userId: string, postsData:
     console.error("[InstagramService] User ID and posts data are required for batch save.");
     return;
   }
+  await requireAdmin();
   try {
     const batch = writeBatch(db);
     const currentTime = new Date().toISOString();
@@ -167,6 +216,10 @@ export const batchSaveInstagramPostAnalytics = async (userId: string, postsData:
           lastFetched: currentTime, 
         };
         batch.set(postDocRef, dataToSave, { merge: true });
+        if (!dataToSave.errorMessage) {
+          const snapshot = buildPostSnapshot(dataToSave, currentTime);
+          batch.set(doc(postDocRef, 'dailySnapshots', snapshot.date), snapshot);
+        }
       }
     });
     await batch.commit();
@@ -176,3 +229,49 @@ export const batchSaveInstagramPostAnalytics = async (userId: string, postsData:
     throw error;
   }
 };
+
+/**
+ * Retrieves the daily metric snapshots of a single Instagram post for an inclusive date range.
+ * @param userId The ID of the user.
+ * @param postId The ID of the post (shortcode).
+ * @param startDate First day of the range, "YYYY-MM-DD" (UTC).
+ * @param endDate Last day of the range, "YYYY-MM-DD" (UTC).
+ * @returns Snapshots ordered by date ascending. Days without a successful refresh have no entry.
+ */
+export const getInstagramPostMetricHistory = async (userId: string, postId: string, startDate: string, endDate: string): Promise<InstagramPostMetricSnapshot[]> => {
+  if (!userId || !postId || !startDate || !endDate) {
+    console.warn("[InstagramService] User ID, Post ID (shortcode) and a date range are required to fetch metric history.");
+    return [];
+  }
+  await requireUserAccess(userId);
+  try {
+    const snapshotsRef = collection(db, 'userInstagramPostAnalytics', userId, 'posts', postId, 'dailySnapshots');
+    const q = query(snapshotsRef, where('date', '>=', startDate), where('date', '<=', endDate), orderBy('date', 'asc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => docSnap.data() as InstagramPostMetricSnapshot);
+  } catch (error) {
+    console.error(`[InstagramService] Error fetching metric history for post ${postId} of user ${userId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves daily metric snapshots for several of a user's Instagram posts at once.
+ * @param userId The ID of the user.
+ * @param postIds The IDs (shortcodes) of the posts to include.
+ * @param startDate First day of the range, "YYYY-MM-DD" (UTC).
+ * @param endDate Last day of the range, "YYYY-MM-DD" (UTC).
+ * @returns A map of postId to its snapshots ordered by date ascending.
+ */
+export const getInstagramPostMetricHistoryForUser = async (userId: string, postIds: string[], startDate: string, endDate: string): Promise<Record<string, InstagramPostMetricSnapshot[]>> => {
+  const history: Record<string, InstagramPostMetricSnapshot[]> = {};
+  if (!userId || !postIds || postIds.length === 0) {
+    return history;
+  }
+  await requireUserAccess(userId);
+  const results = await Promise.all(postIds.map(postId => getInstagramPostMetricHistory(userId, postId, startDate, endDate)));
+  postIds.forEach((postId, index) => {
+    history[postId] = results[index];
+  });
+  return history;
+};
@@ -0,0 +1,134 @@
+
+'use server';
+
+import { db } from './firebase';
+import { requireAdmin } from './authorization';
+import { arrayRemove, arrayUnion, deleteField, doc, FieldPath, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { parseInstagramProfileInput } from '@shared/platformUrls';
+import {
+  DEFAULT_PROFILE_BACKFILL_DAYS,
+  DEFAULT_TRACKED_MEDIA_TYPES,
+  MAX_PROFILE_BACKFILL_DAYS,
+  type InstagramMediaType,
+  type TrackedInstagramProfile,
+} from '@shared/instagram';
+import { getInstagramProvider } from './instagramProviderService';
+
+export type { InstagramMediaType, TrackedInstagramProfile };
+
+// A tracked profile as listed for a user. Options are missing for entries added outside the Instagram page.
+export interface TrackedInstagramProfileEntry {
+  key: string; // The entry in users/{id}.trackedChannels.instagram, normally the username
+  profile?: TrackedInstagramProfile;
+}
+
+interface TrackProfileResult {
+  success: boolean;
+  profile?: TrackedInstagramProfile;
+  error?: string;
+}
+
+/**
+ * Starts tracking an Instagram profile for a user. The profile is checked with the configured provider now;
+ * the refresh job then adds its posts of the chosen media types from the backfill window, and later posts
+ * as they appear. Tracking a profile again updates its options and backfills it on the next refresh.
+ * @param userId The ID of the user.
+ * @param profileInput A profile URL, @username or username.
+ * @param options The media types to track and how many days of past posts to add.
+ * @returns An object indicating success with the stored profile, or an error message.
+ */
+export const trackInstagramProfileForUser = async (
+  userId: string,
+  profileInput: string,
+  options: { mediaTypes?: InstagramMediaType[]; backfillDays?: number } = {}
+): Promise<TrackProfileResult> => {
+  if (!userId) {
+    console.error("User ID must be provided to track an Instagram profile.");
+    return { success: false, error: 'No user selected.' };
+  }
+  await requireAdmin();
+  const parsed = parseInstagramProfileInput(profileInput);
+  if (!parsed.ok) {
+    return { success: false, error: parsed.message };
+  }
+  const { mediaTypes = DEFAULT_TRACKED_MEDIA_TYPES, backfillDays = DEFAULT_PROFILE_BACKFILL_DAYS } = options;
+  if (mediaTypes.length === 0) {
+    return { success: false, error: 'Select at least one media type to track.' };
+  }
+  if (!Number.isInteger(backfillDays) || backfillDays < 1 || backfillDays > MAX_PROFILE_BACKFILL_DAYS) {
+    return { success: false, error: `The backfill window must be between 1 and ${MAX_PROFILE_BACKFILL_DAYS} days.` };
+  }
+
+  try {
+    const { provider, error: providerError } = await getInstagramProvider();
+    if (!provider) {
+      return { success: false, error: providerError || 'The Instagram provider is not configured.' };
+    }
+    const { username } = parsed.value;
+    const check = await provider.listProfilePosts(username, { limit: 1 });
+    if (!check.ok) {
+      return {
+        success: false,
+        error: check.error.kind === 'not-found' ? `Instagram profile @${username} was not found.` : check.error.message,
+      };
+    }
+
+    const profile: TrackedInstagramProfile = { username, mediaTypes, backfillDays, addedAt: new Date().toISOString() };
+    await setDoc(doc(db, 'instagramReelLinks', userId), {
+      profiles: { [username]: { ...profile, lastSyncedAt: deleteField() } },
+    }, { merge: true });
+    await setDoc(doc(db, 'users', userId), {
+      trackedChannels: { instagram: arrayUnion(username) },
+    }, { merge: true });
+    return { success: true, profile };
+  } catch (error) {
+    console.error(`Error tracking Instagram profile "${profileInput}" for user ${userId}:`, error);
+    return { success: false, error: 'Could not save the tracked profile.' };
+  }
+};
+
+/**
+ * Lists the Instagram profiles tracked for a user, with their options.
+ * @param userId The ID of the user.
+ * @returns The tracked profiles, or an empty array if none/error.
+ */
+export const getTrackedInstagramProfiles = async (userId: string): Promise<TrackedInstagramProfileEntry[]> => {
+  if (!userId) {
+    return [];
+  }
+  await requireAdmin();
+  try {
+    const [userSnap, linksSnap] = await Promise.all([getDoc(doc(db, 'users', userId)), getDoc(doc(db, 'instagramReelLinks', userId))]);
+    const keys = (userSnap.data()?.trackedChannels?.instagram as string[] | undefined) || [];
+    const profiles = (linksSnap.data()?.profiles as Record<string, TrackedInstagramProfile> | undefined) || {};
+    return keys.map(key => ({ key, ...(profiles[key] && { profile: profiles[key] }) }));
+  } catch (error) {
+    console.error("Error getting tracked Instagram profiles for user:", error);
+    return [];
+  }
+};
+
+/**
+ * Stops tracking an Instagram profile for a user. Posts already added from the profile stay assigned.
+ * @param userId The ID of the user.
+ * @param key The tracked profile entry, as returned in TrackedInstagramProfileEntry.key.
+ * @returns True if the profile was removed successfully, false on error.
+ */
+export const untrackInstagramProfileForUser = async (userId: string, key: string): Promise<boolean> => {
+  if (!userId || !key) {
+    console.error("User ID and profile must be provided to stop tracking an Instagram profile.");
+    return false;
+  }
+  await requireAdmin();
+  try {
+    await updateDoc(doc(db, 'users', userId), { 'trackedChannels.instagram': arrayRemove(key) });
+    const linksRef = doc(db, 'instagramReelLinks', userId);
+    if ((await getDoc(linksRef)).exists()) {
+      await updateDoc(linksRef, new FieldPath('profiles', key), deleteField());
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error removing tracked Instagram profile ${key} for user ${userId}:`, error);
+    return false;
+  }
+};
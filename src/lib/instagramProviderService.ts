@@ -0,0 +1,44 @@
+
+import { db } from './firebase';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import {
+  createInstagramProvider,
+  resolveInstagramProviderConfig,
+  INSTAGRAM_PROVIDER_SERVICE_NAMES,
+  type InstagramProvider,
+  type InstagramProviderOptions,
+} from '@shared/instagram';
+import { resolveApiKey } from './apiFixtureService';
+
+/**
+ * Creates the Instagram data provider selected in API Management ('instagram-provider'),
+ * using the matching credentials from the 'apiKeys' collection.
+ * @param options Optional shared request options, such as a circuit breaker for a batch of requests.
+ * @returns The provider, or null with an error message if it is not configured.
+ */
+export const getInstagramProvider = async (
+  options: InstagramProviderOptions = {}
+): Promise<{ provider: InstagramProvider | null; error?: string }> => {
+  try {
+    const keysQuery = query(
+      collection(db, 'apiKeys'),
+      where('serviceName', 'in', Object.values(INSTAGRAM_PROVIDER_SERVICE_NAMES))
+    );
+    const snapshot = await getDocs(keysQuery);
+    const keyValues: Record<string, string | undefined> = {};
+    snapshot.forEach((docSnap) => {
+      keyValues[docSnap.data().serviceName] = docSnap.data().keyValue;
+    });
+    keyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.rapidApi] = resolveApiKey(keyValues[INSTAGRAM_PROVIDER_SERVICE_NAMES.rapidApi]) ?? undefined;
+
+    const { config, error } = resolveInstagramProviderConfig(keyValues);
+    if (!config) {
+      console.warn(`[InstagramProvider] Instagram provider is not configured: ${error}`);
+      return { provider: null, error };
+    }
+    return { provider: createInstagramProvider(config, options) };
+  } catch (error) {
+    console.error("[InstagramProvider] Error loading Instagram provider configuration:", error);
+    return { provider: null, error: 'Could not load the Instagram provider configuration.' };
+  }
+};
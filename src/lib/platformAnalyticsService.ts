@@ -0,0 +1,70 @@
+'use server';
+
+import { db } from './firebase';
+import { requireUserAccess } from './authorization';
+import { collection, getDocs, query, orderBy, where } from 'firebase/firestore';
+import { getPlatformModule, type PlatformId, type PlatformItemSnapshot, type StoredPlatformItem } from '@shared/platforms';
+
+/**
+ * Retrieves all stored items of a user on a platform module's platform, newest first.
+ * Items are written by the refresh Cloud Functions.
+ * Path: {collections.analytics}/{userId}/{collections.items}/{itemId}
+ * @param platformId The platform.
+ * @param userId The ID of the user.
+ * @returns An array of StoredPlatformItem objects.
+ */
+export const getAllPlatformItemsForUser = async (platformId: PlatformId, userId: string): Promise<StoredPlatformItem[]> => {
+  const platformModule = getPlatformModule(platformId);
+  if (!userId) {
+    console.warn(`[PlatformService] User ID is required to fetch ${platformModule.name} analytics.`);
+    return [];
+  }
+  await requireUserAccess(userId);
+  try {
+    const { analytics, items } = platformModule.collections;
+    const querySnapshot = await getDocs(collection(db, analytics, userId, items));
+    const storedItems = querySnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as StoredPlatformItem));
+    // Sorted here rather than in the query, so items that failed before their first fetch (without publishedAt) are included.
+    return storedItems.sort((a, b) => (b.publishedAt || b.lastFetched || '').localeCompare(a.publishedAt || a.lastFetched || ''));
+  } catch (error) {
+    console.error(`[PlatformService] Error fetching ${platformModule.name} analytics for user ${userId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves daily metric snapshots for several of a user's items on a platform module's platform.
+ * @param platformId The platform.
+ * @param userId The ID of the user.
+ * @param itemIds The IDs of the items to include.
+ * @param startDate First day of the range, "YYYY-MM-DD" (UTC).
+ * @param endDate Last day of the range, "YYYY-MM-DD" (UTC).
+ * @returns A map of item ID to its snapshots ordered by date ascending. Days without a successful refresh have no entry.
+ */
+export const getPlatformItemMetricHistoryForUser = async (
+  platformId: PlatformId,
+  userId: string,
+  itemIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<Record<string, PlatformItemSnapshot[]>> => {
+  const history: Record<string, PlatformItemSnapshot[]> = {};
+  if (!userId || !itemIds || itemIds.length === 0) {
+    return history;
+  }
+  await requireUserAccess(userId);
+  const platformModule = getPlatformModule(platformId);
+  const { analytics, items } = platformModule.collections;
+  await Promise.all(itemIds.map(async itemId => {
+    try {
+      const snapshotsRef = collection(db, analytics, userId, items, itemId, 'dailySnapshots');
+      const q = query(snapshotsRef, where('date', '>=', startDate), where('date', '<=', endDate), orderBy('date', 'asc'));
+      const querySnapshot = await getDocs(q);
+      history[itemId] = querySnapshot.docs.map(docSnap => docSnap.data() as PlatformItemSnapshot);
+    } catch (error) {
+      console.error(`[PlatformService] Error fetching metric history for ${platformModule.name} item ${itemId} of user ${userId}:`, error);
+      history[itemId] = [];
+    }
+  }));
+  return history;
+};
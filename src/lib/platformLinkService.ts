@@ -0,0 +1,121 @@
+
+import { db } from './firebase';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { getPlatformModule, type PlatformId } from '@shared/platforms';
+import type { RejectedLink } from './instagramLinkService';
+
+interface AssignLinksResult {
+  success: boolean;
+  actuallyAddedCount: number;
+  rejectedLinks: RejectedLink[]; // Links the platform module could not parse, with the reason
+}
+
+export interface UserPlatformLinks {
+  links: string[];
+  lastRefreshedAt?: string; // ISO string
+}
+
+/**
+ * Assigns links on a platform module's platform (e.g. TikTok videos) to a user.
+ * Links are stored in canonical form in the 'links' array of the user's document in the platform's links collection,
+ * de-duplicated by item ID. Links the platform cannot parse are skipped and reported in rejectedLinks.
+ * @param platformId The platform of the links.
+ * @param userId The ID of the user.
+ * @param linksToAdd An array of new links to add.
+ * @returns An object indicating success, the count of links actually added and the rejected links.
+ */
+export const assignPlatformLinksToUser = async (platformId: PlatformId, userId: string, linksToAdd: string[]): Promise<AssignLinksResult> => {
+  if (!userId || !linksToAdd) {
+    console.error("User ID and links to add must be provided.");
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
+  }
+
+  const platformModule = getPlatformModule(platformId);
+  try {
+    const userLinksRef = doc(db, platformModule.collections.links, userId);
+    const docSnap = await getDoc(userLinksRef);
+    const existingLinks: string[] = docSnap.exists() ? (docSnap.data()?.links as string[] | undefined) || [] : [];
+
+    const knownIds = new Set(existingLinks.map(link => {
+      const parsed = platformModule.parseLink(link);
+      return parsed.ok ? parsed.value.id : link;
+    }));
+    const rejectedLinks: RejectedLink[] = [];
+    const newLinks: string[] = [];
+    for (const link of linksToAdd) {
+      if (!link.trim()) continue;
+      const parsed = platformModule.parseLink(link);
+      if (!parsed.ok) {
+        rejectedLinks.push({ link, reason: parsed.reason, message: parsed.message });
+      } else if (!knownIds.has(parsed.value.id)) {
+        knownIds.add(parsed.value.id);
+        newLinks.push(parsed.value.canonicalUrl);
+      }
+    }
+
+    await setDoc(userLinksRef, {
+      links: [...existingLinks, ...newLinks],
+      lastRefreshedAt: new Date().toISOString()
+    }, { merge: true });
+    return { success: true, actuallyAddedCount: newLinks.length, rejectedLinks };
+  } catch (error) {
+    console.error(`Error assigning ${platformModule.name} links to user:`, error);
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
+  }
+};
+
+/**
+ * Retrieves a user's links on a platform module's platform and the last refresh timestamp.
+ * @param platformId The platform of the links.
+ * @param userId The ID of the user.
+ * @returns An object containing links and lastRefreshedAt, or default values if not found/error.
+ */
+export const getPlatformLinksForUser = async (platformId: PlatformId, userId: string): Promise<UserPlatformLinks> => {
+  if (!userId) {
+    return { links: [] };
+  }
+  const platformModule = getPlatformModule(platformId);
+  try {
+    const docSnap = await getDoc(doc(db, platformModule.collections.links, userId));
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        links: (data.links as string[] | undefined) || [],
+        lastRefreshedAt: data.lastRefreshedAt as string | undefined
+      };
+    }
+    return { links: [] };
+  } catch (error) {
+    console.error(`Error getting ${platformModule.name} links for user:`, error);
+    return { links: [] };
+  }
+};
+
+/**
+ * Deletes one of a user's links on a platform module's platform. The item's analytics are archived or deleted
+ * by the daily reconciliation, per the retention setting.
+ * @param platformId The platform of the link.
+ * @param userId The ID of the user.
+ * @param linkToDelete The specific link URL to delete.
+ * @returns True if deletion was successful or link wasn't found, false on error.
+ */
+export const deletePlatformLinkForUser = async (platformId: PlatformId, userId: string, linkToDelete: string): Promise<boolean> => {
+  if (!userId || !linkToDelete) {
+    console.error("User ID and link to delete must be provided.");
+    return false;
+  }
+  const platformModule = getPlatformModule(platformId);
+  try {
+    const userLinksRef = doc(db, platformModule.collections.links, userId);
+    const docSnap = await getDoc(userLinksRef);
+    const existingLinks: string[] = docSnap.exists() ? (docSnap.data()?.links as string[] | undefined) || [] : [];
+    const updatedLinks = existingLinks.filter(link => link !== linkToDelete);
+    if (updatedLinks.length !== existingLinks.length) {
+      await updateDoc(userLinksRef, { links: updatedLinks });
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error deleting ${platformModule.name} link ${linkToDelete} for user ${userId}:`, error);
+    return false;
+  }
+};
@@ -0,0 +1,131 @@
+
+'use server';
+
+import { db, functions } from './firebase';
+import { requireAdmin, requireSessionToken } from './authorization';
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import {
+  parseRetentionSettings,
+  validateRetentionSettings,
+  RETENTION_SERVICE_NAME,
+  type AnalyticsRetentionSettings,
+  type OrphanAction,
+} from '@shared/retention';
+import { addApiKey, updateApiKey } from './apiKeyService';
+import type { RefreshPlatform } from './refreshJobService';
+
+export type { AnalyticsRetentionSettings, OrphanAction };
+
+export type ReconciliationAction = 'orphaned' | 'restored' | 'archived' | 'deleted';
+
+export interface ReconciliationCounts {
+  scanned: number;
+  orphaned: number; // Orphaned and still within the grace period
+  restored: number; // Previously orphaned, assigned again
+  archived: number;
+  deleted: number;
+}
+
+/**
+ * One run of the analytics reconciliation, stored in the 'reconciliationRuns' collection by the
+ * 'reconcileAnalytics' and 'reconcileAnalyticsNow' Cloud Functions.
+ */
+export interface ReconciliationRun {
+  id: string; // Firestore document ID
+  trigger: 'scheduled' | 'manual';
+  dryRun: boolean; // When set, nothing was changed and the counts show what would have happened
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string; // ISO string
+  finishedAt?: string; // ISO string
+  requestedBy?: string;
+  settings: AnalyticsRetentionSettings;
+  platforms: Record<RefreshPlatform, ReconciliationCounts>;
+  samples: { userId: string; platform: RefreshPlatform; id: string; action: ReconciliationAction }[];
+  failedUsers: string[]; // Owners whose links could not be read; their documents were left alone
+  error?: string;
+}
+
+const RECONCILIATION_RUNS_COLLECTION = 'reconciliationRuns';
+
+/**
+ * Fetches the most recent reconciliation runs, newest first.
+ * @param maxRuns The maximum number of runs to return.
+ * @returns The runs, or an empty array if none/error.
+ */
+export const getRecentReconciliationRuns = async (maxRuns: number = 10): Promise<ReconciliationRun[]> => {
+  await requireAdmin();
+  try {
+    const snapshot = await getDocs(query(collection(db, RECONCILIATION_RUNS_COLLECTION), orderBy('startedAt', 'desc'), limit(maxRuns)));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ReconciliationRun));
+  } catch (error) {
+    console.error("Error fetching reconciliation runs:", error);
+    return [];
+  }
+};
+
+/**
+ * Runs the analytics reconciliation now through the 'reconcileAnalyticsNow' Cloud Function, forwarding the
+ * admin's session. Admin only.
+ * @param dryRun When true, only reports what would be archived or deleted.
+ * @returns The run report.
+ */
+export const runReconciliationNow = async (dryRun: boolean = false): Promise<ReconciliationRun> => {
+  await requireAdmin();
+  try {
+    const callable = httpsCallable<{ sessionToken: string; dryRun: boolean }, ReconciliationRun>(
+      functions,
+      'reconcileAnalyticsNow',
+      { timeout: 540 * 1000 }
+    );
+    const result = await callable({ sessionToken: await requireSessionToken(), dryRun });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error running the analytics reconciliation:", error);
+    throw new Error(error?.message || "Failed to run the reconciliation.");
+  }
+};
+
+/**
+ * Reads the retention setting for orphaned analytics, the 'analytics-retention' entry in API Management.
+ * @returns The setting (the default one when the entry is missing), or null with an error if the entry is invalid.
+ */
+export const getRetentionSettings = async (): Promise<{ settings: AnalyticsRetentionSettings | null; error?: string }> => {
+  await requireAdmin();
+  try {
+    const snapshot = await getDocs(query(collection(db, 'apiKeys'), where('serviceName', '==', RETENTION_SERVICE_NAME), limit(1)));
+    return parseRetentionSettings(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+  } catch (error) {
+    console.error("Error fetching the analytics retention setting:", error);
+    return { settings: null, error: 'Could not load the retention setting.' };
+  }
+};
+
+/**
+ * Saves the retention setting to its API Management entry, creating the entry if needed.
+ * @param settings The setting to save.
+ * @returns An object indicating success, or an error message.
+ */
+export const saveRetentionSettings = async (settings: AnalyticsRetentionSettings): Promise<{ success: boolean; error?: string }> => {
+  const { settings: validSettings, error } = validateRetentionSettings(settings);
+  if (!validSettings) {
+    return { success: false, error };
+  }
+  const caller = await requireAdmin();
+  try {
+    const keyValue = JSON.stringify(validSettings);
+    const snapshot = await getDocs(query(collection(db, 'apiKeys'), where('serviceName', '==', RETENTION_SERVICE_NAME), limit(1)));
+    const saved = snapshot.empty
+      ? !!(await addApiKey({
+        serviceName: RETENTION_SERVICE_NAME,
+        keyValue,
+        description: 'What happens to analytics whose link was unassigned',
+        userId: caller.id,
+      }))
+      : await updateApiKey(snapshot.docs[0].id, { keyValue });
+    return saved ? { success: true } : { success: false, error: 'Could not save the retention setting.' };
+  } catch (error) {
+    console.error("Error saving the analytics retention setting:", error);
+    return { success: false, error: 'Could not save the retention setting.' };
+  }
+};
@@ -0,0 +1,54 @@
+'use server';
+
+import { functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { requireAdmin, requireSessionToken } from './authorization';
+import type { RefreshPlatform, UserRefreshSummary } from './refreshJobService';
+
+// Admin refresh operations. They run on the server, check that the caller is an admin and forward the session
+// to the Cloud Functions, which check it again.
+
+/**
+ * Runs an immediate refresh for one user through the 'refreshUserNow' Cloud Function,
+ * which shares its code path with the scheduled refresh. Admin only.
+ * @param userId The ID of the user whose data should be refreshed.
+ * @param platform Optional platform to limit the refresh to; all platforms when omitted.
+ * @returns The run summary.
+ */
+export const refreshUserNow = async (userId: string, platform?: RefreshPlatform): Promise<UserRefreshSummary> => {
+  await requireAdmin();
+  try {
+    const callable = httpsCallable<{ sessionToken: string; userId: string; platform?: RefreshPlatform }, UserRefreshSummary>(
+      functions,
+      'refreshUserNow',
+      { timeout: 540 * 1000 }
+    );
+    const result = await callable({ sessionToken: await requireSessionToken(), userId, ...(platform && { platform }) });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error running on-demand refresh for user ${userId}:`, error);
+    throw new Error(error?.message || "Failed to run the refresh.");
+  }
+};
+
+/**
+ * Refreshes the failed links of a run again through the 'retryRefreshRun' Cloud Function.
+ * The retry is recorded as a new run. Admin only.
+ * @param runId The ID of the run whose failed items should be retried.
+ * @returns The ID of the new run.
+ */
+export const retryFailedRefreshItems = async (runId: string): Promise<string> => {
+  await requireAdmin();
+  try {
+    const callable = httpsCallable<{ sessionToken: string; runId: string }, { runId: string }>(
+      functions,
+      'retryRefreshRun',
+      { timeout: 540 * 1000 }
+    );
+    const result = await callable({ sessionToken: await requireSessionToken(), runId });
+    return result.data.runId;
+  } catch (error: any) {
+    console.error(`Error retrying failed items of refresh run ${runId}:`, error);
+    throw new Error(error?.message || "Failed to retry the failed items.");
+  }
+};
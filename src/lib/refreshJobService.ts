@@ -0,0 +1,203 @@
+
+import { db } from './firebase';
+import { addDoc, collection, doc, limit, onSnapshot, query, where, type Unsubscribe } from 'firebase/firestore';
+import type { HttpErrorKind } from '@shared/httpClient';
+import type { PlatformId } from '@shared/platforms';
+import { getYouTubeLinksForUser } from './youtubeLinkService';
+import { getInstagramLinksForUser } from './instagramLinkService';
+import { getPlatformLinksForUser } from './platformLinkService';
+import { hasTrackedChannels } from './trackedChannelService';
+
+export type RefreshPlatform = 'youtube' | 'instagram' | PlatformId;
+export type RefreshJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type RefreshJobItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface RefreshJobItem {
+  link: string;
+  status: RefreshJobItemStatus;
+  attempts: number;
+  error?: string;
+  errorKind?: HttpErrorKind | 'invalid-link';
+}
+
+/**
+ * A refresh request stored in the 'refreshJobs' collection. The job is processed by the
+ * 'processRefreshJob' Cloud Function, so it keeps running after the browser tab is closed.
+ */
+export interface RefreshJob {
+  id: string; // Firestore document ID
+  userId: string;
+  platform: RefreshPlatform;
+  status: RefreshJobStatus;
+  items: RefreshJobItem[];
+  totalItems: number;
+  processedItems: number;
+  succeededItems: number;
+  failedItems: number;
+  createdAt: string; // ISO string
+  createdBy?: string; // ID of the user who requested the refresh
+  startedAt?: string; // ISO string
+  finishedAt?: string; // ISO string
+  error?: string; // Set when the whole job fails, e.g. a missing API key
+  quotaUnitsUsed?: number; // YouTube Data API units, set when the job completes
+}
+
+export interface PlatformRefreshSummary {
+  platform: RefreshPlatform;
+  status: 'completed' | 'skipped';
+  skippedReason?: string;
+  totalLinks: number;
+  succeeded: number;
+  failed: number;
+  skipped: number; // Links not refreshed because the platform was skipped
+  notDue?: number; // Links left out of a scheduled refresh because the refresh policy did not make them due yet
+  failures: { link: string; error: string; errorKind?: RefreshJobItem['errorKind'] }[];
+  quotaUnitsUsed: number; // YouTube Data API units; always 0 for other platforms
+}
+
+/** Summary returned by the 'refreshUserNow' Cloud Function. */
+export interface UserRefreshSummary {
+  userId: string;
+  startedAt: string; // ISO string
+  finishedAt: string; // ISO string
+  platforms: PlatformRefreshSummary[];
+  error?: string; // Set when the user's refresh stopped unexpectedly
+  runId?: string; // The 'refreshRuns' entry recording this refresh
+}
+
+const REFRESH_JOBS_COLLECTION = 'refreshJobs';
+const ACTIVE_JOB_STATUSES: RefreshJobStatus[] = ['queued', 'running'];
+// A job still queued or running after this long is assumed dead (the worker times out after 9 minutes).
+const STALE_JOB_AFTER_MS = 15 * 60 * 1000;
+
+const isJobStale = (job: RefreshJob): boolean =>
+  Date.now() - new Date(job.createdAt).getTime() > STALE_JOB_AFTER_MS;
+
+/**
+ * Checks whether a refresh job has reached a final state.
+ * @param job The refresh job.
+ * @returns True if the job has completed or failed.
+ */
+export const isRefreshJobFinished = (job: RefreshJob): boolean =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * Queues a server-side refresh of every link assigned to a user on one platform. The job also picks up
+ * new uploads of the user's tracked channels.
+ * If a refresh for the same user and platform is already in flight, that job is returned instead.
+ * @param userId The ID of the user whose links should be refreshed.
+ * @param platform The platform to refresh.
+ * @param createdBy Optional ID of the user requesting the refresh.
+ * @returns The queued (or already running) job, or null if the user has no links or tracked channels.
+ */
+export const enqueueRefreshJob = async (
+  userId: string,
+  platform: RefreshPlatform,
+  createdBy?: string
+): Promise<RefreshJob | null> => {
+  if (!userId) {
+    throw new Error("User ID must be provided to queue a refresh.");
+  }
+
+  const activeJob = await new Promise<RefreshJob | null>((resolve, reject) => {
+    const unsubscribe = subscribeToActiveRefreshJob(userId, platform, (job) => {
+      unsubscribe();
+      resolve(job);
+    }, reject);
+  });
+  if (activeJob) {
+    return activeJob;
+  }
+
+  const { links } = platform === 'youtube'
+    ? await getYouTubeLinksForUser(userId)
+    : platform === 'instagram'
+      ? await getInstagramLinksForUser(userId)
+      : await getPlatformLinksForUser(platform, userId);
+  if (links.length === 0 && !(await hasTrackedChannels(userId, platform))) {
+    return null;
+  }
+
+  const job: Omit<RefreshJob, 'id'> = {
+    userId,
+    platform,
+    status: 'queued',
+    items: links.map(link => ({ link, status: 'pending', attempts: 0 })),
+    totalItems: links.length,
+    processedItems: 0,
+    succeededItems: 0,
+    failedItems: 0,
+    createdAt: new Date().toISOString(),
+    ...(createdBy && { createdBy }),
+  };
+
+  try {
+    const docRef = await addDoc(collection(db, REFRESH_JOBS_COLLECTION), job);
+    return { id: docRef.id, ...job };
+  } catch (error) {
+    console.error(`Error queuing ${platform} refresh job for user ${userId}:`, error);
+    throw new Error(`Failed to queue ${platform} refresh.`);
+  }
+};
+
+/**
+ * Listens to progress updates of a single refresh job.
+ * @param jobId The ID of the refresh job.
+ * @param onUpdate Called with the latest job data, or null if the job document does not exist.
+ * @param onError Optional callback for listener errors.
+ * @returns A function that stops listening.
+ */
+export const subscribeToRefreshJob = (
+  jobId: string,
+  onUpdate: (job: RefreshJob | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    doc(db, REFRESH_JOBS_COLLECTION, jobId),
+    (docSnap) => {
+      onUpdate(docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as RefreshJob) : null);
+    },
+    (error) => {
+      console.error(`Error listening to refresh job ${jobId}:`, error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Listens for an in-flight refresh job for a user and platform, so every open page
+ * (including other admins) sees the same refresh while it runs.
+ * @param userId The ID of the user whose feed is being refreshed.
+ * @param platform The platform of the refresh.
+ * @param onUpdate Called with the oldest queued or running job, or null if there is none.
+ * @param onError Optional callback for listener errors.
+ * @returns A function that stops listening.
+ */
+export const subscribeToActiveRefreshJob = (
+  userId: string,
+  platform: RefreshPlatform,
+  onUpdate: (job: RefreshJob | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const jobsQuery = query(
+    collection(db, REFRESH_JOBS_COLLECTION),
+    where('userId', '==', userId),
+    where('platform', '==', platform),
+    where('status', 'in', ACTIVE_JOB_STATUSES),
+    limit(10)
+  );
+  return onSnapshot(
+    jobsQuery,
+    (querySnapshot) => {
+      const activeJobs = querySnapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as RefreshJob))
+        .filter(job => !isJobStale(job))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      onUpdate(activeJobs[0] || null);
+    },
+    (error) => {
+      console.error(`Error listening for active ${platform} refresh jobs for user ${userId}:`, error);
+      onError?.(error);
+    }
+  );
+};
@@ -0,0 +1,113 @@
+
+'use server';
+
+import { db } from './firebase';
+import { requireAdmin } from './authorization';
+import { collection, deleteField, doc, getDoc, getDocs, limit, query, updateDoc, where } from 'firebase/firestore';
+import {
+  parseRefreshPolicy,
+  validateRefreshPolicy,
+  REFRESH_POLICY_SERVICE_NAME,
+  type RefreshPolicy,
+  type RefreshPolicyTier,
+} from '@shared/refreshPolicy';
+import { addApiKey, updateApiKey } from './apiKeyService';
+
+export type { RefreshPolicy, RefreshPolicyTier };
+
+interface SavePolicyResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Reads the workspace refresh policy, the 'refresh-policy' entry in API Management.
+ * @returns The policy (the default one when the entry is missing), or null with an error if the entry is invalid.
+ */
+export const getWorkspaceRefreshPolicy = async (): Promise<{ policy: RefreshPolicy | null; error?: string }> => {
+  await requireAdmin();
+  try {
+    const snapshot = await getDocs(query(collection(db, 'apiKeys'), where('serviceName', '==', REFRESH_POLICY_SERVICE_NAME), limit(1)));
+    return parseRefreshPolicy(snapshot.empty ? undefined : snapshot.docs[0].data().keyValue);
+  } catch (error) {
+    console.error("Error fetching the workspace refresh policy:", error);
+    return { policy: null, error: 'Could not load the workspace refresh policy.' };
+  }
+};
+
+/**
+ * Saves the workspace refresh policy to its API Management entry, creating the entry if needed.
+ * @param policy The policy to save.
+ * @returns An object indicating success, or an error message.
+ */
+export const saveWorkspaceRefreshPolicy = async (policy: RefreshPolicy): Promise<SavePolicyResult> => {
+  const { policy: validPolicy, error } = validateRefreshPolicy(policy);
+  if (!validPolicy) {
+    return { success: false, error };
+  }
+  const caller = await requireAdmin();
+  try {
+    const keyValue = JSON.stringify(validPolicy);
+    const snapshot = await getDocs(query(collection(db, 'apiKeys'), where('serviceName', '==', REFRESH_POLICY_SERVICE_NAME), limit(1)));
+    const saved = snapshot.empty
+      ? !!(await addApiKey({
+        serviceName: REFRESH_POLICY_SERVICE_NAME,
+        keyValue,
+        description: 'Adaptive refresh schedule by content age',
+        userId: caller.id,
+      }))
+      : await updateApiKey(snapshot.docs[0].id, { keyValue });
+    return saved ? { success: true } : { success: false, error: 'Could not save the workspace refresh policy.' };
+  } catch (error) {
+    console.error("Error saving the workspace refresh policy:", error);
+    return { success: false, error: 'Could not save the workspace refresh policy.' };
+  }
+};
+
+/**
+ * Reads a user's own refresh policy.
+ * @param userId The ID of the user.
+ * @returns The user's policy, or null if the user follows the workspace policy or on error.
+ */
+export const getUserRefreshPolicy = async (userId: string): Promise<RefreshPolicy | null> => {
+  if (!userId) {
+    return null;
+  }
+  await requireAdmin();
+  try {
+    const userSnap = await getDoc(doc(db, 'users', userId));
+    return (userSnap.data()?.refreshPolicy as RefreshPolicy | undefined) || null;
+  } catch (error) {
+    console.error(`Error fetching the refresh policy of user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Sets or clears a user's own refresh policy, which overrides the workspace policy for their links.
+ * @param userId The ID of the user.
+ * @param policy The policy to save, or null to follow the workspace policy again.
+ * @returns An object indicating success, or an error message.
+ */
+export const saveUserRefreshPolicy = async (userId: string, policy: RefreshPolicy | null): Promise<SavePolicyResult> => {
+  if (!userId) {
+    console.error("User ID must be provided to save a refresh policy.");
+    return { success: false, error: 'No user selected.' };
+  }
+  let validPolicy: RefreshPolicy | null = null;
+  if (policy) {
+    const validation = validateRefreshPolicy(policy);
+    if (!validation.policy) {
+      return { success: false, error: validation.error };
+    }
+    validPolicy = validation.policy;
+  }
+  await requireAdmin();
+  try {
+    await updateDoc(doc(db, 'users', userId), { refreshPolicy: validPolicy || deleteField() });
+    return { success: true };
+  } catch (error) {
+    console.error(`Error saving the refresh policy of user ${userId}:`, error);
+    return { success: false, error: 'Could not save the refresh policy.' };
+  }
+};
@@ -0,0 +1,97 @@
+
+import { db } from './firebase';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query } from 'firebase/firestore';
+import type { RefreshJobItem, RefreshPlatform, UserRefreshSummary } from './refreshJobService';
+
+export type RefreshRunTrigger = 'scheduled' | 'manual' | 'refresh-job' | 'retry';
+export type RefreshRunStatus = 'running' | 'completed' | 'failed';
+
+export interface RefreshRunCounts {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface RefreshRunErrorSample {
+  userId: string;
+  platform: RefreshPlatform;
+  link: string;
+  error: string;
+  errorKind?: RefreshJobItem['errorKind'];
+}
+
+/**
+ * One refresh run stored in the 'refreshRuns' collection by the Cloud Functions: the hourly scheduled refresh,
+ * an on-demand user refresh, a queued refresh job, or a retry of another run's failed items.
+ * The per-user summaries live in the run's 'users' subcollection.
+ */
+export interface RefreshRun {
+  id: string; // Firestore document ID
+  trigger: RefreshRunTrigger;
+  status: RefreshRunStatus;
+  startedAt: string; // ISO string
+  finishedAt?: string; // ISO string
+  requestedBy?: string; // ID of the user who started the run; unset for scheduled runs
+  refreshJobId?: string; // For 'refresh-job' runs
+  retryOf?: string; // For 'retry' runs, the ID of the run whose failed items were retried
+  userCount: number;
+  totals: RefreshRunCounts;
+  platforms: Record<RefreshPlatform, RefreshRunCounts>;
+  quotaUnitsUsed: number; // YouTube Data API units
+  errorSamples: RefreshRunErrorSample[]; // The first failures of the run
+  error?: string; // Set when the whole run failed
+}
+
+const REFRESH_RUNS_COLLECTION = 'refreshRuns';
+const DEFAULT_RUN_LIMIT = 50;
+
+/**
+ * Fetches the most recent refresh runs, newest first.
+ * @param maxRuns The maximum number of runs to return.
+ * @returns The runs, or an empty array if none/error.
+ */
+export const getRecentRefreshRuns = async (maxRuns: number = DEFAULT_RUN_LIMIT): Promise<RefreshRun[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, REFRESH_RUNS_COLLECTION), orderBy('startedAt', 'desc'), limit(maxRuns)));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as RefreshRun));
+  } catch (error) {
+    console.error("Error fetching refresh runs:", error);
+    return [];
+  }
+};
+
+/**
+ * Fetches a single refresh run.
+ * @param runId The ID of the run.
+ * @returns The run, or null if it does not exist or on error.
+ */
+export const getRefreshRun = async (runId: string): Promise<RefreshRun | null> => {
+  if (!runId) {
+    return null;
+  }
+  try {
+    const snapshot = await getDoc(doc(db, REFRESH_RUNS_COLLECTION, runId));
+    return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as RefreshRun) : null;
+  } catch (error) {
+    console.error(`Error fetching refresh run ${runId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetches the per-user summaries of a refresh run, with per-platform counts and failed links.
+ * @param runId The ID of the run.
+ * @returns The user summaries, or an empty array if none/error.
+ */
+export const getRefreshRunUsers = async (runId: string): Promise<UserRefreshSummary[]> => {
+  if (!runId) {
+    return [];
+  }
+  try {
+    const snapshot = await getDocs(collection(db, REFRESH_RUNS_COLLECTION, runId, 'users'));
+    return snapshot.docs.map(docSnap => docSnap.data() as UserRefreshSummary);
+  } catch (error) {
+    console.error(`Error fetching user summaries for refresh run ${runId}:`, error);
+    return [];
+  }
+};
@@ -0,0 +1,33 @@
+import { auth, functions } from './firebase';
+import { signInWithCustomToken } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { FIRESTORE_SERVER_UID } from '@shared/sessions';
+import { createServerAssertionToken } from './session';
+
+// The app's server reaches Firestore as one Firebase Auth user with the 'server' claim (see firestore.rules).
+// Server actions and flows authorize their callers themselves in './authorization'. Only import this from server code.
+
+let pendingSignIn: Promise<void> | null = null;
+
+const signIn = async (): Promise<void> => {
+  const callable = httpsCallable<{ assertion: string }, { token: string }>(functions, 'createServerFirestoreToken');
+  const result = await callable({ assertion: await createServerAssertionToken() });
+  await signInWithCustomToken(auth, result.data.token);
+};
+
+/**
+ * Signs the server in to Firestore, once per process; Firebase Auth refreshes the ID token after that.
+ * Call it before the server reads or writes Firestore.
+ */
+export const ensureServerFirestoreAuth = async (): Promise<void> => {
+  if (auth.currentUser?.uid === FIRESTORE_SERVER_UID) return;
+  pendingSignIn ??= signIn().finally(() => {
+    pendingSignIn = null;
+  });
+  try {
+    await pendingSignIn;
+  } catch (error) {
+    console.error("[ServerFirestoreAuth] Error signing the server in to Firestore:", error);
+    throw new Error("The server could not connect to the database.");
+  }
+};
@@ -0,0 +1,113 @@
+import {
+  SERVER_ASSERTION_TTL_SECONDS,
+  SESSION_MAX_LIFETIME_SECONDS,
+  SESSION_REFRESH_AFTER_SECONDS,
+  SESSION_TTL_SECONDS,
+  isSessionCurrent,
+  resolveSessionSecret,
+  type ServerAssertion,
+  type Session,
+  type SessionUser,
+} from '@shared/sessions';
+
+export type { Session, SessionUser };
+
+// Sessions are kept in an HTTP-only cookie; the token format is described in '@shared/sessions'.
+// Only Web Crypto is used, so this runs in middleware too.
+export const SESSION_COOKIE_NAME = 'session';
+
+let warnedAboutDevelopmentSecret = false;
+
+const getSessionSecret = (): string => {
+  const { secret, isDevelopmentSecret } = resolveSessionSecret(process.env.SESSION_SECRET, process.env.NODE_ENV !== 'production');
+  if (isDevelopmentSecret && !warnedAboutDevelopmentSecret) {
+    console.warn("[Session] SESSION_SECRET is not set; using the development secret.");
+    warnedAboutDevelopmentSecret = true;
+  }
+  return secret;
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const getSigningKey = (): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(getSessionSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const signToken = async (value: Session | ServerAssertion): Promise<string> => {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Creates a signed session token.
+ * @param user The logged-in user.
+ * @param authTime When the user logged in, in seconds; defaults to now. Kept when a session is refreshed.
+ * @returns The token to store in the session cookie, and the session it holds.
+ */
+export const createSessionToken = async (user: SessionUser, authTime?: number): Promise<{ token: string; session: Session }> => {
+  const issuedAt = nowInSeconds();
+  const loggedInAt = authTime ?? issuedAt;
+  const session: Session = {
+    user: { id: user.id, email: user.email, name: user.name, role: user.role, lastLogin: user.lastLogin },
+    authTime: loggedInAt,
+    issuedAt,
+    expiresAt: Math.min(issuedAt + SESSION_TTL_SECONDS, loggedInAt + SESSION_MAX_LIFETIME_SECONDS),
+  };
+  return { token: await signToken(session), session };
+};
+
+/**
+ * Creates a short-lived assertion that the request comes from the app's server, for Cloud Functions that
+ * issue the server's Firestore token. Only call this on the server.
+ * @returns The signed assertion.
+ */
+export const createServerAssertionToken = (): Promise<string> =>
+  signToken({ purpose: 'firestore-server', expiresAt: nowInSeconds() + SERVER_ASSERTION_TTL_SECONDS });
+
+/**
+ * Verifies a session token.
+ * @param token The session cookie value.
+ * @returns The session, or null if the token is missing, tampered with or expired.
+ */
+export const verifySessionToken = async (token: string | undefined): Promise<Session | null> => {
+  const [payload, signature, ...rest] = token?.split('.') || [];
+  if (!payload || !signature || rest.length > 0) return null;
+  try {
+    const isValid = await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(signature), new TextEncoder().encode(payload));
+    if (!isValid) return null;
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    return isSessionCurrent(session, nowInSeconds()) ? session : null;
+  } catch (error) {
+    console.error("[Session] Error verifying a session token:", error);
+    return null;
+  }
+};
+
+/**
+ * Tells whether a session should be extended by issuing a new cookie.
+ * @param session A verified session.
+ * @returns True if the cookie is old enough to refresh and the session has not reached its maximum lifetime.
+ */
+export const shouldRefreshSession = (session: Session): boolean => {
+  const now = nowInSeconds();
+  return now - session.issuedAt >= SESSION_REFRESH_AFTER_SECONDS && now < session.authTime + SESSION_MAX_LIFETIME_SECONDS;
+};
+
+/**
+ * The options of the session cookie.
+ * @param session The session stored in the cookie, or null to clear it.
+ * @returns Cookie options for NextResponse.cookies.set.
+ */
+export const getSessionCookieOptions = (session: Session | null) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  expires: session ? new Date(session.expiresAt * 1000) : new Date(0),
+});
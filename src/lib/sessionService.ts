@@ -0,0 +1,76 @@
+import { auth } from './firebase';
+import { signInWithCustomToken, signOut } from 'firebase/auth';
+import type { SessionUser } from './session';
+import { getFirestoreToken } from './authService';
+
+// Client helpers for the session routes under '/api/auth'. The session cookie itself is HTTP-only.
+
+/**
+ * Logs in through '/api/auth/login', which checks the credentials and sets the session cookie.
+ * @param credentials The email and either a password or a one-time code.
+ * @returns The session's user, or null if the credentials were rejected.
+ */
+export const startSession = async (
+  credentials: { email: string; password: string } | { email: string; code: string }
+): Promise<SessionUser | null> => {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  if (response.status === 401) return null;
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error("[SessionService] Error during login:", result.error);
+    throw new Error(result.error || 'An unexpected error occurred during login.');
+  }
+  return result.user;
+};
+
+/**
+ * Reads the current session from the server, which also extends it when due.
+ * @returns The session's user, or null without a valid session.
+ */
+export const getSessionUser = async (): Promise<SessionUser | null> => {
+  try {
+    const response = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (!response.ok) return null;
+    return (await response.json()).user || null;
+  } catch (error) {
+    console.error("[SessionService] Error reading the session:", error);
+    return null;
+  }
+};
+
+export const logoutService = async (): Promise<void> => {
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } catch (error) {
+    console.error("[SessionService] Error ending the session:", error);
+  }
+};
+
+/**
+ * Signs the browser in to Firebase Auth as the session's user, so that its Firestore requests pass
+ * firestore.rules. Does nothing if it is already signed in as that user.
+ * @param user The session's user.
+ */
+export const signInToFirestore = async (user: SessionUser): Promise<void> => {
+  try {
+    await auth.authStateReady();
+    if (auth.currentUser?.uid === user.id) return;
+    await signInWithCustomToken(auth, await getFirestoreToken());
+  } catch (error) {
+    console.error("[SessionService] Error signing in to Firestore:", error);
+  }
+};
+
+// Signs the browser out of Firebase Auth when the session ends.
+export const signOutOfFirestore = async (): Promise<void> => {
+  try {
+    await auth.authStateReady();
+    if (auth.currentUser) await signOut(auth);
+  } catch (error) {
+    console.error("[SessionService] Error signing out of Firestore:", error);
+  }
+};
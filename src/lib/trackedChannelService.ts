@@ -0,0 +1,20 @@
+'use server';
+
+import { db } from './firebase';
+import { requireUserAccess } from './authorization';
+import { doc, getDoc } from 'firebase/firestore';
+import type { RefreshPlatform } from './refreshJobService';
+
+/**
+ * Checks whether a user tracks any channels on a platform, whose new uploads the refresh job discovers.
+ * A server action, because only the server may read 'users' (see firestore.rules).
+ * @param userId The ID of the user.
+ * @param platform The platform.
+ * @returns True if users/{userId}.trackedChannels lists at least one channel for the platform.
+ */
+export const hasTrackedChannels = async (userId: string, platform: RefreshPlatform): Promise<boolean> => {
+  await requireUserAccess(userId);
+  const userSnap = await getDoc(doc(db, 'users', userId));
+  const channels = userSnap.data()?.trackedChannels?.[platform] as string[] | undefined;
+  return !!channels && channels.length > 0;
+};
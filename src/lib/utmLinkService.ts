@@ -2,15 +2,16 @@
 'use server';
 
 import { db } from './firebase';
+import { requireCaller, requireUserAccess } from './authorization';
 import {
   collection,
   addDoc,
+  getDoc,
   getDocs,
   deleteDoc,
   doc,
   query,
   where,
-  limit,
 } from 'firebase/firestore';
 
 // Interface for redirect links, replacing the old UtmLink
@@ -35,6 +36,7 @@ const generateShortId = (length = 7): string => {
 export const addRedirectLink = async (
   linkData: Omit<RedirectLink, 'id' | 'createdAt' | 'shortId' | 'shortUrl'> & { origin: string }
 ): Promise<RedirectLink | null> => {
+  await requireUserAccess(linkData.userId);
   try {
     const shortId = generateShortId();
     // In a production app, you would check for collisions here, but it's highly unlikely for this demo.
@@ -63,31 +65,10 @@ export const addRedirectLink = async (
   }
 };
 
-// Function to get the original URL details from a short ID
-export const getRedirectLinkByShortId = async (shortId: string): Promise<RedirectLink | null> => {
-    if (!shortId) return null;
-    try {
-        const q = query(
-            collection(db, 'redirectLinks'),
-            where('shortId', '==', shortId),
-            limit(1)
-        );
-        const querySnapshot = await getDocs(q);
-        if (querySnapshot.empty) {
-            return null;
-        }
-        const doc = querySnapshot.docs[0];
-        return { id: doc.id, ...doc.data() } as RedirectLink;
-    } catch (error) {
-        console.error("Error fetching redirect link by short ID: ", error);
-        return null;
-    }
-}
-
-
 // Function to get all redirect links for a user
 export const getRedirectLinksForUser = async (userId: string): Promise<RedirectLink[]> => {
   if (!userId) return [];
+  await requireUserAccess(userId);
   try {
     const q = query(
       collection(db, 'redirectLinks'),
@@ -111,8 +92,14 @@ export const getRedirectLinksForUser = async (userId: string): Promise<RedirectL
 
 // Function to delete a redirect link
 export const deleteRedirectLink = async (linkId: string): Promise<boolean> => {
+  // Only logged-in callers may learn whether a link exists; this also signs the server in to Firestore
+  await requireCaller();
+  const linkRef = doc(db, 'redirectLinks', linkId);
+  const linkSnap = await getDoc(linkRef);
+  if (!linkSnap.exists()) return false;
+  await requireUserAccess(linkSnap.data().userId);
   try {
-    await deleteDoc(doc(db, 'redirectLinks', linkId));
+    await deleteDoc(linkRef);
     return true;
   } catch (error) {
     console.error("Error deleting redirect link: ", error);
@@ -0,0 +1,157 @@
+
+'use server';
+
+import { db, functions } from './firebase';
+import { requireCaller, requireSessionToken, requireUserAccess } from './authorization';
+import { collection, doc, getDoc, getDocs, orderBy, query } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import type {
+  CountryAnalytics,
+  DailyChannelAnalytics,
+  RetentionPoint,
+  StoredChannelAnalyticsReport,
+  TrafficSourceAnalytics,
+  VideoOwnerAnalytics,
+  YouTubeAnalyticsConnection,
+} from '@shared/youtubeAnalytics';
+
+export type {
+  CountryAnalytics,
+  DailyChannelAnalytics,
+  RetentionPoint,
+  StoredChannelAnalyticsReport,
+  TrafficSourceAnalytics,
+  VideoOwnerAnalytics,
+  YouTubeAnalyticsConnection,
+};
+
+const CONNECTIONS_COLLECTION = 'youtubeAnalyticsConnections';
+const CHANNEL_ANALYTICS_COLLECTION = 'userChannelAnalytics';
+
+/**
+ * Calls one of the YouTube Analytics Cloud Functions with the caller's session and rethrows its error message.
+ * The functions check the session again.
+ * @param name The name of the callable function.
+ * @param data The request data.
+ * @param fallbackMessage The error message to use when the function gives none.
+ * @returns The function's result.
+ */
+const callYouTubeAnalyticsFunction = async <Req, Res>(name: string, data: Req, fallbackMessage: string): Promise<Res> => {
+  try {
+    const callable = httpsCallable<Req & { sessionToken: string }, Res>(functions, name, { timeout: 120 * 1000 });
+    const result = await callable({ ...data, sessionToken: await requireSessionToken() });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    throw new Error(error?.message || fallbackMessage);
+  }
+};
+
+/**
+ * Fetches a user's YouTube Analytics connection.
+ * @param userId The ID of the user.
+ * @returns The connection, or null if the user has not connected a channel or on error.
+ */
+export const getYouTubeAnalyticsConnection = async (userId: string): Promise<YouTubeAnalyticsConnection | null> => {
+  if (!userId) {
+    return null;
+  }
+  await requireUserAccess(userId);
+  try {
+    const snapshot = await getDoc(doc(db, CONNECTIONS_COLLECTION, userId));
+    return snapshot.exists() ? (snapshot.data() as YouTubeAnalyticsConnection) : null;
+  } catch (error) {
+    console.error(`Error fetching the YouTube Analytics connection of user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetches the last synced YouTube Analytics report of a user's channel, with its daily rows.
+ * Path: userChannelAnalytics/{userId}, daily rows in userChannelAnalytics/{userId}/daily/{YYYY-MM-DD}
+ * @param userId The ID of the user.
+ * @returns The report and its daily rows (oldest first), or null if none was synced or on error.
+ */
+export const getChannelAnalyticsReport = async (
+  userId: string
+): Promise<{ report: StoredChannelAnalyticsReport; daily: DailyChannelAnalytics[] } | null> => {
+  if (!userId) {
+    return null;
+  }
+  await requireUserAccess(userId);
+  try {
+    const reportRef = doc(db, CHANNEL_ANALYTICS_COLLECTION, userId);
+    const snapshot = await getDoc(reportRef);
+    if (!snapshot.exists()) {
+      return null;
+    }
+    const report = snapshot.data() as StoredChannelAnalyticsReport;
+    // Daily rows from earlier syncs are kept, so only the report period is returned.
+    const dailySnapshot = await getDocs(query(collection(reportRef, 'daily'), orderBy('date', 'asc')));
+    const daily = dailySnapshot.docs
+      .map(docSnap => docSnap.data() as DailyChannelAnalytics)
+      .filter(day => day.date >= report.startDate && day.date <= report.endDate);
+    return { report, daily };
+  } catch (error) {
+    console.error(`Error fetching the YouTube Analytics report of user ${userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Starts connecting the current user's own channel. Redirect the browser to the returned URL; Google sends the
+ * user back to the callback page, which calls completeYouTubeAnalyticsConnection.
+ * @returns The Google consent screen URL.
+ */
+export const startYouTubeAnalyticsConnection = async (): Promise<string> => {
+  const caller = await requireCaller();
+  const result = await callYouTubeAnalyticsFunction<{ userId: string }, { authorizationUrl: string }>(
+    'startYouTubeAnalyticsConnection',
+    { userId: caller.id },
+    "Could not start connecting the channel."
+  );
+  return result.authorizationUrl;
+};
+
+/**
+ * Finishes connecting a channel with the code and state Google added to the callback URL, and runs the first sync.
+ * The current user must be the user who started the connection.
+ * @param code The authorization code.
+ * @param state The state from the consent screen URL.
+ * @returns The new connection.
+ */
+export const completeYouTubeAnalyticsConnection = async (code: string, state: string): Promise<YouTubeAnalyticsConnection> => {
+  await requireCaller();
+  return callYouTubeAnalyticsFunction<{ code: string; state: string }, YouTubeAnalyticsConnection>(
+    'completeYouTubeAnalyticsConnection',
+    { code, state },
+    "Could not connect the channel."
+  );
+};
+
+/**
+ * Syncs a user's YouTube Analytics report now. The user themselves or an admin may do this.
+ * @param userId The ID of the user whose channel is synced.
+ * @returns An object indicating success, or an error message.
+ */
+export const syncYouTubeAnalyticsNow = async (userId: string): Promise<{ success: boolean; error?: string }> => {
+  await requireUserAccess(userId);
+  return callYouTubeAnalyticsFunction<{ userId: string }, { success: boolean; error?: string }>(
+    'syncYouTubeAnalyticsNow',
+    { userId },
+    "Could not sync the YouTube Analytics report."
+  );
+};
+
+/**
+ * Disconnects a user's channel and revokes its access. Reports that were already synced are kept.
+ * @param userId The ID of the user whose channel is disconnected.
+ */
+export const disconnectYouTubeAnalytics = async (userId: string): Promise<void> => {
+  await requireUserAccess(userId);
+  await callYouTubeAnalyticsFunction<{ userId: string }, { success: boolean }>(
+    'disconnectYouTubeAnalytics',
+    { userId },
+    "Could not disconnect the channel."
+  );
+};
@@ -1,6 +1,3 @@
-
-'use server';
-
 import type { YouTubeVideo } from './mockData';
 
 interface YouTubeApiItemSnippet {
@@ -52,41 +49,79 @@ interface YouTubeApiResponse {
   };
 }
 
-export async function getVideoStatistics(videoIds: string[], apiKey: string): Promise<Partial<YouTubeVideo>[]> {
+// The videos endpoint accepts at most 50 IDs per request and costs 1 quota unit per request.
+const MAX_IDS_PER_REQUEST = 50;
+const VIDEOS_LIST_QUOTA_COST = 1;
+
+export interface VideoStatisticsResult {
+  videos: Partial<YouTubeVideo>[];
+  missingIds: string[]; // Requested but not returned, e.g. deleted or private videos
+  failedIds: string[]; // In a page whose request failed
+  quotaUnitsUsed: number;
+}
+
+const mapApiItemToVideo = (item: YouTubeApiItem): Partial<YouTubeVideo> => ({
+  id: item.id,
+  title: item.snippet.title,
+  description: item.snippet.description, // Include description
+  thumbnailUrl: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default.url,
+  views: parseInt(item.statistics.viewCount, 10) || 0,
+  likes: parseInt(item.statistics.likeCount || "0", 10) || 0,
+  comments: parseInt(item.statistics.commentCount || "0", 10) || 0,
+  publishedAt: item.snippet.publishedAt, 
+});
+
+/**
+ * Fetches statistics for YouTube videos, requesting them in pages of 50 IDs and merging the results.
+ * A failed page does not stop the remaining pages; its IDs are reported in failedIds.
+ * @param videoIds The YouTube video IDs to fetch.
+ * @param apiKey The YouTube Data API key.
+ * @returns The merged videos, IDs that were missing or failed, and the quota units consumed.
+ * @throws If the API key is missing or every page request failed.
+ */
+export async function getVideoStatistics(videoIds: string[], apiKey: string): Promise<VideoStatisticsResult> {
+  const result: VideoStatisticsResult = { videos: [], missingIds: [], failedIds: [], quotaUnitsUsed: 0 };
   if (!videoIds || videoIds.length === 0) {
-    return [];
+    return result;
   }
   if (!apiKey) {
     console.error("YouTube API key is required.");
     throw new Error("YouTube API key is required.");
   }
 
-  const idsString = videoIds.join(',');
-  const url = `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics&id=${idsString}&key=${apiKey}`;
+  const uniqueIds = Array.from(new Set(videoIds));
+  let lastError: unknown = null;
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('YouTube API Error:', errorData);
-      throw new Error(`YouTube API request failed with status ${response.status}: ${errorData.error?.message || response.statusText}`);
-    }
+  for (let i = 0; i < uniqueIds.length; i += MAX_IDS_PER_REQUEST) {
+    const pageIds = uniqueIds.slice(i, i + MAX_IDS_PER_REQUEST);
+    const url = `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics&id=${pageIds.join(',')}&key=${apiKey}`;
+    result.quotaUnitsUsed += VIDEOS_LIST_QUOTA_COST;
 
-    const data = (await response.json()) as YouTubeApiResponse;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        const errorData = await response.json();
+        console.error('YouTube API Error:', errorData);
+        throw new Error(`YouTube API request failed with status ${response.status}: ${errorData.error?.message || response.statusText}`);
+      }
 
-    return data.items.map((item) => ({
-      id: item.id,
-      title: item.snippet.title,
-      description: item.snippet.description, // Include description
-      thumbnailUrl: item.snippet.thumbnails.high?.url || item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default.url,
-      views: parseInt(item.statistics.viewCount, 10) || 0,
-      likes: parseInt(item.statistics.likeCount || "0", 10) || 0,
-      comments: parseInt(item.statistics.commentCount || "0", 10) || 0,
-      publishedAt: item.snippet.publishedAt, 
-    }));
-  } catch (error) {
-    console.error('Error fetching video statistics:', error);
-    throw error;
+      const data = (await response.json()) as YouTubeApiResponse;
+      const items = data.items || [];
+      const returnedIds = new Set(items.map(item => item.id));
+      result.videos.push(...items.map(mapApiItemToVideo));
+      result.missingIds.push(...pageIds.filter(id => !returnedIds.has(id)));
+    } catch (error) {
+      console.error('Error fetching video statistics:', error);
+      lastError = error;
+      result.failedIds.push(...pageIds);
+    }
   }
-}
 
+  if (result.failedIds.length === uniqueIds.length) {
+    throw lastError;
+  }
+  if (result.missingIds.length > 0) {
+    console.warn(`YouTube API did not return ${result.missingIds.length} video(s), likely deleted or private: ${result.missingIds.join(', ')}`);
+  }
+  return result;
+}
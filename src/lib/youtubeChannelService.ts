@@ -0,0 +1,136 @@
+
+'use server';
+
+import { db } from './firebase';
+import { requireAdmin } from './authorization';
+import {
+  arrayRemove, arrayUnion, collection, deleteField, doc, FieldPath, getDoc, getDocs, limit, query, setDoc, updateDoc, where
+} from 'firebase/firestore';
+import { parseYouTubeChannelInput } from '@shared/platformUrls';
+import { resolveApiKey } from './apiFixtureService';
+import {
+  resolveYouTubeChannel,
+  DEFAULT_CHANNEL_LOOKBACK_DAYS,
+  MAX_CHANNEL_LOOKBACK_DAYS,
+  type TrackedYouTubeChannel,
+} from '@shared/youtubeChannels';
+
+export type { TrackedYouTubeChannel };
+
+// A tracked channel as listed for a user. Details are missing for entries whose channel was never resolved.
+export interface TrackedYouTubeChannelEntry {
+  key: string; // The entry in users/{id}.trackedChannels.youtube, normally the channel ID
+  channel?: TrackedYouTubeChannel;
+}
+
+interface TrackChannelResult {
+  success: boolean;
+  channel?: TrackedYouTubeChannel;
+  error?: string;
+}
+
+/**
+ * Reads the YouTube Data API key from the 'apiKeys' collection.
+ * @returns The API key (a placeholder when replaying fixtures), or null if it is not configured.
+ */
+const getYouTubeApiKey = async (): Promise<string | null> => {
+  const snapshot = await getDocs(query(collection(db, 'apiKeys'), where('serviceName', '==', 'youtube'), limit(1)));
+  return resolveApiKey(snapshot.empty ? null : (snapshot.docs[0].data().keyValue as string));
+};
+
+/**
+ * Starts tracking a YouTube channel for a user. The channel is resolved to its uploads playlist now;
+ * the refresh job then adds its uploads from the look-back window, and later uploads as they appear.
+ * Tracking a channel again updates its look-back window and backfills it on the next refresh.
+ * @param userId The ID of the user.
+ * @param channelInput A channel URL, channel ID or @handle.
+ * @param lookbackDays How many days of past uploads to add.
+ * @returns An object indicating success with the resolved channel, or an error message.
+ */
+export const trackYouTubeChannelForUser = async (
+  userId: string,
+  channelInput: string,
+  lookbackDays: number = DEFAULT_CHANNEL_LOOKBACK_DAYS
+): Promise<TrackChannelResult> => {
+  if (!userId) {
+    console.error("User ID must be provided to track a YouTube channel.");
+    return { success: false, error: 'No user selected.' };
+  }
+  await requireAdmin();
+  const reference = parseYouTubeChannelInput(channelInput);
+  if (!reference.ok) {
+    return { success: false, error: reference.message };
+  }
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_CHANNEL_LOOKBACK_DAYS) {
+    return { success: false, error: `The look-back window must be between 1 and ${MAX_CHANNEL_LOOKBACK_DAYS} days.` };
+  }
+
+  try {
+    const apiKey = await getYouTubeApiKey();
+    if (!apiKey) {
+      return { success: false, error: 'The YouTube API key is not configured.' };
+    }
+    const resolved = await resolveYouTubeChannel(reference.value, apiKey);
+    if (!resolved.ok) {
+      return { success: false, error: resolved.error.message };
+    }
+
+    const channel: TrackedYouTubeChannel = { ...resolved.data, lookbackDays, addedAt: new Date().toISOString() };
+    await setDoc(doc(db, 'youtube', userId), {
+      channels: { [channel.channelId]: { ...channel, lastSyncedAt: deleteField() } },
+    }, { merge: true });
+    await setDoc(doc(db, 'users', userId), {
+      trackedChannels: { youtube: arrayUnion(channel.channelId) },
+    }, { merge: true });
+    return { success: true, channel };
+  } catch (error) {
+    console.error(`Error tracking YouTube channel "${channelInput}" for user ${userId}:`, error);
+    return { success: false, error: 'Could not save the tracked channel.' };
+  }
+};
+
+/**
+ * Lists the YouTube channels tracked for a user, with their stored details.
+ * @param userId The ID of the user.
+ * @returns The tracked channels, or an empty array if none/error.
+ */
+export const getTrackedYouTubeChannels = async (userId: string): Promise<TrackedYouTubeChannelEntry[]> => {
+  if (!userId) {
+    return [];
+  }
+  await requireAdmin();
+  try {
+    const [userSnap, linksSnap] = await Promise.all([getDoc(doc(db, 'users', userId)), getDoc(doc(db, 'youtube', userId))]);
+    const keys = (userSnap.data()?.trackedChannels?.youtube as string[] | undefined) || [];
+    const channels = (linksSnap.data()?.channels as Record<string, TrackedYouTubeChannel> | undefined) || {};
+    return keys.map(key => ({ key, ...(channels[key] && { channel: channels[key] }) }));
+  } catch (error) {
+    console.error("Error getting tracked YouTube channels for user:", error);
+    return [];
+  }
+};
+
+/**
+ * Stops tracking a YouTube channel for a user. Videos already added from the channel stay assigned.
+ * @param userId The ID of the user.
+ * @param key The tracked channel entry, as returned in TrackedYouTubeChannelEntry.key.
+ * @returns True if the channel was removed successfully, false on error.
+ */
+export const untrackYouTubeChannelForUser = async (userId: string, key: string): Promise<boolean> => {
+  if (!userId || !key) {
+    console.error("User ID and channel must be provided to stop tracking a YouTube channel.");
+    return false;
+  }
+  await requireAdmin();
+  try {
+    await updateDoc(doc(db, 'users', userId), { 'trackedChannels.youtube': arrayRemove(key) });
+    const linksRef = doc(db, 'youtube', userId);
+    if ((await getDoc(linksRef)).exists()) {
+      await updateDoc(linksRef, new FieldPath('channels', key), deleteField());
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error removing tracked YouTube channel ${key} for user ${userId}:`, error);
+    return false;
+  }
+};
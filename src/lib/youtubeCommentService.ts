@@ -0,0 +1,150 @@
+
+import { db } from './firebase';
+import { addDoc, collection, doc, getDocs, limit, onSnapshot, query, where, type Unsubscribe } from 'firebase/firestore';
+import type { CommentIngestionJob, StoredYouTubeComment } from '@shared/youtubeComments';
+
+export type { CommentIngestionJob, CommentIngestionState, StoredYouTubeComment } from '@shared/youtubeComments';
+
+export type CommentIngestionJobWithId = CommentIngestionJob & { id: string }; // id is the Firestore document ID
+
+const COMMENT_INGESTION_JOBS_COLLECTION = 'commentIngestionJobs';
+const ACTIVE_JOB_STATUSES: CommentIngestionJob['status'][] = ['queued', 'running'];
+// A job still queued or running after this long is assumed dead (the worker times out after 9 minutes).
+const STALE_JOB_AFTER_MS = 15 * 60 * 1000;
+
+const isJobStale = (job: CommentIngestionJob): boolean =>
+  Date.now() - new Date(job.createdAt).getTime() > STALE_JOB_AFTER_MS;
+
+/**
+ * Checks whether a comment ingestion job has reached a final state.
+ * @param job The comment ingestion job.
+ * @returns True if the job has completed or failed.
+ */
+export const isCommentIngestionJobFinished = (job: CommentIngestionJob): boolean =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * Fetches the stored comments and replies of a video, as written by the 'processCommentIngestionJob' Cloud Function.
+ * Path: userVideoAnalytics/{userId}/videos/{videoId}/comments/{commentId}
+ * @param userId The ID of the user whose analytics hold the video.
+ * @param videoId The YouTube video ID.
+ * @returns The stored comments in no particular order.
+ */
+export const getStoredYouTubeComments = async (userId: string, videoId: string): Promise<StoredYouTubeComment[]> => {
+  if (!userId || !videoId) {
+    console.error("User ID and video ID are required to fetch stored comments.");
+    return [];
+  }
+  try {
+    const commentsSnap = await getDocs(collection(db, 'userVideoAnalytics', userId, 'videos', videoId, 'comments'));
+    return commentsSnap.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as StoredYouTubeComment));
+  } catch (error) {
+    console.error(`Error fetching stored comments for video ${videoId} of user ${userId}:`, error);
+    throw new Error("Failed to load the stored comments.");
+  }
+};
+
+/**
+ * Listens for an in-flight comment ingestion job for a video, so every open card sees the same ingestion.
+ * @param userId The ID of the user whose analytics hold the video.
+ * @param videoId The YouTube video ID.
+ * @param onUpdate Called with the oldest queued or running job, or null if there is none.
+ * @param onError Optional callback for listener errors.
+ * @returns A function that stops listening.
+ */
+export const subscribeToActiveCommentIngestionJob = (
+  userId: string,
+  videoId: string,
+  onUpdate: (job: CommentIngestionJobWithId | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const jobsQuery = query(
+    collection(db, COMMENT_INGESTION_JOBS_COLLECTION),
+    where('userId', '==', userId),
+    where('videoId', '==', videoId),
+    where('status', 'in', ACTIVE_JOB_STATUSES),
+    limit(10)
+  );
+  return onSnapshot(
+    jobsQuery,
+    (querySnapshot) => {
+      const activeJobs = querySnapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as CommentIngestionJobWithId))
+        .filter(job => !isJobStale(job))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      onUpdate(activeJobs[0] || null);
+    },
+    (error) => {
+      console.error(`Error listening for comment ingestion jobs of video ${videoId}:`, error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Listens to progress updates of a single comment ingestion job.
+ * @param jobId The ID of the comment ingestion job.
+ * @param onUpdate Called with the latest job data, or null if the job document does not exist.
+ * @param onError Optional callback for listener errors.
+ * @returns A function that stops listening.
+ */
+export const subscribeToCommentIngestionJob = (
+  jobId: string,
+  onUpdate: (job: CommentIngestionJobWithId | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    doc(db, COMMENT_INGESTION_JOBS_COLLECTION, jobId),
+    (docSnap) => {
+      onUpdate(docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as CommentIngestionJobWithId) : null);
+    },
+    (error) => {
+      console.error(`Error listening to comment ingestion job ${jobId}:`, error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Queues a server-side ingestion of all comments and replies of a video, up to the configured cap.
+ * If an ingestion for the same video is already in flight, that job is returned instead.
+ * @param userId The ID of the user whose analytics hold the video.
+ * @param videoId The YouTube video ID.
+ * @param createdBy Optional ID of the user requesting the ingestion.
+ * @returns The queued (or already running) job.
+ */
+export const enqueueCommentIngestionJob = async (
+  userId: string,
+  videoId: string,
+  createdBy?: string
+): Promise<CommentIngestionJobWithId> => {
+  if (!userId || !videoId) {
+    throw new Error("User ID and video ID must be provided to queue a comment ingestion.");
+  }
+
+  const activeJob = await new Promise<CommentIngestionJobWithId | null>((resolve, reject) => {
+    const unsubscribe = subscribeToActiveCommentIngestionJob(userId, videoId, (job) => {
+      unsubscribe();
+      resolve(job);
+    }, reject);
+  });
+  if (activeJob) {
+    return activeJob;
+  }
+
+  const job: CommentIngestionJob = {
+    userId,
+    videoId,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    ...(createdBy && { createdBy }),
+  };
+
+  try {
+    const docRef = await addDoc(collection(db, COMMENT_INGESTION_JOBS_COLLECTION), job);
+    return { id: docRef.id, ...job };
+  } catch (error) {
+    console.error(`Error queuing comment ingestion for video ${videoId} of user ${userId}:`, error);
+    throw new Error("Failed to queue the comment ingestion.");
+  }
+};
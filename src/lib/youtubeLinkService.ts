@@ -1,10 +1,18 @@
 
 import { db } from './firebase';
 import { doc, getDoc, setDoc, updateDoc, arrayRemove, Timestamp } from 'firebase/firestore';
+import { parseYouTubeVideoUrl, type UrlRejectionReason } from '@shared/platformUrls';
+
+export interface RejectedLink {
+  link: string;
+  reason: UrlRejectionReason;
+  message: string;
+}
 
 interface AssignLinksResult {
   success: boolean;
   actuallyAddedCount: number;
+  rejectedLinks: RejectedLink[]; // Links that are not valid YouTube links, with the reason
 }
 
 export interface UserYouTubeData {
@@ -15,14 +23,15 @@ export interface UserYouTubeData {
 /**
  * Assigns or updates YouTube links for a specific user in the 'youtube' collection.
  * Also sets the lastRefreshedAt timestamp.
+ * Links that are not valid YouTube links are skipped and reported in rejectedLinks.
  * @param userId The ID of the user.
  * @param linksToAdd An array of new YouTube links to add.
- * @returns An object indicating success and the count of links actually added.
+ * @returns An object indicating success, the count of links actually added and the rejected links.
  */
 export const assignYouTubeLinksToUser = async (userId: string, linksToAdd: string[]): Promise<AssignLinksResult> => {
   if (!userId || !linksToAdd) {
     console.error("User ID and links to add must be provided.");
-    return { success: false, actuallyAddedCount: 0 };
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
   }
 
   try {
@@ -34,18 +43,34 @@ export const assignYouTubeLinksToUser = async (userId: string, linksToAdd: strin
       existingLinks = docSnap.data().links as string[];
     }
 
-    const initialExistingLinksCount = existingLinks.length;
-    const updatedLinks = Array.from(new Set([...existingLinks, ...linksToAdd.map(link => link.trim()).filter(Boolean)]));
-    const actuallyAddedCount = updatedLinks.length - initialExistingLinksCount;
+    // New links are stored in canonical form and de-duplicated by video ID, so other URL styles for the same video are not added twice.
+    const knownIds = new Set(existingLinks.map(link => {
+      const parsed = parseYouTubeVideoUrl(link);
+      return parsed.ok ? parsed.value.videoId : link;
+    }));
+    const rejectedLinks: RejectedLink[] = [];
+    const newLinks: string[] = [];
+    for (const link of linksToAdd) {
+      if (!link.trim()) continue;
+      const parsed = parseYouTubeVideoUrl(link);
+      if (!parsed.ok) {
+        rejectedLinks.push({ link, reason: parsed.reason, message: parsed.message });
+      } else if (!knownIds.has(parsed.value.videoId)) {
+        knownIds.add(parsed.value.videoId);
+        newLinks.push(parsed.value.canonicalUrl);
+      }
+    }
+    const updatedLinks = [...existingLinks, ...newLinks];
+    const actuallyAddedCount = newLinks.length;
 
     await setDoc(userLinksRef, { 
       links: updatedLinks,
       lastRefreshedAt: new Date().toISOString() // Set/update timestamp on assignment
     }, { merge: true }); // Use merge to ensure other fields aren't overwritten
-    return { success: true, actuallyAddedCount };
+    return { success: true, actuallyAddedCount, rejectedLinks };
   } catch (error) {
     console.error("Error assigning YouTube links to user:", error);
-    return { success: false, actuallyAddedCount: 0 };
+    return { success: false, actuallyAddedCount: 0, rejectedLinks: [] };
   }
 };
 
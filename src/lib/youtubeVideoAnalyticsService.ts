@@ -2,28 +2,62 @@
 'use server';
 
 import { db } from './firebase';
+import { requireAdmin, requireUserAccess } from './authorization';
 import {
   doc,
   getDoc,
-  setDoc,
   collection,
   getDocs,
   writeBatch,
   Timestamp,
   query,
   orderBy,
+  where,
   deleteDoc,
 } from 'firebase/firestore';
 import type { YouTubeVideo } from './mockData'; // Assuming YouTubeVideo defines the structure
+import type { StoredVideoOwnerAnalytics } from '@shared/youtubeAnalytics';
+import type { YouTubeVideoDetails } from '@shared/youtubeVideoDetails';
+import type { CommentIngestionState } from '@shared/youtubeComments';
 
-export interface StoredYouTubeVideo extends Partial<YouTubeVideo> {
+// Details (duration, tags, category and so on) are written by the refresh Cloud Functions.
+export interface StoredYouTubeVideo extends Partial<YouTubeVideo>, YouTubeVideoDetails {
   id: string; // videoId is the document ID
   lastFetched?: string; // ISO string timestamp
+  lastCheckedAt?: string; // ISO string of the last refresh that fetched the video
+  lastChangedAt?: string; // ISO string of the last refresh that found different metrics or metadata
+  ownerAnalytics?: StoredVideoOwnerAnalytics; // YouTube Analytics metrics, set when the owner connected the channel
+  commentIngestion?: CommentIngestionState; // Outcome of the last comment ingestion; comments are in the 'comments' subcollection
 }
 
+// One document per video per day, holding the cumulative totals seen on that day.
+export interface VideoMetricSnapshot {
+  date: string; // "YYYY-MM-DD" (UTC), also the document ID
+  videoId: string;
+  views: number;
+  likes: number;
+  comments: number;
+  capturedAt: string; // ISO string of the refresh that wrote this snapshot
+}
+
+// Snapshot document IDs are the UTC calendar day of the refresh.
+const getSnapshotDateKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+const buildVideoSnapshot = (videoData: StoredYouTubeVideo, capturedAt: string): VideoMetricSnapshot => ({
+  date: getSnapshotDateKey(new Date(capturedAt)),
+  videoId: videoData.id,
+  views: videoData.views || 0,
+  likes: videoData.likes || 0,
+  comments: videoData.comments || 0,
+  capturedAt,
+});
+
 /**
- * Saves or updates a single YouTube video's analytics data in Firestore for a specific user.
+ * Saves or updates a single YouTube video's analytics data in Firestore for a specific user,
+ * and records the day's totals in its daily snapshot history.
  * Path: userVideoAnalytics/{userId}/videos/{videoId}
+ * Snapshot path: userVideoAnalytics/{userId}/videos/{videoId}/dailySnapshots/{YYYY-MM-DD}
+ * Admin only: metrics are written by the Cloud Functions' refreshes, not by their owners.
  * @param userId The ID of the user.
  * @param videoData The video data to save. Must include 'id' (videoId).
  */
@@ -32,13 +66,20 @@ export const saveVideoAnalytics = async (userId: string, videoData: Partial<YouT
     console.error("User ID and video data with video ID are required to save analytics.");
     throw new Error("User ID and video data with video ID are required.");
   }
+  await requireAdmin();
   try {
     const videoDocRef = doc(db, 'userVideoAnalytics', userId, 'videos', videoData.id);
+    const fetchedAt = new Date().toISOString();
     const dataToSave: StoredYouTubeVideo = {
       ...videoData,
-      lastFetched: new Date().toISOString(),
+      id: videoData.id,
+      lastFetched: fetchedAt,
     };
-    await setDoc(videoDocRef, dataToSave, { merge: true }); // Merge to update existing or create new
+    const snapshot = buildVideoSnapshot(dataToSave, fetchedAt);
+    const batch = writeBatch(db);
+    batch.set(videoDocRef, dataToSave, { merge: true }); // Merge to update existing or create new
+    batch.set(doc(videoDocRef, 'dailySnapshots', snapshot.date), snapshot); // Later refreshes on the same day overwrite
+    await batch.commit();
   } catch (error) {
     console.error(`Error saving video analytics for video ${videoData.id} of user ${userId}:`, error);
     throw error; // Re-throw to be caught by caller
@@ -55,6 +96,7 @@ export const getAllVideoAnalyticsForUser = async (userId: string): Promise<Store
     console.warn("User ID is required to fetch video analytics.");
     return [];
   }
+  await requireUserAccess(userId);
   try {
     const videosCollectionRef = collection(db, 'userVideoAnalytics', userId, 'videos');
     // Optionally, order by a field if needed, e.g., lastFetched or publishedAt
@@ -84,6 +126,7 @@ export const getVideoAnalytics = async (userId: string, videoId: string): Promis
     console.warn("User ID and Video ID are required.");
     return null;
   }
+  await requireUserAccess(userId);
   try {
     const videoDocRef = doc(db, 'userVideoAnalytics', userId, 'videos', videoId);
     const docSnap = await getDoc(videoDocRef);
@@ -108,6 +151,7 @@ export const deleteVideoAnalytics = async (userId: string, videoId: string): Pro
     console.error("User ID and Video ID are required for deletion.");
     return false;
   }
+  await requireUserAccess(userId);
   try {
     const videoDocRef = doc(db, 'userVideoAnalytics', userId, 'videos', videoId);
     await deleteDoc(videoDocRef);
@@ -122,6 +166,8 @@ export const deleteVideoAnalytics = async (userId: string, videoId: string): Pro
 /**
  * Batch saves multiple YouTube video analytics data to Firestore for a specific user.
  * This is more efficient for updating many videos at once if not showing per-video progress.
+ * Each video's daily snapshot is written in the same batch.
+ * Admin only, like saveVideoAnalytics.
  * @param userId The ID of the user.
  * @param videosData An array of video data to save. Each must include 'id' (videoId).
  */
@@ -130,16 +176,21 @@ export const batchSaveVideoAnalytics = async (userId: string, videosData: Partia
     console.error("User ID and videos data are required for batch save.");
     return;
   }
+  await requireAdmin();
   try {
     const batch = writeBatch(db);
+    const fetchedAt = new Date().toISOString();
     videosData.forEach(videoData => {
       if (videoData.id) {
         const videoDocRef = doc(db, 'userVideoAnalytics', userId, 'videos', videoData.id);
         const dataToSave: StoredYouTubeVideo = {
           ...videoData,
-          lastFetched: new Date().toISOString(),
+          id: videoData.id,
+          lastFetched: fetchedAt,
         };
+        const snapshot = buildVideoSnapshot(dataToSave, fetchedAt);
         batch.set(videoDocRef, dataToSave, { merge: true });
+        batch.set(doc(videoDocRef, 'dailySnapshots', snapshot.date), snapshot);
       }
     });
     await batch.commit();
@@ -148,3 +199,49 @@ export const batchSaveVideoAnalytics = async (userId: string, videosData: Partia
     throw error;
   }
 };
+
+/**
+ * Retrieves the daily metric snapshots of a single YouTube video for an inclusive date range.
+ * @param userId The ID of the user.
+ * @param videoId The ID of the video.
+ * @param startDate First day of the range, "YYYY-MM-DD" (UTC).
+ * @param endDate Last day of the range, "YYYY-MM-DD" (UTC).
+ * @returns Snapshots ordered by date ascending. Days without a refresh have no entry.
+ */
+export const getVideoMetricHistory = async (userId: string, videoId: string, startDate: string, endDate: string): Promise<VideoMetricSnapshot[]> => {
+  if (!userId || !videoId || !startDate || !endDate) {
+    console.warn("User ID, Video ID and a date range are required to fetch video metric history.");
+    return [];
+  }
+  await requireUserAccess(userId);
+  try {
+    const snapshotsRef = collection(db, 'userVideoAnalytics', userId, 'videos', videoId, 'dailySnapshots');
+    const q = query(snapshotsRef, where('date', '>=', startDate), where('date', '<=', endDate), orderBy('date', 'asc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => docSnap.data() as VideoMetricSnapshot);
+  } catch (error) {
+    console.error(`Error fetching metric history for video ${videoId} of user ${userId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves daily metric snapshots for several of a user's videos at once.
+ * @param userId The ID of the user.
+ * @param videoIds The IDs of the videos to include.
+ * @param startDate First day of the range, "YYYY-MM-DD" (UTC).
+ * @param endDate Last day of the range, "YYYY-MM-DD" (UTC).
+ * @returns A map of videoId to its snapshots ordered by date ascending.
+ */
+export const getVideoMetricHistoryForUser = async (userId: string, videoIds: string[], startDate: string, endDate: string): Promise<Record<string, VideoMetricSnapshot[]>> => {
+  const history: Record<string, VideoMetricSnapshot[]> = {};
+  if (!userId || !videoIds || videoIds.length === 0) {
+    return history;
+  }
+  await requireUserAccess(userId);
+  const results = await Promise.all(videoIds.map(videoId => getVideoMetricHistory(userId, videoId, startDate, endDate)));
+  videoIds.forEach((videoId, index) => {
+    history[videoId] = results[index];
+  });
+  return history;
+};
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, getSessionCookieOptions, verifySessionToken } from '@/lib/session';
+
+// Reachable without a session: the login page, the login API and the public redirect route for UTM links.
+const PUBLIC_PATH_PREFIXES = ['/api/auth/', '/track/'];
+const LOGIN_PATH = '/login';
+
+const isPublicPath = (pathname: string) =>
+  pathname === LOGIN_PATH || PUBLIC_PATH_PREFIXES.some(prefix => pathname.startsWith(prefix));
+
+const isAdminPath = (pathname: string) => pathname === '/admin' || pathname.startsWith('/admin/');
+
+/**
+ * Checks the session cookie on every app route. Pages redirect to /login without a session and to /dashboard
+ * when a non-admin opens /admin; API routes answer 401 or 403 instead. Sessions are extended by
+ * '/api/auth/session', which reads the user again; the middleware runs where the Firebase SDK is not used.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  const isApiRoute = pathname.startsWith('/api/');
+
+  if (isPublicPath(pathname)) {
+    if (session && pathname === LOGIN_PATH) {
+      return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (!session) {
+    const response = isApiRoute ?
+      NextResponse.json({ error: 'Authentication required.' }, { status: 401 }) :
+      NextResponse.redirect(new URL(LOGIN_PATH, request.url));
+    if (request.cookies.has(SESSION_COOKIE_NAME)) {
+      // Expired or invalid
+      response.cookies.set(SESSION_COOKIE_NAME, '', getSessionCookieOptions(null));
+    }
+    return response;
+  }
+
+  if (isAdminPath(pathname) && session.user.role !== 'admin') {
+    return isApiRoute ?
+      NextResponse.json({ error: 'Admin access required.' }, { status: 403 }) :
+      NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Everything except Next.js assets and the favicon
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
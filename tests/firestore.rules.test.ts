@@ -0,0 +1,246 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Checks firestore.rules against the Firestore emulator for each kind of caller. Run with 'npm run test:rules',
+// which starts the emulator. The tokens mirror those minted by 'createFirestoreToken' and 'createServerFirestoreToken'.
+
+const ALICE = 'alice'; // A user, owner of the seeded data
+const BOB = 'bob'; // Another user
+const ADMIN = 'admin-user';
+
+let testEnv: RulesTestEnvironment;
+
+const asAnonymous = () => testEnv.unauthenticatedContext().firestore();
+const asUser = (userId: string) => testEnv.authenticatedContext(userId, { role: 'user' }).firestore();
+const asAdmin = () => testEnv.authenticatedContext(ADMIN, { role: 'admin' }).firestore();
+const asServer = () => testEnv.authenticatedContext('app-server', { server: true }).firestore();
+
+// Browser callers other than the server, for collections only the server may use
+const browserCallers: [string, () => ReturnType<RulesTestContext['firestore']>][] = [
+  ['anonymous callers', asAnonymous],
+  ['users', () => asUser(ALICE)],
+  ['admins', asAdmin],
+];
+
+const seed = async (documents: Record<string, Record<string, unknown>>) => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(documents).map(([path, data]) => db.doc(path).set(data)));
+  });
+};
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-brand-dikhega',
+    firestore: { rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8') },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed({
+    'apiKeys/youtube': { serviceName: 'youtube', keyValue: 'secret' },
+    [`users/${ALICE}`]: { email: 'alice@example.com', role: 'user', passwordHash: 'scrypt$...' },
+    [`loginCodes/${ALICE}`]: { codeHash: 'scrypt$...', userId: ALICE },
+    [`chatUsage/${ALICE}`]: { count: 1 },
+    [`youtubeAnalyticsTokens/${ALICE}`]: { refreshToken: 'secret' },
+    'redirectLinks/link-1': { userId: ALICE, shortId: 'abc123', destinationUrl: 'https://example.com' },
+    [`youtube/${ALICE}`]: { links: ['https://youtu.be/v1'] },
+    [`userVideoAnalytics/${ALICE}/videos/v1`]: { title: 'Video' },
+    [`userVideoAnalytics/${ALICE}/videos/v1/dailySnapshots/2024-01-01`]: { viewCount: 1 },
+    [`userVideoAnalytics/${ALICE}/videos/v1/comments/c1`]: { text: 'Nice' },
+    [`userInstagramPostAnalytics/${ALICE}/posts/p1`]: { caption: 'Post' },
+    [`userTikTokAnalytics/${ALICE}/videos/t1`]: { title: 'TikTok' },
+    [`userChannelAnalytics/${ALICE}/daily/2024-01-01`]: { views: 1 },
+    [`youtubeAnalyticsConnections/${ALICE}`]: { channelId: 'UC1' },
+    'refreshJobs/job-1': { userId: ALICE, platform: 'youtube', status: 'running' },
+    'commentIngestionJobs/job-1': { userId: ALICE, videoId: 'v1', status: 'running' },
+    'refreshRuns/run-1': { trigger: 'scheduled' },
+    [`refreshRuns/run-1/users/${ALICE}`]: { platforms: [] },
+    'reconciliationRuns/run-1': { trigger: 'scheduled' },
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+describe('server-only collections', () => {
+  const paths = [
+    'apiKeys/youtube',
+    `users/${ALICE}`,
+    `loginCodes/${ALICE}`,
+    `chatUsage/${ALICE}`,
+    `youtubeAnalyticsTokens/${ALICE}`,
+    'redirectLinks/link-1',
+  ];
+
+  for (const path of paths) {
+    for (const [name, getDb] of browserCallers) {
+      it(`refuses ${path} to ${name}`, async () => {
+        await assertFails(getDb().doc(path).get());
+        await assertFails(getDb().doc(path).set({ changed: true }, { merge: true }));
+      });
+    }
+
+    it(`allows ${path} to the server`, async () => {
+      await assertSucceeds(asServer().doc(path).get());
+      await assertSucceeds(asServer().doc(path).set({ changed: true }, { merge: true }));
+    });
+  }
+
+  it('does not let users read their own profile', async () => {
+    await assertFails(asUser(ALICE).doc(`users/${ALICE}`).get());
+  });
+
+  it('does not let owners or admins query redirect links', async () => {
+    await assertFails(asUser(ALICE).collection('redirectLinks').where('userId', '==', ALICE).get());
+    await assertFails(asAdmin().collection('redirectLinks').get());
+  });
+
+  it('lets the server look up redirect links by short ID', async () => {
+    await assertSucceeds(asServer().collection('redirectLinks').where('shortId', '==', 'abc123').limit(1).get());
+  });
+});
+
+describe('analytics', () => {
+  const paths = [
+    `userVideoAnalytics/${ALICE}/videos/v1`,
+    `userVideoAnalytics/${ALICE}/videos/v1/dailySnapshots/2024-01-01`,
+    `userVideoAnalytics/${ALICE}/videos/v1/comments/c1`,
+    `userInstagramPostAnalytics/${ALICE}/posts/p1`,
+    `userTikTokAnalytics/${ALICE}/videos/t1`,
+    `userChannelAnalytics/${ALICE}/daily/2024-01-01`,
+    `youtubeAnalyticsConnections/${ALICE}`,
+  ];
+
+  for (const path of paths) {
+    it(`lets the owner and admins read ${path}`, async () => {
+      await assertSucceeds(asUser(ALICE).doc(path).get());
+      await assertSucceeds(asAdmin().doc(path).get());
+    });
+
+    it(`refuses ${path} to other users and anonymous callers`, async () => {
+      await assertFails(asUser(BOB).doc(path).get());
+      await assertFails(asAnonymous().doc(path).get());
+    });
+
+    it(`lets only the server write ${path}`, async () => {
+      await assertFails(asUser(ALICE).doc(path).set({ changed: true }, { merge: true }));
+      await assertFails(asAdmin().doc(path).set({ changed: true }, { merge: true }));
+      await assertSucceeds(asServer().doc(path).set({ changed: true }, { merge: true }));
+    });
+  }
+
+  it('lets the owner list their videos but not another user', async () => {
+    await assertSucceeds(asUser(ALICE).collection(`userVideoAnalytics/${ALICE}/videos`).get());
+    await assertFails(asUser(BOB).collection(`userVideoAnalytics/${ALICE}/videos`).get());
+  });
+});
+
+describe('assigned links', () => {
+  for (const collection of ['youtube', 'instagramReelLinks', 'tiktokLinks']) {
+    it(`lets the owner read ${collection} and admins manage it`, async () => {
+      await assertSucceeds(asUser(ALICE).doc(`${collection}/${ALICE}`).get());
+      await assertSucceeds(asAdmin().doc(`${collection}/${ALICE}`).set({ links: [] }, { merge: true }));
+      await assertSucceeds(asAdmin().doc(`${collection}/${ALICE}`).get());
+    });
+
+    it(`does not let the owner change their own ${collection} document`, async () => {
+      await assertFails(asUser(ALICE).doc(`${collection}/${ALICE}`).set({ links: ['https://example.com/1'] }, { merge: true }));
+      await assertFails(asUser(ALICE).doc(`${collection}/${ALICE}`).update({ channels: { UC1: { title: 'Channel' } } }));
+      await assertFails(asUser(ALICE).doc(`${collection}/${ALICE}`).delete());
+    });
+
+    it(`refuses another user's ${collection} document`, async () => {
+      await assertFails(asUser(BOB).doc(`${collection}/${ALICE}`).get());
+      await assertFails(asUser(BOB).doc(`${collection}/${ALICE}`).set({ links: [] }));
+      await assertFails(asAnonymous().doc(`${collection}/${ALICE}`).get());
+    });
+  }
+});
+
+describe('jobs', () => {
+  const newRefreshJob = (userId: string, extra: Record<string, unknown> = {}) =>
+    ({ userId, platform: 'youtube', status: 'queued', items: [], createdAt: new Date().toISOString(), ...extra });
+
+  it('lets users queue refreshes of their own links', async () => {
+    await assertSucceeds(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { createdBy: ALICE })));
+  });
+
+  it("refuses queuing a refresh of another user's links", async () => {
+    await assertFails(asUser(BOB).collection('refreshJobs').add(newRefreshJob(ALICE)));
+  });
+
+  it('refuses jobs that are not queued or name someone else as their creator', async () => {
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { status: 'completed' })));
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { createdBy: ADMIN })));
+  });
+
+  it('refuses refresh jobs with fields the app does not write', async () => {
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { quotaUnitsUsed: 0 })));
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { startedAt: new Date().toISOString() })));
+  });
+
+  it('refuses refresh jobs for unsupported platforms', async () => {
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(newRefreshJob(ALICE, { platform: 'facebook' })));
+    const { platform, ...withoutPlatform } = newRefreshJob(ALICE);
+    await assertFails(asUser(ALICE).collection('refreshJobs').add(withoutPlatform));
+  });
+
+  it("lets admins queue refreshes of any user's links", async () => {
+    await assertSucceeds(asAdmin().collection('refreshJobs').add(newRefreshJob(ALICE, { createdBy: ADMIN })));
+  });
+
+  it('lets the owner and admins follow a job, and nobody else', async () => {
+    await assertSucceeds(asUser(ALICE).doc('refreshJobs/job-1').get());
+    await assertSucceeds(asAdmin().doc('refreshJobs/job-1').get());
+    await assertFails(asUser(BOB).doc('refreshJobs/job-1').get());
+    await assertFails(asAnonymous().doc('refreshJobs/job-1').get());
+  });
+
+  it("allows queries for the caller's own jobs only", async () => {
+    await assertSucceeds(asUser(ALICE).collection('refreshJobs').where('userId', '==', ALICE).get());
+    await assertFails(asUser(ALICE).collection('refreshJobs').get());
+    await assertSucceeds(asAdmin().collection('refreshJobs').get());
+  });
+
+  it('does not let browsers change a job', async () => {
+    await assertFails(asUser(ALICE).doc('refreshJobs/job-1').update({ status: 'completed' }));
+    await assertFails(asAdmin().doc('refreshJobs/job-1').delete());
+  });
+
+  it('applies the same rules to comment ingestion jobs', async () => {
+    const job = { userId: ALICE, videoId: 'v1', status: 'queued', createdAt: new Date().toISOString() };
+    await assertSucceeds(asUser(ALICE).collection('commentIngestionJobs').add(job));
+    await assertFails(asUser(BOB).collection('commentIngestionJobs').add(job));
+    await assertSucceeds(asUser(ALICE).collection('commentIngestionJobs').where('userId', '==', ALICE).where('videoId', '==', 'v1').get());
+    await assertFails(asUser(BOB).doc('commentIngestionJobs/job-1').get());
+    await assertFails(asUser(ALICE).doc('commentIngestionJobs/job-1').update({ status: 'completed' }));
+  });
+
+  it('refuses comment ingestion jobs with fields the app does not write', async () => {
+    const job = { userId: ALICE, videoId: 'v1', status: 'queued', createdAt: new Date().toISOString() };
+    await assertFails(asUser(ALICE).collection('commentIngestionJobs').add({ ...job, error: 'none' }));
+    await assertFails(asUser(ALICE).collection('commentIngestionJobs').add({ ...job, videoId: 42 }));
+  });
+});
+
+describe('operations history', () => {
+  for (const path of ['refreshRuns/run-1', `refreshRuns/run-1/users/${ALICE}`, 'reconciliationRuns/run-1']) {
+    it(`lets only admins read ${path}`, async () => {
+      await assertSucceeds(asAdmin().doc(path).get());
+      await assertFails(asUser(ALICE).doc(path).get());
+      await assertFails(asAnonymous().doc(path).get());
+      await assertFails(asAdmin().doc(path).set({ changed: true }, { merge: true }));
+    });
+  }
+});
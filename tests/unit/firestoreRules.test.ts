@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PLATFORM_IDS, PLATFORM_MODULES } from '@shared/platforms';
+
+// Checks that firestore.rules keeps up with the platform registry. The rules themselves are tested against
+// the emulator by tests/firestore.rules.test.ts.
+
+const rules = readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8');
+
+describe('firestore.rules', () => {
+  it('accepts refresh jobs for exactly the registered platforms', () => {
+    const match = rules.match(/job\.platform in \[([^\]]*)\]/);
+    assert.ok(match, 'The platform list of isValidNewRefreshJob was not found.');
+    const rulePlatforms = match[1].split(',').map(platform => platform.trim().replace(/^'|'$/g, ''));
+    assert.deepEqual([...rulePlatforms].sort(), ['youtube', 'instagram', ...PLATFORM_IDS].sort());
+  });
+
+  it("lets owners read each platform module's links", () => {
+    for (const platformModule of PLATFORM_MODULES) {
+      assert.ok(rules.includes(`match /${platformModule.collections.links}/{userId}`), `No rule for ${platformModule.collections.links}.`);
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyHttpStatus, createCircuitBreaker, fetchJsonWithRetry } from '@shared/httpClient';
+
+// Replaces the global fetch with responses queued per test, and counts the requests sent.
+
+const originalFetch = globalThis.fetch;
+let responses: (() => Response)[] = [];
+let requests = 0;
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) => () =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+const networkError = () => () => {
+  throw new TypeError('fetch failed');
+};
+
+// Short delays, so the backoff does not slow the tests down
+const FAST = { baseDelayMs: 1, maxDelayMs: 100 };
+
+beforeEach(() => {
+  responses = [];
+  requests = 0;
+  globalThis.fetch = (async () => {
+    const next = responses[requests++];
+    assert.ok(next, 'Unexpected request');
+    return next();
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('classifyHttpStatus', () => {
+  it('maps status codes to error kinds', () => {
+    assert.equal(classifyHttpStatus(429), 'rate-limited');
+    assert.equal(classifyHttpStatus(401), 'auth');
+    assert.equal(classifyHttpStatus(403), 'auth');
+    assert.equal(classifyHttpStatus(404), 'not-found');
+    assert.equal(classifyHttpStatus(410), 'not-found');
+    assert.equal(classifyHttpStatus(408), 'transient');
+    assert.equal(classifyHttpStatus(500), 'transient');
+    assert.equal(classifyHttpStatus(503), 'transient');
+    assert.equal(classifyHttpStatus(400), 'invalid-request');
+  });
+});
+
+describe('fetchJsonWithRetry', () => {
+  it('returns the parsed body of a successful response', async () => {
+    responses = [json(200, { id: 'v1' })];
+    const result = await fetchJsonWithRetry<{ id: string }>('https://api.example.com', {}, FAST);
+    assert.deepEqual(result, { ok: true, data: { id: 'v1' }, status: 200, attempts: 1 });
+  });
+
+  it('retries transient and rate-limited failures until one succeeds', async () => {
+    responses = [json(503, {}), networkError(), json(429, {}), json(200, { id: 'v1' })];
+    const result = await fetchJsonWithRetry('https://api.example.com', {}, FAST);
+    assert.equal(result.ok, true);
+    assert.equal(result.attempts, 4);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    responses = [json(500, {}), json(500, {}), json(500, { error: { message: 'Backend error' } })];
+    const result = await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, maxAttempts: 3 });
+    assert.equal(result.ok, false);
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(!result.ok && result.error, { kind: 'transient', status: 500, message: 'Backend error (Status 500)' });
+  });
+
+  it('does not retry errors specific to the request', async () => {
+    for (const status of [400, 401, 404]) {
+      responses = [json(status, {})];
+      requests = 0;
+      const result = await fetchJsonWithRetry('https://api.example.com', {}, FAST);
+      assert.equal(result.attempts, 1);
+      assert.equal(!result.ok && result.error.kind, classifyHttpStatus(status));
+    }
+  });
+
+  it('honors Retry-After, and stops when it asks for a longer wait than allowed', async () => {
+    responses = [json(429, {}, { 'Retry-After': '0' }), json(200, {})];
+    assert.equal((await fetchJsonWithRetry('https://api.example.com', {}, FAST)).attempts, 2);
+
+    responses = [json(429, {}, { 'Retry-After': '3600' })];
+    requests = 0;
+    const result = await fetchJsonWithRetry('https://api.example.com', {}, FAST);
+    assert.equal(result.attempts, 1);
+    assert.equal(!result.ok && result.error.kind, 'rate-limited');
+  });
+
+  it('lets providers classify errors from the body', async () => {
+    responses = [json(400, { error: { code: 190 } })];
+    const result = await fetchJsonWithRetry('https://api.example.com', {}, {
+      ...FAST,
+      classifyError: (status, body: any) => (body?.error?.code === 190 ? 'auth' : null),
+    });
+    assert.equal(!result.ok && result.error.kind, 'auth');
+  });
+});
+
+describe('circuit breaker', () => {
+  it('opens after the threshold of consecutive failures and skips further requests', async () => {
+    const circuitBreaker = createCircuitBreaker(2);
+    responses = [json(500, {}), json(500, {})];
+    await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, maxAttempts: 1, circuitBreaker });
+    assert.equal(circuitBreaker.isOpen(), false);
+    await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, maxAttempts: 1, circuitBreaker });
+    assert.equal(circuitBreaker.isOpen(), true);
+
+    const result = await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, circuitBreaker });
+    assert.equal(requests, 2);
+    assert.equal(result.attempts, 0);
+    assert.equal(!result.ok && result.error.circuitOpen, true);
+  });
+
+  it('does not count request-specific failures against the provider', async () => {
+    const circuitBreaker = createCircuitBreaker(2);
+    responses = [json(500, {}), json(404, {}), json(500, {})];
+    for (let i = 0; i < 3; i++) {
+      await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, maxAttempts: 1, circuitBreaker });
+    }
+    assert.equal(circuitBreaker.consecutiveFailures, 1);
+    assert.equal(circuitBreaker.isOpen(), false);
+  });
+
+  it('closes again after a success', async () => {
+    const circuitBreaker = createCircuitBreaker(3);
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+    responses = [json(200, {})];
+    await fetchJsonWithRetry('https://api.example.com', {}, { ...FAST, circuitBreaker });
+    assert.equal(circuitBreaker.consecutiveFailures, 0);
+  });
+});
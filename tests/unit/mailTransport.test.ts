@@ -0,0 +1,215 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'node:net';
+import {
+  buildMimeMessage,
+  createMailTransport,
+  parseMailTransportSettings,
+  validateMailTransportSettings,
+  type MailTransportSettings,
+} from '@shared/mailTransport';
+
+// The SMTP dialogue is checked against a fake server on localhost, which records the commands it receives.
+
+interface FakeSmtpServer {
+  port: number;
+  commands: string[];
+  messages: string[]; // The DATA of each accepted message
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a fake SMTP server.
+ * @param options The EHLO extensions to offer, and replies that replace the default for a command verb.
+ * @returns The running server.
+ */
+const startFakeSmtpServer = (options: { extensions?: string[]; replies?: Record<string, string> } = {}): Promise<FakeSmtpServer> =>
+  new Promise(resolve => {
+    const commands: string[] = [];
+    const messages: string[] = [];
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer(socket => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+      socket.on('error', () => undefined);
+      let buffer = '';
+      let data: string[] | null = null;
+      socket.write('220 fake.example.com ESMTP\r\n');
+      socket.on('data', chunk => {
+        const lines = (buffer + chunk.toString('utf8')).split('\r\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (data) {
+            if (line === '.') {
+              messages.push(data.join('\r\n'));
+              data = null;
+              socket.write('250 2.0.0 Queued\r\n');
+            } else {
+              data.push(line);
+            }
+            continue;
+          }
+          commands.push(line);
+          const verb = line.split(' ')[0].toUpperCase();
+          if (options.replies?.[verb]) {
+            socket.write(`${options.replies[verb]}\r\n`);
+            continue;
+          }
+          switch (verb) {
+            case 'EHLO': {
+              const ehloLines = ['fake.example.com', ...(options.extensions || []), '8BITMIME'];
+              socket.write(ehloLines.map((text, index) => `250${index < ehloLines.length - 1 ? '-' : ' '}${text}\r\n`).join(''));
+              break;
+            }
+            case 'STARTTLS':
+              // The client starts a TLS handshake next, which this server cannot answer
+              socket.write('220 2.0.0 Ready to start TLS\r\n');
+              socket.removeAllListeners('data');
+              socket.on('data', () => socket.destroy());
+              return;
+            case 'MAIL':
+            case 'RCPT':
+              socket.write('250 2.1.0 OK\r\n');
+              break;
+            case 'DATA':
+              data = [];
+              socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+              break;
+            case 'QUIT':
+              socket.end('221 2.0.0 Bye\r\n');
+              break;
+            default:
+              socket.write('502 5.5.1 Command not implemented\r\n');
+          }
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve({
+      port: (server.address() as net.AddressInfo).port,
+      commands,
+      messages,
+      close: () => new Promise(done => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => done());
+      }),
+    }));
+  });
+
+const message = { to: 'Alice <alice@example.com>', subject: 'Your login code', text: 'Your code is 123456.\nIt expires in 10 minutes.' };
+
+const smtpSettings = (port: number, extra: Partial<MailTransportSettings> = {}): MailTransportSettings => ({
+  transport: 'smtp',
+  from: 'Brand Dikhega <login@example.com>',
+  host: '127.0.0.1',
+  port,
+  secure: false,
+  ...extra,
+} as MailTransportSettings);
+
+// Decodes the base64 body of a message built by buildMimeMessage.
+const decodeBody = (data: string): string =>
+  Buffer.from(data.split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString('utf8');
+
+let server: FakeSmtpServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('SMTP transport', () => {
+  it('sends a message through the SMTP dialogue', async () => {
+    server = await startFakeSmtpServer();
+    await createMailTransport(smtpSettings(server.port), '/').send(message);
+
+    assert.match(server.commands[0], /^EHLO \S+$/);
+    assert.deepEqual(server.commands.slice(1), ['MAIL FROM:<login@example.com>', 'RCPT TO:<alice@example.com>', 'DATA', 'QUIT']);
+    assert.equal(server.messages.length, 1);
+    assert.match(server.messages[0], /^From: Brand Dikhega <login@example.com>\r\n/);
+    assert.match(server.messages[0], /\r\nSubject: Your login code\r\n/);
+    assert.equal(decodeBody(server.messages[0]), 'Your code is 123456.\r\nIt expires in 10 minutes.');
+  });
+
+  it('upgrades to TLS with STARTTLS before anything else when the server offers it', async () => {
+    server = await startFakeSmtpServer({ extensions: ['STARTTLS', 'AUTH PLAIN'] });
+    await assert.rejects(createMailTransport(smtpSettings(server.port, { user: 'login', password: 'secret' }), '/').send(message));
+    assert.equal(server.commands.length, 2);
+    assert.equal(server.commands[1], 'STARTTLS');
+  });
+
+  it('does not send a password over an unencrypted connection', async () => {
+    server = await startFakeSmtpServer({ extensions: ['AUTH PLAIN'] });
+    await assert.rejects(
+      createMailTransport(smtpSettings(server.port, { user: 'login', password: 'secret' }), '/').send(message),
+      /does not offer STARTTLS/
+    );
+    assert.ok(!server.commands.some(command => command.startsWith('AUTH')));
+  });
+
+  it('fails with the reply of a refused command', async () => {
+    server = await startFakeSmtpServer({ replies: { RCPT: '550 5.1.1 No such user' } });
+    await assert.rejects(createMailTransport(smtpSettings(server.port), '/').send(message), /SMTP RCPT failed: 550 5\.1\.1 No such user/);
+    assert.equal(server.messages.length, 0);
+  });
+
+  it('fails when the server greets with an error', async () => {
+    const refusing = net.createServer(socket => socket.end('554 5.3.2 Service unavailable\r\n'));
+    await new Promise<void>(resolve => refusing.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = refusing.address() as net.AddressInfo;
+      await assert.rejects(createMailTransport(smtpSettings(port), '/').send(message), /SMTP greeting failed: 554/);
+    } finally {
+      await new Promise(resolve => refusing.close(resolve));
+    }
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('encodes non-ASCII subjects', () => {
+    const built = buildMimeMessage('login@example.com', { ...message, subject: 'Ihr Anmeldecode für heute' });
+    assert.match(built, /\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/);
+  });
+
+  it('refuses headers with line breaks', () => {
+    assert.throws(() => buildMimeMessage('login@example.com', { ...message, to: 'alice@example.com\r\nBcc: eve@example.com' }));
+  });
+});
+
+describe('validateMailTransportSettings', () => {
+  it('fills in the SMTP defaults', () => {
+    assert.deepEqual(validateMailTransportSettings({ transport: 'smtp', from: 'login@example.com', host: ' smtp.example.com ' }, false), {
+      settings: { transport: 'smtp', from: 'login@example.com', host: 'smtp.example.com', port: 587, secure: false },
+    });
+    assert.equal(
+      (validateMailTransportSettings({ transport: 'smtp', from: 'login@example.com', host: 'smtp.example.com', port: 465 }, false).settings as any)?.secure,
+      true
+    );
+  });
+
+  it('refuses incomplete SMTP settings', () => {
+    const invalid = [
+      { transport: 'smtp', host: 'smtp.example.com' },
+      { transport: 'smtp', from: 'login@example.com' },
+      { transport: 'smtp', from: 'login@example.com', host: 'smtp.example.com', port: 70000 },
+      { transport: 'smtp', from: 'login@example.com', host: 'smtp.example.com', user: 'login' },
+      { transport: 'smtp', from: 'login@example.com\r\nBcc: eve@example.com', host: 'smtp.example.com' },
+    ];
+    for (const value of invalid) {
+      assert.equal(validateMailTransportSettings(value, false).settings, null, JSON.stringify(value));
+    }
+  });
+
+  it('only allows the file and console transports in the emulator', () => {
+    for (const transport of ['file', 'console']) {
+      const outside = validateMailTransportSettings({ transport }, false);
+      assert.equal(outside.settings, null);
+      assert.match(outside.error || '', /only works in the emulator/);
+      assert.equal(validateMailTransportSettings({ transport }, true).settings?.transport, transport);
+    }
+  });
+
+  it('reports missing and malformed values', () => {
+    assert.equal(parseMailTransportSettings(undefined, true).error, 'No mail transport is configured.');
+    assert.equal(parseMailTransportSettings('{smtp', false).error, 'The mail transport setting is not valid JSON.');
+  });
+});
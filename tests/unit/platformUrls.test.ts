@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildInstagramPostUrl,
+  extractInstagramShortcode,
+  extractYouTubeVideoId,
+  parseInstagramPostUrl,
+  parseInstagramProfileInput,
+  parseTikTokVideoUrl,
+  parseYouTubeChannelInput,
+  parseYouTubeVideoUrl,
+  type ParsedUrlResult,
+  type UrlRejectionReason,
+} from '@shared/platformUrls';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+const CHANNEL_ID = 'UC_x5XG1OV2P6uZZ5FSM9Ttw';
+const TIKTOK_VIDEO_ID = '7234567890123456789';
+
+const valueOf = <T>(result: ParsedUrlResult<T>): T => {
+  assert.ok(result.ok, `Expected a parsed value, got: ${!result.ok && result.message}`);
+  return result.value;
+};
+
+const reasonOf = <T>(result: ParsedUrlResult<T>): UrlRejectionReason | undefined => (result.ok ? undefined : result.reason);
+
+describe('parseYouTubeVideoUrl', () => {
+  it('canonicalizes every kind of video link to the watch URL', () => {
+    const links: [string, string][] = [
+      [`https://www.youtube.com/watch?v=${VIDEO_ID}&t=42s&list=PL1`, 'watch'],
+      [`youtube.com/watch?feature=share&v=${VIDEO_ID}`, 'watch'],
+      [`https://m.youtube.com/watch?v=${VIDEO_ID}`, 'watch'],
+      [`https://music.youtube.com/watch?v=${VIDEO_ID}`, 'watch'],
+      [`https://youtu.be/${VIDEO_ID}?si=abc`, 'short-link'],
+      [`https://www.youtube.com/shorts/${VIDEO_ID}`, 'shorts'],
+      [`https://www.youtube-nocookie.com/embed/${VIDEO_ID}`, 'embed'],
+      [`https://www.youtube.com/live/${VIDEO_ID}?feature=share`, 'live'],
+      [`  HTTPS://WWW.YOUTUBE.COM/watch?v=${VIDEO_ID}  `, 'watch'],
+    ];
+    for (const [link, kind] of links) {
+      assert.deepEqual(valueOf(parseYouTubeVideoUrl(link)), {
+        videoId: VIDEO_ID,
+        kind,
+        canonicalUrl: `https://www.youtube.com/watch?v=${VIDEO_ID}`,
+      }, link);
+    }
+  });
+
+  it('explains why a link was rejected', () => {
+    assert.equal(reasonOf(parseYouTubeVideoUrl('   ')), 'empty');
+    assert.equal(reasonOf(parseYouTubeVideoUrl('https://exa mple.com')), 'invalid-url');
+    assert.equal(reasonOf(parseYouTubeVideoUrl('ftp://youtube.com/watch?v=' + VIDEO_ID)), 'invalid-url');
+    assert.equal(reasonOf(parseYouTubeVideoUrl(`https://vimeo.com/watch?v=${VIDEO_ID}`)), 'unsupported-host');
+    assert.equal(reasonOf(parseYouTubeVideoUrl('https://www.youtube.com/@channel')), 'unsupported-path');
+    assert.equal(reasonOf(parseYouTubeVideoUrl('https://www.youtube.com/watch?list=PL1')), 'unsupported-path');
+    assert.equal(reasonOf(parseYouTubeVideoUrl('https://youtu.be/short')), 'invalid-id');
+  });
+
+  it('returns null from extractYouTubeVideoId for links it rejects', () => {
+    assert.equal(extractYouTubeVideoId(`https://youtu.be/${VIDEO_ID}`), VIDEO_ID);
+    assert.equal(extractYouTubeVideoId('https://www.youtube.com/feed/trending'), null);
+  });
+});
+
+describe('parseYouTubeChannelInput', () => {
+  it('accepts channel IDs, handles and channel URLs', () => {
+    assert.deepEqual(valueOf(parseYouTubeChannelInput(CHANNEL_ID)), { kind: 'id', channelId: CHANNEL_ID });
+    assert.deepEqual(valueOf(parseYouTubeChannelInput(`https://www.youtube.com/channel/${CHANNEL_ID}/videos`)), { kind: 'id', channelId: CHANNEL_ID });
+    assert.deepEqual(valueOf(parseYouTubeChannelInput('@GoogleDevelopers')), { kind: 'handle', handle: '@GoogleDevelopers' });
+    assert.deepEqual(valueOf(parseYouTubeChannelInput('youtube.com/@GoogleDevelopers')), { kind: 'handle', handle: '@GoogleDevelopers' });
+    assert.deepEqual(valueOf(parseYouTubeChannelInput('https://www.youtube.com/c/GoogleDevelopers')), { kind: 'handle', handle: '@GoogleDevelopers' });
+    assert.deepEqual(valueOf(parseYouTubeChannelInput('https://www.youtube.com/user/GoogleDevelopers')), { kind: 'username', username: 'GoogleDevelopers' });
+  });
+
+  it('rejects malformed channels and non-channel links', () => {
+    assert.equal(reasonOf(parseYouTubeChannelInput('@a')), 'invalid-id');
+    assert.equal(reasonOf(parseYouTubeChannelInput('https://www.youtube.com/channel/UC123')), 'invalid-id');
+    assert.equal(reasonOf(parseYouTubeChannelInput(`https://www.youtube.com/watch?v=${VIDEO_ID}`)), 'unsupported-path');
+    assert.equal(reasonOf(parseYouTubeChannelInput('https://twitter.com/@GoogleDevelopers')), 'unsupported-host');
+    assert.equal(reasonOf(parseYouTubeChannelInput('https://www.youtube.com/@%zz')), 'invalid-id');
+  });
+});
+
+describe('parseInstagramPostUrl', () => {
+  it('canonicalizes post, reel and tv links', () => {
+    assert.deepEqual(valueOf(parseInstagramPostUrl('https://www.instagram.com/p/Cabc123_-/?igsh=xyz')), {
+      shortcode: 'Cabc123_-',
+      kind: 'post',
+      canonicalUrl: 'https://www.instagram.com/p/Cabc123_-/',
+    });
+    assert.deepEqual(valueOf(parseInstagramPostUrl('instagram.com/reels/Cabc123')), {
+      shortcode: 'Cabc123',
+      kind: 'reel',
+      canonicalUrl: 'https://www.instagram.com/reel/Cabc123/',
+    });
+    assert.equal(valueOf(parseInstagramPostUrl('https://instagr.am/tv/Cabc123')).canonicalUrl, 'https://www.instagram.com/tv/Cabc123/');
+  });
+
+  it('keeps the username of links that name the author', () => {
+    assert.deepEqual(valueOf(parseInstagramPostUrl('https://www.instagram.com/some.creator/reel/Cabc123/')), {
+      shortcode: 'Cabc123',
+      kind: 'reel',
+      username: 'some.creator',
+      canonicalUrl: 'https://www.instagram.com/reel/Cabc123/',
+    });
+  });
+
+  it('rejects links that are not a single post', () => {
+    assert.equal(reasonOf(parseInstagramPostUrl('https://www.instagram.com/some.creator/')), 'unsupported-path');
+    assert.equal(reasonOf(parseInstagramPostUrl('https://www.instagram.com/explore/tags/food/')), 'unsupported-path');
+    assert.equal(reasonOf(parseInstagramPostUrl('https://www.facebook.com/p/Cabc123')), 'unsupported-host');
+    assert.equal(reasonOf(parseInstagramPostUrl('https://www.instagram.com/p/Cabc%24123/')), 'invalid-id');
+    assert.equal(extractInstagramShortcode('https://www.instagram.com/stories/some.creator/'), null);
+  });
+
+  it('builds the canonical link for each kind', () => {
+    assert.equal(buildInstagramPostUrl('Cabc123'), 'https://www.instagram.com/p/Cabc123/');
+    assert.equal(buildInstagramPostUrl('Cabc123', 'reel'), 'https://www.instagram.com/reel/Cabc123/');
+  });
+});
+
+describe('parseInstagramProfileInput', () => {
+  it('accepts usernames and profile URLs, lowercased', () => {
+    assert.deepEqual(valueOf(parseInstagramProfileInput('@Some.Creator')), { username: 'some.creator' });
+    assert.deepEqual(valueOf(parseInstagramProfileInput('https://www.instagram.com/Some.Creator/?hl=en')), { username: 'some.creator' });
+  });
+
+  it('rejects Instagram pages that are not profiles', () => {
+    assert.equal(reasonOf(parseInstagramProfileInput('https://www.instagram.com/explore/')), 'unsupported-path');
+    assert.equal(reasonOf(parseInstagramProfileInput('https://www.instagram.com/p/Cabc123/')), 'unsupported-path');
+    assert.equal(reasonOf(parseInstagramProfileInput('https://www.tiktok.com/@creator')), 'unsupported-host');
+  });
+});
+
+describe('parseTikTokVideoUrl', () => {
+  it('canonicalizes video links with and without the author', () => {
+    assert.deepEqual(valueOf(parseTikTokVideoUrl(`https://www.tiktok.com/@creator/video/${TIKTOK_VIDEO_ID}?lang=en`)), {
+      videoId: TIKTOK_VIDEO_ID,
+      username: 'creator',
+      canonicalUrl: `https://www.tiktok.com/@creator/video/${TIKTOK_VIDEO_ID}`,
+    });
+    for (const link of [`https://www.tiktok.com/embed/v2/${TIKTOK_VIDEO_ID}`, `https://m.tiktok.com/v/${TIKTOK_VIDEO_ID}.html`]) {
+      assert.deepEqual(valueOf(parseTikTokVideoUrl(link)), {
+        videoId: TIKTOK_VIDEO_ID,
+        canonicalUrl: `https://www.tiktok.com/embed/v2/${TIKTOK_VIDEO_ID}`,
+      }, link);
+    }
+  });
+
+  it('rejects short links, profiles and malformed IDs', () => {
+    assert.equal(reasonOf(parseTikTokVideoUrl('https://vm.tiktok.com/ZMabc123/')), 'unsupported-path');
+    assert.equal(reasonOf(parseTikTokVideoUrl('https://www.tiktok.com/@creator')), 'unsupported-path');
+    assert.equal(reasonOf(parseTikTokVideoUrl('https://www.tiktok.com/@creator/video/123')), 'invalid-id');
+    assert.equal(reasonOf(parseTikTokVideoUrl(`https://www.tiktok.com/@bad!name/video/${TIKTOK_VIDEO_ID}`)), 'invalid-id');
+    assert.equal(reasonOf(parseTikTokVideoUrl('https://www.tiktok.com/@%E0%A4/video/123456789012345678')), 'invalid-id');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_REFRESH_POLICY,
+  MAX_REFRESH_INTERVAL_HOURS,
+  getRefreshIntervalHours,
+  isDiscoveryDue,
+  isRefreshDue,
+  parseRefreshPolicy,
+  validateRefreshPolicy,
+} from '@shared/refreshPolicy';
+
+const NOW = new Date('2024-06-15T12:00:00.000Z');
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+describe('getRefreshIntervalHours', () => {
+  it('picks the first tier the post is young enough for', () => {
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, hoursAgo(1), NOW), 1);
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, hoursAgo(48), NOW), 1);
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, hoursAgo(49), NOW), 6);
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, hoursAgo(24 * 10), NOW), 24);
+  });
+
+  it('uses the default interval for old posts and posts without a valid publish date', () => {
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, hoursAgo(24 * 31), NOW), 24 * 7);
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, undefined, NOW), 24 * 7);
+    assert.equal(getRefreshIntervalHours(DEFAULT_REFRESH_POLICY, 'not a date', NOW), 24 * 7);
+  });
+});
+
+describe('isRefreshDue', () => {
+  it('selects posts that were never fetched or whose last fetch failed', () => {
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, {}, NOW), true);
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { publishedAt: hoursAgo(24 * 60), lastFetched: hoursAgo(1), failed: true }, NOW), true);
+  });
+
+  it('selects posts once their interval has passed', () => {
+    const freshPost = { publishedAt: hoursAgo(5) };
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { ...freshPost, lastFetched: hoursAgo(1) }, NOW), true);
+    const oldPost = { publishedAt: hoursAgo(24 * 60) };
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { ...oldPost, lastFetched: hoursAgo(24) }, NOW), false);
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { ...oldPost, lastFetched: hoursAgo(24 * 7) }, NOW), true);
+  });
+
+  it('tolerates a post fetched a few minutes later in the previous run', () => {
+    const post = { publishedAt: hoursAgo(24 * 3) };
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { ...post, lastFetched: hoursAgo(6 - 5 / 60) }, NOW), true);
+    assert.equal(isRefreshDue(DEFAULT_REFRESH_POLICY, { ...post, lastFetched: hoursAgo(6 - 15 / 60) }, NOW), false);
+  });
+});
+
+describe('isDiscoveryDue', () => {
+  it('looks for new posts once a day', () => {
+    assert.equal(isDiscoveryDue(undefined, NOW), true);
+    assert.equal(isDiscoveryDue('not a date', NOW), true);
+    assert.equal(isDiscoveryDue(hoursAgo(1), NOW), false);
+    assert.equal(isDiscoveryDue(hoursAgo(23), NOW), false);
+    assert.equal(isDiscoveryDue(hoursAgo(24 - 5 / 60), NOW), true);
+    assert.equal(isDiscoveryDue(hoursAgo(25), NOW), true);
+  });
+});
+
+describe('validateRefreshPolicy', () => {
+  it('sorts the tiers and drops unknown fields', () => {
+    const { policy } = validateRefreshPolicy({
+      tiers: [{ maxAgeHours: 168, intervalHours: 6, note: 'week' }, { maxAgeHours: 24, intervalHours: 1 }],
+      defaultIntervalHours: 24,
+    });
+    assert.deepEqual(policy, {
+      tiers: [{ maxAgeHours: 24, intervalHours: 1 }, { maxAgeHours: 168, intervalHours: 6 }],
+      defaultIntervalHours: 24,
+    });
+  });
+
+  it('rejects invalid policies', () => {
+    const invalid: unknown[] = [
+      null,
+      { defaultIntervalHours: 24 },
+      { tiers: [], defaultIntervalHours: 0 },
+      { tiers: [], defaultIntervalHours: MAX_REFRESH_INTERVAL_HOURS + 1 },
+      { tiers: [{ maxAgeHours: 0, intervalHours: 1 }], defaultIntervalHours: 24 },
+      { tiers: [{ maxAgeHours: 24, intervalHours: 1.5 }], defaultIntervalHours: 24 },
+      { tiers: [{ maxAgeHours: 24, intervalHours: 1 }, { maxAgeHours: 24, intervalHours: 2 }], defaultIntervalHours: 24 },
+    ];
+    for (const value of invalid) {
+      const { policy, error } = validateRefreshPolicy(value);
+      assert.equal(policy, null, JSON.stringify(value));
+      assert.ok(error);
+    }
+  });
+});
+
+describe('parseRefreshPolicy', () => {
+  it('falls back to the default policy when no value is stored', () => {
+    assert.equal(parseRefreshPolicy(undefined).policy, DEFAULT_REFRESH_POLICY);
+    assert.equal(parseRefreshPolicy('  ').policy, DEFAULT_REFRESH_POLICY);
+  });
+
+  it('reports values that are not valid JSON', () => {
+    assert.deepEqual(parseRefreshPolicy('{tiers'), { policy: null, error: 'The refresh policy is not valid JSON.' });
+  });
+});
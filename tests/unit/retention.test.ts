@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_RETENTION_SETTINGS,
+  MAX_RETENTION_GRACE_DAYS,
+  getOrphanStatus,
+  parseRetentionSettings,
+  validateRetentionSettings,
+} from '@shared/retention';
+
+const NOW = new Date('2024-06-15T12:00:00.000Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('getOrphanStatus', () => {
+  it('leaves assigned documents alone and restores those marked as orphaned', () => {
+    assert.equal(getOrphanStatus(true, undefined, 7, NOW), 'assigned');
+    assert.equal(getOrphanStatus(true, daysAgo(30), 7, NOW), 'restored');
+  });
+
+  it('marks documents the first time they are found orphaned', () => {
+    assert.equal(getOrphanStatus(false, undefined, 7, NOW), 'newly-orphaned');
+  });
+
+  it('keeps orphaned documents for the grace period, then expires them', () => {
+    assert.equal(getOrphanStatus(false, daysAgo(6.9), 7, NOW), 'orphaned');
+    assert.equal(getOrphanStatus(false, daysAgo(7), 7, NOW), 'expired');
+    assert.equal(getOrphanStatus(false, daysAgo(30), 7, NOW), 'expired');
+  });
+
+  it('expires orphaned documents on the first run without a grace period', () => {
+    assert.equal(getOrphanStatus(false, undefined, 0, NOW), 'expired');
+  });
+
+  it('starts the grace period again when the mark cannot be read', () => {
+    assert.equal(getOrphanStatus(false, 'not a date', 7, NOW), 'newly-orphaned');
+  });
+});
+
+describe('validateRetentionSettings', () => {
+  it('accepts both actions and grace periods within the limit', () => {
+    assert.deepEqual(validateRetentionSettings({ action: 'delete', graceDays: 0 }), { settings: { action: 'delete', graceDays: 0 } });
+    assert.deepEqual(
+      validateRetentionSettings({ action: 'archive', graceDays: MAX_RETENTION_GRACE_DAYS, extra: true }),
+      { settings: { action: 'archive', graceDays: MAX_RETENTION_GRACE_DAYS } }
+    );
+  });
+
+  it('rejects unknown actions and invalid grace periods', () => {
+    const invalid: unknown[] = [
+      null,
+      'archive',
+      { action: 'purge', graceDays: 7 },
+      { action: 'archive' },
+      { action: 'archive', graceDays: -1 },
+      { action: 'archive', graceDays: 1.5 },
+      { action: 'archive', graceDays: MAX_RETENTION_GRACE_DAYS + 1 },
+    ];
+    for (const value of invalid) {
+      const { settings, error } = validateRetentionSettings(value);
+      assert.equal(settings, null, JSON.stringify(value));
+      assert.ok(error);
+    }
+  });
+});
+
+describe('parseRetentionSettings', () => {
+  it('falls back to the default settings when no value is stored', () => {
+    assert.equal(parseRetentionSettings(undefined).settings, DEFAULT_RETENTION_SETTINGS);
+    assert.equal(parseRetentionSettings('').settings, DEFAULT_RETENTION_SETTINGS);
+  });
+
+  it('reports values that are not valid JSON', () => {
+    assert.deepEqual(parseRetentionSettings('archive'), { settings: null, error: 'The retention setting is not valid JSON.' });
+  });
+});